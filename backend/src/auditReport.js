@@ -0,0 +1,213 @@
+import { PdfDocument } from './pdf.js';
+
+export const REPORT_FORMATS = ['csv', 'json', 'pdf'];
+export const AUDIT_REPORT_FORMAT = 'file-integrity-audit-report';
+export const AUDIT_REPORT_VERSION = 1;
+
+export const REPORT_MIME_TYPES = {
+  csv: 'text/csv',
+  json: 'application/json',
+  pdf: 'application/pdf'
+};
+
+/**
+ * Report entry for a stored record and its verification log (oldest first)
+ */
+export function reportEntryFromRecord(record, verifications) {
+  return {
+    id: record.id,
+    name: record.originalName,
+    description: record.description || '',
+    sha256: record.fileHash,
+    digests: record.digests || [],
+    size: record.size ?? null,
+    mimetype: record.mimetype || null,
+    uploadTime: record.uploadTime,
+    version: record.version || 1,
+    supersededBy: record.supersededBy || null,
+    ownerId: record.ownerId || null,
+    uploaderAddress: record.uploaderAddress || null,
+    revocation: record.revocation
+      ? {
+          reason: record.revocation.reason,
+          revokedAt: record.revocation.revokedAt,
+          transactionHash: record.revocation.transactionHash || null
+        }
+      : null,
+    anchoring: {
+      mode: record.anchorMode || 'individual',
+      transactionHash: record.blockchain?.transactionHash || null,
+      blockNumber: record.blockchain?.blockNumber ?? null,
+      batchId: record.batch?.batchId || null
+    },
+    integrity: record.integrity
+      ? { status: record.integrity.status, lastCheckedAt: record.integrity.lastCheckedAt }
+      : null,
+    verifications: verifications.map(entry => ({
+      timestamp: entry.timestamp,
+      source: entry.source,
+      method: entry.method,
+      outcome: entry.outcome,
+      requester: entry.requester?.userId || entry.requester?.address || null,
+      transactionHash: entry.chain?.transactionHash || null
+    }))
+  };
+}
+
+export function buildAuditReport(entries, { generatedAt = new Date().toISOString(), generatedBy, filters = {} }) {
+  const count = (predicate) => entries.filter(predicate).length;
+  return {
+    format: AUDIT_REPORT_FORMAT,
+    version: AUDIT_REPORT_VERSION,
+    generatedAt,
+    generatedBy,
+    filters,
+    summary: {
+      records: entries.length,
+      revoked: count(entry => entry.revocation),
+      superseded: count(entry => entry.supersededBy),
+      anchored: count(entry => entry.anchoring.transactionHash || entry.anchoring.batchId),
+      verifications: entries.reduce((sum, entry) => sum + entry.verifications.length, 0)
+    },
+    records: entries
+  };
+}
+
+const CSV_COLUMNS = [
+  'id', 'name', 'sha256', 'size', 'mimetype', 'uploadTime', 'version', 'supersededBy', 'revokedAt',
+  'revocationReason', 'anchorMode', 'transactionHash', 'batchId', 'integrity', 'verifications',
+  'lastVerifiedAt', 'lastOutcome'
+];
+
+function toCsvValue(value) {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One line per record; the verification history is summarized by its count and latest entry
+ */
+export function toAuditReportCsv(report) {
+  const lines = report.records.map(entry => {
+    const last = entry.verifications[entry.verifications.length - 1];
+    return [
+      entry.id,
+      entry.name,
+      entry.sha256,
+      entry.size,
+      entry.mimetype,
+      entry.uploadTime,
+      entry.version,
+      entry.supersededBy,
+      entry.revocation?.revokedAt,
+      entry.revocation?.reason,
+      entry.anchoring.mode,
+      entry.anchoring.transactionHash,
+      entry.anchoring.batchId,
+      entry.integrity?.status,
+      entry.verifications.length,
+      last?.timestamp,
+      last?.outcome
+    ].map(toCsvValue).join(',');
+  });
+  return `${[CSV_COLUMNS.join(','), ...lines].join('\n')}\n`;
+}
+
+function describeFilters(filters) {
+  const parts = Object.entries(filters).map(([name, value]) => `${name}=${value}`);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+function describeSize(size) {
+  return size === null ? 'size unknown' : `${size} bytes`;
+}
+
+function describeStatus(entry) {
+  if (entry.revocation) {
+    return `revoked ${entry.revocation.revokedAt}: ${entry.revocation.reason}`;
+  }
+  return entry.supersededBy ? `superseded by #${entry.supersededBy}` : 'latest version';
+}
+
+function describeAnchoring(entry) {
+  const { mode, transactionHash, blockNumber, batchId } = entry.anchoring;
+  if (transactionHash) {
+    return `transaction ${transactionHash} (block ${blockNumber})`;
+  }
+  if (batchId) {
+    return `Merkle batch #${batchId}`;
+  }
+  return mode === 'batch' ? 'waiting for the next Merkle batch' : 'not recorded on-chain';
+}
+
+/**
+ * Paginated PDF: a summary page header, then every record with its verification history
+ */
+export function toAuditReportPdf(report) {
+  const pdf = new PdfDocument({
+    title: 'File Integrity Audit Report',
+    author: report.generatedBy?.email || '',
+    createdAt: new Date(report.generatedAt)
+  });
+  const { summary } = report;
+
+  pdf.text('File Integrity Audit Report', { font: 'bold', size: 18 });
+  pdf.space(6);
+  pdf.text(`Generated at ${report.generatedAt}${report.generatedBy ? ` by ${report.generatedBy.email}` : ''}`);
+  pdf.text(`Filters: ${describeFilters(report.filters)}`);
+  pdf.text(
+    `${summary.records} record(s): ${summary.revoked} revoked, ${summary.superseded} superseded, `
+      + `${summary.anchored} anchored; ${summary.verifications} verification(s)`
+  );
+  pdf.space(4);
+  pdf.text(
+    'This report was registered in the file registry when it was generated. Upload a copy under File '
+      + 'Verification to check that it has not been altered.',
+    { size: 9 }
+  );
+
+  for (const entry of report.records) {
+    pdf.space(6);
+    pdf.rule();
+    pdf.text(`#${entry.id}  ${entry.name}  (v${entry.version})`, { font: 'bold', size: 11 });
+    pdf.text(`SHA-256 ${entry.sha256}`, { font: 'mono', size: 8 });
+    pdf.text(`Uploaded ${entry.uploadTime}, ${describeSize(entry.size)}, ${entry.mimetype || 'type unknown'}`, { size: 9 });
+    if (entry.description) {
+      pdf.text(entry.description, { size: 9 });
+    }
+    pdf.text(`Status: ${describeStatus(entry)}`, { size: 9 });
+    pdf.text(`Anchoring: ${describeAnchoring(entry)}`, { size: 9 });
+    pdf.text(`Stored copy: ${entry.integrity ? `${entry.integrity.status} (checked ${entry.integrity.lastCheckedAt})` : 'not checked'}`, { size: 9 });
+
+    pdf.text(`Verification history (${entry.verifications.length})`, { font: 'bold', size: 9 });
+    if (entry.verifications.length === 0) {
+      pdf.text('No verifications recorded', { size: 9, indent: 12 });
+    }
+    for (const verification of entry.verifications) {
+      const requester = verification.requester ? ` by ${verification.requester}` : '';
+      pdf.text(
+        `${verification.timestamp}  ${verification.outcome}  ${verification.method} via ${verification.source}${requester}`,
+        { size: 9, indent: 12 }
+      );
+    }
+  }
+
+  return pdf.toBuffer({
+    footer: (page, pageCount) => `Audit report generated ${report.generatedAt}  -  page ${page} of ${pageCount}`
+  });
+}
+
+/**
+ * The report document in one of REPORT_FORMATS
+ * @returns {Buffer}
+ */
+export function renderAuditReport(report, format) {
+  switch (format) {
+    case 'csv':
+      return Buffer.from(toAuditReportCsv(report));
+    case 'json':
+      return Buffer.from(`${JSON.stringify(report, null, 2)}\n`);
+    default:
+      return toAuditReportPdf(report);
+  }
+}
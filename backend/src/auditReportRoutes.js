@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { buildAuditReport, renderAuditReport, reportEntryFromRecord, REPORT_MIME_TYPES } from './auditReport.js';
+import { fileFilterFromQuery, formatRecord } from './store/records.js';
+import { UPLOAD_DIR } from './uploads.js';
+
+/**
+ * Signed audit reports of the caller's records
+ */
+export function createAuditReportRouter({ store, fileRecords, proofSigner, maxRecords, requireAuth, validateRequest }) {
+  const router = express.Router();
+
+  /**
+   * Audit report of the records matching the GET /api/files filters, with their
+   * verification history, as `format=csv|json|pdf`. The document is registered
+   * as a record of its own (stored, hashed and anchored with the next Merkle
+   * batch) and its SHA-256 is signed with the proof key, so a copy can later be
+   * checked through /api/verify. Download it from /api/ipfs/<record.ipfsHash>.
+   */
+  router.post('/reports/audit', requireAuth, validateRequest('createAuditReport'), async (req, res) => {
+    try {
+      const { format = 'pdf', sort = 'uploadTime', order = 'desc' } = req.query;
+      const { records, nextCursor } = await store.queryFiles({
+        filter: fileFilterFromQuery(req),
+        sort,
+        order,
+        limit: maxRecords
+      });
+      if (nextCursor) {
+        return res.status(400).json({
+          error: `The report would list more than the limit of ${maxRecords} records; narrow the filters`,
+          code: 'REPORT_TOO_LARGE'
+        });
+      }
+
+      const verificationsByFile = new Map();
+      for (const entry of await store.listVerifications()) {
+        if (entry.fileId) {
+          if (!verificationsByFile.has(entry.fileId)) {
+            verificationsByFile.set(entry.fileId, []);
+          }
+          verificationsByFile.get(entry.fileId).push(entry);
+        }
+      }
+
+      const { uploadBatchId, q, hash, mimetype, status, uploader, from, to } = req.query;
+      const filters = Object.fromEntries(
+        Object.entries({ uploadBatchId, q, hash, mimetype, status, uploader, from, to }).filter(([, value]) => value)
+      );
+      const generatedAt = new Date().toISOString();
+      const report = buildAuditReport(
+        records.map(record => reportEntryFromRecord(record, verificationsByFile.get(record.id) || [])),
+        { generatedAt, generatedBy: { id: req.user.id, email: req.user.email, role: req.user.role }, filters }
+      );
+      const content = renderAuditReport(report, format);
+
+      // Stored like an upload, so the report is monitored and can be downloaded and verified later
+      const fileName = `audit-report-${generatedAt.replace(/[:.]/g, '-')}.${format}`;
+      fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+      const filePath = path.join(UPLOAD_DIR, `${Date.now()}-${crypto.randomBytes(4).toString('hex')}-${fileName}`);
+      fs.writeFileSync(filePath, content);
+
+      const record = await fileRecords.createFileRecord(
+        { path: filePath, originalname: fileName, size: content.length, mimetype: REPORT_MIME_TYPES[format] },
+        {
+          description: `Audit report (${format.toUpperCase()}) of ${records.length} record(s), generated ${generatedAt}`,
+          anchorMode: 'batch',
+          ownerId: req.user.id,
+          uploaderAddress: req.walletAddress
+        }
+      );
+
+      const summary = {
+        type: 'audit-report',
+        fileName,
+        format,
+        sha256: record.fileHash,
+        generatedAt,
+        recordId: record.id,
+        recordCount: records.length
+      };
+
+      res.json({
+        success: true,
+        message: `Audit report of ${records.length} record(s) registered as record ${record.id}`,
+        data: {
+          report: summary,
+          signature: await proofSigner.sign(summary),
+          record: formatRecord(record)
+        }
+      });
+
+    } catch (error) {
+      console.error('Audit report error:', error);
+      res.status(500).json({
+        error: 'Failed to generate audit report',
+        details: error.message
+      });
+    }
+  });
+
+  return router;
+}
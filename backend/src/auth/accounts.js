@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { hashPassword, MIN_PASSWORD_LENGTH } from './passwords.js';
+
+export function normalizeEmail(email) {
+  return String(email || '').trim().toLowerCase();
+}
+
+/**
+ * Public view of a user account (never expose password or API key hashes)
+ */
+export function formatUser(user) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    walletAddress: user.walletAddress || null,
+    createdAt: user.createdAt,
+    apiKeys: (user.apiKeys || []).map(({ id, name, prefix, createdAt }) => ({ id, name, prefix, createdAt }))
+  };
+}
+
+/**
+ * Create the admin account named by `email` (with `password`) or `wallet` if
+ * it does not exist yet. An existing account is never promoted, since anyone
+ * could have registered that email or wallet before.
+ */
+export async function seedAdminAccount(store, { email: adminEmail, password, wallet }) {
+  const email = normalizeEmail(adminEmail);
+  const walletAddress = wallet ? ethers.getAddress(wallet) : null;
+
+  if (!email && !walletAddress) {
+    if (!(await store.listUsers()).some(user => user.role === 'admin')) {
+      console.warn('⚠️  No admin account: set ADMIN_EMAIL and ADMIN_PASSWORD, or ADMIN_WALLET, and restart');
+    }
+    return;
+  }
+  if (email && password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`ADMIN_PASSWORD must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const existing = (email && await store.findUserByEmail(email)) || (walletAddress && await store.findUserByWallet(walletAddress));
+  if (existing) {
+    if (existing.role !== 'admin') {
+      console.warn(`⚠️  ${email || walletAddress} belongs to an existing user account, which was not made admin`);
+    }
+    return;
+  }
+
+  await store.insertUser({
+    id: crypto.randomUUID(),
+    email: email || null,
+    name: '',
+    role: 'admin',
+    passwordHash: email ? await hashPassword(password) : null,
+    walletAddress,
+    apiKeys: [],
+    createdAt: new Date().toISOString()
+  });
+  console.log(`👤 Created admin account ${email || walletAddress}`);
+}
@@ -0,0 +1,19 @@
+import crypto from 'crypto';
+
+const API_KEY_PREFIX = 'fik_';
+
+/**
+ * New API key. Only the SHA-256 hash is stored; the plain key is shown once.
+ */
+export function generateApiKey() {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+  return { key, keyHash: hashApiKey(key), prefix: key.slice(0, API_KEY_PREFIX.length + 6) };
+}
+
+export function hashApiKey(key) {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function isApiKey(value) {
+  return String(value).startsWith(API_KEY_PREFIX);
+}
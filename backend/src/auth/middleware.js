@@ -0,0 +1,67 @@
+import { hashApiKey, isApiKey } from './apiKeys.js';
+
+export const ROLES = ['user', 'admin'];
+
+/**
+ * Express middleware resolving the caller from "Authorization: Bearer <jwt>"
+ * or an API key ("X-API-Key: <key>", or the key itself as bearer token).
+ * Sign-In with Ethereum sessions carry the wallet address they were issued for.
+ */
+export function createAuth({ store, tokens }) {
+  async function resolveUser(req) {
+    const header = req.get('authorization') || '';
+    const bearer = header.startsWith('Bearer ') ? header.slice(7).trim() : null;
+    const apiKey = req.get('x-api-key') || (bearer && isApiKey(bearer) ? bearer : null);
+
+    if (apiKey) {
+      const user = await store.findUserByApiKey(hashApiKey(apiKey));
+      return user ? { user, method: 'api_key', session: null } : null;
+    }
+
+    if (bearer) {
+      const claims = tokens.verify(bearer);
+      const user = claims ? await store.getUser(claims.sub) : null;
+      return user ? { user, method: claims.address ? 'siwe' : 'jwt', session: claims } : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Attach req.user, req.session and req.walletAddress (or null) without
+   * rejecting anonymous requests
+   */
+  async function authenticate(req, res, next) {
+    try {
+      const resolved = await resolveUser(req);
+      req.user = resolved?.user || null;
+      req.authMethod = resolved?.method || null;
+      req.session = resolved?.session || null;
+      req.walletAddress = resolved?.session?.address || resolved?.user.walletAddress || null;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  function requireAuth(req, res, next) {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    next();
+  }
+
+  function requireRole(role) {
+    return (req, res, next) => {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+      if (req.user.role !== role) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+      next();
+    };
+  }
+
+  return { authenticate, requireAuth, requireRole };
+}
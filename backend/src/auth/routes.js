@@ -0,0 +1,291 @@
+import crypto from 'crypto';
+import express from 'express';
+import { ethers } from 'ethers';
+import { getChainConfig, sameAddress } from '../chain/contract.js';
+import { formatUser, normalizeEmail } from './accounts.js';
+import { generateApiKey } from './apiKeys.js';
+import { ROLES } from './middleware.js';
+import { hashPassword, verifyPassword, MIN_PASSWORD_LENGTH } from './passwords.js';
+
+/**
+ * Accounts and sessions: registration, email and Sign-In with Ethereum login,
+ * API keys and, for admins, user roles
+ */
+export function createAuthRouter({ store, tokens, siweChallenges, allowRegistration, requireAuth, requireRole, validateRequest }) {
+  const router = express.Router();
+
+  /**
+   * Create a user account. Admins are seeded from ADMIN_EMAIL or ADMIN_WALLET.
+   */
+  router.post('/auth/register', validateRequest('register'), async (req, res) => {
+    try {
+      if (!allowRegistration) {
+        return res.status(403).json({ error: 'Registration is disabled', code: 'REGISTRATION_DISABLED' });
+      }
+
+      const email = normalizeEmail(req.body.email);
+      const { password, name = '' } = req.body;
+      if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+        return res.status(400).json({ error: 'A valid email is required' });
+      }
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+      if (await store.findUserByEmail(email)) {
+        return res.status(409).json({ error: 'An account with this email already exists', code: 'EMAIL_TAKEN' });
+      }
+
+      const user = await store.insertUser({
+        id: crypto.randomUUID(),
+        email,
+        name: String(name).trim(),
+        role: 'user',
+        passwordHash: await hashPassword(password),
+        walletAddress: null,
+        apiKeys: [],
+        createdAt: new Date().toISOString()
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Account created',
+        data: { token: tokens.sign({ sub: user.id, role: user.role }), user: formatUser(user) }
+      });
+
+    } catch (error) {
+      console.error('Registration error:', error);
+      res.status(500).json({
+        error: 'Failed to create account',
+        details: error.message
+      });
+    }
+  });
+
+  /**
+   * Exchange email and password for a session token
+   */
+  router.post('/auth/login', validateRequest('login'), async (req, res) => {
+    try {
+      const user = await store.findUserByEmail(normalizeEmail(req.body.email));
+      if (!user || !(await verifyPassword(String(req.body.password || ''), user.passwordHash))) {
+        return res.status(401).json({ error: 'Invalid email or password', code: 'INVALID_CREDENTIALS' });
+      }
+
+      res.json({
+        success: true,
+        message: 'Signed in',
+        data: { token: tokens.sign({ sub: user.id, role: user.role }), user: formatUser(user) }
+      });
+
+    } catch (error) {
+      console.error('Login error:', error);
+      res.status(500).json({
+        error: 'Failed to sign in',
+        details: error.message
+      });
+    }
+  });
+
+  /**
+   * Sign-In with Ethereum step 1: a one-time EIP-4361 message for the wallet to sign
+   */
+  router.post('/auth/siwe/challenge', validateRequest('createSiweChallenge'), (req, res) => {
+    const { address, chainId = getChainConfig().chainId } = req.body;
+    if (!address || !ethers.isAddress(address)) {
+      return res.status(400).json({ error: 'A valid Ethereum address is required' });
+    }
+
+    // The message names the site asking for the signature; browsers send it as Origin
+    const origin = req.get('origin') || siweChallenges.origins[0];
+    if (!origin || !siweChallenges.allowsOrigin(origin)) {
+      return res.status(403).json({ error: `Sign-in with Ethereum is not allowed from ${origin || 'this site'} (SIWE_ORIGINS)` });
+    }
+    const challenge = siweChallenges.issue({ address, origin, chainId: String(chainId) });
+
+    res.json({ success: true, data: challenge });
+  });
+
+  /**
+   * Sign-In with Ethereum step 2: check the signature and start a session bound
+   * to the wallet. A signed-in caller links the wallet to their account instead.
+   */
+  router.post('/auth/siwe/verify', validateRequest('verifySiwe'), async (req, res) => {
+    try {
+      const { message, signature } = req.body;
+      if (!message || !signature) {
+        return res.status(400).json({ error: 'message and signature are required' });
+      }
+
+      const result = siweChallenges.verify(message, signature);
+      if (result.error) {
+        return res.status(401).json({ error: result.error, code: 'INVALID_SIGNATURE' });
+      }
+      const { address } = result;
+
+      const walletOwner = await store.findUserByWallet(address);
+      let user;
+      if (req.user) {
+        if (walletOwner && walletOwner.id !== req.user.id) {
+          return res.status(409).json({ error: 'This wallet is linked to another account', code: 'WALLET_CONFLICT' });
+        }
+        if (req.user.walletAddress && !sameAddress(req.user.walletAddress, address)) {
+          return res.status(409).json({ error: `This account is linked to wallet ${req.user.walletAddress}`, code: 'WALLET_CONFLICT' });
+        }
+        user = await store.updateUser(req.user.id, { walletAddress: address });
+      } else if (walletOwner) {
+        user = walletOwner;
+      } else {
+        if (!allowRegistration) {
+          return res.status(403).json({ error: 'Registration is disabled', code: 'REGISTRATION_DISABLED' });
+        }
+        user = await store.insertUser({
+          id: crypto.randomUUID(),
+          email: null,
+          name: '',
+          role: 'user',
+          passwordHash: null,
+          walletAddress: address,
+          apiKeys: [],
+          createdAt: new Date().toISOString()
+        });
+      }
+
+      res.json({
+        success: true,
+        message: `Signed in as ${address}`,
+        data: { token: tokens.sign({ sub: user.id, role: user.role, address }), user: formatUser(user) }
+      });
+
+    } catch (error) {
+      console.error('Sign-in with Ethereum error:', error);
+      res.status(500).json({
+        error: 'Failed to sign in with Ethereum',
+        details: error.message
+      });
+    }
+  });
+
+  /**
+   * End the current session token
+   */
+  router.post('/auth/logout', validateRequest('logout'), (req, res) => {
+    tokens.revoke(req.session);
+    res.json({ success: true, message: 'Signed out' });
+  });
+
+  /**
+   * Current account
+   */
+  router.get('/auth/me', requireAuth, validateRequest('getCurrentUser'), (req, res) => {
+    res.json({
+      success: true,
+      data: { ...formatUser(req.user), authMethod: req.authMethod, sessionAddress: req.session?.address || null }
+    });
+  });
+
+  /**
+   * Create an API key for scripts and integrations. The key is only returned here.
+   */
+  router.post('/auth/api-keys', requireAuth, validateRequest('createApiKey'), async (req, res) => {
+    try {
+      const { key, keyHash, prefix } = generateApiKey();
+      const apiKey = {
+        id: crypto.randomUUID(),
+        name: String(req.body.name || 'API key').trim(),
+        prefix,
+        keyHash,
+        createdAt: new Date().toISOString()
+      };
+      await store.updateUser(req.user.id, { apiKeys: [...(req.user.apiKeys || []), apiKey] });
+
+      res.status(201).json({
+        success: true,
+        message: 'API key created. Store it now, it will not be shown again.',
+        data: { id: apiKey.id, name: apiKey.name, prefix, createdAt: apiKey.createdAt, key }
+      });
+
+    } catch (error) {
+      console.error('API key error:', error);
+      res.status(500).json({
+        error: 'Failed to create API key',
+        details: error.message
+      });
+    }
+  });
+
+  /**
+   * Revoke one of the caller's API keys
+   */
+  router.delete('/auth/api-keys/:keyId', requireAuth, validateRequest('revokeApiKey'), async (req, res) => {
+    try {
+      const apiKeys = req.user.apiKeys || [];
+      if (!apiKeys.some(apiKey => apiKey.id === req.params.keyId)) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+
+      await store.updateUser(req.user.id, {
+        apiKeys: apiKeys.filter(apiKey => apiKey.id !== req.params.keyId)
+      });
+
+      res.json({ success: true, message: 'API key revoked' });
+
+    } catch (error) {
+      console.error('API key error:', error);
+      res.status(500).json({
+        error: 'Failed to revoke API key',
+        details: error.message
+      });
+    }
+  });
+
+  /**
+   * List all accounts (admin only)
+   */
+  router.get('/users', requireRole('admin'), validateRequest('listUsers'), async (req, res) => {
+    try {
+      const users = (await store.listUsers())
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(formatUser);
+
+      res.json({ success: true, data: users });
+
+    } catch (error) {
+      console.error('Error listing users:', error);
+      res.status(500).json({
+        error: 'Failed to list users',
+        details: error.message
+      });
+    }
+  });
+
+  /**
+   * Change an account's role (admin only)
+   */
+  router.patch('/users/:id', requireRole('admin'), validateRequest('updateUser'), async (req, res) => {
+    try {
+      const { role } = req.body;
+      if (!ROLES.includes(role)) {
+        return res.status(400).json({ error: `role must be one of: ${ROLES.join(', ')}` });
+      }
+      if (req.params.id === req.user.id && role !== 'admin') {
+        return res.status(400).json({ error: 'Admins cannot remove their own admin role' });
+      }
+
+      const user = await store.updateUser(req.params.id, { role });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      res.json({ success: true, message: 'Role updated', data: formatUser(user) });
+
+    } catch (error) {
+      console.error('Error updating user:', error);
+      res.status(500).json({
+        error: 'Failed to update user',
+        details: error.message
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+
+/**
+ * Sign-In with Ethereum (EIP-4361). The server builds the message around a
+ * one-time nonce, the wallet signs it with personal_sign and the server
+ * recovers the signer. Challenges live in memory and expire after a few minutes.
+ *
+ * The domain and URI of the message come from a fixed list of origins, never
+ * from the caller alone: a wallet warns when the site asking for a signature is
+ * not the message's domain, which is what stops another site from collecting a
+ * signature it can exchange for a session here.
+ */
+
+const STATEMENT = 'Sign in to the File Integrity registry. This request will not trigger a transaction or cost any gas.';
+
+/**
+ * EIP-4361 message text
+ */
+export function createSiweMessage({ domain, address, uri, chainId, nonce, issuedAt, expirationTime }) {
+  return [
+    `${domain} wants you to sign in with your Ethereum account:`,
+    address,
+    '',
+    STATEMENT,
+    '',
+    `URI: ${uri}`,
+    'Version: 1',
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`,
+    `Expiration Time: ${expirationTime}`
+  ].join('\n');
+}
+
+/**
+ * Read the "Key: value" fields of a SIWE message
+ */
+export function parseSiweMessage(message) {
+  const lines = String(message).split('\n');
+  const fields = { domain: lines[0]?.split(' wants you to sign in')[0] || null, address: lines[1] || null };
+  for (const line of lines.slice(2)) {
+    const match = /^(URI|Version|Chain ID|Nonce|Issued At|Expiration Time): (.+)$/.exec(line);
+    if (match) {
+      fields[match[1]] = match[2];
+    }
+  }
+  return {
+    domain: fields.domain,
+    address: fields.address,
+    uri: fields.URI || null,
+    chainId: fields['Chain ID'] || null,
+    nonce: fields.Nonce || null,
+    issuedAt: fields['Issued At'] || null,
+    expirationTime: fields['Expiration Time'] || null
+  };
+}
+
+export class SiweChallenges {
+  /**
+   * @param {object} options
+   * @param {string[]} options.origins Sites allowed to ask for a sign-in, e.g. "https://app.example.com"
+   * @param {number} [options.ttlSeconds] Lifetime of a challenge
+   */
+  constructor({ origins, ttlSeconds = Number(process.env.SIWE_NONCE_TTL_SECONDS || 300) }) {
+    this.origins = origins.map(origin => new URL(origin).origin);
+    this.ttlSeconds = ttlSeconds;
+    this.pending = new Map();
+  }
+
+  allowsOrigin(origin) {
+    return this.origins.includes(origin);
+  }
+
+  /**
+   * Create a challenge message for an address, naming `origin` as domain and URI
+   * @throws if the address is not a valid Ethereum address or the origin is not allowed
+   */
+  issue({ address, origin, chainId }) {
+    if (!this.allowsOrigin(origin)) {
+      throw new Error(`Sign-in is not allowed from ${origin}`);
+    }
+    this.prune();
+
+    const checksummed = ethers.getAddress(address);
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + this.ttlSeconds * 1000);
+    const message = createSiweMessage({
+      domain: new URL(origin).host,
+      address: checksummed,
+      uri: origin,
+      chainId,
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: expiresAt.toISOString()
+    });
+
+    this.pending.set(nonce, { address: checksummed, origin, message, expiresAt: expiresAt.getTime() });
+    return { message, nonce, expiresAt: expiresAt.toISOString() };
+  }
+
+  /**
+   * Consume the challenge a signed message answers. Each nonce can be used once.
+   * @returns {{ address: string } | { error: string }}
+   */
+  verify(message, signature) {
+    const { nonce, domain, uri } = parseSiweMessage(message);
+    const challenge = nonce ? this.pending.get(nonce) : null;
+    if (!challenge) {
+      return { error: 'Unknown or already used nonce' };
+    }
+    this.pending.delete(nonce);
+
+    if (challenge.expiresAt < Date.now()) {
+      return { error: 'Sign-in challenge expired' };
+    }
+    if (challenge.message !== message) {
+      return { error: 'Signed message does not match the challenge' };
+    }
+    if (!this.allowsOrigin(uri) || uri !== challenge.origin || domain !== new URL(challenge.origin).host) {
+      return { error: 'Signed message is for another domain' };
+    }
+
+    let recovered;
+    try {
+      recovered = ethers.verifyMessage(message, signature);
+    } catch {
+      return { error: 'Signature is malformed' };
+    }
+    if (recovered !== challenge.address) {
+      return { error: 'Signature was not made by the challenged address' };
+    }
+    return { address: challenge.address };
+  }
+
+  prune() {
+    const now = Date.now();
+    for (const [nonce, challenge] of this.pending) {
+      if (challenge.expiresAt < now) {
+        this.pending.delete(nonce);
+      }
+    }
+  }
+}
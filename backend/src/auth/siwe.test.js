@@ -0,0 +1,81 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { SiweChallenges, createSiweMessage, parseSiweMessage } from './siwe.js';
+
+const ORIGIN = 'https://app.example.com';
+
+describe('SiweChallenges', function () {
+  let challenges;
+  let wallet;
+
+  beforeEach(function () {
+    challenges = new SiweChallenges({ origins: [ORIGIN, 'http://localhost:5173/'] });
+    wallet = ethers.Wallet.createRandom();
+  });
+
+  it('Should accept a challenge signed by the challenged wallet', async function () {
+    const { message } = challenges.issue({ address: wallet.address.toLowerCase(), origin: ORIGIN, chainId: 31337 });
+    const fields = parseSiweMessage(message);
+
+    assert.equal(fields.domain, 'app.example.com');
+    assert.equal(fields.uri, ORIGIN);
+    assert.equal(fields.address, wallet.address);
+    assert.equal(fields.chainId, '31337');
+
+    assert.deepEqual(challenges.verify(message, await wallet.signMessage(message)), { address: wallet.address });
+  });
+
+  it('Should normalize configured origins', function () {
+    assert.ok(challenges.allowsOrigin('http://localhost:5173'));
+    assert.equal(challenges.allowsOrigin('http://localhost:3000'), false);
+  });
+
+  it('Should not issue challenges for other origins', function () {
+    assert.throws(
+      () => challenges.issue({ address: wallet.address, origin: 'https://evil.example', chainId: 1 }),
+      /not allowed/
+    );
+  });
+
+  it('Should accept each nonce once', async function () {
+    const { message } = challenges.issue({ address: wallet.address, origin: ORIGIN, chainId: 1 });
+    const signature = await wallet.signMessage(message);
+
+    assert.ok(challenges.verify(message, signature).address);
+    assert.match(challenges.verify(message, signature).error, /already used/);
+  });
+
+  it('Should reject signatures from another wallet', async function () {
+    const { message } = challenges.issue({ address: wallet.address, origin: ORIGIN, chainId: 1 });
+    const other = ethers.Wallet.createRandom();
+
+    assert.match(challenges.verify(message, await other.signMessage(message)).error, /not made by the challenged address/);
+  });
+
+  it('Should reject a message rewritten for another domain', async function () {
+    const { message, nonce, expiresAt } = challenges.issue({ address: wallet.address, origin: ORIGIN, chainId: 1 });
+    const fields = parseSiweMessage(message);
+    const forged = createSiweMessage({
+      ...fields,
+      domain: 'evil.example',
+      uri: 'https://evil.example',
+      nonce,
+      expirationTime: expiresAt
+    });
+
+    assert.match(challenges.verify(forged, await wallet.signMessage(forged)).error, /does not match/);
+  });
+
+  it('Should reject expired challenges', async function () {
+    const shortLived = new SiweChallenges({ origins: [ORIGIN], ttlSeconds: -1 });
+    const { message } = shortLived.issue({ address: wallet.address, origin: ORIGIN, chainId: 1 });
+
+    assert.match(shortLived.verify(message, await wallet.signMessage(message)).error, /expired/);
+  });
+
+  it('Should reject malformed signatures', function () {
+    const { message } = challenges.issue({ address: wallet.address, origin: ORIGIN, chainId: 1 });
+    assert.match(challenges.verify(message, '0x1234').error, /malformed/);
+  });
+});
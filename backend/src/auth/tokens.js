@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Minimal HS256 JSON Web Tokens for login sessions. The secret comes from
+ * JWT_SECRET or is generated once and kept in the data directory. Signed-out
+ * tokens are remembered by ID until they expire (in memory only).
+ */
+export class TokenService {
+  constructor(secret, { expiresInSeconds = 8 * 60 * 60 } = {}) {
+    this.secret = secret;
+    this.expiresInSeconds = expiresInSeconds;
+    this.revoked = new Map();
+  }
+
+  static load({ dataDir, secret = process.env.JWT_SECRET, expiresInSeconds } = {}) {
+    const options = {
+      expiresInSeconds: expiresInSeconds ?? Number(process.env.JWT_EXPIRES_IN_SECONDS || 8 * 60 * 60)
+    };
+    if (secret) {
+      return new TokenService(secret, options);
+    }
+
+    const secretPath = path.join(dataDir, 'jwt-secret');
+    if (!fs.existsSync(secretPath)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+      fs.writeFileSync(secretPath, crypto.randomBytes(32).toString('hex'), { mode: 0o600 });
+    }
+    return new TokenService(fs.readFileSync(secretPath, 'utf8').trim(), options);
+  }
+
+  hmac(input) {
+    return crypto.createHmac('sha256', this.secret).update(input).digest('base64url');
+  }
+
+  sign(claims) {
+    const now = Math.floor(Date.now() / 1000);
+    const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({
+      ...claims,
+      jti: crypto.randomUUID(),
+      iat: now,
+      exp: now + this.expiresInSeconds
+    })).toString('base64url');
+    return `${header}.${payload}.${this.hmac(`${header}.${payload}`)}`;
+  }
+
+  /**
+   * Claims of a valid, unexpired token, or null
+   */
+  verify(token) {
+    const [header, payload, signature] = String(token).split('.');
+    if (!header || !payload || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.hmac(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      if (alg !== 'HS256' || !claims.exp || claims.exp < Math.floor(Date.now() / 1000)) {
+        return null;
+      }
+      if (claims.jti && this.revoked.has(claims.jti)) {
+        return null;
+      }
+      return claims;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * End a session before it expires
+   */
+  revoke(claims) {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [jti, exp] of this.revoked) {
+      if (exp < now) {
+        this.revoked.delete(jti);
+      }
+    }
+    if (claims?.jti) {
+      this.revoked.set(claims.jti, claims.exp);
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryStore } from '../store/memoryStore.js';
+import { generateApiKey } from './apiKeys.js';
+import { createAuth } from './middleware.js';
+import { hashPassword, verifyPassword } from './passwords.js';
+import { TokenService } from './tokens.js';
+
+describe('TokenService', function () {
+  let tokens;
+
+  beforeEach(function () {
+    tokens = new TokenService('test-secret');
+  });
+
+  it('Should return the claims of a token it signed', function () {
+    const claims = tokens.verify(tokens.sign({ sub: 'u1', role: 'user' }));
+
+    assert.equal(claims.sub, 'u1');
+    assert.equal(claims.role, 'user');
+    assert.equal(claims.exp - claims.iat, tokens.expiresInSeconds);
+    assert.ok(claims.jti);
+  });
+
+  it('Should reject tokens with a modified payload', function () {
+    const [header, , signature] = tokens.sign({ sub: 'u1', role: 'user' }).split('.');
+    const payload = Buffer.from(JSON.stringify({ sub: 'u1', role: 'admin', exp: 9999999999 })).toString('base64url');
+
+    assert.equal(tokens.verify(`${header}.${payload}.${signature}`), null);
+  });
+
+  it('Should reject tokens signed with another secret', function () {
+    assert.equal(new TokenService('other-secret').verify(tokens.sign({ sub: 'u1' })), null);
+  });
+
+  it('Should reject expired and malformed tokens', function () {
+    const expired = new TokenService('test-secret', { expiresInSeconds: -1 });
+
+    assert.equal(tokens.verify(expired.sign({ sub: 'u1' })), null);
+    assert.equal(tokens.verify('not.a.token'), null);
+    assert.equal(tokens.verify(undefined), null);
+  });
+
+  it('Should reject revoked tokens', function () {
+    const token = tokens.sign({ sub: 'u1' });
+    tokens.revoke(tokens.verify(token));
+
+    assert.equal(tokens.verify(token), null);
+    assert.ok(tokens.verify(tokens.sign({ sub: 'u1' })));
+  });
+});
+
+describe('passwords', function () {
+  it('Should verify only the hashed password', async function () {
+    const encoded = await hashPassword('correct horse');
+
+    assert.ok(await verifyPassword('correct horse', encoded));
+    assert.equal(await verifyPassword('wrong horse', encoded), false);
+    assert.equal(await verifyPassword('correct horse', 'plain:text'), false);
+  });
+});
+
+describe('authenticate', function () {
+  let store;
+  let tokens;
+  let auth;
+  let apiKey;
+
+  beforeEach(async function () {
+    store = new MemoryStore();
+    tokens = new TokenService('test-secret');
+    auth = createAuth({ store, tokens });
+    apiKey = generateApiKey();
+    await store.insertUser({
+      id: 'u1',
+      email: 'user@example.com',
+      role: 'user',
+      walletAddress: null,
+      apiKeys: [{ keyHash: apiKey.keyHash }]
+    });
+  });
+
+  async function authenticate(headers) {
+    const lower = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+    const req = { get: name => lower[name.toLowerCase()] };
+    await new Promise((resolve, reject) => auth.authenticate(req, {}, error => (error ? reject(error) : resolve())));
+    return req;
+  }
+
+  it('Should resolve the user of a login token', async function () {
+    const req = await authenticate({ Authorization: `Bearer ${tokens.sign({ sub: 'u1' })}` });
+
+    assert.equal(req.user.id, 'u1');
+    assert.equal(req.authMethod, 'jwt');
+    assert.equal(req.walletAddress, null);
+  });
+
+  it('Should carry the wallet address of a Sign-In with Ethereum session', async function () {
+    const address = '0x000000000000000000000000000000000000dEaD';
+    const req = await authenticate({ Authorization: `Bearer ${tokens.sign({ sub: 'u1', address })}` });
+
+    assert.equal(req.authMethod, 'siwe');
+    assert.equal(req.walletAddress, address);
+  });
+
+  it('Should resolve API keys from either header', async function () {
+    assert.equal((await authenticate({ 'X-API-Key': apiKey.key })).authMethod, 'api_key');
+    assert.equal((await authenticate({ Authorization: `Bearer ${apiKey.key}` })).user.id, 'u1');
+  });
+
+  it('Should leave unknown and anonymous callers without a user', async function () {
+    assert.equal((await authenticate({})).user, null);
+    assert.equal((await authenticate({ 'X-API-Key': generateApiKey().key })).user, null);
+    assert.equal((await authenticate({ Authorization: `Bearer ${tokens.sign({ sub: 'deleted' })}` })).user, null);
+  });
+});
@@ -0,0 +1,130 @@
+import express from 'express';
+import { anchorBatch } from './batches.js';
+import { getAnchorContract } from './chain/contract.js';
+import { formatRecord } from './store/records.js';
+
+/**
+ * Merkle batches (admin only); `runBatch` batches and anchors every pending record
+ */
+export function createBatchRouter({ store, runBatch, requireRole, validateRequest }) {
+  const router = express.Router();
+
+  /**
+   * List Merkle batches, newest first
+   */
+  router.get('/batches', requireRole('admin'), validateRequest('listBatches'), async (req, res) => {
+    try {
+      const batches = (await store.listBatches()).reverse();
+      const pending = await store.listFiles({ pendingBatch: true });
+
+      res.json({
+        success: true,
+        count: batches.length,
+        pendingFiles: pending.length,
+        data: batches
+      });
+
+    } catch (error) {
+      console.error('Get batches error:', error);
+      res.status(500).json({ 
+        error: 'Failed to retrieve batches',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Get a batch with the records it contains
+   */
+  router.get('/batches/:id', requireRole('admin'), validateRequest('getBatch'), async (req, res) => {
+    try {
+      const batch = await store.getBatch(req.params.id);
+
+      if (!batch) {
+        return res.status(404).json({ error: 'Batch not found' });
+      }
+
+      const files = await Promise.all(batch.fileIds.map(id => store.getFile(id)));
+
+      res.json({
+        success: true,
+        data: { ...batch, files: files.filter(Boolean).map(formatRecord) }
+      });
+
+    } catch (error) {
+      console.error('Get batch error:', error);
+      res.status(500).json({ 
+        error: 'Failed to retrieve batch',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Batch every pending record now and anchor the Merkle root on-chain
+   */
+  router.post('/batches', requireRole('admin'), validateRequest('createBatch'), async (req, res) => {
+    try {
+      const batch = await runBatch();
+
+      if (!batch) {
+        return res.json({
+          success: true,
+          message: 'No files are waiting for batch anchoring',
+          data: null
+        });
+      }
+
+      res.json({
+        success: batch.status === 'anchored',
+        message: batch.status === 'anchored'
+          ? `Batch of ${batch.leafCount} file(s) anchored successfully`
+          : `Batch created but anchoring failed: ${batch.error}`,
+        data: batch
+      });
+
+    } catch (error) {
+      console.error('Batch anchoring error:', error);
+      res.status(500).json({ 
+        error: 'Failed to create batch',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Retry anchoring a batch whose transaction failed
+   */
+  router.post('/batches/:id/anchor', requireRole('admin'), validateRequest('anchorBatch'), async (req, res) => {
+    try {
+      const batch = await store.getBatch(req.params.id);
+
+      if (!batch) {
+        return res.status(404).json({ error: 'Batch not found' });
+      }
+
+      if (batch.status === 'anchored') {
+        return res.status(409).json({ error: 'Batch is already anchored', code: 'ALREADY_ANCHORED' });
+      }
+
+      const updated = await anchorBatch(store, batch, getAnchorContract());
+
+      res.json({
+        success: updated.status === 'anchored',
+        message: updated.status === 'anchored'
+          ? 'Batch anchored successfully'
+          : `Anchoring failed: ${updated.error}`,
+        data: updated
+      });
+
+    } catch (error) {
+      console.error('Batch anchoring error:', error);
+      res.status(500).json({ 
+        error: 'Failed to anchor batch',
+        details: error.message 
+      });
+    }
+  });
+
+  return router;
+}
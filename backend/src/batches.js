@@ -0,0 +1,86 @@
+import { buildMerkleTree, getMerkleProof, hashLeaf } from './merkle.js';
+import { serializeEventLog } from './proofBundle.js';
+
+/**
+ * Collect every record queued for batch anchoring into a new Merkle batch and
+ * store each record's inclusion proof. Returns null when nothing is pending.
+ */
+export async function createBatch(store) {
+  const pending = await store.listFiles({ pendingBatch: true });
+
+  if (pending.length === 0) {
+    return null;
+  }
+
+  const leaves = pending.map(record => hashLeaf(record.fileHash));
+  const { root, layers } = buildMerkleTree(leaves);
+
+  const batch = await store.insertBatch({
+    id: Date.now().toString(),
+    merkleRoot: root,
+    leafCount: leaves.length,
+    fileIds: pending.map(record => record.id),
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    anchor: null,
+    error: null
+  });
+
+  for (const [leafIndex, record] of pending.entries()) {
+    await store.updateFile(record.id, {
+      batch: {
+        batchId: batch.id,
+        leafIndex,
+        leaf: leaves[leafIndex],
+        proof: getMerkleProof(layers, leafIndex)
+      }
+    });
+  }
+
+  return batch;
+}
+
+/**
+ * Anchor a batch root with FileIntegrity.anchorBatch and record the receipt.
+ * Failures are stored on the batch so it can be retried.
+ */
+export async function anchorBatch(store, batch, contract) {
+  try {
+    const tx = await contract.anchorBatch(batch.merkleRoot, batch.leafCount);
+    const receipt = await tx.wait();
+
+    const anchoredLog = receipt.logs.find(log => {
+      try {
+        return contract.interface.parseLog(log)?.name === 'BatchAnchored';
+      } catch {
+        return false;
+      }
+    });
+
+    if (!anchoredLog) {
+      throw new Error('BatchAnchored event not found in transaction receipt');
+    }
+
+    const network = await contract.runner.provider.getNetwork();
+
+    return store.updateBatch(batch.id, {
+      status: 'anchored',
+      error: null,
+      anchor: {
+        transactionHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        onChainBatchId: contract.interface.parseLog(anchoredLog).args.batchId.toString(),
+        chainId: network.chainId.toString(),
+        contractAddress: await contract.getAddress(),
+        anchorerAddress: contract.runner.address,
+        anchoredAt: new Date().toISOString(),
+        eventLog: serializeEventLog(anchoredLog)
+      }
+    });
+  } catch (error) {
+    return store.updateBatch(batch.id, {
+      status: 'failed',
+      error: error.shortMessage || error.message
+    });
+  }
+}
@@ -0,0 +1,111 @@
+import path from 'path';
+import { calculateBufferDigests, calculateFileDigests } from './hashing.js';
+import { ZipArchive, ZipError, isZipFile } from './zip.js';
+
+/**
+ * Raised when a bulk verification request holds more files or bytes than allowed
+ */
+export class BulkLimitError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'BulkLimitError';
+  }
+}
+
+/**
+ * SHA-256 of every file in a bulk verification request. ZIP archives are
+ * unpacked and their members named "<archive>/<path inside the archive>";
+ * archives inside archives are hashed as files. Items that cannot be read
+ * carry an error instead of a hash.
+ * @param {object[]} files Multer files
+ * @param {string[]} names Display name of each file
+ * @returns {Promise<{ name: string, size: number, fileHash: string | null, error: string | null }[]>}
+ */
+export async function hashBulkFiles(files, names, { maxItems, maxBytes }) {
+  const items = [];
+  let totalBytes = 0;
+
+  const reserve = (size) => {
+    totalBytes += size;
+    if (items.length >= maxItems) {
+      throw new BulkLimitError(`A bulk verification is limited to ${maxItems} files`);
+    }
+    if (totalBytes > maxBytes) {
+      throw new BulkLimitError(`A bulk verification is limited to ${Math.floor(maxBytes / 1024 / 1024)} MB of content`);
+    }
+  };
+
+  for (const [index, file] of files.entries()) {
+    if (!isZipFile(file)) {
+      reserve(file.size);
+      const [{ digest }] = await calculateFileDigests(file.path, ['sha256']);
+      items.push({ name: names[index], size: file.size, fileHash: digest, error: null });
+      continue;
+    }
+
+    let archive;
+    try {
+      archive = await ZipArchive.open(file.path);
+    } catch (error) {
+      if (!(error instanceof ZipError)) throw error;
+      items.push({ name: names[index], size: file.size, fileHash: null, error: error.message });
+      continue;
+    }
+
+    try {
+      for (const entry of archive.entries) {
+        // Skip folders and the resource forks macOS adds to archives
+        if (entry.directory || entry.name.startsWith('__MACOSX/')) {
+          continue;
+        }
+
+        const remainingBytes = maxBytes - totalBytes;
+        reserve(entry.size);
+        const name = `${names[index]}/${entry.name}`;
+        try {
+          const content = await archive.read(entry, { maxBytes: remainingBytes });
+          const [{ digest }] = calculateBufferDigests(content, ['sha256']);
+          items.push({ name, size: entry.size, fileHash: digest, error: null });
+        } catch (error) {
+          if (!(error instanceof ZipError)) throw error;
+          items.push({ name, size: entry.size, fileHash: null, error: error.message });
+        }
+      }
+    } finally {
+      await archive.close();
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Index records by file name (without folders), keeping the newest record per
+ * name. Used to tell a tampered copy of a registered file from an unknown one.
+ */
+export function indexRecordsByName(records) {
+  const byName = new Map();
+  for (const record of records) {
+    const name = path.posix.basename(record.originalName);
+    const current = byName.get(name);
+    if (!current || record.uploadTime > current.uploadTime) {
+      byName.set(name, record);
+    }
+  }
+  return byName;
+}
+
+/**
+ * Counts shown above a bulk verification report
+ */
+export function summarizeBulkResults(results) {
+  const count = (predicate) => results.filter(predicate).length;
+  return {
+    total: results.length,
+    matched: count(result => result.result === 'matched'),
+    valid: count(result => result.result === 'matched' && result.isValid),
+    tampered: count(result => result.result === 'tampered'),
+    unknown: count(result => result.result === 'unknown'),
+    errors: count(result => result.result === 'error')
+  };
+}
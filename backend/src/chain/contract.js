@@ -0,0 +1,214 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+
+/**
+ * Subset of the FileIntegrity ABI used by the backend
+ */
+export const FILE_INTEGRITY_ABI = [
+  'function anchorBatch(bytes32 _merkleRoot, uint256 _leafCount) returns (uint256)',
+  'function verifyBatchInclusion(uint256 _batchId, bytes32 _leaf, bytes32[] _proof) view returns (bool)',
+  'function rootToBatchId(bytes32) view returns (uint256)',
+  'function isRevoked(uint256 _fileId) view returns (bool)',
+  'event FileUploaded(uint256 indexed fileId, bytes32 indexed fileHash, address indexed uploader, string fileName, string ipfsHash, string description)',
+  'event FileVersionAdded(uint256 indexed fileId, uint256 indexed parentFileId, uint256 version)',
+  'event FileVerified(uint256 indexed fileId, bytes32 fileHash, bool isValid, address indexed verifier)',
+  'event FileRevoked(uint256 indexed fileId, string reason, address indexed revokedBy, uint256 timestamp)',
+  'event BatchAnchored(uint256 indexed batchId, bytes32 indexed merkleRoot, uint256 leafCount, address indexed anchorer, uint256 timestamp)'
+];
+
+// Read lazily: this module is imported before dotenv has loaded .env
+const rpcUrl = () => process.env.RPC_URL || 'http://127.0.0.1:8545';
+const deploymentFile = () => process.env.DEPLOYMENT_FILE || '../blockchain/deployment.json';
+const chainId = () => Number(process.env.CHAIN_ID || 31337);
+
+function readDeployment() {
+  return fs.existsSync(deploymentFile()) ? JSON.parse(fs.readFileSync(deploymentFile(), 'utf8')) : {};
+}
+
+/**
+ * Contract address from FILE_INTEGRITY_ADDRESS, falling back to the Hardhat deploy output
+ */
+function resolveContractAddress() {
+  return process.env.FILE_INTEGRITY_ADDRESS || readDeployment().contractAddress || null;
+}
+
+/**
+ * First block worth scanning for contract events: INDEXER_START_BLOCK, or the
+ * deployment block when deployment.json describes the configured contract
+ */
+export function getDeploymentBlock() {
+  if (process.env.INDEXER_START_BLOCK) {
+    return Number(process.env.INDEXER_START_BLOCK);
+  }
+  const deployment = readDeployment();
+  const address = resolveContractAddress();
+  const sameContract = address && deployment.contractAddress?.toLowerCase() === address.toLowerCase();
+  return sameContract && Number.isInteger(deployment.blockNumber) ? deployment.blockNumber : 0;
+}
+
+let provider = null;
+
+function getProvider() {
+  // A static network skips detection, which would otherwise retry (and log) every second while the node is down
+  provider ??= new ethers.JsonRpcProvider(rpcUrl(), undefined, {
+    staticNetwork: ethers.Network.from(chainId())
+  });
+  return provider;
+}
+
+/**
+ * Connection details shown by the health endpoint
+ */
+export function getChainConfig() {
+  return {
+    rpcUrl: rpcUrl(),
+    chainId: chainId(),
+    contractAddress: resolveContractAddress(),
+    canAnchor: Boolean(process.env.ANCHOR_PRIVATE_KEY)
+  };
+}
+
+/**
+ * Read-only contract instance, or null when no contract address is configured
+ */
+export function getReadContract() {
+  const address = resolveContractAddress();
+  return address ? new ethers.Contract(address, FILE_INTEGRITY_ABI, getProvider()) : null;
+}
+
+/**
+ * Contract instance that signs with ANCHOR_PRIVATE_KEY
+ */
+export function getAnchorContract() {
+  const address = resolveContractAddress();
+  if (!address) {
+    throw new Error('FileIntegrity contract address is not configured (FILE_INTEGRITY_ADDRESS or deployment.json)');
+  }
+  if (!process.env.ANCHOR_PRIVATE_KEY) {
+    throw new Error('ANCHOR_PRIVATE_KEY is not configured');
+  }
+  const wallet = new ethers.Wallet(process.env.ANCHOR_PRIVATE_KEY, getProvider());
+  return new ethers.Contract(address, FILE_INTEGRITY_ABI, wallet);
+}
+
+const contractInterface = new ethers.Interface(FILE_INTEGRITY_ABI);
+
+/**
+ * Hex digest as records store it (lowercase, no 0x) from a contract bytes32 value
+ */
+export function fromDigestBytes(value) {
+  return value.replace(/^0x/i, '').toLowerCase();
+}
+
+/**
+ * Whether two addresses are the same account, ignoring their checksum casing
+ */
+export function sameAddress(a, b) {
+  return Boolean(a && b) && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Decode a raw FileIntegrity log, or null if it is not the expected event
+ */
+export function parseContractLog(log, eventName) {
+  try {
+    const parsed = contractInterface.parseLog({ topics: log.topics, data: log.data });
+    return parsed?.name === eventName ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Raised when a transaction does not prove the anchoring a client claims for it
+ */
+export class AnchorProofError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'AnchorProofError';
+  }
+}
+
+/**
+ * Anchoring details of a FileIntegrity upload, read from the transaction
+ * receipt rather than trusted from the client: the transaction must have
+ * succeeded and the configured contract must have emitted FileUploaded with
+ * `onChainFileId` and `fileHash` (and FileVersionAdded when `parentFileId` is given).
+ * @throws {AnchorProofError} when the receipt does not prove the upload
+ */
+export async function confirmFileUpload(contract, { transactionHash, fileHash, onChainFileId, parentFileId = null }) {
+  const { receipt, contractAddress, findEvent, provider } = await readReceipt(contract, transactionHash, onChainFileId);
+  const upload = findEvent('FileUploaded');
+
+  if (!upload) {
+    throw new AnchorProofError(
+      `Transaction ${transactionHash} did not register file #${onChainFileId} on contract ${contractAddress}`
+    );
+  }
+  if (fromDigestBytes(upload.event.args.fileHash) !== fileHash) {
+    throw new AnchorProofError(`File #${onChainFileId} was registered on-chain with a different hash`);
+  }
+  if (parentFileId !== null && findEvent('FileVersionAdded')?.event.args.parentFileId.toString() !== String(parentFileId)) {
+    throw new AnchorProofError(`Transaction ${transactionHash} did not register file #${onChainFileId} as a version of #${parentFileId}`);
+  }
+
+  const network = await provider.getNetwork();
+  return {
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    onChainFileId: upload.event.args.fileId.toString(),
+    chainId: network.chainId.toString(),
+    contractAddress,
+    uploaderAddress: upload.event.args.uploader,
+    eventLog: upload.log
+  };
+}
+
+/**
+ * Revocation details of a FileIntegrity file, read from the transaction receipt:
+ * the transaction must have succeeded and the configured contract must have
+ * emitted FileRevoked for `onChainFileId`.
+ * @throws {AnchorProofError} when the receipt does not prove the revocation
+ */
+export async function confirmFileRevocation(contract, { transactionHash, onChainFileId }) {
+  const { receipt, contractAddress, findEvent } = await readReceipt(contract, transactionHash, onChainFileId);
+  const revocation = findEvent('FileRevoked');
+
+  if (!revocation) {
+    throw new AnchorProofError(
+      `Transaction ${transactionHash} did not revoke file #${onChainFileId} on contract ${contractAddress}`
+    );
+  }
+
+  return {
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    reason: revocation.event.args.reason,
+    revokerAddress: revocation.event.args.revokedBy,
+    eventLog: revocation.log
+  };
+}
+
+/**
+ * Receipt of a successful transaction and a lookup of the events the configured
+ * contract emitted in it for `onChainFileId`
+ * @throws {AnchorProofError} when the transaction is not mined or reverted
+ */
+async function readReceipt(contract, transactionHash, onChainFileId) {
+  const provider = contract.runner.provider || contract.runner;
+  const receipt = await provider.getTransactionReceipt(transactionHash);
+  if (!receipt) {
+    throw new AnchorProofError(`Transaction ${transactionHash} is not mined on the configured chain`);
+  }
+  if (receipt.status !== 1) {
+    throw new AnchorProofError(`Transaction ${transactionHash} reverted`);
+  }
+
+  const contractAddress = await contract.getAddress();
+  const contractLogs = receipt.logs.filter(log => log.address.toLowerCase() === contractAddress.toLowerCase());
+  const findEvent = (eventName) => contractLogs
+    .map(log => ({ log, event: parseContractLog(log, eventName) }))
+    .find(({ event }) => event?.args.fileId.toString() === String(onChainFileId));
+
+  return { receipt, contractAddress, findEvent, provider };
+}
@@ -0,0 +1,299 @@
+import { serializeEventLog } from '../proofBundle.js';
+import { fromDigestBytes } from './contract.js';
+
+/**
+ * Mirrors FileUploaded, FileVerified and FileRevoked events of the FileIntegrity
+ * contract into the store. FileVerified events are also added to the
+ * verification log, and the records of revoked files are marked as revoked
+ * (revocations can be sent to the contract without going through the backend). The first sync backfills from the deployment block, later
+ * ones follow the chain head from a persisted cursor, so restarts resume where
+ * they stopped.
+ *
+ * The cursor keeps the hashes of recently indexed blocks as checkpoints. When
+ * the newest checkpoint no longer matches the chain, events after the newest
+ * checkpoint that still matches are dropped and indexed again. If none match
+ * (a reorg deeper than the checkpoints, a restarted dev node or another
+ * contract) the index is rebuilt from scratch. Log entries of dropped events
+ * are removed with them; revocations taken from dropped events are undone,
+ * unless the events were dropped because the contract changed.
+ */
+
+export const INDEXED_EVENTS = ['FileUploaded', 'FileVerified', 'FileRevoked'];
+
+const MAX_CHECKPOINTS = 64;
+
+// Verification log entry of an indexed FileVerified event
+const verificationId = (event) => `chain:${event.id}`;
+
+export class ChainIndexer {
+  /**
+   * @param {object} options
+   * @param {object} options.store Record store
+   * @param {() => object | null} options.getContract Read-only FileIntegrity contract, null when unconfigured
+   * @param {() => number} options.getStartBlock Block to backfill from
+   * @param {number} [options.batchBlocks] Blocks requested per eth_getLogs call
+   */
+  constructor({ store, getContract, getStartBlock, batchBlocks = Number(process.env.INDEXER_BATCH_BLOCKS || 2000) }) {
+    this.store = store;
+    this.getContract = getContract;
+    this.getStartBlock = getStartBlock;
+    this.batchBlocks = batchBlocks;
+    this.running = null;
+    this.lastSyncAt = null;
+    this.lastError = null;
+    this.lastReorg = null;
+  }
+
+  /**
+   * Index everything up to the current head. Concurrent calls share one run.
+   * @returns {Promise<{ fromBlock: number, toBlock: number, indexed: number, reorg: object | null }>}
+   */
+  sync() {
+    this.running ??= this.run()
+      .then(result => {
+        this.lastSyncAt = new Date().toISOString();
+        this.lastError = null;
+        return result;
+      })
+      .catch(error => {
+        this.lastError = error.shortMessage || error.message;
+        throw error;
+      })
+      .finally(() => {
+        this.running = null;
+      });
+    return this.running;
+  }
+
+  async run() {
+    const contract = this.getContract();
+    if (!contract) {
+      throw new Error('FileIntegrity contract address is not configured');
+    }
+
+    const provider = contract.runner.provider || contract.runner;
+    const contractAddress = await contract.getAddress();
+    const chainId = (await provider.getNetwork()).chainId.toString();
+    const head = await provider.getBlockNumber();
+
+    let cursor = await this.store.getChainCursor();
+    let reorg = null;
+
+    if (cursor && (cursor.chainId !== chainId || cursor.contractAddress.toLowerCase() !== contractAddress.toLowerCase())) {
+      reorg = await this.rollback(null, cursor, 'Contract or chain changed', { revertRevocations: false });
+      cursor = null;
+    } else if (cursor) {
+      const ancestor = await this.findLastValidCheckpoint(provider, cursor, head);
+      if (!ancestor) {
+        reorg = await this.rollback(null, cursor, 'No indexed block is on the current chain');
+        cursor = null;
+      } else if (ancestor.blockNumber < cursor.blockNumber) {
+        reorg = await this.rollback(ancestor.blockNumber, cursor, 'Chain reorganization');
+        cursor = {
+          ...cursor,
+          blockNumber: ancestor.blockNumber,
+          blockHash: ancestor.blockHash,
+          checkpoints: cursor.checkpoints.filter(checkpoint => checkpoint.blockNumber <= ancestor.blockNumber)
+        };
+        await this.store.setChainCursor(cursor);
+      }
+    }
+
+    const startBlock = cursor ? cursor.blockNumber + 1 : this.getStartBlock();
+    let indexed = 0;
+
+    for (let fromBlock = startBlock; fromBlock <= head; fromBlock += this.batchBlocks) {
+      const toBlock = Math.min(head, fromBlock + this.batchBlocks - 1);
+      const events = await this.fetchEvents(contract, fromBlock, toBlock);
+      if (events.length > 0) {
+        await this.store.insertChainEvents(events);
+        await this.logVerifications(events);
+        await this.applyRevocations(events);
+        indexed += events.length;
+      }
+
+      const block = await provider.getBlock(toBlock);
+      const checkpoint = { blockNumber: toBlock, blockHash: block.hash };
+      cursor = {
+        chainId,
+        contractAddress,
+        blockNumber: toBlock,
+        blockHash: block.hash,
+        checkpoints: [...(cursor?.checkpoints || []), checkpoint].slice(-MAX_CHECKPOINTS),
+        updatedAt: new Date().toISOString()
+      };
+      await this.store.setChainCursor(cursor);
+    }
+
+    return { fromBlock: startBlock, toBlock: head, indexed, reorg };
+  }
+
+  /**
+   * Newest checkpoint whose block is still part of the chain, or null
+   */
+  async findLastValidCheckpoint(provider, cursor, head) {
+    const checkpoints = cursor.checkpoints?.length
+      ? cursor.checkpoints
+      : [{ blockNumber: cursor.blockNumber, blockHash: cursor.blockHash }];
+
+    for (const checkpoint of [...checkpoints].reverse()) {
+      if (checkpoint.blockNumber > head) {
+        continue;
+      }
+      const block = await provider.getBlock(checkpoint.blockNumber);
+      if (block?.hash === checkpoint.blockHash) {
+        return checkpoint;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Drop events after `blockNumber` (everything when null) and remember why
+   */
+  async rollback(blockNumber, cursor, reason, { revertRevocations = true } = {}) {
+    const dropped = (await this.store.listChainEvents())
+      .filter(event => blockNumber === null || event.blockNumber > blockNumber);
+    await this.store.deleteVerifications(dropped.filter(event => event.event === 'FileVerified').map(verificationId));
+    if (revertRevocations) {
+      await this.revertRevocations(dropped.filter(event => event.event === 'FileRevoked'));
+    }
+
+    const removedEvents = await this.store.deleteChainEventsAfter(blockNumber);
+    if (blockNumber === null) {
+      await this.store.setChainCursor(null);
+    }
+
+    this.lastReorg = {
+      detectedAt: new Date().toISOString(),
+      reason,
+      previousBlock: cursor.blockNumber,
+      resumedFromBlock: blockNumber === null ? this.getStartBlock() : blockNumber + 1,
+      removedEvents
+    };
+    console.warn(`⛓️  ${reason}: rolled back ${removedEvents} indexed event(s) after block ${blockNumber ?? 'genesis'}`);
+    return this.lastReorg;
+  }
+
+  async fetchEvents(contract, fromBlock, toBlock) {
+    const logs = (await Promise.all(
+      INDEXED_EVENTS.map(name => contract.queryFilter(contract.filters[name](), fromBlock, toBlock))
+    ))
+      .flat()
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const blockTimestamps = new Map();
+    const events = [];
+
+    for (const log of logs) {
+      if (!blockTimestamps.has(log.blockNumber)) {
+        const block = await log.getBlock();
+        blockTimestamps.set(log.blockNumber, new Date(block.timestamp * 1000).toISOString());
+      }
+
+      const base = {
+        id: `${log.transactionHash}:${log.index}`,
+        event: log.eventName,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        timestamp: blockTimestamps.get(log.blockNumber),
+        onChainFileId: log.args.fileId.toString()
+      };
+
+      if (log.eventName === 'FileUploaded') {
+        events.push({
+          ...base,
+          fileHash: fromDigestBytes(log.args.fileHash),
+          uploader: log.args.uploader,
+          fileName: log.args.fileName,
+          ipfsHash: log.args.ipfsHash,
+          description: log.args.description
+        });
+      } else if (log.eventName === 'FileVerified') {
+        events.push({ ...base, fileHash: fromDigestBytes(log.args.fileHash), verifier: log.args.verifier, isValid: log.args.isValid });
+      } else {
+        // FileRevoked carries no hash; the log is kept for proof bundles
+        events.push({ ...base, fileHash: null, reason: log.args.reason, revokedBy: log.args.revokedBy, eventLog: serializeEventLog(log) });
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Add newly indexed FileVerified events to the verification log
+   */
+  async logVerifications(events) {
+    const verifications = events.filter(entry => entry.event === 'FileVerified');
+    // A range indexed again after an interrupted run replaces its entries
+    await this.store.deleteVerifications(verifications.map(verificationId));
+
+    for (const event of verifications) {
+      const record = await this.store.findFileByHash(event.fileHash);
+      await this.store.insertVerification({
+        id: verificationId(event),
+        timestamp: event.timestamp,
+        source: 'chain',
+        method: 'on_chain',
+        // A known file ID that fails verification was revoked on-chain
+        outcome: event.isValid ? 'valid' : event.onChainFileId !== '0' ? 'revoked' : 'not_found',
+        calculatedHash: event.fileHash,
+        algorithm: 'sha256',
+        fileId: record ? record.id : null,
+        requester: { address: event.verifier, ip: null, userAgent: null },
+        chain: {
+          transactionHash: event.transactionHash,
+          blockNumber: event.blockNumber,
+          logIndex: event.logIndex,
+          onChainFileId: event.onChainFileId
+        }
+      });
+    }
+  }
+
+  /**
+   * Mark the records of newly indexed FileRevoked events as revoked
+   */
+  async applyRevocations(events) {
+    for (const event of events.filter(entry => entry.event === 'FileRevoked')) {
+      const record = await this.findRecord(event.onChainFileId);
+      if (record && !record.revocation) {
+        await this.store.updateFile(record.id, {
+          revocation: {
+            reason: event.reason,
+            revokedAt: event.timestamp,
+            revokedBy: null,
+            transactionHash: event.transactionHash,
+            blockNumber: event.blockNumber,
+            revokerAddress: event.revokedBy,
+            eventLog: event.eventLog,
+            confirmedAt: new Date().toISOString()
+          }
+        });
+      }
+    }
+  }
+
+  /**
+   * Lift revocations whose FileRevoked event is no longer on the chain
+   */
+  async revertRevocations(events) {
+    for (const event of events) {
+      const record = await this.findRecord(event.onChainFileId);
+      if (record?.revocation?.transactionHash === event.transactionHash) {
+        await this.store.updateFile(record.id, { revocation: null });
+      }
+    }
+  }
+
+  /**
+   * Backend record anchored as `onChainFileId`, found through its indexed FileUploaded event
+   */
+  async findRecord(onChainFileId) {
+    const [upload] = await this.store.listChainEvents({ event: 'FileUploaded', onChainFileId });
+    const record = upload ? await this.store.findFileByHash(upload.fileHash) : null;
+    return record?.blockchain?.onChainFileId === onChainFileId ? record : null;
+  }
+}
@@ -0,0 +1,157 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryStore } from '../store/memoryStore.js';
+import { ChainIndexer } from './indexer.js';
+
+const CONTRACT_ADDRESS = '0x00000000000000000000000000000000000000c0';
+const WALLET = '0x000000000000000000000000000000000000dEaD';
+const FILE_HASH = 'ab'.repeat(32);
+
+/**
+ * Just enough of an ethers contract and provider for the indexer: blocks are
+ * numbered from 1, and a block's hash changes when its `fork` changes
+ */
+function fakeChain() {
+  const chain = { head: 0, fork: 'a', logs: [] };
+  const blockHash = (blockNumber) => `0x${chain.fork}${blockNumber}`;
+
+  chain.emit = (eventName, args) => {
+    chain.head++;
+    const blockNumber = chain.head;
+    chain.logs.push({
+      eventName,
+      args,
+      address: CONTRACT_ADDRESS,
+      topics: ['0x01'],
+      data: '0x',
+      blockNumber,
+      blockHash: blockHash(blockNumber),
+      transactionHash: `0x${eventName}${blockNumber}${chain.fork}`,
+      index: 0,
+      getBlock: async () => ({ timestamp: 1_700_000_000 + blockNumber })
+    });
+  };
+
+  // Replace every block after `blockNumber` with an empty fork
+  chain.reorg = (blockNumber) => {
+    chain.fork = String.fromCharCode(chain.fork.charCodeAt(0) + 1);
+    chain.logs = chain.logs.filter(log => log.blockNumber <= blockNumber);
+  };
+
+  const provider = {
+    getNetwork: async () => ({ chainId: 31337n }),
+    getBlockNumber: async () => chain.head,
+    getBlock: async (blockNumber) => ({
+      hash: chain.logs.find(log => log.blockNumber === blockNumber)?.blockHash || blockHash(blockNumber)
+    })
+  };
+
+  chain.contract = {
+    runner: { provider },
+    getAddress: async () => CONTRACT_ADDRESS,
+    filters: new Proxy({}, { get: (_, eventName) => () => eventName }),
+    queryFilter: async (eventName, fromBlock, toBlock) => chain.logs.filter(log =>
+      log.eventName === eventName && log.blockNumber >= fromBlock && log.blockNumber <= toBlock
+    )
+  };
+
+  return chain;
+}
+
+describe('ChainIndexer', function () {
+  let store;
+  let chain;
+  let indexer;
+
+  beforeEach(async function () {
+    store = new MemoryStore();
+    chain = fakeChain();
+    indexer = new ChainIndexer({ store, getContract: () => chain.contract, getStartBlock: () => 1, batchBlocks: 1 });
+
+    chain.emit('FileUploaded', {
+      fileId: 1n,
+      fileHash: `0x${FILE_HASH}`,
+      uploader: WALLET,
+      fileName: 'report.pdf',
+      ipfsHash: 'bafy',
+      description: ''
+    });
+    await store.insertFile({
+      id: '1',
+      originalName: 'report.pdf',
+      fileHash: FILE_HASH,
+      uploadTime: '2025-01-01T00:00:00.000Z',
+      revocation: null,
+      blockchain: { onChainFileId: '1', transactionHash: chain.logs[0].transactionHash }
+    });
+  });
+
+  it('Should revoke records whose file was revoked on the contract directly', async function () {
+    chain.emit('FileRevoked', { fileId: 1n, reason: 'Superseded by contract', revokedBy: WALLET, timestamp: 0n });
+
+    const { indexed } = await indexer.sync();
+
+    assert.equal(indexed, 2);
+    const { revocation } = await store.getFile('1');
+    assert.equal(revocation.reason, 'Superseded by contract');
+    assert.equal(revocation.revokerAddress, WALLET);
+    assert.equal(revocation.transactionHash, chain.logs[1].transactionHash);
+    assert.equal(revocation.eventLog.blockNumber, 2);
+    assert.ok(revocation.confirmedAt);
+  });
+
+  it('Should keep a revocation the backend already recorded', async function () {
+    await store.updateFile('1', { revocation: { reason: 'Attached', transactionHash: '0xattached' } });
+    chain.emit('FileRevoked', { fileId: 1n, reason: 'On-chain', revokedBy: WALLET, timestamp: 0n });
+
+    await indexer.sync();
+
+    assert.equal((await store.getFile('1')).revocation.reason, 'Attached');
+  });
+
+  it('Should lift a revocation whose event was reorganized away', async function () {
+    chain.emit('FileRevoked', { fileId: 1n, reason: 'Mistake', revokedBy: WALLET, timestamp: 0n });
+    await indexer.sync();
+    assert.ok((await store.getFile('1')).revocation);
+
+    chain.reorg(1);
+    chain.emit('FileVerified', { fileId: 1n, fileHash: `0x${FILE_HASH}`, isValid: true, verifier: WALLET });
+    const { reorg } = await indexer.sync();
+
+    assert.equal(reorg.removedEvents, 1);
+    assert.equal((await store.getFile('1')).revocation, null);
+    assert.deepEqual((await store.listChainEvents()).map(event => event.event), ['FileUploaded', 'FileVerified']);
+  });
+
+  it('Should log FileVerified events and drop the entries of reorganized blocks', async function () {
+    chain.emit('FileVerified', { fileId: 1n, fileHash: `0x${FILE_HASH}`, isValid: true, verifier: WALLET });
+    chain.emit('FileVerified', { fileId: 0n, fileHash: `0x${'cd'.repeat(32)}`, isValid: false, verifier: WALLET });
+    await indexer.sync();
+
+    let entries = await store.listVerifications();
+    assert.deepEqual(entries.map(entry => [entry.outcome, entry.fileId]), [['valid', '1'], ['not_found', null]]);
+    assert.deepEqual(entries[0].chain, {
+      transactionHash: chain.logs[1].transactionHash,
+      blockNumber: 2,
+      logIndex: 0,
+      onChainFileId: '1'
+    });
+
+    chain.reorg(2);
+    await indexer.sync();
+
+    entries = await store.listVerifications();
+    assert.deepEqual(entries.map(entry => entry.chain.blockNumber), [2]);
+  });
+
+  it('Should not duplicate log entries when a range is indexed again', async function () {
+    chain.emit('FileVerified', { fileId: 1n, fileHash: `0x${FILE_HASH}`, isValid: true, verifier: WALLET });
+    await indexer.sync();
+    await store.setChainCursor(null);
+
+    await indexer.sync();
+
+    assert.equal((await store.listVerifications()).length, 1);
+  });
+});
+
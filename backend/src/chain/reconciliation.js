@@ -0,0 +1,84 @@
+/**
+ * Compare backend records with the FileUploaded events mirrored by the indexer.
+ * Records queued for Merkle batches are anchored by their batch root rather
+ * than a FileUploaded event, so they are counted separately instead of being
+ * reported as missing on-chain.
+ */
+export function buildReconciliationReport(records, uploadedEvents) {
+  const eventsByHash = new Map();
+  for (const event of uploadedEvents) {
+    eventsByHash.set(event.fileHash, event);
+  }
+  const recordHashes = new Set(records.map(record => record.fileHash));
+
+  const offChainOnly = [];
+  const mismatched = [];
+  let matched = 0;
+  let batched = 0;
+
+  for (const record of records) {
+    const event = eventsByHash.get(record.fileHash);
+
+    if (!event) {
+      if (record.anchorMode === 'batch') {
+        batched++;
+        continue;
+      }
+      offChainOnly.push({
+        fileId: record.id,
+        fileHash: record.fileHash,
+        originalName: record.originalName,
+        uploadTime: record.uploadTime,
+        // A claimed transaction without a matching event points at another chain or contract
+        claimedOnChainFileId: record.blockchain?.onChainFileId || null
+      });
+      continue;
+    }
+
+    matched++;
+    const problems = [
+      !record.blockchain && 'record has no blockchain details',
+      record.blockchain && record.blockchain.onChainFileId !== event.onChainFileId &&
+        `record claims on-chain file #${record.blockchain.onChainFileId}`,
+      record.blockchain && record.blockchain.transactionHash !== event.transactionHash &&
+        'record points at another transaction'
+    ].filter(Boolean);
+
+    if (problems.length > 0) {
+      mismatched.push({
+        fileId: record.id,
+        fileHash: record.fileHash,
+        onChainFileId: event.onChainFileId,
+        transactionHash: event.transactionHash,
+        problems
+      });
+    }
+  }
+
+  const onChainOnly = uploadedEvents
+    .filter(event => !recordHashes.has(event.fileHash))
+    .map(event => ({
+      onChainFileId: event.onChainFileId,
+      fileHash: event.fileHash,
+      fileName: event.fileName,
+      uploader: event.uploader,
+      transactionHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp
+    }));
+
+  return {
+    summary: {
+      offChainRecords: records.length,
+      onChainFiles: uploadedEvents.length,
+      matched,
+      batched,
+      offChainOnly: offChainOnly.length,
+      onChainOnly: onChainOnly.length,
+      mismatched: mismatched.length
+    },
+    offChainOnly,
+    onChainOnly,
+    mismatched
+  };
+}
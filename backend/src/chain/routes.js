@@ -0,0 +1,222 @@
+import express from 'express';
+import { canAccessFile } from '../store/records.js';
+import { getReadContract, sameAddress } from './contract.js';
+import { INDEXED_EVENTS } from './indexer.js';
+import { buildReconciliationReport } from './reconciliation.js';
+
+/**
+ * Chain indexer status and the indexed contract events
+ */
+export function createChainRouter({ store, chainIndexer, requireAuth, requireRole, validateRequest }) {
+  const router = express.Router();
+
+  /**
+   * Indexer progress: cursor, chain head, indexed event counts and the last reorg
+   */
+  router.get('/chain/status', requireAuth, validateRequest('getChainStatus'), async (req, res) => {
+    try {
+      const contract = getReadContract();
+      const cursor = await store.getChainCursor();
+
+      let headBlock = null;
+      let headError = null;
+      if (contract) {
+        try {
+          headBlock = await contract.runner.provider.getBlockNumber();
+        } catch (error) {
+          headError = error.shortMessage || error.message;
+        }
+      }
+
+      const events = await store.listChainEvents();
+      const eventCounts = Object.fromEntries(
+        INDEXED_EVENTS.map(name => [name, events.filter(event => event.event === name).length])
+      );
+
+      res.json({
+        success: true,
+        data: {
+          configured: Boolean(contract),
+          cursor: cursor
+            ? {
+                chainId: cursor.chainId,
+                contractAddress: cursor.contractAddress,
+                blockNumber: cursor.blockNumber,
+                blockHash: cursor.blockHash,
+                updatedAt: cursor.updatedAt
+              }
+            : null,
+          headBlock,
+          headError,
+          lag: headBlock !== null && cursor ? Math.max(headBlock - cursor.blockNumber, 0) : null,
+          eventCounts,
+          syncing: Boolean(chainIndexer.running),
+          lastSyncAt: chainIndexer.lastSyncAt,
+          lastError: chainIndexer.lastError,
+          lastReorg: chainIndexer.lastReorg
+        }
+      });
+
+    } catch (error) {
+      console.error('Chain status error:', error);
+      res.status(500).json({ 
+        error: 'Failed to retrieve indexer status',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Run the chain indexer now instead of waiting for the next poll
+   */
+  router.post('/chain/sync', requireRole('admin'), validateRequest('syncChain'), async (req, res) => {
+    try {
+      if (!getReadContract()) {
+        return res.status(503).json({ error: 'FileIntegrity contract address is not configured', code: 'CONTRACT_NOT_CONFIGURED' });
+      }
+
+      const result = await chainIndexer.sync();
+
+      res.json({
+        success: true,
+        message: `Indexed ${result.indexed} event(s) up to block ${result.toBlock}`,
+        data: result
+      });
+
+    } catch (error) {
+      console.error('Chain sync error:', error);
+      res.status(500).json({ 
+        error: 'Failed to index contract events',
+        details: error.shortMessage || error.message 
+      });
+    }
+  });
+
+  /**
+   * Files registered on-chain (indexed FileUploaded events), newest first
+   */
+  router.get('/chain/files', requireAuth, validateRequest('listChainFiles'), async (req, res) => {
+    try {
+      const { uploader } = req.query;
+      const fileHash = req.query.fileHash ? String(req.query.fileHash).replace(/^0x/i, '').toLowerCase() : undefined;
+      const limit = Math.min(Number(req.query.limit) || 100, 500);
+
+      const verifications = await store.listChainEvents({ event: 'FileVerified' });
+      const files = (await store.listChainEvents({ event: 'FileUploaded', fileHash }))
+        .filter(event => !uploader || sameAddress(event.uploader, uploader))
+        .reverse();
+
+      res.json({
+        success: true,
+        count: files.length,
+        data: files.slice(0, limit).map(event => ({
+          ...event,
+          verificationCount: verifications.filter(entry => entry.onChainFileId === event.onChainFileId).length
+        }))
+      });
+
+    } catch (error) {
+      console.error('Get chain files error:', error);
+      res.status(500).json({ 
+        error: 'Failed to retrieve indexed files',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * One on-chain file with its on-chain verifications and the matching backend record id
+   */
+  router.get('/chain/files/:onChainFileId', requireAuth, validateRequest('getChainFile'), async (req, res) => {
+    try {
+      const { onChainFileId } = req.params;
+      const [upload] = await store.listChainEvents({ event: 'FileUploaded', onChainFileId });
+
+      if (!upload) {
+        return res.status(404).json({ error: 'File not found in indexed events' });
+      }
+
+      const record = await store.findFileByHash(upload.fileHash);
+
+      res.json({
+        success: true,
+        data: {
+          ...upload,
+          recordId: record && canAccessFile(req.user, record) ? record.id : null,
+          verifications: await store.listChainEvents({ event: 'FileVerified', onChainFileId })
+        }
+      });
+
+    } catch (error) {
+      console.error('Get chain file error:', error);
+      res.status(500).json({ 
+        error: 'Failed to retrieve indexed file',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * On-chain verifications (indexed FileVerified events), newest first
+   */
+  router.get('/chain/verifications', requireAuth, validateRequest('listChainVerifications'), async (req, res) => {
+    try {
+      const { verifier, isValid } = req.query;
+      const fileHash = req.query.fileHash ? String(req.query.fileHash).replace(/^0x/i, '').toLowerCase() : undefined;
+      const limit = Math.min(Number(req.query.limit) || 100, 500);
+
+      const entries = (await store.listChainEvents({ event: 'FileVerified', fileHash }))
+        .filter(event => !verifier || sameAddress(event.verifier, verifier))
+        .filter(event => isValid === undefined || String(event.isValid) === isValid)
+        .reverse();
+
+      res.json({
+        success: true,
+        count: entries.length,
+        data: entries.slice(0, limit)
+      });
+
+    } catch (error) {
+      console.error('Get chain verifications error:', error);
+      res.status(500).json({ 
+        error: 'Failed to retrieve indexed verifications',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Hashes recorded off-chain but not on-chain and the other way round
+   */
+  router.get('/chain/reconciliation', requireRole('admin'), validateRequest('getReconciliation'), async (req, res) => {
+    try {
+      const cursor = await store.getChainCursor();
+      if (!cursor) {
+        return res.status(409).json({ error: 'The chain indexer has not synced yet', code: 'INDEXER_NOT_SYNCED' });
+      }
+
+      const report = buildReconciliationReport(
+        await store.listFiles(),
+        await store.listChainEvents({ event: 'FileUploaded' })
+      );
+
+      res.json({
+        success: true,
+        data: {
+          generatedAt: new Date().toISOString(),
+          indexedThroughBlock: cursor.blockNumber,
+          ...report
+        }
+      });
+
+    } catch (error) {
+      console.error('Reconciliation error:', error);
+      res.status(500).json({ 
+        error: 'Failed to build reconciliation report',
+        details: error.message 
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { blake3 } from '@noble/hashes/blake3';
+
+/**
+ * Registered digest algorithms. Each factory returns an incremental hasher
+ * with update(buffer) and digest() -> lowercase hex.
+ */
+export const HASH_ALGORITHMS = {
+  sha256: () => nodeHasher('sha256'),
+  sha512: () => nodeHasher('sha512'),
+  'sha3-256': () => nodeHasher('sha3-256'),
+  keccak256: () => nobleHasher(keccak_256.create()),
+  blake3: () => nobleHasher(blake3.create({}))
+};
+
+export const SUPPORTED_ALGORITHMS = Object.keys(HASH_ALGORITHMS);
+
+// Hex digest length of every algorithm, used to auto-detect untagged hashes
+const DIGEST_HEX_LENGTHS = {
+  sha256: 64,
+  sha512: 128,
+  'sha3-256': 64,
+  keccak256: 64,
+  blake3: 64
+};
+
+function nodeHasher(algorithm) {
+  const hash = crypto.createHash(algorithm);
+  return {
+    update: (data) => hash.update(data),
+    digest: () => hash.digest('hex')
+  };
+}
+
+function nobleHasher(hash) {
+  return {
+    update: (data) => hash.update(data),
+    digest: () => Buffer.from(hash.digest()).toString('hex')
+  };
+}
+
+/**
+ * Calculate several digests of a file in a single read pass
+ * @returns {Promise<{ algorithm: string, digest: string }[]>}
+ */
+export function calculateFileDigests(filePath, algorithms = SUPPORTED_ALGORITHMS) {
+  return new Promise((resolve, reject) => {
+    const hashers = algorithms.map(algorithm => {
+      const factory = HASH_ALGORITHMS[algorithm];
+      if (!factory) {
+        throw new Error(`Unsupported hash algorithm "${algorithm}"`);
+      }
+      return { algorithm, hasher: factory() };
+    });
+    const stream = fs.createReadStream(filePath);
+
+    stream.on('data', (data) => {
+      for (const { hasher } of hashers) {
+        hasher.update(data);
+      }
+    });
+
+    stream.on('end', () => {
+      resolve(hashers.map(({ algorithm, hasher }) => ({ algorithm, digest: hasher.digest() })));
+    });
+
+    stream.on('error', (error) => {
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Calculate several digests of in-memory content, e.g. an archive member
+ * @returns {{ algorithm: string, digest: string }[]}
+ */
+export function calculateBufferDigests(buffer, algorithms = SUPPORTED_ALGORITHMS) {
+  return algorithms.map(algorithm => {
+    const factory = HASH_ALGORITHMS[algorithm];
+    if (!factory) {
+      throw new Error(`Unsupported hash algorithm "${algorithm}"`);
+    }
+    const hasher = factory();
+    hasher.update(buffer);
+    return { algorithm, digest: hasher.digest() };
+  });
+}
+
+/**
+ * Calculate SHA-256 hash of a file
+ */
+export async function calculateFileHash(filePath) {
+  const [{ digest }] = await calculateFileDigests(filePath, ['sha256']);
+  return digest;
+}
+
+/**
+ * Get the digest for one algorithm from a record's digest list
+ */
+export function getDigest(digests, algorithm) {
+  return digests?.find(entry => entry.algorithm === algorithm)?.digest || null;
+}
+
+/**
+ * Parse a user supplied hash, optionally tagged as "algorithm:hex".
+ * Untagged hashes resolve to every algorithm with a matching digest length.
+ * @returns {{ digest: string, algorithms: string[] } | null} null when the input is not a valid digest,
+ *   or its tag names another algorithm than `algorithm`
+ */
+export function parseDigestInput(input, algorithm) {
+  let value = String(input).trim();
+  let tagged = algorithm;
+
+  const separator = value.lastIndexOf(':');
+  if (separator > 0) {
+    tagged = value.slice(0, separator).toLowerCase();
+    value = value.slice(separator + 1);
+    if (algorithm && algorithm !== tagged) {
+      return null;
+    }
+  }
+
+  const digest = value.replace(/^0x/i, '').toLowerCase();
+  if (!/^[0-9a-f]+$/.test(digest)) {
+    return null;
+  }
+
+  if (tagged) {
+    if (!HASH_ALGORITHMS[tagged] || DIGEST_HEX_LENGTHS[tagged] !== digest.length) {
+      return null;
+    }
+    return { digest, algorithms: [tagged] };
+  }
+
+  const algorithms = SUPPORTED_ALGORITHMS.filter(name => DIGEST_HEX_LENGTHS[name] === digest.length);
+  return algorithms.length > 0 ? { digest, algorithms } : null;
+}
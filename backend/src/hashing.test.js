@@ -0,0 +1,82 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SUPPORTED_ALGORITHMS, calculateFileDigests, calculateFileHash, getDigest, parseDigestInput } from './hashing.js';
+
+// Published test vectors for "abc"
+const ABC_DIGESTS = {
+  sha256: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+  sha512: 'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f',
+  'sha3-256': '3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532',
+  keccak256: '4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45',
+  blake3: '6437b3ac38465133ffb63b75273a8db548c558465d79db03fd359c6cd5bd9d85'
+};
+
+describe('digests', function () {
+  let dir;
+
+  before(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-integrity-hashing-'));
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeFile(name, content) {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  it('Should match the known digests of "abc" for every algorithm', async function () {
+    const digests = await calculateFileDigests(writeFile('abc.txt', 'abc'));
+
+    assert.deepEqual(digests.map(entry => entry.algorithm), SUPPORTED_ALGORITHMS);
+    for (const { algorithm, digest } of digests) {
+      assert.equal(digest, ABC_DIGESTS[algorithm], algorithm);
+    }
+    assert.equal(getDigest(digests, 'blake3'), ABC_DIGESTS.blake3);
+    assert.equal(getDigest(digests, 'md5'), null);
+  });
+
+  it('Should hash a file read in several chunks like one read', async function () {
+    const content = Buffer.alloc(3 * 1024 * 1024, 'abc');
+    const expected = crypto.createHash('sha256').update(content).digest('hex');
+
+    assert.equal(await calculateFileHash(writeFile('large.bin', content)), expected);
+  });
+
+  it('Should refuse unknown algorithms', async function () {
+    await assert.rejects(calculateFileDigests(writeFile('md5.txt', 'abc'), ['md5']), /Unsupported hash algorithm/);
+  });
+});
+
+describe('parseDigestInput', function () {
+  it('Should resolve untagged digests to every algorithm of that length', function () {
+    assert.deepEqual(parseDigestInput(`0x${ABC_DIGESTS.sha256.toUpperCase()}`), {
+      digest: ABC_DIGESTS.sha256,
+      algorithms: ['sha256', 'sha3-256', 'keccak256', 'blake3']
+    });
+    assert.deepEqual(parseDigestInput(ABC_DIGESTS.sha512).algorithms, ['sha512']);
+  });
+
+  it('Should honour an algorithm tag', function () {
+    assert.deepEqual(parseDigestInput(`blake3:${ABC_DIGESTS.blake3}`), { digest: ABC_DIGESTS.blake3, algorithms: ['blake3'] });
+    assert.deepEqual(parseDigestInput(ABC_DIGESTS.keccak256, 'keccak256').algorithms, ['keccak256']);
+    assert.equal(parseDigestInput(`sha512:${ABC_DIGESTS.sha256}`), null);
+  });
+
+  it('Should reject a tag that disagrees with the given algorithm', function () {
+    assert.equal(parseDigestInput(`sha3-256:${ABC_DIGESTS.keccak256}`, 'keccak256'), null);
+    assert.deepEqual(parseDigestInput(`keccak256:${ABC_DIGESTS.keccak256}`, 'keccak256').algorithms, ['keccak256']);
+  });
+
+  it('Should reject input that is not a digest', function () {
+    assert.equal(parseDigestInput('not-hex'), null);
+    assert.equal(parseDigestInput('abcd'), null);
+  });
+});
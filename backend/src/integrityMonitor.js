@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { calculateFileHash } from './hashing.js';
+
+/**
+ * Re-hashes the original files kept in the upload directory and compares
+ * them with the recorded fileHash, so a file altered or removed on disk is
+ * noticed even though nobody verifies it.
+ *
+ * Every record carries its latest result as `integrity`. A change of status
+ * (and a first check that does not come back intact) is stored as a drift
+ * event, which keeps the history small: a file that stays modified yields
+ * one event, not one per run.
+ */
+
+export const INTEGRITY_STATUSES = ['ok', 'modified', 'missing', 'error'];
+
+export class IntegrityMonitor {
+  /**
+   * @param {object} options
+   * @param {object} options.store Record store
+   */
+  constructor({ store }) {
+    this.store = store;
+    this.running = null;
+    this.lastRun = null;
+  }
+
+  /**
+   * Check every stored file. Concurrent calls share one run.
+   * @returns {Promise<{ startedAt: string, finishedAt: string, checked: number, counts: object, drifted: number }>}
+   */
+  checkAll() {
+    this.running ??= this.run().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  async run() {
+    const startedAt = new Date().toISOString();
+    const counts = Object.fromEntries(INTEGRITY_STATUSES.map(status => [status, 0]));
+    let drifted = 0;
+
+    for (const record of await this.store.listFiles()) {
+      // Hashes imported from a manifest have no stored file to check
+      if (!record.filePath) {
+        continue;
+      }
+      const { integrity, driftEvent } = await this.checkRecord(record);
+      counts[integrity.status]++;
+      if (driftEvent) {
+        drifted++;
+      }
+    }
+
+    this.lastRun = {
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      checked: Object.values(counts).reduce((sum, count) => sum + count, 0),
+      counts,
+      drifted
+    };
+    return this.lastRun;
+  }
+
+  /**
+   * Hash one record's stored file, save the result and record drift
+   */
+  async checkRecord(record) {
+    const checkedAt = new Date().toISOString();
+    const previous = record.integrity || null;
+
+    let status = 'ok';
+    let actualHash = null;
+    let error = null;
+    try {
+      actualHash = await calculateFileHash(record.filePath);
+      if (actualHash !== record.fileHash) {
+        status = 'modified';
+      }
+    } catch (hashError) {
+      status = hashError.code === 'ENOENT' ? 'missing' : 'error';
+      error = hashError.message;
+    }
+
+    const integrity = {
+      status,
+      lastCheckedAt: checkedAt,
+      // Last time the stored file still matched its recorded hash
+      lastVerifiedAt: status === 'ok' ? checkedAt : previous?.lastVerifiedAt || null,
+      actualHash: status === 'ok' ? null : actualHash,
+      error
+    };
+    await this.store.updateFile(record.id, { integrity });
+
+    const previousStatus = previous?.status || null;
+    if (status === previousStatus || (!previous && status === 'ok')) {
+      return { integrity, driftEvent: null };
+    }
+
+    const driftEvent = {
+      id: crypto.randomUUID(),
+      fileId: record.id,
+      detectedAt: checkedAt,
+      status,
+      previousStatus,
+      expectedHash: record.fileHash,
+      actualHash,
+      error
+    };
+    await this.store.insertIntegrityEvent(driftEvent);
+
+    if (status === 'ok') {
+      console.log(`🛡️  Stored file for record ${record.id} is intact again`);
+    } else {
+      console.warn(`🛡️  Stored file for record ${record.id} is ${status}${error ? `: ${error}` : ''}`);
+    }
+    return { integrity, driftEvent };
+  }
+}
@@ -0,0 +1,79 @@
+import express from 'express';
+import { INTEGRITY_STATUSES } from './integrityMonitor.js';
+
+/**
+ * Tamper monitor status and manual checks
+ */
+export function createIntegrityRouter({ fileRecords, integrityMonitor, intervalMinutes, requireAuth, requireRole, validateRequest }) {
+  const router = express.Router();
+
+  /**
+   * Tamper monitor overview: status counts and per-file status of the caller's
+   * files (hashes imported from manifests have no stored file and are left out)
+   */
+  router.get('/integrity', requireAuth, validateRequest('getIntegrity'), async (req, res) => {
+    try {
+      const records = (await fileRecords.listAccessibleFiles(req.user)).filter(record => record.filePath);
+
+      const counts = Object.fromEntries(INTEGRITY_STATUSES.map(status => [status, 0]));
+      let unchecked = 0;
+      for (const record of records) {
+        if (record.integrity) {
+          counts[record.integrity.status]++;
+        } else {
+          unchecked++;
+        }
+      }
+
+      res.json({
+        success: true,
+        data: {
+          status: counts.modified + counts.missing > 0 ? 'drift' : counts.error > 0 ? 'degraded' : 'ok',
+          intervalMinutes: intervalMinutes,
+          checking: Boolean(integrityMonitor.running),
+          lastRun: integrityMonitor.lastRun,
+          counts: { ...counts, unchecked },
+          files: records.map(record => ({
+            id: record.id,
+            originalName: record.originalName,
+            fileHash: record.fileHash,
+            status: record.integrity?.status || null,
+            lastCheckedAt: record.integrity?.lastCheckedAt || null,
+            lastVerifiedAt: record.integrity?.lastVerifiedAt || null
+          }))
+        }
+      });
+
+    } catch (error) {
+      console.error('Integrity status error:', error);
+      res.status(500).json({ 
+        error: 'Failed to retrieve integrity status',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Re-hash every stored file now instead of waiting for the next scheduled check
+   */
+  router.post('/integrity/check', requireRole('admin'), validateRequest('checkIntegrity'), async (req, res) => {
+    try {
+      const result = await integrityMonitor.checkAll();
+
+      res.json({
+        success: true,
+        message: `Checked ${result.checked} file(s), ${result.drifted} status change(s)`,
+        data: result
+      });
+
+    } catch (error) {
+      console.error('Integrity check error:', error);
+      res.status(500).json({ 
+        error: 'Failed to check stored files',
+        details: error.message 
+      });
+    }
+  });
+
+  return router;
+}
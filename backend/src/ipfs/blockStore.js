@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  parseCid,
+  sha256Multihash,
+  cidFromBytes,
+  CODEC_RAW,
+  CODEC_DAG_PB
+} from './multiformats.js';
+import { decodeNode, decodeUnixFs } from './dagPb.js';
+
+/**
+ * Local content-addressed block store. Blocks are kept as files named by CID
+ * and re-hashed on every read, so served content always matches its CID.
+ */
+export class BlockStore {
+  constructor(directory) {
+    this.directory = directory;
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  blockPath(cid) {
+    // Validates the CID and prevents path traversal through the name
+    parseCid(cid);
+    return path.join(this.directory, cid);
+  }
+
+  async put(cid, block) {
+    const blockPath = this.blockPath(cid);
+    if (!fs.existsSync(blockPath)) {
+      await fs.promises.writeFile(blockPath, block);
+    }
+  }
+
+  async has(cid) {
+    return fs.existsSync(this.blockPath(cid));
+  }
+
+  async get(cid) {
+    const { multihash } = parseCid(cid);
+    const blockPath = this.blockPath(cid);
+
+    if (!fs.existsSync(blockPath)) {
+      return null;
+    }
+
+    const block = await fs.promises.readFile(blockPath);
+    if (!sha256Multihash(block).equals(multihash)) {
+      throw new Error(`Block ${cid} is corrupted: content does not match its CID`);
+    }
+    return block;
+  }
+
+  /**
+   * Stream the file content behind a UnixFS root CID
+   * @returns {AsyncGenerator<Buffer>}
+   */
+  async *cat(cid) {
+    const { codec } = parseCid(cid);
+    const block = await this.get(cid);
+
+    if (!block) {
+      throw new BlockNotFoundError(cid);
+    }
+
+    if (codec === CODEC_RAW) {
+      yield block;
+      return;
+    }
+
+    if (codec !== CODEC_DAG_PB) {
+      throw new Error(`Unsupported codec 0x${codec.toString(16)} for ${cid}`);
+    }
+
+    const node = decodeNode(block);
+    const unixfs = decodeUnixFs(node.data || Buffer.alloc(0));
+
+    if (unixfs.data.length > 0) {
+      yield unixfs.data;
+    }
+    for (const link of node.links) {
+      yield* this.cat(cidFromBytes(link.hash));
+    }
+  }
+}
+
+export class BlockNotFoundError extends Error {
+  constructor(cid) {
+    super(`Block ${cid} not found in local block store`);
+    this.name = 'BlockNotFoundError';
+    this.cid = cid;
+  }
+}
@@ -0,0 +1,109 @@
+import { encodeVarint, decodeVarint } from './multiformats.js';
+
+/**
+ * dag-pb (PBNode/PBLink) and UnixFS Data protobuf encoding.
+ * Field order follows the canonical dag-pb form: Links before Data.
+ */
+
+const WIRE_VARINT = 0;
+const WIRE_BYTES = 2;
+
+export const UNIXFS_TYPE_FILE = 2;
+
+function fieldKey(fieldNumber, wireType) {
+  return encodeVarint((fieldNumber << 3) | wireType);
+}
+
+function bytesField(fieldNumber, bytes) {
+  return Buffer.concat([fieldKey(fieldNumber, WIRE_BYTES), encodeVarint(bytes.length), bytes]);
+}
+
+function varintField(fieldNumber, value) {
+  return Buffer.concat([fieldKey(fieldNumber, WIRE_VARINT), encodeVarint(value)]);
+}
+
+/**
+ * Iterate over the raw fields of a protobuf message
+ */
+function* readFields(buffer) {
+  let offset = 0;
+  while (offset < buffer.length) {
+    const [key, keyLength] = decodeVarint(buffer, offset);
+    offset += keyLength;
+    const fieldNumber = key >>> 3;
+    const wireType = key & 0x7;
+
+    if (wireType === WIRE_VARINT) {
+      const [value, length] = decodeVarint(buffer, offset);
+      offset += length;
+      yield { fieldNumber, value };
+    } else if (wireType === WIRE_BYTES) {
+      const [length, prefixLength] = decodeVarint(buffer, offset);
+      offset += prefixLength;
+      yield { fieldNumber, value: buffer.subarray(offset, offset + length) };
+      offset += length;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+}
+
+/**
+ * Encode UnixFS Data for a file node
+ */
+export function encodeUnixFsFile({ data, fileSize, blockSizes = [] }) {
+  const parts = [varintField(1, UNIXFS_TYPE_FILE)];
+  if (data && data.length > 0) {
+    parts.push(bytesField(2, data));
+  }
+  parts.push(varintField(3, fileSize));
+  for (const size of blockSizes) {
+    parts.push(varintField(4, size));
+  }
+  return Buffer.concat(parts);
+}
+
+export function decodeUnixFs(buffer) {
+  const result = { type: null, data: Buffer.alloc(0), fileSize: null, blockSizes: [] };
+  for (const { fieldNumber, value } of readFields(buffer)) {
+    if (fieldNumber === 1) result.type = value;
+    if (fieldNumber === 2) result.data = value;
+    if (fieldNumber === 3) result.fileSize = value;
+    if (fieldNumber === 4) result.blockSizes.push(value);
+  }
+  return result;
+}
+
+/**
+ * Encode a PBNode
+ * @param {{ data: Buffer, links: { hash: Buffer, name?: string, tsize: number }[] }} node
+ */
+export function encodeNode({ data, links = [] }) {
+  const parts = links.map(link => bytesField(2, Buffer.concat([
+    bytesField(1, link.hash),
+    bytesField(2, Buffer.from(link.name || '', 'utf8')),
+    varintField(3, link.tsize)
+  ])));
+  if (data) {
+    parts.push(bytesField(1, data));
+  }
+  return Buffer.concat(parts);
+}
+
+export function decodeNode(buffer) {
+  const node = { data: null, links: [] };
+  for (const { fieldNumber, value } of readFields(buffer)) {
+    if (fieldNumber === 1) {
+      node.data = value;
+    } else if (fieldNumber === 2) {
+      const link = { hash: null, name: '', tsize: 0 };
+      for (const field of readFields(value)) {
+        if (field.fieldNumber === 1) link.hash = field.value;
+        if (field.fieldNumber === 2) link.name = field.value.toString('utf8');
+        if (field.fieldNumber === 3) link.tsize = field.value;
+      }
+      node.links.push(link);
+    }
+  }
+  return node;
+}
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import { createCid, cidToBytes, CODEC_RAW, CODEC_DAG_PB } from './multiformats.js';
+import { encodeNode, encodeUnixFsFile } from './dagPb.js';
+
+// Same defaults as `ipfs add`: fixed-size 256 KiB chunks, balanced layout
+export const CHUNK_SIZE = 262144;
+export const MAX_CHILDREN_PER_NODE = 174;
+
+/**
+ * Split a readable stream into fixed-size chunks
+ */
+async function* chunkStream(stream, chunkSize) {
+  let pending = [];
+  let pendingLength = 0;
+
+  for await (const data of stream) {
+    pending.push(data);
+    pendingLength += data.length;
+
+    while (pendingLength >= chunkSize) {
+      const buffer = Buffer.concat(pending);
+      yield buffer.subarray(0, chunkSize);
+      pending = [buffer.subarray(chunkSize)];
+      pendingLength = buffer.length - chunkSize;
+    }
+  }
+
+  if (pendingLength > 0) {
+    yield Buffer.concat(pending);
+  }
+}
+
+/**
+ * Build the UnixFS DAG for a file and return its root CID.
+ *
+ * CIDv0 uses dag-pb leaves; CIDv1 uses raw leaves (the `ipfs add --cid-version=1` default),
+ * so the result matches what an IPFS node reports for the same bytes.
+ *
+ * @param {string} filePath Path of the file to import
+ * @param {{ cidVersion?: 0 | 1, blockStore?: { put(cid: string, block: Buffer): Promise<void> } }} options
+ * @returns {Promise<{ cid: string, size: number, blocks: number }>}
+ */
+export async function importFile(filePath, { cidVersion = 0, blockStore } = {}) {
+  const rawLeaves = cidVersion === 1;
+  let blockCount = 0;
+
+  const putBlock = async (block, codec) => {
+    const version = codec === CODEC_RAW ? 1 : cidVersion;
+    const cid = createCid(block, { version, codec });
+    if (blockStore) {
+      await blockStore.put(cid, block);
+    }
+    blockCount++;
+    return cid;
+  };
+
+  // Leaves: { cid, tsize (serialized subtree size), fileSize (bytes of content) }
+  const leaves = [];
+  for await (const chunk of chunkStream(fs.createReadStream(filePath), CHUNK_SIZE)) {
+    if (rawLeaves) {
+      leaves.push({ cid: await putBlock(chunk, CODEC_RAW), tsize: chunk.length, fileSize: chunk.length });
+    } else {
+      const block = encodeNode({ data: encodeUnixFsFile({ data: chunk, fileSize: chunk.length }) });
+      leaves.push({ cid: await putBlock(block, CODEC_DAG_PB), tsize: block.length, fileSize: chunk.length });
+    }
+  }
+
+  // A single chunk (or an empty file) is its own root
+  if (leaves.length === 0) {
+    const cid = rawLeaves
+      ? await putBlock(Buffer.alloc(0), CODEC_RAW)
+      : await putBlock(encodeNode({ data: encodeUnixFsFile({ fileSize: 0 }) }), CODEC_DAG_PB);
+    return { cid, size: 0, blocks: blockCount };
+  }
+  if (leaves.length === 1) {
+    return { cid: leaves[0].cid, size: leaves[0].fileSize, blocks: blockCount };
+  }
+
+  const buildParent = async (children) => {
+    const fileSize = children.reduce((total, child) => total + child.fileSize, 0);
+    const block = encodeNode({
+      data: encodeUnixFsFile({ fileSize, blockSizes: children.map(child => child.fileSize) }),
+      links: children.map(child => ({ hash: cidToBytes(child.cid), name: '', tsize: child.tsize }))
+    });
+    const tsize = block.length + children.reduce((total, child) => total + child.tsize, 0);
+    return { cid: await putBlock(block, CODEC_DAG_PB), tsize, fileSize };
+  };
+
+  // Balanced layout: group up to MAX_CHILDREN_PER_NODE nodes per parent until one root remains
+  let level = leaves;
+  do {
+    const parents = [];
+    for (let i = 0; i < level.length; i += MAX_CHILDREN_PER_NODE) {
+      parents.push(await buildParent(level.slice(i, i + MAX_CHILDREN_PER_NODE)));
+    }
+    level = parents;
+  } while (level.length > 1);
+
+  return { cid: level[0].cid, size: level[0].fileSize, blocks: blockCount };
+}
@@ -0,0 +1,80 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BlockStore } from './blockStore.js';
+import { CHUNK_SIZE, importFile } from './importer.js';
+import { cidToBytes, cidFromBytes, parseCid } from './multiformats.js';
+
+// CIDs `ipfs add` (v0) and `ipfs add --cid-version=1` report for the same bytes
+const VECTORS = [
+  { name: 'empty file', content: '', cidVersion: 0, cid: 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH' },
+  { name: '"hello world\\n"', content: 'hello world\n', cidVersion: 0, cid: 'QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o' },
+  { name: 'empty file', content: '', cidVersion: 1, cid: 'bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku' },
+  { name: '"hello world"', content: 'hello world', cidVersion: 1, cid: 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e' }
+];
+
+describe('importFile', function () {
+  let dir;
+
+  before(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-integrity-ipfs-'));
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeFile(name, content) {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  for (const [index, { name, content, cidVersion, cid }] of VECTORS.entries()) {
+    it(`Should match the IPFS CIDv${cidVersion} of the ${name}`, async function () {
+      const result = await importFile(writeFile(`vector-${index}`, content), { cidVersion });
+      assert.equal(result.cid, cid);
+      assert.equal(result.size, Buffer.byteLength(content));
+    });
+  }
+
+  for (const cidVersion of [0, 1]) {
+    it(`Should store a multi-chunk CIDv${cidVersion} DAG that reads back byte for byte`, async function () {
+      const content = crypto.randomBytes(CHUNK_SIZE * 2 + 1000);
+      const blockStore = new BlockStore(path.join(dir, `blocks-v${cidVersion}`));
+
+      const { cid, blocks } = await importFile(writeFile(`chunked-v${cidVersion}`, content), { cidVersion, blockStore });
+      assert.equal(blocks, 4);
+      assert.equal(parseCid(cid).version, cidVersion);
+
+      const chunks = [];
+      for await (const chunk of blockStore.cat(cid)) {
+        chunks.push(chunk);
+      }
+      assert.ok(Buffer.concat(chunks).equals(content));
+    });
+  }
+
+  it('Should refuse blocks whose content no longer matches their CID', async function () {
+    const blockStore = new BlockStore(path.join(dir, 'blocks-tampered'));
+    const { cid } = await importFile(writeFile('tampered', 'original'), { cidVersion: 1, blockStore });
+
+    fs.writeFileSync(path.join(blockStore.directory, cid), 'modified');
+    await assert.rejects(blockStore.get(cid), /corrupted/);
+  });
+});
+
+describe('CID encoding', function () {
+  it('Should round-trip CIDs through their binary form', function () {
+    for (const { cid } of VECTORS) {
+      assert.equal(cidFromBytes(cidToBytes(cid)), cid);
+    }
+  });
+
+  it('Should reject unsupported encodings', function () {
+    assert.throws(() => parseCid('zdj7WWeQ43G6JJvLWQWZpyHuAMq6uYWRjkBXFad11vE2LHhQ7'), /Unsupported CID encoding/);
+  });
+});
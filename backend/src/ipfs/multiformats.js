@@ -0,0 +1,197 @@
+import crypto from 'crypto';
+
+/**
+ * Minimal multiformats helpers (varint, multihash, multibase, CID)
+ * covering what the UnixFS importer and block store need.
+ */
+
+export const CODEC_RAW = 0x55;
+export const CODEC_DAG_PB = 0x70;
+export const MULTIHASH_SHA2_256 = 0x12;
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+export function encodeVarint(value) {
+  const bytes = [];
+  let n = BigInt(value);
+  while (n >= 0x80n) {
+    bytes.push(Number((n & 0x7fn) | 0x80n));
+    n >>= 7n;
+  }
+  bytes.push(Number(n));
+  return Buffer.from(bytes);
+}
+
+/**
+ * @returns {[number, number]} decoded value and number of bytes read
+ */
+export function decodeVarint(buffer, offset = 0) {
+  let value = 0n;
+  let shift = 0n;
+  let position = offset;
+  while (position < buffer.length) {
+    const byte = buffer[position++];
+    value |= BigInt(byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) {
+      return [Number(value), position - offset];
+    }
+    shift += 7n;
+  }
+  throw new Error('Unexpected end of varint');
+}
+
+export function sha256Multihash(bytes) {
+  const digest = crypto.createHash('sha256').update(bytes).digest();
+  return Buffer.concat([Buffer.from([MULTIHASH_SHA2_256, digest.length]), digest]);
+}
+
+function encodeBase58(buffer) {
+  let n = BigInt('0x' + (buffer.toString('hex') || '0'));
+  let out = '';
+  while (n > 0n) {
+    out = BASE58_ALPHABET[Number(n % 58n)] + out;
+    n /= 58n;
+  }
+  for (const byte of buffer) {
+    if (byte !== 0) break;
+    out = '1' + out;
+  }
+  return out;
+}
+
+function decodeBase58(text) {
+  let n = 0n;
+  for (const char of text) {
+    const index = BASE58_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base58 character "${char}"`);
+    }
+    n = n * 58n + BigInt(index);
+  }
+  let hex = n === 0n ? '' : n.toString(16);
+  if (hex.length % 2) hex = '0' + hex;
+  const leadingZeros = text.match(/^1*/)[0].length;
+  return Buffer.concat([Buffer.alloc(leadingZeros), Buffer.from(hex, 'hex')]);
+}
+
+function encodeBase32(buffer) {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return out;
+}
+
+function decodeBase32(text) {
+  let bits = 0;
+  let value = 0;
+  const bytes = [];
+  for (const char of text) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Create a CID string for a block.
+ * CIDv0 is base58btc(multihash) and only valid for dag-pb; CIDv1 is base32 multibase.
+ */
+export function createCid(block, { version, codec }) {
+  const multihash = sha256Multihash(block);
+  if (version === 0) {
+    if (codec !== CODEC_DAG_PB) {
+      throw new Error('CIDv0 only supports the dag-pb codec');
+    }
+    return encodeBase58(multihash);
+  }
+  const bytes = Buffer.concat([encodeVarint(1), encodeVarint(codec), multihash]);
+  return 'b' + encodeBase32(bytes);
+}
+
+/**
+ * Parse a CID string into its components
+ * @returns {{ version: number, codec: number, multihash: Buffer, digest: Buffer }}
+ */
+export function parseCid(cid) {
+  let version;
+  let codec;
+  let multihash;
+
+  if (cid.length === 46 && cid.startsWith('Qm')) {
+    version = 0;
+    codec = CODEC_DAG_PB;
+    multihash = decodeBase58(cid);
+  } else if (cid.startsWith('b')) {
+    const bytes = decodeBase32(cid.slice(1));
+    let offset = 0;
+    const [cidVersion, versionLength] = decodeVarint(bytes, offset);
+    offset += versionLength;
+    const [cidCodec, codecLength] = decodeVarint(bytes, offset);
+    offset += codecLength;
+    if (cidVersion !== 1) {
+      throw new Error(`Unsupported CID version ${cidVersion}`);
+    }
+    version = 1;
+    codec = cidCodec;
+    multihash = bytes.subarray(offset);
+  } else {
+    throw new Error('Unsupported CID encoding (expected CIDv0 "Qm..." or base32 CIDv1 "b...")');
+  }
+
+  if (multihash[0] !== MULTIHASH_SHA2_256 || multihash[1] !== 32 || multihash.length !== 34) {
+    throw new Error('Only sha2-256 multihashes are supported');
+  }
+
+  return { version, codec, multihash, digest: multihash.subarray(2) };
+}
+
+/**
+ * Return a CID in the same version/encoding style for a given child multihash
+ */
+export function cidFromMultihash(multihash, { version, codec }) {
+  if (version === 0) {
+    return encodeBase58(multihash);
+  }
+  return 'b' + encodeBase32(Buffer.concat([encodeVarint(1), encodeVarint(codec), multihash]));
+}
+
+/**
+ * Decode the binary CID stored in a dag-pb link
+ */
+export function cidFromBytes(bytes) {
+  if (bytes[0] === MULTIHASH_SHA2_256 && bytes[1] === 32) {
+    return cidFromMultihash(bytes, { version: 0 });
+  }
+  return 'b' + encodeBase32(bytes);
+}
+
+/**
+ * Binary form of a CID string, as embedded in dag-pb links
+ */
+export function cidToBytes(cid) {
+  const { version, codec, multihash } = parseCid(cid);
+  if (version === 0) {
+    return multihash;
+  }
+  return Buffer.concat([encodeVarint(1), encodeVarint(codec), multihash]);
+}
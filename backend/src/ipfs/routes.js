@@ -0,0 +1,52 @@
+import express from 'express';
+import { Readable } from 'stream';
+import { canAccessFile } from '../store/records.js';
+import { BlockNotFoundError } from './blockStore.js';
+
+/**
+ * Content of the caller's files from the local block store
+ */
+export function createIpfsRouter({ store, blockStore, requireAuth, validateRequest }) {
+  const router = express.Router();
+
+  /**
+   * Serve file content from the local block store by IPFS CID
+   */
+  router.get('/ipfs/:cid', requireAuth, validateRequest('getIpfsContent'), async (req, res) => {
+    try {
+      const { cid } = req.params;
+
+      const records = await store.listFiles({ ipfsHash: cid });
+      if (!records.some(record => canAccessFile(req.user, record))) {
+        return res.status(404).json({ error: 'Content not found for CID' });
+      }
+
+      if (!(await blockStore.has(cid))) {
+        return res.status(404).json({ error: 'Content not found for CID' });
+      }
+
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('X-IPFS-Path', `/ipfs/${cid}`);
+
+      Readable.from(blockStore.cat(cid))
+        .on('error', (error) => {
+          // Headers are already sent; abort so the client sees an incomplete transfer
+          console.error('IPFS read error:', error);
+          res.destroy(error);
+        })
+        .pipe(res);
+
+    } catch (error) {
+      if (error instanceof BlockNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      res.status(400).json({ 
+        error: 'Invalid CID',
+        code: 'INVALID_CID',
+        details: error.message 
+      });
+    }
+  });
+
+  return router;
+}
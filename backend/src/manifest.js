@@ -0,0 +1,220 @@
+import path from 'path';
+import { HASH_ALGORITHMS } from './hashing.js';
+
+/**
+ * Checksum manifests: GNU `sha256sum` text and a JSON manifest with names,
+ * sizes, timestamps and the other registered digests.
+ *
+ * sha256sum lines are "<hash>  <name>" ("<hash> *<name>" in binary mode).
+ * Names containing a backslash or newline are escaped and the line starts
+ * with a backslash, as GNU coreutils does. BSD-style "SHA256 (<name>) = <hash>"
+ * lines are accepted on import.
+ */
+
+export const MANIFEST_FORMATS = ['sha256sum', 'json'];
+export const JSON_MANIFEST_FORMAT = 'file-integrity-manifest';
+export const JSON_MANIFEST_VERSION = 1;
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+export class ManifestError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ManifestError';
+  }
+}
+
+/**
+ * Manifest entry for a stored record
+ */
+export function manifestEntryFromRecord(record) {
+  return {
+    name: record.originalName,
+    sha256: record.fileHash,
+    size: record.size ?? null,
+    timestamp: record.uploadTime,
+    digests: Object.fromEntries(
+      (record.digests || [])
+        .filter(entry => entry.algorithm !== 'sha256')
+        .map(entry => [entry.algorithm, entry.digest])
+    ),
+    recordId: record.id,
+    ipfsHash: record.ipfsHash || null
+  };
+}
+
+function escapeName(name) {
+  return name.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/\r/g, '\\r');
+}
+
+function unescapeName(name) {
+  return name.replace(/\\(\\|n|r)/g, (_match, code) => ({ '\\': '\\', n: '\n', r: '\r' })[code]);
+}
+
+export function toSha256sum(entries) {
+  return entries
+    .map(entry => {
+      const escaped = escapeName(entry.name);
+      return `${escaped !== entry.name ? '\\' : ''}${entry.sha256}  ${escaped}\n`;
+    })
+    .join('');
+}
+
+export function toJsonManifest(entries, generatedAt = new Date().toISOString()) {
+  return {
+    format: JSON_MANIFEST_FORMAT,
+    version: JSON_MANIFEST_VERSION,
+    generatedAt,
+    algorithm: 'sha256',
+    files: entries
+  };
+}
+
+/**
+ * Parse a manifest, detecting JSON or sha256sum text. Lines or entries that
+ * cannot be read are returned as errors instead of failing the whole file.
+ * @returns {{ format: string, entries: object[], errors: { line: number, message: string }[] }}
+ */
+export function parseManifest(text) {
+  const trimmed = text.replace(/^﻿/, '').trim();
+  if (!trimmed) {
+    throw new ManifestError('Manifest is empty');
+  }
+  return trimmed.startsWith('{') ? parseJsonManifest(trimmed) : parseSha256sum(trimmed);
+}
+
+function parseSha256sum(text) {
+  const entries = [];
+  const errors = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trimEnd();
+    if (!line || line.startsWith('#')) {
+      return;
+    }
+
+    const gnu = line.match(/^(\\)?([0-9a-fA-F]{64}) [ *](.+)$/);
+    const bsd = !gnu && line.match(/^(\\)?SHA256 \((.+)\) = ([0-9a-fA-F]{64})$/);
+    if (!gnu && !bsd) {
+      errors.push({ line: index + 1, message: 'Not a SHA-256 manifest line' });
+      return;
+    }
+
+    const [, escaped, hash, name] = gnu || [bsd[0], bsd[1], bsd[3], bsd[2]];
+    entries.push({
+      line: index + 1,
+      name: escaped ? unescapeName(name) : name,
+      sha256: hash.toLowerCase(),
+      size: null,
+      timestamp: null,
+      digests: {}
+    });
+  });
+
+  return { format: 'sha256sum', entries, errors };
+}
+
+function parseJsonManifest(text) {
+  let manifest;
+  try {
+    manifest = JSON.parse(text);
+  } catch (error) {
+    throw new ManifestError(`Manifest is not valid JSON: ${error.message}`);
+  }
+
+  if (manifest.format !== JSON_MANIFEST_FORMAT || !Array.isArray(manifest.files)) {
+    throw new ManifestError(`JSON manifests need "format": "${JSON_MANIFEST_FORMAT}" and a "files" array`);
+  }
+  if (manifest.version > JSON_MANIFEST_VERSION) {
+    throw new ManifestError(`Manifest version ${manifest.version} is newer than supported version ${JSON_MANIFEST_VERSION}`);
+  }
+
+  const entries = [];
+  const errors = [];
+
+  manifest.files.forEach((file, index) => {
+    // JSON entries are numbered from 1, like lines
+    const line = index + 1;
+    const sha256 = typeof file?.sha256 === 'string' ? file.sha256.replace(/^0x/i, '').toLowerCase() : '';
+
+    if (!file || typeof file.name !== 'string' || !file.name) {
+      errors.push({ line, message: 'Entry has no name' });
+      return;
+    }
+    if (!SHA256_PATTERN.test(sha256)) {
+      errors.push({ line, message: `Entry "${file.name}" has no valid sha256` });
+      return;
+    }
+
+    // Only keep digests of registered algorithms
+    const digests = Object.fromEntries(
+      Object.entries(file.digests || {})
+        .filter(([algorithm, digest]) => HASH_ALGORITHMS[algorithm] && algorithm !== 'sha256' && /^[0-9a-f]+$/i.test(digest))
+        .map(([algorithm, digest]) => [algorithm, digest.toLowerCase()])
+    );
+
+    entries.push({
+      line,
+      name: file.name,
+      sha256,
+      size: Number.isSafeInteger(file.size) && file.size >= 0 ? file.size : null,
+      timestamp: typeof file.timestamp === 'string' ? file.timestamp : null,
+      digests
+    });
+  });
+
+  return { format: 'json', entries, errors };
+}
+
+/**
+ * Manifest names are relative to the checked directory; a directory picked in
+ * the browser also carries its own name as the first path segment
+ */
+function candidatePaths(filePath) {
+  const normalized = filePath.replace(/\\/g, '/');
+  const withoutRoot = normalized.split('/').slice(1).join('/');
+  return withoutRoot ? [normalized, withoutRoot] : [normalized];
+}
+
+function normalizeName(name) {
+  return path.posix.normalize(name.replace(/\\/g, '/')).replace(/^\.\//, '');
+}
+
+/**
+ * Compare hashed files against manifest entries
+ * @param {object[]} entries Parsed manifest entries
+ * @param {{ path: string, sha256: string }[]} files Hashed local files
+ * @returns {{ entries: object[], extra: object[] }}
+ */
+export function compareWithManifest(entries, files) {
+  const filesByPath = new Map();
+  for (const file of files) {
+    for (const candidate of candidatePaths(file.path)) {
+      if (!filesByPath.has(candidate)) {
+        filesByPath.set(candidate, file);
+      }
+    }
+  }
+
+  const used = new Set();
+  const results = entries.map(entry => {
+    const file = filesByPath.get(normalizeName(entry.name));
+    if (!file) {
+      return { name: entry.name, expectedHash: entry.sha256, actualHash: null, status: 'missing' };
+    }
+    used.add(file);
+    return {
+      name: entry.name,
+      path: file.path,
+      expectedHash: entry.sha256,
+      actualHash: file.sha256,
+      status: file.sha256 === entry.sha256 ? 'ok' : 'modified'
+    };
+  });
+
+  const extra = files
+    .filter(file => !used.has(file))
+    .map(file => ({ path: file.path, actualHash: file.sha256 }));
+
+  return { entries: results, extra };
+}
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ManifestError,
+  compareWithManifest,
+  manifestEntryFromRecord,
+  parseManifest,
+  toJsonManifest,
+  toSha256sum
+} from './manifest.js';
+
+const HASH_A = 'a'.repeat(64);
+const HASH_B = 'b'.repeat(64);
+
+const RECORDS = [
+  {
+    id: '1',
+    originalName: 'report.pdf',
+    fileHash: HASH_A,
+    size: 10,
+    uploadTime: '2025-01-01T00:00:00.000Z',
+    digests: [{ algorithm: 'sha256', digest: HASH_A }, { algorithm: 'blake3', digest: 'c'.repeat(64) }]
+  },
+  { id: '2', originalName: 'odd\\name\nwith newline.txt', fileHash: HASH_B, size: 0, uploadTime: '2025-01-02T00:00:00.000Z' }
+];
+
+describe('manifests', function () {
+  const entries = RECORDS.map(manifestEntryFromRecord);
+
+  it('Should round-trip sha256sum manifests, escaping names as GNU coreutils does', function () {
+    const text = toSha256sum(entries);
+    assert.equal(text.split('\n')[1], `\\${HASH_B}  odd\\\\name\\nwith newline.txt`);
+
+    const parsed = parseManifest(text);
+    assert.equal(parsed.format, 'sha256sum');
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(parsed.entries.map(entry => [entry.name, entry.sha256]), RECORDS.map(record => [record.originalName, record.fileHash]));
+  });
+
+  it('Should round-trip JSON manifests with their extra digests', function () {
+    const parsed = parseManifest(JSON.stringify(toJsonManifest(entries, '2025-01-03T00:00:00.000Z')));
+
+    assert.equal(parsed.format, 'json');
+    assert.deepEqual(parsed.entries[0], {
+      line: 1,
+      name: 'report.pdf',
+      sha256: HASH_A,
+      size: 10,
+      timestamp: '2025-01-01T00:00:00.000Z',
+      digests: { blake3: 'c'.repeat(64) }
+    });
+  });
+
+  it('Should read binary-mode, BSD-style and commented lines and report bad ones', function () {
+    const parsed = parseManifest([
+      '# generated by hand',
+      `${HASH_A.toUpperCase()} *bin/tool`,
+      `SHA256 (dir/file.txt) = ${HASH_B}`,
+      'not a manifest line'
+    ].join('\r\n'));
+
+    assert.deepEqual(parsed.entries.map(entry => [entry.line, entry.name, entry.sha256]), [
+      [2, 'bin/tool', HASH_A],
+      [3, 'dir/file.txt', HASH_B]
+    ]);
+    assert.deepEqual(parsed.errors, [{ line: 4, message: 'Not a SHA-256 manifest line' }]);
+  });
+
+  it('Should report JSON entries without a name or hash', function () {
+    const parsed = parseManifest(JSON.stringify(toJsonManifest([{ sha256: HASH_A }, { name: 'x', sha256: 'xyz' }])));
+
+    assert.deepEqual(parsed.entries, []);
+    assert.deepEqual(parsed.errors.map(error => error.line), [1, 2]);
+  });
+
+  it('Should refuse empty, malformed and newer manifests', function () {
+    assert.throws(() => parseManifest('  \n'), ManifestError);
+    assert.throws(() => parseManifest('{ not json'), /not valid JSON/);
+    assert.throws(() => parseManifest(JSON.stringify({ files: [] })), /"format"/);
+    assert.throws(() => parseManifest(JSON.stringify({ ...toJsonManifest([]), version: 99 })), /newer/);
+  });
+
+  it('Should compare files against a manifest, with or without the picked folder name', function () {
+    const parsed = parseManifest(`${HASH_A}  docs/a.txt\n${HASH_B}  ./b.txt\n${HASH_A}  missing.txt\n`);
+    const result = compareWithManifest(parsed.entries, [
+      { path: 'picked/docs/a.txt', sha256: HASH_A },
+      { path: 'picked/b.txt', sha256: HASH_A },
+      { path: 'picked/extra.txt', sha256: HASH_B }
+    ]);
+
+    assert.deepEqual(result.entries.map(entry => [entry.name, entry.status]), [
+      ['docs/a.txt', 'ok'],
+      ['./b.txt', 'modified'],
+      ['missing.txt', 'missing']
+    ]);
+    assert.deepEqual(result.extra, [{ path: 'picked/extra.txt', actualHash: HASH_B }]);
+  });
+});
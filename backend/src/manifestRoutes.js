@@ -0,0 +1,239 @@
+import crypto from 'crypto';
+import express from 'express';
+import fs from 'fs';
+import { calculateFileHash } from './hashing.js';
+import {
+  MANIFEST_FORMATS,
+  ManifestError,
+  compareWithManifest,
+  manifestEntryFromRecord,
+  parseManifest,
+  toJsonManifest,
+  toSha256sum
+} from './manifest.js';
+import { matchesFileFilter } from './store/fileQuery.js';
+import { canAccessFile, fileFilterFromQuery, formatVerifiedRecord } from './store/records.js';
+import { parseRelativePaths } from './uploads.js';
+
+/**
+ * Checksum manifests: export, import of their hashes and checking a directory against one
+ */
+export function createManifestRouter({ store, fileRecords, upload, verifyUpload, verifyBatchMaxFiles, verifyBatchMaxMb, requireAuth, validateRequest }) {
+  const router = express.Router();
+
+  /**
+   * Export the caller's records as a checksum manifest: `format=sha256sum`
+   * (GNU coreutils text, checkable with `sha256sum -c`) or `format=json`.
+   * Narrow the export with `ids` (comma separated) or the filters of GET /api/files.
+   */
+  router.get('/manifest', requireAuth, validateRequest('exportManifest'), async (req, res) => {
+    try {
+      const { format = 'sha256sum' } = req.query;
+      if (!MANIFEST_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `format must be one of: ${MANIFEST_FORMATS.join(', ')}` });
+      }
+
+      const ids = req.query.ids ? new Set(String(req.query.ids).split(',').map(id => id.trim())) : null;
+      const filter = fileFilterFromQuery(req);
+      const entries = (await store.listFiles({ ownerId: filter.ownerId, uploadBatchId: filter.uploadBatchId }))
+        .filter(record => matchesFileFilter(record, filter))
+        .filter(record => !ids || ids.has(record.id))
+        .sort((a, b) => a.originalName.localeCompare(b.originalName) || a.uploadTime.localeCompare(b.uploadTime))
+        .map(manifestEntryFromRecord);
+
+      if (format === 'json') {
+        res.attachment('manifest.json');
+        return res.json(toJsonManifest(entries));
+      }
+      res.attachment('manifest.sha256');
+      res.type('text/plain').send(toSha256sum(entries));
+
+    } catch (error) {
+      console.error('Manifest export error:', error);
+      res.status(500).json({
+        error: 'Failed to export manifest',
+        details: error.message
+      });
+    }
+  });
+
+  /**
+   * Register every hash of an uploaded manifest (`manifest` file, sha256sum or
+   * JSON). Only the hashes are stored; the records share an upload batch and
+   * are anchored with the next Merkle batch. Hashes that are already
+   * registered, repeated or unreadable are reported and skipped.
+   */
+  router.post('/manifest/import', requireAuth, upload.single('manifest'), validateRequest('importManifest'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No manifest uploaded', code: 'FILE_REQUIRED' });
+      }
+
+      const text = fs.readFileSync(req.file.path, 'utf8');
+      fs.rmSync(req.file.path, { force: true });
+
+      let manifest;
+      try {
+        manifest = parseManifest(text);
+      } catch (error) {
+        if (!(error instanceof ManifestError)) throw error;
+        return res.status(400).json({ error: error.message, code: 'INVALID_MANIFEST' });
+      }
+      if (manifest.entries.length === 0) {
+        return res.status(400).json({ error: 'Manifest contains no SHA-256 entries', code: 'INVALID_MANIFEST', details: manifest.errors });
+      }
+
+      const { description = '' } = req.body;
+      const uploadBatchId = crypto.randomUUID();
+      const seen = new Set();
+      const results = [];
+
+      for (const entry of manifest.entries) {
+        const base = { line: entry.line, name: entry.name, fileHash: entry.sha256 };
+
+        if (seen.has(entry.sha256)) {
+          results.push({ ...base, result: 'duplicate' });
+          continue;
+        }
+        seen.add(entry.sha256);
+
+        const existing = await store.findFileByHash(entry.sha256);
+        if (existing) {
+          // Other users' record ids stay private; the hash itself is public through verification
+          results.push({ ...base, result: 'existing', recordId: canAccessFile(req.user, existing) ? existing.id : null });
+          continue;
+        }
+
+        const record = await fileRecords.createManifestRecord(entry, {
+          description,
+          ownerId: req.user.id,
+          uploaderAddress: req.walletAddress,
+          uploadBatchId
+        });
+        results.push({ ...base, result: 'registered', recordId: record.id });
+      }
+
+      const count = (result) => results.filter(item => item.result === result).length;
+      const summary = {
+        total: manifest.entries.length + manifest.errors.length,
+        registered: count('registered'),
+        existing: count('existing'),
+        duplicate: count('duplicate'),
+        invalid: manifest.errors.length
+      };
+
+      res.json({
+        success: true,
+        message: `Registered ${summary.registered} hash(es) from the manifest, ${summary.existing} already registered`,
+        data: {
+          format: manifest.format,
+          uploadBatchId: summary.registered > 0 ? uploadBatchId : null,
+          summary,
+          results,
+          errors: manifest.errors
+        }
+      });
+
+    } catch (error) {
+      console.error('Manifest import error:', error);
+      res.status(500).json({
+        error: 'Failed to import manifest',
+        details: error.message
+      });
+    }
+  });
+
+  /**
+   * Check a local directory against a manifest: upload the `manifest` and the
+   * directory's `files` (with `relativePaths`). Every manifest entry is
+   * reported as ok, modified or missing, together with the verification status
+   * of its hash in the records; files not listed in the manifest are returned
+   * as `extra`.
+   */
+  router.post(
+    '/manifest/verify',
+    verifyUpload.fields([{ name: 'manifest', maxCount: 1 }, { name: 'files', maxCount: verifyBatchMaxFiles }]),
+    validateRequest('verifyManifest'),
+    async (req, res) => {
+      const manifestFile = req.files?.manifest?.[0];
+      const files = req.files?.files || [];
+
+      try {
+        if (!manifestFile) {
+          return res.status(400).json({ error: 'No manifest provided', code: 'FILE_REQUIRED' });
+        }
+
+        let manifest;
+        try {
+          manifest = parseManifest(fs.readFileSync(manifestFile.path, 'utf8'));
+        } catch (error) {
+          if (!(error instanceof ManifestError)) throw error;
+          return res.status(400).json({ error: error.message, code: 'INVALID_MANIFEST' });
+        }
+
+        const paths = parseRelativePaths(req.body.relativePaths, files);
+        if (!paths) {
+          return res.status(400).json({ error: 'relativePaths must be a JSON array with one path per file' });
+        }
+
+        const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+        if (totalBytes > verifyBatchMaxMb * 1024 * 1024) {
+          return res.status(413).json({ error: `A manifest check is limited to ${verifyBatchMaxMb} MB of content` });
+        }
+
+        const hashed = [];
+        for (const [index, file] of files.entries()) {
+          hashed.push({ path: paths[index], sha256: await calculateFileHash(file.path) });
+        }
+
+        const comparison = compareWithManifest(manifest.entries, hashed);
+        const entries = [];
+        for (const entry of comparison.entries) {
+          const record = await store.findFileByHash(entry.expectedHash);
+          let registration = null;
+          if (record) {
+            const { isValid, status } = await fileRecords.getVerificationOutcome(record);
+            registration = { status, isValid, record: formatVerifiedRecord(record) };
+          }
+          entries.push({ ...entry, registration });
+        }
+
+        const count = (status) => entries.filter(entry => entry.status === status).length;
+        const summary = {
+          total: entries.length,
+          ok: count('ok'),
+          modified: count('modified'),
+          missing: count('missing'),
+          extra: comparison.extra.length,
+          registered: entries.filter(entry => entry.registration).length
+        };
+
+        res.json({
+          success: true,
+          message: `${summary.ok} of ${summary.total} manifest entries match, ${summary.modified} modified, ${summary.missing} missing`,
+          data: {
+            generatedAt: new Date().toISOString(),
+            format: manifest.format,
+            summary,
+            entries,
+            extra: comparison.extra,
+            errors: manifest.errors
+          }
+        });
+
+      } catch (error) {
+        console.error('Manifest verification error:', error);
+        res.status(500).json({
+          error: 'Failed to check files against manifest',
+          details: error.message
+        });
+      } finally {
+        for (const file of [manifestFile, ...files].filter(Boolean)) {
+          fs.rmSync(file.path, { force: true });
+        }
+      }
+    }
+  );
+
+  return router;
+}
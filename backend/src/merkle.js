@@ -0,0 +1,88 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+
+/**
+ * Keccak-256 Merkle trees matching FileIntegrity.batchLeaf / computeMerkleRoot.
+ *
+ * Leaves are keccak256(0x00 || fileHash) over the 32 digest bytes, the same form
+ * uploadFile stores, and inner nodes keccak256(0x01 || a || b)
+ * with the pair sorted, so proofs are plain sibling lists without left/right flags.
+ * An unpaired node at the end of a level is carried up unchanged.
+ */
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+function toHex(bytes) {
+  return `0x${Buffer.from(bytes).toString('hex')}`;
+}
+
+function fromHex(hex) {
+  return Buffer.from(hex.replace(/^0x/, ''), 'hex');
+}
+
+/**
+ * Merkle leaf for a file hash (hex, as stored in the record)
+ */
+export function hashLeaf(fileHash) {
+  const digest = fromHex(fileHash);
+  if (digest.length !== 32) {
+    throw new Error(`Expected a 32-byte file hash, got ${digest.length} bytes`);
+  }
+  return toHex(keccak_256(Buffer.concat([LEAF_PREFIX, digest])));
+}
+
+/**
+ * Parent of two nodes, hashed in ascending order
+ */
+export function hashPair(a, b) {
+  const [left, right] = [fromHex(a), fromHex(b)].sort(Buffer.compare);
+  return toHex(keccak_256(Buffer.concat([NODE_PREFIX, left, right])));
+}
+
+/**
+ * Build every level of the tree, leaves first
+ * @returns {{ root: string, layers: string[][] }}
+ */
+export function buildMerkleTree(leaves) {
+  if (leaves.length === 0) {
+    throw new Error('Cannot build a Merkle tree without leaves');
+  }
+
+  const layers = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const level = layers[layers.length - 1];
+    const next = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    layers.push(next);
+  }
+
+  return { root: layers[layers.length - 1][0], layers };
+}
+
+/**
+ * Sibling hashes from the leaf at `index` up to the root
+ */
+export function getMerkleProof(layers, index) {
+  const proof = [];
+  for (let level = 0; level < layers.length - 1; level++) {
+    const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+    if (siblingIndex < layers[level].length) {
+      proof.push(layers[level][siblingIndex]);
+    }
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+/**
+ * Recompute the root a leaf and proof resolve to
+ */
+export function computeMerkleRoot(leaf, proof) {
+  return proof.reduce((node, sibling) => hashPair(node, sibling), leaf);
+}
+
+export function verifyMerkleProof(leaf, proof, root) {
+  return computeMerkleRoot(leaf, proof).toLowerCase() === root.toLowerCase();
+}
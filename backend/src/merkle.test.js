@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { buildMerkleTree, getMerkleProof, hashLeaf, hashPair, verifyMerkleProof } from './merkle.js';
+
+const fileHash = (n) => n.toString(16).padStart(4, '0').padEnd(64, 'a');
+
+describe('Merkle trees', function () {
+  it('Should hash leaves and pairs like FileIntegrity.batchLeaf / computeMerkleRoot', function () {
+    const a = hashLeaf(fileHash(1));
+    const b = hashLeaf(fileHash(2));
+
+    assert.equal(a, ethers.solidityPackedKeccak256(['bytes1', 'bytes32'], ['0x00', `0x${fileHash(1)}`]));
+    const [left, right] = BigInt(a) < BigInt(b) ? [a, b] : [b, a];
+    assert.equal(hashPair(a, b), ethers.solidityPackedKeccak256(['bytes1', 'bytes32', 'bytes32'], ['0x01', left, right]));
+    assert.equal(hashPair(a, b), hashPair(b, a));
+  });
+
+  it('Should hash every spelling of a digest to the same leaf', function () {
+    assert.equal(hashLeaf(fileHash(1)), hashLeaf(`0x${fileHash(1).toUpperCase()}`));
+    assert.throws(() => hashLeaf('abcd'), /32-byte/);
+  });
+
+  it('Should verify the proof of every leaf for trees of 1 to 17 leaves', function () {
+    for (let size = 1; size <= 17; size++) {
+      const leaves = Array.from({ length: size }, (_, i) => hashLeaf(fileHash(i)));
+      const { root, layers } = buildMerkleTree(leaves);
+
+      leaves.forEach((leaf, index) => {
+        const proof = getMerkleProof(layers, index);
+        assert.ok(verifyMerkleProof(leaf, proof, root), `leaf ${index} of ${size}`);
+        assert.ok(proof.length <= Math.ceil(Math.log2(size)));
+      });
+    }
+  });
+
+  it('Should reject proofs for other leaves, truncated proofs and other roots', function () {
+    const leaves = Array.from({ length: 5 }, (_, i) => hashLeaf(fileHash(i)));
+    const { root, layers } = buildMerkleTree(leaves);
+    const proof = getMerkleProof(layers, 2);
+
+    assert.equal(verifyMerkleProof(hashLeaf(fileHash(9)), proof, root), false);
+    assert.equal(verifyMerkleProof(leaves[2], proof.slice(1), root), false);
+    assert.equal(verifyMerkleProof(leaves[2], proof, hashLeaf(fileHash(9))), false);
+  });
+
+  it('Should use a single leaf as its own root', function () {
+    const leaf = hashLeaf(fileHash(1));
+    const { root, layers } = buildMerkleTree([leaf]);
+    assert.equal(root, leaf);
+    assert.deepEqual(getMerkleProof(layers, 0), []);
+  });
+
+  it('Should refuse an empty tree', function () {
+    assert.throws(() => buildMerkleTree([]), /without leaves/);
+  });
+});
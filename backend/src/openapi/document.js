@@ -0,0 +1,1195 @@
+import { SUPPORTED_ALGORITHMS } from '../hashing.js';
+import { MANIFEST_FORMATS } from '../manifest.js';
+import { REPORT_FORMATS } from '../auditReport.js';
+import { INTEGRITY_STATUSES } from '../integrityMonitor.js';
+import { MIN_PASSWORD_LENGTH } from '../auth/passwords.js';
+import { ROLES } from '../auth/middleware.js';
+import { FILE_SORT_FIELDS, FILE_STATUSES, SORT_ORDERS } from '../store/fileQuery.js';
+import { ERROR_CODES } from './errors.js';
+
+/**
+ * OpenAPI 3.1 description of every API route (the routers next to each
+ * feature module, mounted in server.js). Request schemas are enforced at
+ * runtime (see ./validation.js), `npm run openapi` writes the document to
+ * backend/openapi.json and the frontend's API types are generated from that file.
+ */
+
+export const DESCRIPTION_MAX_LENGTH = 1000;
+export const REASON_MAX_LENGTH = 1000;
+export const NAME_MAX_LENGTH = 200;
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+
+function nullable(schema) {
+  if (schema.$ref || schema.allOf) {
+    return { anyOf: [schema, { type: 'null' }] };
+  }
+  return { ...schema, type: [schema.type, 'null'], ...(schema.enum && { enum: [...schema.enum, null] }) };
+}
+
+// Objects list every property as required unless told otherwise, as the formatters always set them
+function object(properties, required = Object.keys(properties)) {
+  return { type: 'object', required, properties };
+}
+
+const string = { type: 'string' };
+const integer = { type: 'integer' };
+const boolean = { type: 'boolean' };
+const dateTime = { type: 'string', format: 'date-time' };
+const binary = { type: 'string', format: 'binary' };
+const arrayOf = (items) => ({ type: 'array', items });
+const anyObject = { type: 'object', additionalProperties: true };
+
+const schemas = {
+  // Identifiers and inputs
+
+  FileId: {
+    type: 'string',
+    pattern: '^[0-9]{1,20}$',
+    description: 'Record id (numeric string)'
+  },
+  Uuid: {
+    type: 'string',
+    pattern: '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$'
+  },
+  BatchId: {
+    type: 'string',
+    pattern: '^[0-9]{1,20}$',
+    description: 'Merkle batch id (numeric string)'
+  },
+  EthereumAddress: {
+    type: 'string',
+    pattern: '^0x[0-9a-fA-F]{40}$'
+  },
+  TransactionHash: {
+    type: 'string',
+    pattern: '^0x[0-9a-fA-F]{64}$'
+  },
+  Sha256Hex: {
+    type: 'string',
+    pattern: '^(0[xX])?[0-9a-fA-F]{64}$',
+    description: 'SHA-256 digest as 64 hex digits, optionally 0x-prefixed'
+  },
+  DigestInput: {
+    type: 'string',
+    pattern: '^\\s*([A-Za-z0-9-]+:)?(0[xX])?([0-9a-fA-F]{64}|[0-9a-fA-F]{128})\\s*$',
+    description: 'Hex digest of 64 or 128 digits, optionally 0x-prefixed and tagged with its algorithm ("sha512:...")'
+  },
+  Description: {
+    type: 'string',
+    maxLength: DESCRIPTION_MAX_LENGTH
+  },
+
+  // Enumerations
+
+  HashAlgorithm: { type: 'string', enum: SUPPORTED_ALGORITHMS },
+  AnchorMode: { type: 'string', enum: ['individual', 'batch'] },
+  VerificationOutcome: { type: 'string', enum: ['valid', 'superseded', 'revoked', 'proof_invalid', 'not_found'] },
+  VerificationMethod: { type: 'string', enum: ['file_upload', 'batch', 'hash', 'local', 'on_chain'] },
+  IntegrityStatus: { type: 'string', enum: INTEGRITY_STATUSES },
+  ManifestFormat: { type: 'string', enum: MANIFEST_FORMATS },
+  FileSortField: { type: 'string', enum: FILE_SORT_FIELDS },
+  SortOrder: { type: 'string', enum: SORT_ORDERS },
+  FileStatus: { type: 'string', enum: FILE_STATUSES },
+  ReportFormat: { type: 'string', enum: REPORT_FORMATS },
+  Role: { type: 'string', enum: ROLES },
+  ErrorCode: { type: 'string', enum: ERROR_CODES },
+
+  // Errors
+
+  ValidationIssue: object({
+    message: string,
+    location: { type: 'string', enum: ['path', 'query', 'body'] },
+    field: string,
+    line: integer
+  }, ['message']),
+  ErrorResponse: object({
+    success: { type: 'boolean', const: false },
+    error: string,
+    code: ref('ErrorCode'),
+    details: {
+      anyOf: [string, arrayOf(ref('ValidationIssue')), { type: 'null' }],
+      description: 'Cause of a server error, or the invalid fields of a rejected request'
+    },
+    latestId: { ...string, description: 'Latest version of the file (NOT_LATEST_VERSION only)' },
+    recordId: {
+      ...nullable(string),
+      description: 'Record already registered for the hash when the caller may see it (FILE_EXISTS only)'
+    }
+  }, ['success', 'error', 'code', 'details']),
+
+  // Accounts
+
+  ApiKey: object({
+    id: string,
+    name: string,
+    prefix: string,
+    createdAt: dateTime
+  }),
+  CreatedApiKey: {
+    allOf: [
+      ref('ApiKey'),
+      object({ key: { ...string, description: 'Only returned once' } })
+    ]
+  },
+  User: object({
+    id: string,
+    email: nullable(string),
+    name: string,
+    role: ref('Role'),
+    walletAddress: nullable(string),
+    createdAt: dateTime,
+    apiKeys: arrayOf(ref('ApiKey'))
+  }),
+  CurrentUser: {
+    allOf: [
+      ref('User'),
+      object({
+        authMethod: { type: 'string', enum: ['jwt', 'siwe', 'api_key'] },
+        sessionAddress: nullable(string)
+      })
+    ]
+  },
+  Session: object({
+    token: string,
+    user: ref('User')
+  }),
+  SiweChallenge: object({
+    message: string,
+    nonce: string,
+    expiresAt: dateTime
+  }),
+
+  // File records
+
+  Digest: object({
+    algorithm: string,
+    digest: string
+  }),
+  EventLog: object({
+    address: string,
+    topics: arrayOf(string),
+    data: string,
+    blockNumber: integer,
+    blockHash: string,
+    transactionHash: string,
+    logIndex: integer
+  }),
+  Revocation: object({
+    reason: string,
+    revokedAt: dateTime,
+    transactionHash: nullable(string)
+  }),
+  FileRevocation: object({
+    reason: string,
+    revokedAt: dateTime,
+    revokedBy: nullable(string),
+    transactionHash: nullable(string),
+    blockNumber: nullable(integer),
+    revokerAddress: nullable(string),
+    eventLog: nullable(ref('EventLog')),
+    // Set when the backend read the FileRevoked event from the chain; registry-only revocations have none
+    confirmedAt: nullable(dateTime)
+  }, ['reason', 'revokedAt', 'transactionHash']),
+  BlockchainRecord: object({
+    transactionHash: string,
+    blockNumber: integer,
+    onChainFileId: string,
+    chainId: nullable(string),
+    contractAddress: nullable(string),
+    uploaderAddress: nullable(string),
+    eventLog: nullable(ref('EventLog')),
+    recordedAt: dateTime,
+    // Set when the backend checked the transaction receipt; older records were stored as sent
+    confirmedAt: nullable(dateTime)
+  }),
+  BatchLeaf: object({
+    batchId: string,
+    leafIndex: integer,
+    leaf: string,
+    proof: arrayOf(string)
+  }),
+  IntegrityCheck: object({
+    status: ref('IntegrityStatus'),
+    lastCheckedAt: dateTime,
+    lastVerifiedAt: nullable(dateTime),
+    actualHash: nullable(string),
+    error: nullable(string)
+  }),
+  IntegrityEvent: object({
+    id: string,
+    fileId: string,
+    detectedAt: dateTime,
+    status: ref('IntegrityStatus'),
+    previousStatus: nullable(ref('IntegrityStatus')),
+    expectedHash: string,
+    actualHash: nullable(string),
+    error: nullable(string)
+  }),
+  FileRecord: object({
+    id: string,
+    originalName: string,
+    fileHash: string,
+    ipfsHash: { ...nullable(string), description: 'Null for hashes imported from a checksum manifest, which have no stored copy' },
+    description: string,
+    uploadTime: dateTime,
+    size: nullable(integer),
+    mimetype: nullable(string),
+    digests: arrayOf(ref('Digest')),
+    parentId: nullable(string),
+    version: integer,
+    supersededBy: nullable(string),
+    anchorMode: ref('AnchorMode'),
+    batch: nullable(ref('BatchLeaf')),
+    ownerId: nullable(string),
+    uploaderAddress: nullable(string),
+    uploadBatchId: nullable(string),
+    revocation: nullable(ref('FileRevocation')),
+    integrity: nullable(ref('IntegrityCheck')),
+    blockchain: nullable(ref('BlockchainRecord'))
+  }),
+  BatchUploadResult: object({
+    index: integer,
+    name: string,
+    success: boolean,
+    data: ref('FileRecord'),
+    error: string,
+    code: { ...ref('ErrorCode'), description: 'FILE_EXISTS when the hash is already registered' },
+    recordId: nullable(string)
+  }, ['index', 'name', 'success']),
+  BatchUploadReport: object({
+    uploadBatchId: nullable(string),
+    total: integer,
+    succeeded: integer,
+    failed: integer,
+    results: arrayOf(ref('BatchUploadResult'))
+  }),
+  FileIntegrityReport: object({
+    fileId: string,
+    fileHash: string,
+    integrity: nullable(ref('IntegrityCheck')),
+    events: arrayOf(ref('IntegrityEvent'))
+  }),
+  ProofBundle: object({
+    format: string,
+    formatVersion: integer,
+    payload: { ...anyObject, description: 'Signed record, chain and batch details (see proofBundle.js)' },
+    signature: object({
+      algorithm: string,
+      signer: string,
+      value: string
+    })
+  }),
+
+  // Merkle batches
+
+  BatchAnchor: object({
+    transactionHash: string,
+    blockNumber: integer,
+    onChainBatchId: string,
+    chainId: string,
+    contractAddress: string,
+    anchorerAddress: string,
+    anchoredAt: dateTime,
+    eventLog: nullable(ref('EventLog'))
+  }, ['transactionHash', 'blockNumber', 'onChainBatchId']),
+  Batch: object({
+    id: string,
+    merkleRoot: string,
+    leafCount: integer,
+    fileIds: arrayOf(string),
+    createdAt: dateTime,
+    status: { type: 'string', enum: ['pending', 'anchored', 'failed'] },
+    anchor: nullable(ref('BatchAnchor')),
+    error: nullable(string)
+  }),
+  BatchDetails: {
+    allOf: [
+      ref('Batch'),
+      object({ files: arrayOf(ref('FileRecord')) })
+    ]
+  },
+
+  // Verification
+
+  VerifiedRecord: object({
+    id: string,
+    originalName: string,
+    fileHash: string,
+    digests: arrayOf(ref('Digest')),
+    uploadTime: dateTime,
+    description: string,
+    version: integer,
+    revocation: nullable(ref('Revocation'))
+  }),
+  LatestVersion: object({
+    id: string,
+    version: integer,
+    uploadTime: dateTime
+  }),
+  BatchInclusion: {
+    allOf: [
+      ref('BatchLeaf'),
+      object({
+        status: { type: 'string', enum: ['pending', 'anchored', 'failed', 'missing'] },
+        merkleRoot: nullable(string),
+        anchor: nullable(ref('BatchAnchor')),
+        proofValid: boolean,
+        onChainVerified: nullable(boolean),
+        onChainError: nullable(string)
+      })
+    ]
+  },
+  VerificationResult: object({
+    success: boolean,
+    isValid: boolean,
+    status: ref('VerificationOutcome'),
+    message: string,
+    data: { ...ref('VerifiedRecord'), description: 'Set when the file or hash matched a record' },
+    revocation: nullable(ref('Revocation')),
+    latestVersion: nullable(ref('LatestVersion')),
+    batch: nullable(ref('BatchInclusion')),
+    matchedAlgorithm: nullable(string),
+    calculatedHash: { ...string, description: 'Set when an uploaded file matched nothing' },
+    calculatedDigests: arrayOf(ref('Digest'))
+  }, ['success', 'isValid', 'status', 'message']),
+  VerificationEntry: object({
+    id: string,
+    timestamp: dateTime,
+    source: { type: 'string', enum: ['api', 'chain'] },
+    method: ref('VerificationMethod'),
+    outcome: ref('VerificationOutcome'),
+    calculatedHash: nullable(string),
+    algorithm: nullable(string),
+    fileId: nullable(string),
+    requester: object({
+      userId: nullable(string),
+      address: nullable(string),
+      ip: nullable(string),
+      userAgent: nullable(string)
+    }, ['address', 'ip', 'userAgent']),
+    chain: nullable(object({
+      transactionHash: string,
+      blockNumber: integer,
+      logIndex: integer,
+      onChainFileId: string
+    })),
+    file: nullable(object({
+      id: string,
+      originalName: string,
+      fileHash: string,
+      version: integer
+    }))
+  }),
+
+  // Bulk verification
+
+  BulkResult: { type: 'string', enum: ['matched', 'tampered', 'unknown', 'error'] },
+  BulkRecord: object({
+    id: string,
+    originalName: string,
+    fileHash: string,
+    version: integer
+  }),
+  BulkVerificationItem: object({
+    index: integer,
+    name: string,
+    size: integer,
+    fileHash: nullable(string),
+    result: ref('BulkResult'),
+    status: ref('VerificationOutcome'),
+    isValid: boolean,
+    record: { ...ref('BulkRecord'), description: 'Matched record (matched only)' },
+    expected: { ...ref('BulkRecord'), description: 'Record whose name the file carries (tampered only)' },
+    error: string
+  }, ['index', 'name', 'size', 'fileHash', 'result']),
+  BulkVerificationReport: object({
+    generatedAt: dateTime,
+    summary: object({
+      total: integer,
+      matched: integer,
+      valid: integer,
+      tampered: integer,
+      unknown: integer,
+      errors: integer
+    }),
+    results: arrayOf(ref('BulkVerificationItem'))
+  }),
+
+  // Manifests
+
+  ManifestIssue: object({
+    line: integer,
+    message: string
+  }),
+  JsonManifest: object({
+    format: string,
+    version: integer,
+    generatedAt: dateTime,
+    algorithm: string,
+    files: arrayOf(anyObject)
+  }),
+  ManifestImportResult: { type: 'string', enum: ['registered', 'existing', 'duplicate'] },
+  ManifestImportEntry: object({
+    line: integer,
+    name: string,
+    fileHash: string,
+    result: ref('ManifestImportResult'),
+    recordId: nullable(string)
+  }, ['line', 'name', 'fileHash', 'result']),
+  ManifestImportReport: object({
+    format: ref('ManifestFormat'),
+    uploadBatchId: nullable(string),
+    summary: object({
+      total: integer,
+      registered: integer,
+      existing: integer,
+      duplicate: integer,
+      invalid: integer
+    }),
+    results: arrayOf(ref('ManifestImportEntry')),
+    errors: arrayOf(ref('ManifestIssue'))
+  }),
+  ManifestEntryStatus: { type: 'string', enum: ['ok', 'modified', 'missing'] },
+  ManifestCheckEntry: object({
+    name: string,
+    path: string,
+    expectedHash: string,
+    actualHash: nullable(string),
+    status: ref('ManifestEntryStatus'),
+    registration: {
+      ...nullable(object({
+        status: ref('VerificationOutcome'),
+        isValid: boolean,
+        record: ref('VerifiedRecord')
+      })),
+      description: 'Verification status of the expected hash, null when it was never registered'
+    }
+  }, ['name', 'expectedHash', 'actualHash', 'status', 'registration']),
+  ManifestCheckReport: object({
+    generatedAt: dateTime,
+    format: ref('ManifestFormat'),
+    summary: object({
+      total: integer,
+      ok: integer,
+      modified: integer,
+      missing: integer,
+      extra: integer,
+      registered: integer
+    }),
+    entries: arrayOf(ref('ManifestCheckEntry')),
+    extra: arrayOf(object({ path: string, actualHash: string })),
+    errors: arrayOf(ref('ManifestIssue'))
+  }),
+
+  // Audit reports
+
+  AuditReportReceipt: object({
+    report: {
+      ...object({
+        type: { type: 'string', enum: ['audit-report'] },
+        fileName: string,
+        format: ref('ReportFormat'),
+        sha256: ref('Sha256Hex'),
+        generatedAt: dateTime,
+        recordId: ref('FileId'),
+        recordCount: integer
+      }),
+      description: 'Signed summary of the generated document'
+    },
+    signature: object({
+      algorithm: string,
+      signer: string,
+      value: string
+    }),
+    record: { ...ref('FileRecord'), description: 'Registry record of the report; download it from /api/ipfs/{record.ipfsHash}' }
+  }),
+
+  // Chain index
+
+  ChainEvent: object({
+    id: string,
+    event: { type: 'string', enum: ['FileUploaded', 'FileVerified', 'FileRevoked'] },
+    blockNumber: integer,
+    blockHash: string,
+    transactionHash: string,
+    logIndex: integer,
+    timestamp: dateTime,
+    onChainFileId: string,
+    fileHash: { ...nullable(string), description: 'Null for FileRevoked, which carries no hash' },
+    uploader: string,
+    fileName: string,
+    ipfsHash: string,
+    description: string,
+    verifier: string,
+    isValid: boolean,
+    reason: string,
+    revokedBy: string,
+    eventLog: ref('EventLog')
+  }, ['id', 'event', 'blockNumber', 'blockHash', 'transactionHash', 'logIndex', 'timestamp', 'onChainFileId', 'fileHash']),
+  ChainFile: {
+    allOf: [
+      ref('ChainEvent'),
+      object({ verificationCount: integer })
+    ]
+  },
+  ChainFileDetails: {
+    allOf: [
+      ref('ChainEvent'),
+      object({
+        recordId: nullable(string),
+        verifications: arrayOf(ref('ChainEvent'))
+      })
+    ]
+  },
+  Reorg: object({
+    detectedAt: dateTime,
+    reason: string,
+    previousBlock: integer,
+    resumedFromBlock: integer,
+    removedEvents: integer
+  }),
+  ChainStatus: object({
+    configured: boolean,
+    cursor: nullable(object({
+      chainId: string,
+      contractAddress: string,
+      blockNumber: integer,
+      blockHash: string,
+      updatedAt: dateTime
+    })),
+    headBlock: nullable(integer),
+    headError: nullable(string),
+    lag: nullable(integer),
+    eventCounts: { type: 'object', additionalProperties: integer },
+    syncing: boolean,
+    lastSyncAt: nullable(dateTime),
+    lastError: nullable(string),
+    lastReorg: nullable(ref('Reorg'))
+  }),
+  ChainSyncResult: object({
+    fromBlock: integer,
+    toBlock: integer,
+    indexed: integer,
+    reorg: nullable(ref('Reorg'))
+  }),
+  ReconciliationReport: object({
+    generatedAt: dateTime,
+    indexedThroughBlock: integer,
+    summary: object({
+      offChainRecords: integer,
+      onChainFiles: integer,
+      matched: integer,
+      batched: integer,
+      offChainOnly: integer,
+      onChainOnly: integer,
+      mismatched: integer
+    }),
+    offChainOnly: arrayOf(object({
+      fileId: string,
+      fileHash: string,
+      originalName: string,
+      uploadTime: dateTime,
+      claimedOnChainFileId: nullable(string)
+    })),
+    onChainOnly: arrayOf(object({
+      onChainFileId: string,
+      fileHash: string,
+      fileName: string,
+      uploader: string,
+      transactionHash: string,
+      blockNumber: integer,
+      timestamp: dateTime
+    })),
+    mismatched: arrayOf(object({
+      fileId: string,
+      fileHash: string,
+      onChainFileId: string,
+      transactionHash: string,
+      problems: arrayOf(string)
+    }))
+  }),
+
+  // Tamper monitoring
+
+  IntegrityCounts: object(Object.fromEntries(INTEGRITY_STATUSES.map(status => [status, integer]))),
+  IntegrityRun: object({
+    startedAt: dateTime,
+    finishedAt: dateTime,
+    checked: integer,
+    counts: ref('IntegrityCounts'),
+    drifted: integer
+  }),
+  IntegrityOverview: object({
+    status: { type: 'string', enum: ['ok', 'drift', 'degraded'] },
+    intervalMinutes: integer,
+    checking: boolean,
+    lastRun: nullable(ref('IntegrityRun')),
+    counts: {
+      allOf: [
+        ref('IntegrityCounts'),
+        object({ unchecked: integer })
+      ]
+    },
+    files: arrayOf(object({
+      id: string,
+      originalName: string,
+      fileHash: string,
+      status: nullable(ref('IntegrityStatus')),
+      lastCheckedAt: nullable(dateTime),
+      lastVerifiedAt: nullable(dateTime)
+    }))
+  }),
+
+  // Utilities
+
+  Health: object({
+    status: string,
+    message: string,
+    hashAlgorithms: arrayOf(ref('HashAlgorithm')),
+    chain: object({
+      rpcUrl: string,
+      chainId: integer,
+      contractAddress: nullable(string),
+      canAnchor: boolean
+    }),
+    proofSigner: string,
+    batchIntervalMinutes: integer,
+    timestamp: dateTime
+  }),
+  HashResult: object({
+    success: boolean,
+    fileHash: string,
+    digests: arrayOf(ref('Digest')),
+    ipfsHash: string,
+    fileName: string,
+    size: integer
+  })
+};
+
+// Request bodies, parameters and responses
+
+const json = (schema) => ({ 'application/json': { schema } });
+const jsonBody = (schema) => ({ required: true, content: json(schema) });
+const multipartBody = (schema) => ({ required: true, content: { 'multipart/form-data': { schema } } });
+
+const pathParam = (name, schema) => ({ name, in: 'path', required: true, schema });
+const queryParam = (name, schema, description) => ({ name, in: 'query', required: false, schema, ...(description && { description }) });
+
+const fileIdParam = pathParam('id', ref('FileId'));
+const limitParam = queryParam('limit', { type: 'integer', minimum: 1, default: 100 }, 'Maximum number of entries, capped at 500');
+const uploadBatchIdParam = queryParam('uploadBatchId', ref('Uuid'), 'Only records of this multi-file upload');
+
+// Record filters of the file listing, also accepted by the manifest export
+const fileFilterParams = [
+  uploadBatchIdParam,
+  queryParam('q', { type: 'string', maxLength: NAME_MAX_LENGTH }, 'Text in the file name or description'),
+  queryParam('hash', { type: 'string', pattern: '^(0[xX])?[0-9a-fA-F]{1,128}$' }, 'Start of the SHA-256 or any other digest'),
+  queryParam('mimetype', { type: 'string', maxLength: 255 }, 'MIME type, or a whole type as "image/*"'),
+  queryParam('status', ref('FileStatus')),
+  queryParam('uploader', { anyOf: [ref('Uuid'), ref('EthereumAddress')] }, 'Account id or wallet address of the uploader'),
+  queryParam('from', dateTime, 'Uploaded at or after'),
+  queryParam('to', dateTime, 'Uploaded at or before')
+];
+
+const relativePaths = {
+  type: 'string',
+  description: 'JSON array with the relative path of every file, in upload order (folder uploads)'
+};
+
+const uploadFields = {
+  description: ref('Description'),
+  anchorMode: { ...ref('AnchorMode'), default: 'individual' }
+};
+
+const ok = (description, schema) => ({ 200: { description, content: json(schema) } });
+
+/**
+ * `{ success, message?, data }` response, with `count` for lists
+ */
+function envelope(data, { count = false, extra = {} } = {}) {
+  return object(
+    { success: boolean, message: string, ...(count && { count: integer }), ...extra, data },
+    ['success', ...(count ? ['count'] : []), ...Object.keys(extra), 'data']
+  );
+}
+
+const messageOnly = object({ success: boolean, message: string });
+
+const ERROR_RESPONSES = {
+  400: 'BadRequest',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'NotFound',
+  409: 'Conflict',
+  413: 'PayloadTooLarge',
+  500: 'ServerError',
+  503: 'ServiceUnavailable'
+};
+
+function errors(...statuses) {
+  return Object.fromEntries([...statuses, 500].map(status => [status, { $ref: `#/components/responses/${ERROR_RESPONSES[status]}` }]));
+}
+
+const bearer = [{ bearerAuth: [] }, { apiKey: [] }];
+// Anonymous callers are allowed, signed-in callers may see more
+const optionalAuth = [{}, ...bearer];
+
+function operation(operationId, summary, tag, { security = [], parameters, requestBody, responses }) {
+  return {
+    operationId,
+    summary,
+    tags: [tag],
+    security,
+    ...(parameters && { parameters }),
+    ...(requestBody && { requestBody }),
+    responses
+  };
+}
+
+const paths = {
+  '/api/health': {
+    get: operation('getHealth', 'Health check with chain and signer configuration', 'System', {
+      responses: ok('Service is up', ref('Health'))
+    })
+  },
+  '/api/openapi.json': {
+    get: operation('getOpenApiDocument', 'This document', 'System', {
+      responses: ok('OpenAPI document', anyObject)
+    })
+  },
+
+  '/api/auth/register': {
+    post: operation('register', 'Create a user account (admins are seeded from ADMIN_EMAIL or ADMIN_WALLET)', 'Auth', {
+      requestBody: jsonBody(object({
+        email: { type: 'string', maxLength: 254 },
+        password: { type: 'string', minLength: MIN_PASSWORD_LENGTH, maxLength: 1024 },
+        name: { type: 'string', maxLength: NAME_MAX_LENGTH }
+      }, ['email', 'password'])),
+      responses: {
+        201: { description: 'Account created', content: json(envelope(ref('Session'))) },
+        ...errors(400, 403, 409)
+      }
+    })
+  },
+  '/api/auth/login': {
+    post: operation('login', 'Exchange email and password for a session token', 'Auth', {
+      requestBody: jsonBody(object({
+        email: { type: 'string', maxLength: 254 },
+        password: { type: 'string', maxLength: 1024 }
+      })),
+      responses: { ...ok('Signed in', envelope(ref('Session'))), ...errors(400, 401) }
+    })
+  },
+  '/api/auth/siwe/challenge': {
+    post: operation('createSiweChallenge', 'One-time EIP-4361 message for the wallet to sign', 'Auth', {
+      requestBody: jsonBody(object({
+        address: ref('EthereumAddress'),
+        chainId: { type: ['integer', 'string'], pattern: '^[0-9]+$' }
+      }, ['address'])),
+      responses: { ...ok('Message to sign', envelope(ref('SiweChallenge'))), ...errors(400, 403) }
+    })
+  },
+  '/api/auth/siwe/verify': {
+    post: operation('verifySiwe', 'Sign in with a signed challenge, or link the wallet to the signed-in account', 'Auth', {
+      security: optionalAuth,
+      requestBody: jsonBody(object({
+        message: { type: 'string', maxLength: 2000 },
+        signature: { type: 'string', pattern: '^0x[0-9a-fA-F]+$' }
+      })),
+      responses: { ...ok('Signed in', envelope(ref('Session'))), ...errors(400, 401, 403, 409) }
+    })
+  },
+  '/api/auth/logout': {
+    post: operation('logout', 'End the current session token', 'Auth', {
+      security: optionalAuth,
+      responses: ok('Signed out', messageOnly)
+    })
+  },
+  '/api/auth/me': {
+    get: operation('getCurrentUser', 'Current account', 'Auth', {
+      security: bearer,
+      responses: { ...ok('Current account', envelope(ref('CurrentUser'))), ...errors(401) }
+    })
+  },
+  '/api/auth/api-keys': {
+    post: operation('createApiKey', 'Create an API key; the key is only returned here', 'Auth', {
+      security: bearer,
+      requestBody: { required: false, content: json(object({ name: { type: 'string', maxLength: NAME_MAX_LENGTH } }, [])) },
+      responses: {
+        201: { description: 'API key created', content: json(envelope(ref('CreatedApiKey'))) },
+        ...errors(400, 401)
+      }
+    })
+  },
+  '/api/auth/api-keys/{keyId}': {
+    delete: operation('revokeApiKey', "Revoke one of the caller's API keys", 'Auth', {
+      security: bearer,
+      parameters: [pathParam('keyId', ref('Uuid'))],
+      responses: { ...ok('API key revoked', messageOnly), ...errors(400, 401, 404) }
+    })
+  },
+
+  '/api/users': {
+    get: operation('listUsers', 'List all accounts (admin)', 'Users', {
+      security: bearer,
+      responses: { ...ok('Accounts', envelope(arrayOf(ref('User')))), ...errors(401, 403) }
+    })
+  },
+  '/api/users/{id}': {
+    patch: operation('updateUser', "Change an account's role (admin)", 'Users', {
+      security: bearer,
+      parameters: [pathParam('id', ref('Uuid'))],
+      requestBody: jsonBody(object({ role: ref('Role') })),
+      responses: { ...ok('Role updated', envelope(ref('User'))), ...errors(400, 401, 403, 404) }
+    })
+  },
+
+  '/api/upload': {
+    post: operation('uploadFile', 'Upload a file, hash it and store its record', 'Files', {
+      security: bearer,
+      requestBody: multipartBody(object({ file: binary, ...uploadFields }, ['file'])),
+      responses: { ...ok('File registered', envelope(ref('FileRecord'))), ...errors(400, 401, 409, 413) }
+    })
+  },
+  '/api/upload/batch': {
+    post: operation('uploadFiles', 'Upload several files or a folder; every file is registered on its own', 'Files', {
+      security: bearer,
+      requestBody: multipartBody(object({
+        files: arrayOf(binary),
+        ...uploadFields,
+        relativePaths,
+        uploadBatchId: { ...ref('Uuid'), description: 'Add the files to an earlier upload' }
+      }, ['files'])),
+      responses: {
+        ...ok('Every file registered', envelope(ref('BatchUploadReport'))),
+        207: { description: 'Some files failed, see the per-file results', content: json(envelope(ref('BatchUploadReport'))) },
+        ...errors(400, 401, 404, 413)
+      }
+    })
+  },
+
+  '/api/verify': {
+    post: operation('verifyFile', 'Upload a file and look its hash up in the records', 'Verification', {
+      security: optionalAuth,
+      requestBody: multipartBody(object({ file: binary })),
+      responses: { ...ok('Verification result', ref('VerificationResult')), ...errors(400, 413) }
+    })
+  },
+  '/api/verify/batch': {
+    post: operation('verifyFiles', 'Verify several files, a folder or ZIP archives', 'Verification', {
+      security: optionalAuth,
+      requestBody: multipartBody(object({ files: arrayOf(binary), relativePaths }, ['files'])),
+      responses: { ...ok('Per-file results', envelope(ref('BulkVerificationReport'))), ...errors(400, 413) }
+    })
+  },
+  '/api/verify-hash': {
+    post: operation('verifyHash', 'Look a digest up in the records without uploading the file', 'Verification', {
+      security: optionalAuth,
+      requestBody: jsonBody(object({
+        fileHash: ref('DigestInput'),
+        algorithm: { ...ref('HashAlgorithm'), description: 'Algorithm of the digest; must match its tag if tagged, matched by length when omitted' },
+        method: { type: 'string', enum: ['hash', 'local'], description: 'Logged as a check of a browser-hashed file when "local"' }
+      }, ['fileHash'])),
+      responses: { ...ok('Verification result', ref('VerificationResult')), ...errors(400) }
+    })
+  },
+
+  '/api/manifest': {
+    get: operation('exportManifest', "Export the caller's records as a sha256sum or JSON manifest", 'Manifests', {
+      security: bearer,
+      parameters: [
+        queryParam('format', { ...ref('ManifestFormat'), default: 'sha256sum' }),
+        queryParam('ids', { type: 'string', pattern: '^[0-9]+( *, *[0-9]+)*$' }, 'Comma-separated record ids'),
+        ...fileFilterParams
+      ],
+      responses: {
+        200: {
+          description: 'Manifest download',
+          content: {
+            'text/plain': { schema: string },
+            ...json(ref('JsonManifest'))
+          }
+        },
+        ...errors(400, 401)
+      }
+    })
+  },
+  '/api/manifest/import': {
+    post: operation('importManifest', 'Register every hash of a sha256sum or JSON manifest', 'Manifests', {
+      security: bearer,
+      requestBody: multipartBody(object({ manifest: binary, description: ref('Description') }, ['manifest'])),
+      responses: { ...ok('Import report', envelope(ref('ManifestImportReport'))), ...errors(400, 401, 413) }
+    })
+  },
+  '/api/manifest/verify': {
+    post: operation('verifyManifest', 'Check a directory against a manifest', 'Manifests', {
+      security: optionalAuth,
+      requestBody: multipartBody(object({ manifest: binary, files: arrayOf(binary), relativePaths }, ['manifest'])),
+      responses: { ...ok('Per-entry results', envelope(ref('ManifestCheckReport'))), ...errors(400, 413) }
+    })
+  },
+
+  '/api/reports/audit': {
+    post: operation('createAuditReport', 'Generate, register and sign an audit report of the filtered records', 'Reports', {
+      security: bearer,
+      parameters: [
+        queryParam('format', { ...ref('ReportFormat'), default: 'pdf' }),
+        ...fileFilterParams,
+        queryParam('sort', { ...ref('FileSortField'), default: 'uploadTime' }),
+        queryParam('order', { ...ref('SortOrder'), default: 'desc' })
+      ],
+      responses: { ...ok('Report registered', envelope(ref('AuditReportReceipt'))), ...errors(400, 401) }
+    })
+  },
+
+  '/api/files': {
+    get: operation('listFiles', "The caller's records (every record for admins), one page at a time", 'Files', {
+      security: bearer,
+      parameters: [
+        ...fileFilterParams,
+        queryParam('sort', { ...ref('FileSortField'), default: 'uploadTime' }),
+        queryParam('order', { ...ref('SortOrder'), default: 'desc' }),
+        queryParam('cursor', { type: 'string', maxLength: 1000 }, 'nextCursor of the previous page'),
+        limitParam
+      ],
+      responses: {
+        ...ok('One page of records', envelope(arrayOf(ref('FileRecord')), {
+          count: true,
+          extra: { total: { ...nullable(integer), description: 'Records matching the query, counted on the first page only' }, nextCursor: nullable(string) }
+        })),
+        ...errors(400, 401)
+      }
+    })
+  },
+  '/api/files/{id}': {
+    get: operation('getFile', 'One record', 'Files', {
+      security: bearer,
+      parameters: [fileIdParam],
+      responses: { ...ok('Record', envelope(ref('FileRecord'))), ...errors(400, 401, 404) }
+    }),
+    delete: operation('deleteFile', 'Delete a record that is not anchored yet (individual anchoring only)', 'Files', {
+      security: bearer,
+      parameters: [fileIdParam],
+      responses: { ...ok('Record deleted', messageOnly), ...errors(400, 401, 404, 409) }
+    })
+  },
+  '/api/files/{id}/verifications': {
+    get: operation('getFileVerifications', 'Verification timeline of a record, newest first', 'Files', {
+      security: bearer,
+      parameters: [fileIdParam],
+      responses: { ...ok('Verifications', envelope(arrayOf(ref('VerificationEntry')), { count: true })), ...errors(400, 401, 404) }
+    })
+  },
+  '/api/files/{id}/integrity': {
+    get: operation('getFileIntegrity', "Tamper monitor status of a record's stored original", 'Files', {
+      security: bearer,
+      parameters: [fileIdParam],
+      responses: { ...ok('Status and drift events', envelope(ref('FileIntegrityReport'))), ...errors(400, 401, 404) }
+    })
+  },
+  '/api/files/{id}/versions': {
+    get: operation('getFileVersions', 'Version chain of a record, oldest first', 'Files', {
+      security: bearer,
+      parameters: [fileIdParam],
+      responses: { ...ok('Versions', envelope(arrayOf(ref('FileRecord')), { count: true })), ...errors(400, 401, 404) }
+    }),
+    post: operation('uploadVersion', 'Register a new version of the latest version of a file (uploader only)', 'Files', {
+      security: bearer,
+      parameters: [fileIdParam],
+      requestBody: multipartBody(object({ file: binary, ...uploadFields }, ['file'])),
+      responses: { ...ok('Version registered', envelope(ref('FileRecord'))), ...errors(400, 401, 403, 404, 409, 413) }
+    })
+  },
+  '/api/files/{id}/proof': {
+    get: operation('getProofBundle', 'Signed proof bundle for offline verification', 'Files', {
+      security: bearer,
+      parameters: [fileIdParam],
+      responses: { ...ok('Proof bundle download', ref('ProofBundle')), ...errors(400, 401, 404) }
+    })
+  },
+  '/api/files/{id}/blockchain': {
+    post: operation('attachBlockchainRecord', 'Attach the FileIntegrity.uploadFile transaction to a record; the stored details are read from its receipt', 'Files', {
+      security: bearer,
+      parameters: [fileIdParam],
+      requestBody: jsonBody(object({
+        transactionHash: ref('TransactionHash'),
+        blockNumber: { type: 'integer', minimum: 0 },
+        onChainFileId: { type: ['string', 'integer'], pattern: '^[0-9]+$' },
+        chainId: { type: ['string', 'integer', 'null'], pattern: '^[0-9]+$' },
+        contractAddress: nullable(ref('EthereumAddress')),
+        uploaderAddress: nullable(ref('EthereumAddress')),
+        eventLog: { ...nullable(ref('EventLog')), description: 'Log of the FileUploaded event' }
+      }, ['transactionHash', 'onChainFileId'])),
+      responses: { ...ok('Record updated', envelope(ref('FileRecord'))), ...errors(400, 401, 404, 409, 503) }
+    })
+  },
+  '/api/files/{id}/revoke': {
+    post: operation('revokeFile', 'Revoke a file; files recorded on-chain need the FileIntegrity.revokeFile transaction', 'Files', {
+      security: bearer,
+      parameters: [fileIdParam],
+      requestBody: jsonBody(object({
+        reason: { type: 'string', maxLength: REASON_MAX_LENGTH },
+        transactionHash: { ...ref('TransactionHash'), description: 'FileIntegrity.revokeFile transaction; its receipt must contain FileRevoked for the file' }
+      }, ['reason'])),
+      responses: { ...ok('File revoked', envelope(ref('FileRecord'))), ...errors(400, 401, 404, 409, 503) }
+    })
+  },
+
+  '/api/verifications': {
+    get: operation('listVerifications', 'Verification log, newest first', 'Verification', {
+      security: bearer,
+      parameters: [
+        queryParam('outcome', ref('VerificationOutcome')),
+        queryParam('method', ref('VerificationMethod')),
+        queryParam('fileId', ref('FileId')),
+        limitParam
+      ],
+      responses: { ...ok('Log entries', envelope(arrayOf(ref('VerificationEntry')), { count: true })), ...errors(400, 401) }
+    })
+  },
+
+  '/api/chain/status': {
+    get: operation('getChainStatus', 'Chain indexer progress', 'Chain', {
+      security: bearer,
+      responses: { ...ok('Indexer status', envelope(ref('ChainStatus'))), ...errors(401) }
+    })
+  },
+  '/api/chain/sync': {
+    post: operation('syncChain', 'Run the chain indexer now (admin)', 'Chain', {
+      security: bearer,
+      responses: { ...ok('Indexed range', envelope(ref('ChainSyncResult'))), ...errors(401, 403, 503) }
+    })
+  },
+  '/api/chain/files': {
+    get: operation('listChainFiles', 'Indexed FileUploaded events, newest first', 'Chain', {
+      security: bearer,
+      parameters: [
+        queryParam('uploader', ref('EthereumAddress')),
+        queryParam('fileHash', ref('Sha256Hex')),
+        limitParam
+      ],
+      responses: { ...ok('On-chain files', envelope(arrayOf(ref('ChainFile')), { count: true })), ...errors(400, 401) }
+    })
+  },
+  '/api/chain/files/{onChainFileId}': {
+    get: operation('getChainFile', 'One on-chain file with its on-chain verifications', 'Chain', {
+      security: bearer,
+      parameters: [pathParam('onChainFileId', { type: 'string', pattern: '^[0-9]{1,78}$' })],
+      responses: { ...ok('On-chain file', envelope(ref('ChainFileDetails'))), ...errors(400, 401, 404) }
+    })
+  },
+  '/api/chain/verifications': {
+    get: operation('listChainVerifications', 'Indexed FileVerified events, newest first', 'Chain', {
+      security: bearer,
+      parameters: [
+        queryParam('verifier', ref('EthereumAddress')),
+        queryParam('isValid', boolean),
+        queryParam('fileHash', ref('Sha256Hex')),
+        limitParam
+      ],
+      responses: { ...ok('On-chain verifications', envelope(arrayOf(ref('ChainEvent')), { count: true })), ...errors(400, 401) }
+    })
+  },
+  '/api/chain/reconciliation': {
+    get: operation('getReconciliation', 'Hashes recorded off-chain but not on-chain and the other way round (admin)', 'Chain', {
+      security: bearer,
+      responses: { ...ok('Reconciliation report', envelope(ref('ReconciliationReport'))), ...errors(401, 403, 409) }
+    })
+  },
+
+  '/api/integrity': {
+    get: operation('getIntegrity', "Tamper monitor overview of the caller's stored files", 'Integrity', {
+      security: bearer,
+      responses: { ...ok('Status counts and per-file status', envelope(ref('IntegrityOverview'))), ...errors(401) }
+    })
+  },
+  '/api/integrity/check': {
+    post: operation('checkIntegrity', 'Re-hash every stored file now (admin)', 'Integrity', {
+      security: bearer,
+      responses: { ...ok('Check summary', envelope(ref('IntegrityRun'))), ...errors(401, 403) }
+    })
+  },
+
+  '/api/batches': {
+    get: operation('listBatches', 'Merkle batches, newest first (admin)', 'Batches', {
+      security: bearer,
+      responses: {
+        ...ok('Batches', envelope(arrayOf(ref('Batch')), { count: true, extra: { pendingFiles: integer } })),
+        ...errors(401, 403)
+      }
+    }),
+    post: operation('createBatch', 'Batch every pending record and anchor the root (admin)', 'Batches', {
+      security: bearer,
+      responses: { ...ok('Batch, or null when nothing is pending', envelope(nullable(ref('Batch')))), ...errors(401, 403) }
+    })
+  },
+  '/api/batches/{id}': {
+    get: operation('getBatch', 'A batch with its records (admin)', 'Batches', {
+      security: bearer,
+      parameters: [pathParam('id', ref('BatchId'))],
+      responses: { ...ok('Batch', envelope(ref('BatchDetails'))), ...errors(400, 401, 403, 404) }
+    })
+  },
+  '/api/batches/{id}/anchor': {
+    post: operation('anchorBatch', 'Retry anchoring a batch whose transaction failed (admin)', 'Batches', {
+      security: bearer,
+      parameters: [pathParam('id', ref('BatchId'))],
+      responses: { ...ok('Batch', envelope(ref('Batch'))), ...errors(400, 401, 403, 404, 409) }
+    })
+  },
+
+  '/api/calculate-hash': {
+    post: operation('calculateHash', 'Digests and IPFS CID of a file without storing it', 'Utilities', {
+      requestBody: multipartBody(object({ file: binary })),
+      responses: { ...ok('Digests', ref('HashResult')), ...errors(400, 413) }
+    })
+  },
+  '/api/ipfs/{cid}': {
+    get: operation('getIpfsContent', 'Content of one of the caller\'s files by IPFS CID', 'Utilities', {
+      security: bearer,
+      parameters: [pathParam('cid', { type: 'string', pattern: '^[A-Za-z0-9]{1,128}$' })],
+      responses: {
+        200: { description: 'File content', content: { 'application/octet-stream': { schema: binary } } },
+        ...errors(400, 401, 404)
+      }
+    })
+  }
+};
+
+const errorResponse = (description) => ({ description, content: json(ref('ErrorResponse')) });
+
+export const openApiDocument = {
+  openapi: '3.1.0',
+  info: {
+    title: 'File Integrity API',
+    version: '1.0.0',
+    description: 'Register files, verify them against their records and the FileIntegrity contract, and audit the results.'
+  },
+  servers: [{ url: '/' }],
+  tags: ['System', 'Auth', 'Users', 'Files', 'Verification', 'Manifests', 'Reports', 'Chain', 'Integrity', 'Batches', 'Utilities']
+    .map(name => ({ name })),
+  paths,
+  components: {
+    schemas,
+    responses: {
+      BadRequest: errorResponse('Invalid request'),
+      Unauthorized: errorResponse('Authentication required or failed'),
+      Forbidden: errorResponse('Not allowed for this account'),
+      NotFound: errorResponse('Not found'),
+      Conflict: errorResponse('Conflicts with the current state'),
+      PayloadTooLarge: errorResponse('Upload limits exceeded'),
+      ServerError: errorResponse('Unexpected server error'),
+      ServiceUnavailable: errorResponse('FileIntegrity contract address is not configured')
+    },
+    securitySchemes: {
+      bearerAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        bearerFormat: 'JWT',
+        description: 'Session token from login or Sign-In with Ethereum (an API key is accepted too)'
+      },
+      apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+    }
+  }
+};
@@ -0,0 +1,74 @@
+/**
+ * Uniform error envelope: every response with a 4xx/5xx status is sent as
+ * `{ success: false, error, code, details }`. Handlers only set `error` and,
+ * where clients need to tell failures of one endpoint apart, a `code` from
+ * ERROR_CODES; otherwise the code follows from the status.
+ */
+
+export const ERROR_CODES = [
+  'BAD_REQUEST',
+  'VALIDATION_FAILED',
+  'INVALID_JSON',
+  'INVALID_HASH',
+  'INVALID_MANIFEST',
+  'INVALID_CID',
+  'INVALID_CURSOR',
+  'INVALID_TRANSACTION',
+  'FILE_REQUIRED',
+  'UNAUTHENTICATED',
+  'INVALID_CREDENTIALS',
+  'INVALID_SIGNATURE',
+  'FORBIDDEN',
+  'REGISTRATION_DISABLED',
+  'NOT_FOUND',
+  'CONFLICT',
+  'EMAIL_TAKEN',
+  'WALLET_CONFLICT',
+  'NOT_LATEST_VERSION',
+  'FILE_EXISTS',
+  'ALREADY_REVOKED',
+  'ALREADY_ANCHORED',
+  'UPLOADER_MISMATCH',
+  'INDEXER_NOT_SYNCED',
+  'PAYLOAD_TOO_LARGE',
+  'REPORT_TOO_LARGE',
+  'INTERNAL_ERROR',
+  'SERVICE_UNAVAILABLE',
+  'CONTRACT_NOT_CONFIGURED'
+];
+
+const STATUS_CODES = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHENTICATED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  413: 'PAYLOAD_TOO_LARGE',
+  503: 'SERVICE_UNAVAILABLE'
+};
+
+function defaultCode(status) {
+  return STATUS_CODES[status] || (status >= 500 ? 'INTERNAL_ERROR' : 'BAD_REQUEST');
+}
+
+/**
+ * Express middleware wrapping res.json so error bodies always carry the envelope
+ */
+export function errorEnvelope(req, res, next) {
+  const json = res.json.bind(res);
+
+  res.json = (body) => {
+    if (res.statusCode < 400 || !body || typeof body !== 'object') {
+      return json(body);
+    }
+    const { error, code, details, ...rest } = body;
+    return json({
+      success: false,
+      error: error || 'Request failed',
+      code: code || defaultCode(res.statusCode),
+      details: details ?? null,
+      ...rest
+    });
+  };
+  next();
+}
@@ -0,0 +1,13 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { openApiDocument } from './document.js';
+
+/**
+ * Write the OpenAPI document to backend/openapi.json (or the given path), the
+ * input of the frontend's type generation (`npm run generate:api` in the root)
+ */
+const target = process.argv[2] || path.join(path.dirname(fileURLToPath(import.meta.url)), '../../openapi.json');
+
+fs.writeFileSync(target, `${JSON.stringify(openApiDocument, null, 2)}\n`);
+console.log(`OpenAPI document written to ${path.relative(process.cwd(), target)}`);
@@ -0,0 +1,18 @@
+import express from 'express';
+import { openApiDocument } from './document.js';
+
+/**
+ * Serves the OpenAPI document the requests are validated against
+ */
+export function createOpenApiRouter({ validateRequest }) {
+  const router = express.Router();
+
+  /**
+   * OpenAPI document of this API
+   */
+  router.get('/openapi.json', validateRequest('getOpenApiDocument'), (req, res) => {
+    res.json(openApiDocument);
+  });
+
+  return router;
+}
@@ -0,0 +1,202 @@
+import fs from 'fs';
+import Ajv2020 from 'ajv/dist/2020.js';
+
+const DOCUMENT_KEY = 'openapi.json';
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+function isFileSchema(schema) {
+  return schema.format === 'binary' || schema.items?.format === 'binary';
+}
+
+// Schemas are compiled outside the document, so its local refs need the document key
+function absoluteRefs(schema) {
+  return JSON.parse(JSON.stringify(schema).replaceAll('"#/components/', `"${DOCUMENT_KEY}#/components/`));
+}
+
+function parametersSchema(parameters, location) {
+  const matching = parameters.filter(parameter => parameter.in === location);
+  if (matching.length === 0) {
+    return null;
+  }
+  return {
+    type: 'object',
+    required: matching.filter(parameter => parameter.required).map(parameter => parameter.name),
+    properties: Object.fromEntries(matching.map(parameter => [parameter.name, parameter.schema]))
+  };
+}
+
+/**
+ * Body schema of a request; multipart file fields are left to multer and the handlers
+ */
+function bodySchema(requestBody) {
+  const content = requestBody?.content || {};
+  if (content['application/json']) {
+    return { multipart: false, schema: content['application/json'].schema, required: requestBody.required };
+  }
+  const multipart = content['multipart/form-data']?.schema;
+  if (!multipart) {
+    return null;
+  }
+  const fields = Object.entries(multipart.properties).filter(([, property]) => !isFileSchema(property));
+  return {
+    multipart: true,
+    schema: {
+      type: 'object',
+      required: (multipart.required || []).filter(name => fields.some(([field]) => field === name)),
+      properties: Object.fromEntries(fields)
+    },
+    required: true
+  };
+}
+
+function describeError(error) {
+  switch (error.keyword) {
+    case 'required':
+      return 'is required';
+    case 'enum':
+      return `must be one of: ${error.params.allowedValues.filter(value => value !== null).join(', ')}`;
+    case 'pattern':
+    case 'format':
+      return 'has an invalid format';
+    default:
+      return error.message;
+  }
+}
+
+/**
+ * Ajv errors as `{ location, field, message }`, one per field
+ */
+function toIssues(errors, location) {
+  const issues = new Map();
+  for (const error of errors) {
+    const segments = error.instancePath.split('/').slice(1);
+    if (error.keyword === 'required') {
+      segments.push(error.params.missingProperty);
+    }
+    const field = segments.join('.');
+    if (!issues.has(field)) {
+      issues.set(field, { location, ...(field && { field }), message: describeError(error) });
+    }
+  }
+  return [...issues.values()];
+}
+
+function discardUploads(req) {
+  const files = [req.file, ...(Array.isArray(req.files) ? req.files : Object.values(req.files || {}).flat())];
+  for (const file of files.filter(Boolean)) {
+    fs.rmSync(file.path, { force: true });
+  }
+}
+
+/**
+ * Runtime checks against an OpenAPI document. `validateRequest(operationId)`
+ * rejects requests whose path parameters, query or body do not match the
+ * operation with 400 VALIDATION_FAILED; it runs after authentication and
+ * multer. With `checkResponses`, the `validateResponses` middleware logs JSON
+ * responses that do not match the document (a development aid, responses are
+ * never changed).
+ */
+export function createOpenApiValidator(document, { checkResponses = false } = {}) {
+  const ajv = new Ajv2020({ allErrors: true, strict: false });
+  // Path parameters, query strings and multipart fields arrive as strings; they are coerced on a copy
+  const coercingAjv = new Ajv2020({ allErrors: true, strict: false, coerceTypes: true });
+  for (const instance of [ajv, coercingAjv]) {
+    instance.addFormat('binary', true);
+    instance.addFormat('date-time', value => !Number.isNaN(Date.parse(value)));
+    instance.addSchema(document, DOCUMENT_KEY);
+  }
+
+  const operations = new Map();
+  for (const [path, item] of Object.entries(document.paths)) {
+    for (const method of METHODS.filter(name => item[name])) {
+      const { operationId, parameters = [], requestBody, responses } = item[method];
+      const pathSchema = parametersSchema(parameters, 'path');
+      const querySchema = parametersSchema(parameters, 'query');
+      const body = bodySchema(requestBody);
+
+      operations.set(operationId, {
+        path: pathSchema && coercingAjv.compile(absoluteRefs(pathSchema)),
+        query: querySchema && coercingAjv.compile(absoluteRefs(querySchema)),
+        body: body && {
+          ...body,
+          validate: (body.multipart ? coercingAjv : ajv).compile(absoluteRefs(body.schema))
+        },
+        responses,
+        responseValidators: new Map(),
+        description: `${method.toUpperCase()} ${path}`
+      });
+    }
+  }
+
+  function validateRequest(operationId) {
+    const operation = operations.get(operationId);
+    if (!operation) {
+      throw new Error(`Unknown OpenAPI operation "${operationId}"`);
+    }
+
+    return (req, res, next) => {
+      res.locals.operationId = operationId;
+
+      const issues = [];
+      const check = (validate, value, location) => {
+        if (validate && !validate(value)) {
+          issues.push(...toIssues(validate.errors, location));
+        }
+      };
+
+      check(operation.path, { ...req.params }, 'path');
+      check(operation.query, { ...req.query }, 'query');
+      if (operation.body) {
+        const { multipart, validate, required } = operation.body;
+        if (req.body !== undefined || required) {
+          check(validate, multipart ? { ...req.body } : req.body ?? {}, 'body');
+        }
+      }
+
+      if (issues.length === 0) {
+        return next();
+      }
+
+      discardUploads(req);
+      res.status(400).json({
+        error: issues.map(({ field, message }) => (field ? `${field} ${message}` : message)).join('; '),
+        code: 'VALIDATION_FAILED',
+        details: issues
+      });
+    };
+  }
+
+  // Response validators are compiled on first use, they are only needed with checkResponses
+  function getResponseValidator(operation, status) {
+    if (!operation.responseValidators.has(status)) {
+      const response = operation.responses[status] || operation.responses.default;
+      const resolved = response?.$ref ? document.components.responses[response.$ref.split('/').pop()] : response;
+      const schema = resolved?.content?.['application/json']?.schema;
+      operation.responseValidators.set(status, schema ? ajv.compile(absoluteRefs(schema)) : null);
+    }
+    return operation.responseValidators.get(status);
+  }
+
+  /**
+   * App-level middleware; register it before anything else that wraps res.json
+   */
+  function validateResponses(req, res, next) {
+    if (!checkResponses) {
+      return next();
+    }
+
+    const json = res.json.bind(res);
+    res.json = (body) => {
+      const operation = operations.get(res.locals.operationId);
+      const validate = operation && getResponseValidator(operation, res.statusCode);
+      if (validate && !validate(body)) {
+        const problems = validate.errors.slice(0, 5).map(error => `${error.instancePath || '/'} ${error.message}`);
+        console.warn(`OpenAPI: ${operation.description} ${res.statusCode} response does not match the document: ${problems.join('; ')}`);
+      }
+      return json(body);
+    };
+    next();
+  }
+
+  return { validateRequest, validateResponses };
+}
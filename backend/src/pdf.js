@@ -0,0 +1,209 @@
+/**
+ * Minimal PDF 1.4 writer for text reports: the standard Helvetica and Courier
+ * fonts (nothing embedded), line wrapping, automatic page breaks and a footer
+ * on every page. Text is WinAnsi encoded; characters outside Latin-1 print as "?".
+ */
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FOOTER_SIZE = 8;
+
+const FONTS = {
+  regular: { key: 'F1', name: 'Helvetica' },
+  bold: { key: 'F2', name: 'Helvetica-Bold' },
+  mono: { key: 'F3', name: 'Courier' }
+};
+
+// Advance widths of the printable ASCII characters (32-126) in 1/1000 em, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+function charWidth(font, code) {
+  if (font === 'mono') {
+    return 600;
+  }
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  return widths[code - 32] ?? 556;
+}
+
+function textWidth(text, font, size) {
+  let width = 0;
+  for (let index = 0; index < text.length; index++) {
+    width += charWidth(font, text.charCodeAt(index));
+  }
+  return (width * size) / 1000;
+}
+
+function toLatin1(value) {
+  return String(value ?? '').replace(/\t/g, ' ').replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+function escapeText(text) {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+/**
+ * Split a line into pieces no wider than `width`; words that are too long on
+ * their own (hashes, paths) are broken between characters
+ */
+function wrap(text, font, size, width) {
+  const lines = [];
+  let line = '';
+
+  const push = (word) => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (textWidth(candidate, font, size) <= width) {
+      line = candidate;
+      return;
+    }
+    if (line) {
+      lines.push(line);
+      line = '';
+    }
+    while (textWidth(word, font, size) > width) {
+      let end = word.length - 1;
+      while (end > 1 && textWidth(word.slice(0, end), font, size) > width) end--;
+      lines.push(word.slice(0, end));
+      word = word.slice(end);
+    }
+    line = word;
+  };
+
+  for (const word of text.split(' ')) {
+    push(word);
+  }
+  lines.push(line);
+  return lines;
+}
+
+function pdfDate(date) {
+  const iso = date.toISOString();
+  return `D:${iso.slice(0, 4)}${iso.slice(5, 7)}${iso.slice(8, 10)}${iso.slice(11, 13)}${iso.slice(14, 16)}${iso.slice(17, 19)}Z`;
+}
+
+export class PdfDocument {
+  constructor({ title = '', author = '', createdAt = new Date() } = {}) {
+    this.info = { title, author, createdAt };
+    this.pages = [];
+    this.newPage();
+  }
+
+  newPage() {
+    this.operations = [];
+    this.pages.push(this.operations);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /**
+   * Write text, wrapped to the page width; newlines start new lines
+   * @param {object} [options]
+   * @param {'regular'|'bold'|'mono'} [options.font]
+   * @param {number} [options.size] Font size in points
+   * @param {number} [options.indent] Left indent in points
+   */
+  text(value, { font = 'regular', size = 10, indent = 0 } = {}) {
+    const width = PAGE_WIDTH - 2 * MARGIN - indent;
+    const leading = size * 1.25;
+
+    for (const paragraph of toLatin1(String(value ?? '').replace(/\r/g, '')).split('\n')) {
+      for (const line of wrap(paragraph, font, size, width)) {
+        if (this.y - leading < MARGIN) {
+          this.newPage();
+        }
+        this.y -= leading;
+        this.operations.push(
+          `BT /${FONTS[font].key} ${size} Tf ${MARGIN + indent} ${this.y.toFixed(2)} Td (${escapeText(line)}) Tj ET`
+        );
+      }
+    }
+  }
+
+  /**
+   * Vertical space; at the bottom of a page it only moves to the next one
+   */
+  space(points) {
+    this.y = Math.max(this.y - points, MARGIN);
+  }
+
+  /**
+   * Thin horizontal line across the text area
+   */
+  rule() {
+    if (this.y - 8 < MARGIN) {
+      this.newPage();
+      return;
+    }
+    this.y -= 4;
+    this.operations.push(`0.75 G 0.5 w ${MARGIN} ${this.y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${this.y.toFixed(2)} l S 0 G`);
+    this.y -= 4;
+  }
+
+  /**
+   * The finished document. `footer(pageNumber, pageCount)` returns the text
+   * printed at the bottom of every page.
+   * @returns {Buffer}
+   */
+  toBuffer({ footer } = {}) {
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      null,
+      ...Object.values(FONTS).map(({ name }) => `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`),
+      `<< /Title (${escapeText(toLatin1(this.info.title))}) /Author (${escapeText(toLatin1(this.info.author))})`
+        + ` /Producer (File Integrity API) /CreationDate (${pdfDate(this.info.createdAt)}) >>`
+    ];
+    const fontResources = Object.values(FONTS)
+      .map(({ key }, index) => `/${key} ${index + 3} 0 R`)
+      .join(' ');
+
+    const pageRefs = [];
+    this.pages.forEach((operations, index) => {
+      const footerText = footer ? toLatin1(footer(index + 1, this.pages.length)) : '';
+      const content = [
+        ...operations,
+        ...(footerText
+          ? [`BT /${FONTS.regular.key} ${FOOTER_SIZE} Tf ${MARGIN} ${MARGIN / 2} Td (${escapeText(footerText)}) Tj ET`]
+          : [])
+      ].join('\n');
+
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      const contentRef = objects.length;
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]`
+          + ` /Resources << /Font << ${fontResources} >> >> /Contents ${contentRef} 0 R >>`
+      );
+      pageRefs.push(`${objects.length} 0 R`);
+    });
+    objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pageRefs.length} >>`;
+
+    // Every string is Latin-1, so string offsets are byte offsets
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets = objects.map((body, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+}
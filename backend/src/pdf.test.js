@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PdfDocument } from './pdf.js';
+
+function objectOffsets(pdf) {
+  const text = pdf.toString('latin1');
+  const xref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(text)[1]);
+  assert.ok(text.startsWith('xref\n', xref), 'startxref points at the xref table');
+
+  const [, count] = /^xref\n0 (\d+)\n/.exec(text.slice(xref));
+  const rows = text.slice(xref).split('\n').slice(3, 2 + Number(count));
+  return { text, offsets: rows.map(row => Number(row.slice(0, 10))) };
+}
+
+describe('PdfDocument', function () {
+  it('Should write a cross-reference table that points at every object', function () {
+    const pdf = new PdfDocument({ title: 'Audit (report)', author: 'Tests', createdAt: new Date('2025-01-02T03:04:05Z') });
+    pdf.text('Registry audit', { font: 'bold', size: 16 });
+    pdf.rule();
+    pdf.text(`Hash ${'ab'.repeat(40)}`, { font: 'mono' });
+
+    const { text, offsets } = objectOffsets(pdf.toBuffer());
+    assert.ok(text.startsWith('%PDF-1.4\n'));
+    offsets.forEach((offset, index) => {
+      assert.ok(text.startsWith(`${index + 1} 0 obj\n`, offset), `object ${index + 1}`);
+    });
+    assert.match(text, /\/Title \(Audit \\\(report\\\)\)/);
+    assert.match(text, /\/CreationDate \(D:20250102030405Z\)/);
+  });
+
+  it('Should start new pages and number them in the footer', function () {
+    const pdf = new PdfDocument();
+    for (let i = 0; i < 120; i++) {
+      pdf.text(`Line ${i}`);
+    }
+
+    const { text } = objectOffsets(pdf.toBuffer({ footer: (page, pages) => `Page ${page} of ${pages}` }));
+    const pages = Number(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/.exec(text)[1]);
+    assert.ok(pages > 1);
+    assert.ok(text.includes(`(Page ${pages} of ${pages}) Tj`));
+  });
+
+  it('Should keep content streams byte-accurate for Latin-1 text', function () {
+    const pdf = new PdfDocument();
+    pdf.text('Café déjà vu');
+
+    const buffer = pdf.toBuffer();
+    const text = buffer.toString('latin1');
+    const [, length, content] = /<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/.exec(text);
+    assert.equal(Number(length), Buffer.byteLength(content, 'latin1'));
+    assert.ok(text.includes('Café'));
+  });
+});
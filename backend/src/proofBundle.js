@@ -0,0 +1,116 @@
+export const PROOF_FORMAT = 'file-integrity-proof';
+// 2: chain.confirmed tells whether the backend checked the upload transaction
+// 3: revocation.confirmed does the same for the revocation transaction
+export const PROOF_FORMAT_VERSION = 3;
+
+/**
+ * Deterministic JSON: object keys sorted, undefined values dropped. Signatures
+ * are computed over this form so any verifier can reproduce the signed bytes.
+ */
+export function canonicalJson(value) {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Everything needed to check a file offline: its digests, upload metadata and
+ * how it was anchored (its own transaction and/or a Merkle batch), including the
+ * raw event logs so they can be decoded without the backend.
+ *
+ * Batch anchors are sent by the backend itself. The upload transaction is
+ * reported by the client, so `uploadConfirmed` says whether the backend checked
+ * it on-chain; the signature only vouches for it when chain.confirmed is true.
+ * The same goes for the revocation transaction and revocation.confirmed;
+ * registry-only revocations have no transaction to confirm.
+ */
+export function buildProofPayload(record, batch, { uploadConfirmed = false } = {}) {
+  const blockchain = record.blockchain;
+
+  return {
+    file: {
+      id: record.id,
+      originalName: record.originalName,
+      description: record.description,
+      uploadTime: record.uploadTime,
+      size: record.size,
+      mimetype: record.mimetype,
+      version: record.version || 1,
+      parentId: record.parentId || null
+    },
+    fileHash: record.fileHash,
+    digests: record.digests || [],
+    ipfsHash: record.ipfsHash,
+    chain: blockchain
+      ? {
+          chainId: blockchain.chainId,
+          contractAddress: blockchain.contractAddress,
+          transactionHash: blockchain.transactionHash,
+          blockNumber: blockchain.blockNumber,
+          onChainFileId: blockchain.onChainFileId,
+          uploaderAddress: blockchain.uploaderAddress,
+          eventLog: blockchain.eventLog || null,
+          confirmed: uploadConfirmed
+        }
+      : null,
+    batch: record.batch && batch
+      ? {
+          batchId: batch.id,
+          merkleRoot: batch.merkleRoot,
+          leafCount: batch.leafCount,
+          leafIndex: record.batch.leafIndex,
+          leaf: record.batch.leaf,
+          proof: record.batch.proof,
+          anchor: batch.anchor
+        }
+      : null,
+    revocation: record.revocation
+      ? {
+          reason: record.revocation.reason,
+          revokedAt: record.revocation.revokedAt,
+          transactionHash: record.revocation.transactionHash,
+          eventLog: record.revocation.eventLog || null,
+          confirmed: Boolean(record.revocation.confirmedAt)
+        }
+      : null,
+    issuedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Sign a payload and wrap it into a self-contained proof bundle
+ */
+export async function createProofBundle(payload, signer) {
+  return {
+    format: PROOF_FORMAT,
+    formatVersion: PROOF_FORMAT_VERSION,
+    payload,
+    signature: await signer.sign(payload)
+  };
+}
+
+/**
+ * Keep only the fields of an ethers log needed to decode and locate it
+ */
+export function serializeEventLog(log) {
+  if (!log) {
+    return null;
+  }
+  return {
+    address: log.address,
+    topics: [...log.topics],
+    data: log.data,
+    blockNumber: Number(log.blockNumber),
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: Number(log.index ?? log.logIndex)
+  };
+}
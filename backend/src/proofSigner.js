@@ -0,0 +1,50 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { canonicalJson } from './proofBundle.js';
+
+export const SIGNATURE_ALGORITHM = 'eip191-secp256k1';
+
+/**
+ * Signs proof bundles with a server key. The key comes from PROOF_SIGNING_KEY or
+ * is generated once and kept in the data directory, so the signer address stays
+ * stable across restarts and can be published for offline verification.
+ */
+export class ProofSigner {
+  constructor(wallet) {
+    this.wallet = wallet;
+  }
+
+  static load({ dataDir, privateKey = process.env.PROOF_SIGNING_KEY } = {}) {
+    if (privateKey) {
+      return new ProofSigner(new ethers.Wallet(privateKey));
+    }
+
+    const keyPath = path.join(dataDir, 'proof-signing-key.json');
+    if (fs.existsSync(keyPath)) {
+      const { privateKey: storedKey } = JSON.parse(fs.readFileSync(keyPath, 'utf8'));
+      return new ProofSigner(new ethers.Wallet(storedKey));
+    }
+
+    const wallet = ethers.Wallet.createRandom();
+    fs.mkdirSync(dataDir, { recursive: true });
+    fs.writeFileSync(keyPath, JSON.stringify({ privateKey: wallet.privateKey }, null, 2), { mode: 0o600 });
+    console.log(`🔏 Generated proof signing key ${wallet.address} (${keyPath})`);
+    return new ProofSigner(wallet);
+  }
+
+  get address() {
+    return this.wallet.address;
+  }
+
+  /**
+   * EIP-191 signature over the canonical JSON of a bundle payload
+   */
+  async sign(payload) {
+    return {
+      algorithm: SIGNATURE_ALGORITHM,
+      signer: this.wallet.address,
+      value: await this.wallet.signMessage(canonicalJson(payload))
+    };
+  }
+}
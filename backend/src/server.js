@@ -1,79 +1,125 @@
 import express from 'express';
 import cors from 'cors';
 import multer from 'multer';
-import crypto from 'crypto';
-import fs from 'fs';
 import path from 'path';
 import dotenv from 'dotenv';
+import { createStore } from './store/index.js';
+import { FileRecords } from './store/records.js';
+import { createFileRouter } from './store/routes.js';
+import { SUPPORTED_ALGORITHMS } from './hashing.js';
+import { BlockStore } from './ipfs/blockStore.js';
+import { createIpfsRouter } from './ipfs/routes.js';
+import { createBatch, anchorBatch } from './batches.js';
+import { createBatchRouter } from './batchRoutes.js';
+import { getAnchorContract, getReadContract, getChainConfig, getDeploymentBlock } from './chain/contract.js';
+import { ChainIndexer } from './chain/indexer.js';
+import { createChainRouter } from './chain/routes.js';
+import { IntegrityMonitor } from './integrityMonitor.js';
+import { createIntegrityRouter } from './integrityRoutes.js';
+import { createVerificationRouter } from './verificationRoutes.js';
+import { createManifestRouter } from './manifestRoutes.js';
+import { createAuditReportRouter } from './auditReportRoutes.js';
+import { ProofSigner } from './proofSigner.js';
+import { createUploads } from './uploads.js';
+import { TokenService } from './auth/tokens.js';
+import { createAuth } from './auth/middleware.js';
+import { seedAdminAccount } from './auth/accounts.js';
+import { createAuthRouter } from './auth/routes.js';
+import { SiweChallenges } from './auth/siwe.js';
+import { openApiDocument } from './openapi/document.js';
+import { createOpenApiRouter } from './openapi/routes.js';
+import { createOpenApiValidator } from './openapi/validation.js';
+import { errorEnvelope } from './openapi/errors.js';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 5000;
+const DATA_DIR = process.env.DATA_DIR || './data';
+const IPFS_CID_VERSION = Number(process.env.IPFS_CID_VERSION || 0);
+const BATCH_INTERVAL_MINUTES = Number(process.env.BATCH_INTERVAL_MINUTES || 0);
+const INDEXER_POLL_SECONDS = Number(process.env.INDEXER_POLL_SECONDS ?? 15);
+const INTEGRITY_CHECK_INTERVAL_MINUTES = Number(process.env.INTEGRITY_CHECK_INTERVAL_MINUTES ?? 60);
+const UPLOAD_BATCH_MAX_FILES = Number(process.env.UPLOAD_BATCH_MAX_FILES || 100);
+const VERIFY_ARCHIVE_MAX_MB = Number(process.env.VERIFY_ARCHIVE_MAX_MB || 100);
+const VERIFY_BATCH_MAX_FILES = Number(process.env.VERIFY_BATCH_MAX_FILES || 1000);
+const VERIFY_BATCH_MAX_MB = Number(process.env.VERIFY_BATCH_MAX_MB || 500);
+const AUDIT_REPORT_MAX_RECORDS = Number(process.env.AUDIT_REPORT_MAX_RECORDS || 5000);
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || 'http://localhost:5173,http://localhost:5174')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+// Sites that may ask wallets for a Sign-In with Ethereum signature; the first is used without an Origin header
+const SIWE_ORIGINS = (process.env.SIWE_ORIGINS || CORS_ORIGINS.filter(origin => origin !== '*').join(','))
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+const ALLOW_REGISTRATION = process.env.ALLOW_REGISTRATION !== 'false';
+// Admin account created at startup; registration and Sign-In with Ethereum only create users
+const ADMIN_EMAIL = process.env.ADMIN_EMAIL || '';
+const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || '';
+const ADMIN_WALLET = process.env.ADMIN_WALLET || '';
+// Log responses that drift from the OpenAPI document; on by default outside production
+const OPENAPI_VALIDATE_RESPONSES = process.env.OPENAPI_VALIDATE_RESPONSES
+  ? process.env.OPENAPI_VALIDATE_RESPONSES !== 'false'
+  : process.env.NODE_ENV !== 'production';
+
+// Request validation against the OpenAPI document (see ./openapi)
+const { validateRequest, validateResponses } = createOpenApiValidator(openApiDocument, {
+  checkResponses: OPENAPI_VALIDATE_RESPONSES
+});
 
 // Middleware
-app.use(cors());
+app.use(cors({ origin: CORS_ORIGINS.includes('*') ? true : CORS_ORIGINS }));
+app.use(validateResponses);
+app.use(errorEnvelope);
 app.use(express.json());
 
-// Configure multer for file uploads
-const storage = multer.diskStorage({
-  destination: function (req, file, cb) {
-    const uploadDir = './uploads';
-    if (!fs.existsSync(uploadDir)) {
-      fs.mkdirSync(uploadDir, { recursive: true });
-    }
-    cb(null, uploadDir);
-  },
-  filename: function (req, file, cb) {
-    // Keep original filename with timestamp prefix
-    const timestamp = Date.now();
-    cb(null, `${timestamp}-${file.originalname}`);
-  }
-});
+// Multer instances for uploads and bulk verification (see ./uploads.js)
+const { upload, verifyUpload } = createUploads({ verifyArchiveMaxMb: VERIFY_ARCHIVE_MAX_MB });
 
-const upload = multer({ 
-  storage: storage,
-  limits: {
-    fileSize: 10 * 1024 * 1024 // 10MB limit
-  },
-  fileFilter: (req, file, cb) => {
-    // Allow all file types for demonstration
-    cb(null, true);
-  }
-});
+// Persistent record store (see ./store for drivers and migrations)
+const store = await createStore({ dataDir: DATA_DIR });
 
-// In-memory storage for demonstration (use database in production)
-const fileRecords = new Map();
+// Local IPFS block store holding the UnixFS blocks of every uploaded file
+const blockStore = new BlockStore(path.join(DATA_DIR, 'blocks'));
 
-/**
- * Calculate SHA-256 hash of a file
- */
-function calculateFileHash(filePath) {
-  return new Promise((resolve, reject) => {
-    const hash = crypto.createHash('sha256');
-    const stream = fs.createReadStream(filePath);
+// Creates, checks and shapes file records for the routes
+const fileRecords = new FileRecords({ store, blockStore, cidVersion: IPFS_CID_VERSION });
 
-    stream.on('data', (data) => {
-      hash.update(data);
-    });
+// Server key that signs downloadable proof bundles
+const proofSigner = ProofSigner.load({ dataDir: DATA_DIR });
 
-    stream.on('end', () => {
-      resolve(hash.digest('hex'));
-    });
+// Login sessions (JWT) and API keys; every request gets req.user or null
+const tokens = TokenService.load({ dataDir: DATA_DIR });
+const { authenticate, requireAuth, requireRole } = createAuth({ store, tokens });
+const siweChallenges = new SiweChallenges({ origins: SIWE_ORIGINS });
+app.use(authenticate);
+await seedAdminAccount(store, { email: ADMIN_EMAIL, password: ADMIN_PASSWORD, wallet: ADMIN_WALLET });
 
-    stream.on('error', (error) => {
-      reject(error);
-    });
-  });
-}
+// Mirror of the contract's FileUploaded/FileVerified/FileRevoked events, which also feeds
+// on-chain checks into the verification log (see ./chain/indexer.js)
+const chainIndexer = new ChainIndexer({ store, getContract: getReadContract, getStartBlock: getDeploymentBlock });
+
+// Periodic re-hashing of the stored originals (see ./integrityMonitor.js)
+const integrityMonitor = new IntegrityMonitor({ store });
+
+let batchRun = Promise.resolve();
 
 /**
- * Simulate IPFS upload (in production, use actual IPFS client)
+ * Build a batch from every pending record and anchor it. Runs are serialized so
+ * the scheduler and manual triggers never batch the same record twice.
  */
-function simulateIPFSUpload(filename) {
-  // Generate a mock IPFS hash
-  const mockHash = crypto.createHash('sha1').update(filename + Date.now()).digest('hex');
-  return `Qm${mockHash.substring(0, 44)}`;
+function runBatch() {
+  const run = batchRun.then(async () => {
+    const batch = await createBatch(store);
+    if (!batch) {
+      return null;
+    }
+    return anchorBatch(store, batch, getAnchorContract());
+  });
+  batchRun = run.catch(() => {});
+  return run;
 }
 
 // Routes
@@ -81,273 +127,59 @@ function simulateIPFSUpload(filename) {
 /**
  * Health check endpoint
  */
-app.get('/api/health', (req, res) => {
+app.get('/api/health', validateRequest('getHealth'), (req, res) => {
   res.json({ 
     status: 'OK', 
     message: 'File Integrity API is running',
+    hashAlgorithms: SUPPORTED_ALGORITHMS,
+    chain: getChainConfig(),
+    proofSigner: proofSigner.address,
+    batchIntervalMinutes: BATCH_INTERVAL_MINUTES,
     timestamp: new Date().toISOString()
   });
 });
 
-/**
- * Upload file and calculate hash
- */
-app.post('/api/upload', upload.single('file'), async (req, res) => {
-  try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No file uploaded' });
-    }
-
-    const { description = '' } = req.body;
-    const filePath = req.file.path;
-    const originalName = req.file.originalname;
-
-    // Calculate file hash
-    const fileHash = await calculateFileHash(filePath);
-    
-    // Simulate IPFS upload
-    const ipfsHash = simulateIPFSUpload(originalName);
-
-    // Store file record
-    const fileRecord = {
-      id: Date.now().toString(),
-      originalName,
-      filePath,
-      fileHash,
-      ipfsHash,
-      description,
-      uploadTime: new Date().toISOString(),
-      size: req.file.size,
-      mimetype: req.file.mimetype
-    };
-
-    fileRecords.set(fileRecord.id, fileRecord);
-
-    // Prepare response (don't include full file path for security)
-    const response = {
-      id: fileRecord.id,
-      originalName: fileRecord.originalName,
-      fileHash: fileRecord.fileHash,
-      ipfsHash: fileRecord.ipfsHash,
-      description: fileRecord.description,
-      uploadTime: fileRecord.uploadTime,
-      size: fileRecord.size,
-      mimetype: fileRecord.mimetype
-    };
-
-    res.json({
-      success: true,
-      message: 'File uploaded and hashed successfully',
-      data: response
-    });
-
-  } catch (error) {
-    console.error('Upload error:', error);
-    res.status(500).json({ 
-      error: 'Failed to process file upload',
-      details: error.message 
-    });
-  }
-});
-
-/**
- * Verify file integrity by comparing hashes
- */
-app.post('/api/verify', upload.single('file'), async (req, res) => {
-  try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No file provided for verification' });
-    }
-
-    const filePath = req.file.path;
-    
-    // Calculate hash of uploaded file
-    const calculatedHash = await calculateFileHash(filePath);
-    
-    // Clean up temporary file
-    fs.unlinkSync(filePath);
-
-    // Find matching record
-    const matchingRecord = Array.from(fileRecords.values())
-      .find(record => record.fileHash === calculatedHash);
-
-    if (matchingRecord) {
-      res.json({
-        success: true,
-        isValid: true,
-        message: 'File integrity verified successfully',
-        data: {
-          id: matchingRecord.id,
-          originalName: matchingRecord.originalName,
-          fileHash: matchingRecord.fileHash,
-          uploadTime: matchingRecord.uploadTime,
-          description: matchingRecord.description
-        }
-      });
-    } else {
-      res.json({
-        success: true,
-        isValid: false,
-        message: 'File not found or has been tampered with',
-        calculatedHash
-      });
-    }
-
-  } catch (error) {
-    console.error('Verification error:', error);
-    res.status(500).json({ 
-      error: 'Failed to verify file',
-      details: error.message 
-    });
-  }
-});
-
-/**
- * Verify file by hash only (no file upload required)
- */
-app.post('/api/verify-hash', (req, res) => {
-  try {
-    const { fileHash } = req.body;
-
-    if (!fileHash) {
-      return res.status(400).json({ error: 'File hash is required' });
-    }
-
-    // Find matching record
-    const matchingRecord = Array.from(fileRecords.values())
-      .find(record => record.fileHash === fileHash);
-
-    if (matchingRecord) {
-      res.json({
-        success: true,
-        isValid: true,
-        message: 'File hash found in records',
-        data: {
-          id: matchingRecord.id,
-          originalName: matchingRecord.originalName,
-          fileHash: matchingRecord.fileHash,
-          uploadTime: matchingRecord.uploadTime,
-          description: matchingRecord.description
-        }
-      });
-    } else {
-      res.json({
-        success: true,
-        isValid: false,
-        message: 'File hash not found in records'
-      });
-    }
-
-  } catch (error) {
-    console.error('Hash verification error:', error);
-    res.status(500).json({ 
-      error: 'Failed to verify hash',
-      details: error.message 
-    });
-  }
-});
-
-/**
- * Get all uploaded files (for audit trail)
- */
-app.get('/api/files', (req, res) => {
-  try {
-    const files = Array.from(fileRecords.values()).map(record => ({
-      id: record.id,
-      originalName: record.originalName,
-      fileHash: record.fileHash,
-      ipfsHash: record.ipfsHash,
-      description: record.description,
-      uploadTime: record.uploadTime,
-      size: record.size,
-      mimetype: record.mimetype
-    }));
+// Every feature's routes live next to its module
+const routeOptions = { store, fileRecords, upload, verifyUpload, requireAuth, requireRole, validateRequest };
+app.use('/api', createOpenApiRouter(routeOptions));
+app.use('/api', createAuthRouter({ ...routeOptions, tokens, siweChallenges, allowRegistration: ALLOW_REGISTRATION }));
+app.use('/api', createFileRouter({ ...routeOptions, proofSigner, uploadBatchMaxFiles: UPLOAD_BATCH_MAX_FILES }));
+app.use('/api', createVerificationRouter({
+  ...routeOptions,
+  verifyBatchMaxFiles: VERIFY_BATCH_MAX_FILES,
+  verifyBatchMaxMb: VERIFY_BATCH_MAX_MB
+}));
+app.use('/api', createManifestRouter({
+  ...routeOptions,
+  verifyBatchMaxFiles: VERIFY_BATCH_MAX_FILES,
+  verifyBatchMaxMb: VERIFY_BATCH_MAX_MB
+}));
+app.use('/api', createAuditReportRouter({ ...routeOptions, proofSigner, maxRecords: AUDIT_REPORT_MAX_RECORDS }));
+app.use('/api', createChainRouter({ ...routeOptions, chainIndexer }));
+app.use('/api', createIntegrityRouter({ ...routeOptions, integrityMonitor, intervalMinutes: INTEGRITY_CHECK_INTERVAL_MINUTES }));
+app.use('/api', createBatchRouter({ ...routeOptions, runBatch }));
+app.use('/api', createIpfsRouter({ ...routeOptions, blockStore }));
 
-    res.json({
-      success: true,
-      count: files.length,
-      data: files
-    });
-
-  } catch (error) {
-    console.error('Get files error:', error);
-    res.status(500).json({ 
-      error: 'Failed to retrieve files',
-      details: error.message 
+// Error handling middleware
+app.use((error, req, res, next) => {
+  if (error instanceof multer.MulterError) {
+    const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+    return res.status(status).json({
+      error: error.code === 'LIMIT_UNEXPECTED_FILE'
+        ? `Unexpected file field, or more than ${UPLOAD_BATCH_MAX_FILES} files in one request`
+        : error.message,
+      details: error.field || null
     });
   }
-});
-
-/**
- * Get file by ID
- */
-app.get('/api/files/:id', (req, res) => {
-  try {
-    const { id } = req.params;
-    const record = fileRecords.get(id);
-
-    if (!record) {
-      return res.status(404).json({ error: 'File not found' });
-    }
 
-    const response = {
-      id: record.id,
-      originalName: record.originalName,
-      fileHash: record.fileHash,
-      ipfsHash: record.ipfsHash,
-      description: record.description,
-      uploadTime: record.uploadTime,
-      size: record.size,
-      mimetype: record.mimetype
-    };
-
-    res.json({
-      success: true,
-      data: response
-    });
-
-  } catch (error) {
-    console.error('Get file error:', error);
-    res.status(500).json({ 
-      error: 'Failed to retrieve file',
-      details: error.message 
-    });
+  // Malformed or oversized JSON bodies (express.json)
+  if (error.type === 'entity.parse.failed') {
+    return res.status(400).json({ error: 'Request body is not valid JSON', code: 'INVALID_JSON', details: error.message });
   }
-});
-
-/**
- * Calculate hash for any file (utility endpoint)
- */
-app.post('/api/calculate-hash', upload.single('file'), async (req, res) => {
-  try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No file provided' });
-    }
-
-    const filePath = req.file.path;
-    const fileHash = await calculateFileHash(filePath);
-    
-    // Clean up temporary file
-    fs.unlinkSync(filePath);
-
-    res.json({
-      success: true,
-      fileHash,
-      fileName: req.file.originalname,
-      size: req.file.size
-    });
-
-  } catch (error) {
-    console.error('Hash calculation error:', error);
-    res.status(500).json({ 
-      error: 'Failed to calculate file hash',
-      details: error.message 
-    });
+  if (error.type === 'entity.too.large') {
+    return res.status(413).json({ error: 'Request body is too large', details: error.message });
   }
-});
 
-// Error handling middleware
-app.use((error, req, res, next) => {
   console.error('Server error:', error);
   res.status(500).json({ 
     error: 'Internal server error',
@@ -360,10 +192,76 @@ app.use((req, res) => {
   res.status(404).json({ error: 'Endpoint not found' });
 });
 
+// Scheduled batch anchoring
+if (BATCH_INTERVAL_MINUTES > 0) {
+  setInterval(() => {
+    runBatch()
+      .then(batch => {
+        if (batch) {
+          console.log(`⛓️  Batch ${batch.id} (${batch.leafCount} files): ${batch.status}`);
+        }
+      })
+      .catch(error => console.error('Scheduled batch error:', error));
+  }, BATCH_INTERVAL_MINUTES * 60 * 1000);
+}
+
+// Backfill the chain index, then follow new blocks
+if (INDEXER_POLL_SECONDS > 0 && getReadContract()) {
+  let lastIndexerError = null;
+  const runIndexer = () => {
+    chainIndexer.sync()
+      .then(({ indexed, toBlock }) => {
+        lastIndexerError = null;
+        if (indexed > 0) {
+          console.log(`⛓️  Indexed ${indexed} contract event(s) up to block ${toBlock}`);
+        }
+      })
+      .catch(error => {
+        // Log once per distinct failure rather than on every poll while the node is down
+        const message = error.shortMessage || error.message;
+        if (message !== lastIndexerError) {
+          console.error('Chain indexer error:', message);
+          lastIndexerError = message;
+        }
+      });
+  };
+  runIndexer();
+  setInterval(runIndexer, INDEXER_POLL_SECONDS * 1000);
+}
+
+// Scheduled tamper monitoring of the stored originals
+if (INTEGRITY_CHECK_INTERVAL_MINUTES > 0) {
+  let lastIntegrityError = null;
+  const runIntegrityCheck = () => {
+    integrityMonitor.checkAll()
+      .then(({ checked, counts }) => {
+        lastIntegrityError = null;
+        if (counts.modified + counts.missing + counts.error > 0) {
+          console.warn(`🛡️  Integrity check: ${counts.modified} modified, ${counts.missing} missing, ${counts.error} unreadable of ${checked} file(s)`);
+        }
+      })
+      .catch(error => {
+        if (error.message !== lastIntegrityError) {
+          console.error('Integrity check error:', error.message);
+          lastIntegrityError = error.message;
+        }
+      });
+  };
+  runIntegrityCheck();
+  setInterval(runIntegrityCheck, INTEGRITY_CHECK_INTERVAL_MINUTES * 60 * 1000);
+}
+
 // Start server
 app.listen(PORT, () => {
   console.log(`🚀 File Integrity API Server running on port ${PORT}`);
   console.log(`📁 Upload directory: ./uploads`);
+  console.log(`🗄️  Record store: ${process.env.STORE_DRIVER || 'file'}`);
+  if (BATCH_INTERVAL_MINUTES > 0) {
+    console.log(`⛓️  Batch anchoring every ${BATCH_INTERVAL_MINUTES} minute(s)`);
+  }
+  if (INTEGRITY_CHECK_INTERVAL_MINUTES > 0) {
+    console.log(`🛡️  Stored files re-checked every ${INTEGRITY_CHECK_INTERVAL_MINUTES} minute(s)`);
+  }
   console.log(`🌐 Health check: http://localhost:${PORT}/api/health`);
 });
 
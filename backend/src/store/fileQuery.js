@@ -0,0 +1,148 @@
+/**
+ * Filtering, ordering and cursor pagination of file records, shared by the
+ * store drivers. Pages are keyset based: a cursor holds the sort key and id of
+ * the last record of a page, so records added meanwhile never shift a page.
+ */
+
+export const FILE_SORT_FIELDS = ['uploadTime', 'size', 'name'];
+export const SORT_ORDERS = ['asc', 'desc'];
+// latest: not superseded by a newer version; tampered: the stored original is modified or missing
+export const FILE_STATUSES = ['latest', 'superseded', 'revoked', 'tampered'];
+
+/**
+ * Raised for cursors that are malformed or belong to another sort order
+ */
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid or expired page cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+const STATUS_MATCHERS = {
+  latest: record => !record.supersededBy,
+  superseded: record => Boolean(record.supersededBy),
+  revoked: record => Boolean(record.revocation),
+  tampered: record => record.integrity?.status === 'modified' || record.integrity?.status === 'missing'
+};
+
+function normalizeHex(value) {
+  return value.toLowerCase().replace(/^0x/, '');
+}
+
+// "image/*" and "image/" select a whole MIME type, anything else one exact subtype
+function matchesMimetype(mimetype, wanted) {
+  const type = String(mimetype || '').toLowerCase();
+  const pattern = wanted.toLowerCase();
+  const prefix = pattern.endsWith('/*') ? pattern.slice(0, -1) : pattern.endsWith('/') ? pattern : null;
+  return prefix ? type.startsWith(prefix) : type === pattern;
+}
+
+/**
+ * Whether a record matches every given filter; unset filters match everything
+ * @param {object} filter
+ * @param {string} [filter.ownerId] Account that registered the record
+ * @param {string} [filter.uploadBatchId] Multi-file upload the record belongs to
+ * @param {string} [filter.search] Case-insensitive text in the name or description
+ * @param {string} [filter.hashPrefix] Start of the SHA-256 or any other digest, hex
+ * @param {string} [filter.mimetype] MIME type, or a whole type as "image/*"
+ * @param {string} [filter.uploader] Account id or wallet address of the uploader
+ * @param {string} [filter.status] One of FILE_STATUSES
+ * @param {Date} [filter.from] Uploaded at or after
+ * @param {Date} [filter.to] Uploaded at or before
+ */
+export function matchesFileFilter(record, filter) {
+  const { ownerId, uploadBatchId, search, hashPrefix, mimetype, uploader, status, from, to } = filter;
+
+  if (ownerId && record.ownerId !== ownerId) return false;
+  if (uploadBatchId && record.uploadBatchId !== uploadBatchId) return false;
+  if (status && !STATUS_MATCHERS[status](record)) return false;
+  if (mimetype && !matchesMimetype(record.mimetype, mimetype)) return false;
+
+  if (uploader) {
+    const address = record.uploaderAddress || record.blockchain?.uploaderAddress;
+    if (record.ownerId !== uploader && address?.toLowerCase() !== uploader.toLowerCase()) return false;
+  }
+
+  if (from || to) {
+    const uploadedAt = Date.parse(record.uploadTime);
+    if (from && uploadedAt < from.getTime()) return false;
+    if (to && uploadedAt > to.getTime()) return false;
+  }
+
+  if (hashPrefix) {
+    const prefix = normalizeHex(hashPrefix);
+    const digests = [record.fileHash, ...(record.digests || []).map(entry => entry.digest)];
+    if (!digests.some(digest => digest && normalizeHex(digest).startsWith(prefix))) return false;
+  }
+
+  if (search) {
+    const text = search.toLowerCase();
+    const haystacks = [record.originalName, record.description];
+    if (!haystacks.some(value => value?.toLowerCase().includes(text))) return false;
+  }
+
+  return true;
+}
+
+function sortKey(record, sort) {
+  switch (sort) {
+    case 'size':
+      return record.size ?? -1;
+    case 'name':
+      return (record.originalName || '').toLowerCase();
+    default:
+      return record.uploadTime;
+  }
+}
+
+function compareValues(a, b) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Record ids are numeric strings of varying length
+function compareIds(a, b) {
+  return a.length - b.length || compareValues(a, b);
+}
+
+/**
+ * Position of a record in a sort order, as stored in cursors
+ */
+export function filePosition(record, sort) {
+  return { key: sortKey(record, sort), id: record.id };
+}
+
+/**
+ * Comparator of positions; the record id breaks ties so the order is total
+ */
+export function comparePositions(order) {
+  const direction = order === 'asc' ? 1 : -1;
+  return (a, b) => direction * (compareValues(a.key, b.key) || compareIds(a.id, b.id));
+}
+
+export function encodeFileCursor(position, sort, order) {
+  return Buffer.from(JSON.stringify({ sort, order, ...position })).toString('base64url');
+}
+
+/**
+ * @returns {{ key: string|number, id: string }} position after which the page starts
+ * @throws {InvalidCursorError}
+ */
+export function decodeFileCursor(cursor, sort, order) {
+  let decoded;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  if (!decoded || typeof decoded.id !== 'string') {
+    throw new InvalidCursorError();
+  }
+  if (decoded.sort !== sort || decoded.order !== order) {
+    throw new InvalidCursorError('The page cursor belongs to a different sort order');
+  }
+  if (typeof decoded.key !== (sort === 'size' ? 'number' : 'string')) {
+    throw new InvalidCursorError();
+  }
+  return { key: decoded.key, id: decoded.id };
+}
@@ -0,0 +1,35 @@
+import path from 'path';
+import { MemoryStore } from './memoryStore.js';
+import { JsonFileStore } from './jsonFileStore.js';
+
+/**
+ * Available storage drivers. A driver must implement the MemoryStore
+ * interface (init, close, insertFile, getFile, findFileByHash, findFileByDigest,
+ * listFiles, queryFiles, updateFile, deleteFile, insertBatch, getBatch,
+ * listBatches, updateBatch, insertVerification, listVerifications,
+ * deleteVerifications, insertUser, getUser, findUserByEmail, findUserByWallet,
+ * findUserByApiKey, listUsers, updateUser, insertChainEvents, listChainEvents,
+ * deleteChainEventsAfter, getChainCursor, setChainCursor, insertIntegrityEvent,
+ * listIntegrityEvents).
+ */
+const drivers = {
+  memory: () => new MemoryStore(),
+  file: ({ dataDir }) => new JsonFileStore(path.join(dataDir, 'records.json'))
+};
+
+/**
+ * Create and initialize the configured record store
+ */
+export async function createStore({
+  driver = process.env.STORE_DRIVER || 'file',
+  dataDir = process.env.DATA_DIR || './data'
+} = {}) {
+  const factory = drivers[driver];
+  if (!factory) {
+    throw new Error(`Unknown STORE_DRIVER "${driver}" (expected one of: ${Object.keys(drivers).join(', ')})`);
+  }
+
+  const store = factory({ dataDir });
+  await store.init();
+  return store;
+}
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import path from 'path';
+import { MemoryStore } from './memoryStore.js';
+import { migrate } from './migrations.js';
+
+/**
+ * File-based store: keeps the working set in memory and writes an atomic
+ * JSON snapshot after mutations, so records survive restarts.
+ */
+export class JsonFileStore extends MemoryStore {
+  constructor(filePath) {
+    super();
+    this.filePath = filePath;
+    this.writeQueue = Promise.resolve();
+    this.pendingWrite = null;
+  }
+
+  async init() {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    let snapshot = {};
+    if (fs.existsSync(this.filePath)) {
+      snapshot = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+    }
+
+    const { data, applied } = migrate(snapshot);
+    this.load(data);
+
+    if (applied.length > 0) {
+      console.log(`🗄️  Store migrated to schema v${data.schemaVersion} (${this.filePath})`);
+      await this.persist();
+    }
+  }
+
+  load(data) {
+    this.schemaVersion = data.schemaVersion;
+    this.files.clear();
+    this.hashIndex.clear();
+    this.digestIndex.clear();
+    for (const index of this.lookupIndexes.values()) {
+      index.clear();
+    }
+    this.pendingBatchIds.clear();
+    this.sortIndexes.clear();
+    this.batches.clear();
+    this.verifications.clear();
+    this.users.clear();
+    this.emailIndex.clear();
+    this.apiKeyIndex.clear();
+    this.walletIndex.clear();
+    this.chainEvents.clear();
+    this.integrityEvents.clear();
+
+    const records = Object.values(data.files)
+      .sort((a, b) => a.uploadTime.localeCompare(b.uploadTime));
+    for (const record of records) {
+      this.files.set(record.id, record);
+      this.indexFile(record);
+      this.lookupFile(null, record);
+    }
+
+    const batches = Object.values(data.batches)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    for (const batch of batches) {
+      this.batches.set(batch.id, batch);
+    }
+
+    const verifications = Object.values(data.verifications)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    for (const entry of verifications) {
+      this.verifications.set(entry.id, entry);
+    }
+
+    for (const user of Object.values(data.users)) {
+      this.users.set(user.id, user);
+      this.indexUser(user);
+    }
+
+    for (const event of Object.values(data.chainEvents)) {
+      this.chainEvents.set(event.id, event);
+    }
+    this.chainCursor = data.chainCursor;
+
+    const integrityEvents = Object.values(data.integrityEvents)
+      .sort((a, b) => a.detectedAt.localeCompare(b.detectedAt));
+    for (const event of integrityEvents) {
+      this.integrityEvents.set(event.id, event);
+    }
+  }
+
+  snapshot() {
+    return {
+      schemaVersion: this.schemaVersion,
+      files: Object.fromEntries(this.files),
+      batches: Object.fromEntries(this.batches),
+      verifications: Object.fromEntries(this.verifications),
+      users: Object.fromEntries(this.users),
+      chainEvents: Object.fromEntries(this.chainEvents),
+      chainCursor: this.chainCursor,
+      integrityEvents: Object.fromEntries(this.integrityEvents)
+    };
+  }
+
+  /**
+   * Write the snapshot once the current write finishes. Mutations made while a
+   * write is waiting share it, so a burst of changes (indexer, tamper monitor,
+   * verification log) costs one write instead of one per change.
+   */
+  persist() {
+    if (!this.pendingWrite) {
+      // A failed write only fails its own callers; the next one starts from a clean queue
+      this.pendingWrite = this.writeQueue.catch(() => {}).then(() => {
+        this.pendingWrite = null;
+        return this.writeSnapshot(JSON.stringify(this.snapshot()));
+      });
+      this.writeQueue = this.pendingWrite;
+    }
+    return this.pendingWrite;
+  }
+
+  /**
+   * Replace the store file atomically
+   */
+  async writeSnapshot(data) {
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, data);
+    await fs.promises.rename(tmpPath, this.filePath);
+  }
+
+  async close() {
+    await this.writeQueue.catch(() => {});
+  }
+}
@@ -0,0 +1,245 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonFileStore } from './jsonFileStore.js';
+import { DuplicateFileError } from './memoryStore.js';
+import { LATEST_SCHEMA_VERSION, migrate } from './migrations.js';
+
+const fileHash = (n) => n.toString(16).padStart(64, '0');
+
+function record(id, overrides = {}) {
+  return {
+    id,
+    originalName: `file-${id}.txt`,
+    fileHash: fileHash(Number(id)),
+    size: Number(id),
+    uploadTime: new Date(Date.UTC(2025, 0, Number(id))).toISOString(),
+    ...overrides
+  };
+}
+
+describe('JsonFileStore', function () {
+  let dir;
+  let filePath;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-integrity-store-'));
+    filePath = path.join(dir, 'store.json');
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function reopen(store) {
+    await store.close();
+    const reopened = new JsonFileStore(filePath);
+    await reopened.init();
+    return reopened;
+  }
+
+  it('Should create an empty snapshot at the latest schema version', async function () {
+    const store = new JsonFileStore(filePath);
+    await store.init();
+    await store.close();
+
+    const snapshot = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    assert.equal(snapshot.schemaVersion, LATEST_SCHEMA_VERSION);
+    assert.deepEqual(snapshot.files, {});
+  });
+
+  it('Should keep records and their changes across restarts', async function () {
+    let store = new JsonFileStore(filePath);
+    await store.init();
+    await store.insertFile(record('1'));
+    await store.insertFile(record('2'));
+    await store.updateFile('2', { description: 'second' });
+
+    store = await reopen(store);
+
+    assert.deepEqual((await store.listFiles()).map(entry => entry.id), ['1', '2']);
+    assert.equal((await store.getFile('2')).description, 'second');
+    await store.close();
+  });
+
+  it('Should keep every collection across restarts', async function () {
+    let store = new JsonFileStore(filePath);
+    await store.init();
+    await store.insertFile(record('1', { ownerId: 'u1', digests: [{ algorithm: 'sha512', digest: 'ab'.repeat(64) }] }));
+    await store.insertBatch({ id: 'b1', merkleRoot: '0x01', createdAt: '2025-01-03T00:00:00.000Z' });
+    await store.insertVerification({ id: 'v1', fileId: '1', timestamp: '2025-01-04T00:00:00.000Z' });
+    await store.insertUser({ id: 'u1', email: 'a@example.com', walletAddress: '0xAbC', apiKeys: [{ keyHash: 'k1' }] });
+    await store.insertChainEvents([{ id: 'e1', event: 'FileUploaded', blockNumber: 1, logIndex: 0 }]);
+    await store.setChainCursor({ blockNumber: 42 });
+    await store.insertIntegrityEvent({ id: 'i1', fileId: '1', detectedAt: '2025-01-05T00:00:00.000Z' });
+
+    store = await reopen(store);
+
+    assert.equal((await store.findFileByDigest('sha512', 'ab'.repeat(64))).id, '1');
+    assert.equal((await store.listFiles({ ownerId: 'u1' })).length, 1);
+    assert.equal((await store.getBatch('b1')).merkleRoot, '0x01');
+    assert.equal((await store.listVerifications({ fileId: '1' })).length, 1);
+    assert.equal((await store.findUserByEmail('a@example.com')).id, 'u1');
+    assert.equal((await store.findUserByWallet('0xabc')).id, 'u1');
+    assert.equal((await store.findUserByApiKey('k1')).id, 'u1');
+    assert.equal((await store.listChainEvents({ event: 'FileUploaded' })).length, 1);
+    assert.deepEqual(await store.getChainCursor(), { blockNumber: 42 });
+    assert.equal((await store.listIntegrityEvents({ fileId: '1' })).length, 1);
+    await store.close();
+  });
+
+  it('Should share one snapshot write between concurrent mutations', async function () {
+    const store = new JsonFileStore(filePath);
+    await store.init();
+    let writes = 0;
+    const writeSnapshot = store.writeSnapshot.bind(store);
+    store.writeSnapshot = (data) => {
+      writes++;
+      return writeSnapshot(data);
+    };
+
+    await Promise.all(Array.from({ length: 50 }, (_, i) => store.insertFile(record(String(i + 1)))));
+    await store.close();
+
+    assert.equal(writes, 1);
+    const written = fs.readFileSync(filePath, 'utf8');
+    assert.equal(Object.keys(JSON.parse(written).files).length, 50);
+    assert.ok(!written.includes('\n'), 'snapshots are written without indentation');
+  });
+
+  it('Should rebuild the hash index on load', async function () {
+    let store = new JsonFileStore(filePath);
+    await store.init();
+    await store.insertFile(record('7'));
+
+    store = await reopen(store);
+
+    assert.equal((await store.findFileByHash(fileHash(7))).id, '7');
+    assert.equal(await store.findFileByHash(fileHash(8)), null);
+    await store.close();
+  });
+
+  it('Should page through reloaded records without a stale sort index', async function () {
+    let store = new JsonFileStore(filePath);
+    await store.init();
+    await store.insertFile(record('1'));
+    await store.queryFiles({ sort: 'size' });
+
+    store = await reopen(store);
+    await store.insertFile(record('2'));
+
+    const { records } = await store.queryFiles({ sort: 'size', order: 'asc' });
+    assert.deepEqual(records.map(entry => entry.id), ['1', '2']);
+    await store.close();
+  });
+
+  it('Should recover after a failed write', async function () {
+    const nestedPath = path.join(dir, 'nested', 'store.json');
+    let store = new JsonFileStore(nestedPath);
+    await store.init();
+    fs.rmSync(path.dirname(nestedPath), { recursive: true });
+
+    await assert.rejects(store.insertFile(record('1')), { code: 'ENOENT' });
+
+    fs.mkdirSync(path.dirname(nestedPath));
+    await store.insertFile(record('2'));
+
+    await store.close();
+    store = new JsonFileStore(nestedPath);
+    await store.init();
+    assert.deepEqual((await store.listFiles()).map(entry => entry.id), ['1', '2']);
+    await store.close();
+  });
+
+  it('Should refuse duplicate record ids', async function () {
+    const store = new JsonFileStore(filePath);
+    await store.init();
+    await store.insertFile(record('1'));
+
+    await assert.rejects(store.insertFile(record('1')), /already exists/);
+    await store.close();
+  });
+
+  it('Should refuse a second record for the same hash', async function () {
+    const store = new JsonFileStore(filePath);
+    await store.init();
+    await store.insertFile(record('1'));
+
+    await assert.rejects(store.insertFile(record('2', { fileHash: fileHash(1) })), error => {
+      assert.ok(error instanceof DuplicateFileError);
+      assert.equal(error.existing.id, '1');
+      return true;
+    });
+    assert.equal(await store.getFile('2'), null);
+    await store.close();
+  });
+
+  it('Should migrate a schema-less snapshot and write it back', async function () {
+    fs.writeFileSync(filePath, JSON.stringify({
+      files: { 1: { id: '1', originalName: 'old.txt', fileHash: fileHash(1), uploadTime: '2024-01-01T00:00:00.000Z' } }
+    }));
+
+    const store = new JsonFileStore(filePath);
+    await store.init();
+    await store.close();
+
+    const migrated = await store.getFile('1');
+    assert.equal(migrated.originalName, 'old.txt');
+    assert.deepEqual(migrated.digests, [{ algorithm: 'sha256', digest: fileHash(1) }]);
+    assert.equal(migrated.version, 1);
+    assert.equal(migrated.supersededBy, null);
+    assert.equal(migrated.anchorMode, 'individual');
+    assert.equal(migrated.ownerId, null);
+    assert.equal(migrated.revocation, null);
+    assert.equal(JSON.parse(fs.readFileSync(filePath, 'utf8')).schemaVersion, LATEST_SCHEMA_VERSION);
+  });
+
+  it('Should refuse snapshots from a newer schema', async function () {
+    fs.writeFileSync(filePath, JSON.stringify({ schemaVersion: LATEST_SCHEMA_VERSION + 1, files: {} }));
+
+    const store = new JsonFileStore(filePath);
+    await assert.rejects(store.init(), /newer than supported/);
+  });
+});
+
+describe('migrate', function () {
+  it('Should apply every migration to a schema-less snapshot', function () {
+    const { data, applied } = migrate({});
+    assert.deepEqual(applied, Array.from({ length: LATEST_SCHEMA_VERSION }, (_, i) => i + 1));
+    assert.equal(data.schemaVersion, LATEST_SCHEMA_VERSION);
+    assert.deepEqual(data.files, {});
+  });
+
+  it('Should clear a chain index built before FileRevoked was indexed', function () {
+    const { data } = migrate({
+      schemaVersion: 11,
+      files: {},
+      verifications: {},
+      chainEvents: { e1: { id: 'e1', event: 'FileUploaded', blockNumber: 1 } },
+      chainCursor: { blockNumber: 1 }
+    });
+    assert.deepEqual(data.chainEvents, {});
+    assert.equal(data.chainCursor, null);
+  });
+
+  it('Should drop imported on-chain verifications so the indexer rebuilds them', function () {
+    const { data } = migrate({
+      schemaVersion: 12,
+      files: {},
+      verifications: { a: { id: 'a', source: 'api' }, b: { id: 'b', source: 'chain' } },
+      chainEvents: {},
+      chainCursor: { blockNumber: 9 }
+    });
+    assert.deepEqual(Object.keys(data.verifications), ['a']);
+    assert.equal(data.chainCursor, null);
+  });
+
+  it('Should leave current snapshots untouched', function () {
+    const snapshot = migrate({}).data;
+    const { data, applied } = migrate(snapshot);
+    assert.deepEqual(applied, []);
+    assert.deepEqual(data, snapshot);
+  });
+});
@@ -0,0 +1,511 @@
+import {
+  comparePositions,
+  decodeFileCursor,
+  encodeFileCursor,
+  filePosition,
+  matchesFileFilter
+} from './fileQuery.js';
+
+const compareAscending = comparePositions('asc');
+
+// Record fields listFiles can select on without a scan
+const LOOKUP_FIELDS = ['ownerId', 'uploadBatchId', 'ipfsHash'];
+
+const isPendingBatch = record => record.anchorMode === 'batch' && !record.batch;
+
+/**
+ * Raised when a record is added for a SHA-256 hash that is already registered
+ */
+export class DuplicateFileError extends Error {
+  constructor(existing) {
+    super('A file with this hash is already registered');
+    this.name = 'DuplicateFileError';
+    this.existing = existing;
+  }
+}
+
+// First index in [0, length) for which the monotonic predicate holds, or length
+function lowerBound(length, predicate) {
+  let low = 0;
+  let high = length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (predicate(middle)) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * In-memory record store with fileHash and algorithm-tagged digest indexes,
+ * plus the Merkle batches records are anchored in, the verification log,
+ * user accounts (indexed by email, wallet address and API key hash), the
+ * contract events mirrored by the chain indexer together with its cursor and
+ * the drift events of the tamper monitor. File records are also indexed by
+ * owner, upload batch, IPFS CID and pending batch anchoring, and kept in
+ * ascending order per sort field (overall and per owner), so a page is a
+ * binary search from its cursor.
+ * Used directly for tests/demos and as the base for persistent drivers.
+ */
+export class MemoryStore {
+  constructor() {
+    this.files = new Map();
+    this.hashIndex = new Map();
+    this.digestIndex = new Map();
+    this.lookupIndexes = new Map(LOOKUP_FIELDS.map(field => [field, new Map()]));
+    this.pendingBatchIds = new Set();
+    this.sortIndexes = new Map();
+    this.batches = new Map();
+    this.verifications = new Map();
+    this.users = new Map();
+    this.emailIndex = new Map();
+    this.apiKeyIndex = new Map();
+    this.walletIndex = new Map();
+    this.chainEvents = new Map();
+    this.chainCursor = null;
+    this.integrityEvents = new Map();
+  }
+
+  async init() {}
+
+  async close() {}
+
+  /**
+   * Called after every mutation; persistent drivers override this
+   */
+  async persist() {}
+
+  indexFile(record) {
+    // insertFile keeps hashes unique; of duplicates stored before that, the first registration wins
+    if (!this.hashIndex.has(record.fileHash)) {
+      this.hashIndex.set(record.fileHash, record.id);
+    }
+    for (const { algorithm, digest } of record.digests || []) {
+      const key = `${algorithm}:${digest}`;
+      if (!this.digestIndex.has(key)) {
+        this.digestIndex.set(key, record.id);
+      }
+    }
+  }
+
+  /**
+   * Keep a new or changed record under its current lookup values
+   */
+  lookupFile(previous, record) {
+    for (const field of LOOKUP_FIELDS) {
+      const index = this.lookupIndexes.get(field);
+      if (previous && previous[field] === record[field]) {
+        continue;
+      }
+      if (previous?.[field]) {
+        const ids = index.get(previous[field]);
+        ids.delete(record.id);
+        if (ids.size === 0) {
+          index.delete(previous[field]);
+        }
+      }
+      if (record[field]) {
+        if (!index.has(record[field])) {
+          index.set(record[field], new Set());
+        }
+        index.get(record[field]).add(record.id);
+      }
+    }
+
+    if (isPendingBatch(record)) {
+      this.pendingBatchIds.add(record.id);
+    } else {
+      this.pendingBatchIds.delete(record.id);
+    }
+  }
+
+  /**
+   * Positions in ascending `sort` order of every record, or of the records of
+   * one owner, built on first use and kept current by sortFile
+   */
+  sortIndex(sort, ownerId = null) {
+    const key = ownerId === null ? sort : `${sort}:${ownerId}`;
+    let index = this.sortIndexes.get(key);
+    if (!index) {
+      const records = ownerId === null
+        ? Array.from(this.files.values())
+        : Array.from(this.lookupIndexes.get('ownerId').get(ownerId) || [], id => this.files.get(id));
+      index = { sort, ownerId, positions: records.map(record => filePosition(record, sort)).sort(compareAscending) };
+      this.sortIndexes.set(key, index);
+    }
+    return index.positions;
+  }
+
+  /**
+   * Move a new or changed record to its place in every sort index built so far
+   */
+  sortFile(previous, record) {
+    // record is null when the previous one was deleted
+    for (const { sort, ownerId, positions } of this.sortIndexes.values()) {
+      const inScope = entry => Boolean(entry) && (ownerId === null || entry.ownerId === ownerId);
+      const position = inScope(record) ? filePosition(record, sort) : null;
+      const old = inScope(previous) ? filePosition(previous, sort) : null;
+      if (old && position && compareAscending(old, position) === 0) {
+        continue;
+      }
+      if (old) {
+        const at = lowerBound(positions.length, i => compareAscending(positions[i], old) >= 0);
+        if (at < positions.length && compareAscending(positions[at], old) === 0) {
+          positions.splice(at, 1);
+        }
+      }
+      if (position) {
+        positions.splice(lowerBound(positions.length, i => compareAscending(positions[i], position) >= 0), 0, position);
+      }
+    }
+  }
+
+  async insertFile(record) {
+    if (this.files.has(record.id)) {
+      throw new Error(`File record ${record.id} already exists`);
+    }
+    const existing = this.files.get(this.hashIndex.get(record.fileHash));
+    if (existing) {
+      throw new DuplicateFileError(existing);
+    }
+    this.files.set(record.id, record);
+    this.indexFile(record);
+    this.lookupFile(null, record);
+    this.sortFile(null, record);
+    await this.persist();
+    return record;
+  }
+
+  async getFile(id) {
+    return this.files.get(id) || null;
+  }
+
+  async findFileByHash(fileHash) {
+    const id = this.hashIndex.get(fileHash);
+    return id ? this.files.get(id) : null;
+  }
+
+  async findFileByDigest(algorithm, digest) {
+    const id = this.digestIndex.get(`${algorithm}:${digest}`);
+    return id ? this.files.get(id) : null;
+  }
+
+  /**
+   * Every record, or only those with the given owner, upload batch and/or IPFS
+   * CID, or queued for the next Merkle batch (`pendingBatch`), in insertion order
+   */
+  async listFiles(lookup = {}) {
+    let ids = null;
+    const select = (matching) => {
+      ids = ids ? ids.filter(id => matching.has(id)) : Array.from(matching);
+    };
+
+    for (const field of LOOKUP_FIELDS) {
+      if (lookup[field]) {
+        select(this.lookupIndexes.get(field).get(lookup[field]) || new Set());
+      }
+    }
+    if (lookup.pendingBatch) {
+      select(this.pendingBatchIds);
+    }
+
+    return ids ? ids.map(id => this.files.get(id)) : Array.from(this.files.values());
+  }
+
+  /**
+   * One page of the records matching `filter` (see fileQuery.js), ordered by
+   * `sort` and `order`. `cursor` is the nextCursor of the previous page. An
+   * owner filter pages through that owner's own sort index; `total` counts the
+   * matching records and is only computed when `countTotal` is set (null otherwise).
+   * @returns {Promise<{ records: object[], total: number|null, nextCursor: string|null }>}
+   */
+  async queryFiles({ filter = {}, sort = 'uploadTime', order = 'desc', limit = 100, cursor = null, countTotal = false } = {}) {
+    const { ownerId, ...rest } = filter;
+    const index = this.sortIndex(sort, ownerId || null);
+    const compare = comparePositions(order);
+    const positionAt = order === 'asc' ? i => index[i] : i => index[index.length - 1 - i];
+
+    let start = 0;
+    if (cursor) {
+      const after = decodeFileCursor(cursor, sort, order);
+      start = lowerBound(index.length, i => compare(positionAt(i), after) > 0);
+    }
+
+    const unfiltered = !Object.values(rest).some(Boolean);
+    const matches = record => unfiltered || matchesFileFilter(record, rest);
+
+    const page = [];
+    let hasMore = false;
+    for (let i = start; i < index.length && !hasMore; i++) {
+      const position = positionAt(i);
+      const record = this.files.get(position.id);
+      if (!matches(record)) {
+        continue;
+      }
+      if (page.length === limit) {
+        hasMore = true;
+      } else {
+        page.push({ record, position });
+      }
+    }
+
+    let total = null;
+    if (countTotal) {
+      total = unfiltered ? index.length : index.filter(position => matches(this.files.get(position.id))).length;
+    }
+
+    return {
+      records: page.map(({ record }) => record),
+      total,
+      nextCursor: hasMore ? encodeFileCursor(page[page.length - 1].position, sort, order) : null
+    };
+  }
+
+  async updateFile(id, changes) {
+    const record = this.files.get(id);
+    if (!record) {
+      return null;
+    }
+    const updated = { ...record, ...changes, id: record.id };
+    this.files.set(id, updated);
+    this.indexFile(updated);
+    this.lookupFile(record, updated);
+    this.sortFile(record, updated);
+    await this.persist();
+    return updated;
+  }
+
+  /**
+   * Remove a record and its index entries
+   * @returns {Promise<boolean>} whether the record existed
+   */
+  async deleteFile(id) {
+    const record = this.files.get(id);
+    if (!record) {
+      return false;
+    }
+    this.files.delete(id);
+
+    for (const index of [this.hashIndex, this.digestIndex]) {
+      for (const [key, indexedId] of index) {
+        if (indexedId === id) {
+          index.delete(key);
+        }
+      }
+    }
+    // Another record with the same hash takes over the freed index entries
+    for (const other of this.files.values()) {
+      this.indexFile(other);
+    }
+
+    for (const field of LOOKUP_FIELDS) {
+      const ids = this.lookupIndexes.get(field).get(record[field]);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        this.lookupIndexes.get(field).delete(record[field]);
+      }
+    }
+    this.pendingBatchIds.delete(id);
+    this.sortFile(record, null);
+
+    await this.persist();
+    return true;
+  }
+
+  async insertBatch(batch) {
+    if (this.batches.has(batch.id)) {
+      throw new Error(`Batch ${batch.id} already exists`);
+    }
+    this.batches.set(batch.id, batch);
+    await this.persist();
+    return batch;
+  }
+
+  async getBatch(id) {
+    return this.batches.get(id) || null;
+  }
+
+  async listBatches() {
+    return Array.from(this.batches.values());
+  }
+
+  async updateBatch(id, changes) {
+    const batch = this.batches.get(id);
+    if (!batch) {
+      return null;
+    }
+    const updated = { ...batch, ...changes, id: batch.id };
+    this.batches.set(id, updated);
+    await this.persist();
+    return updated;
+  }
+
+  async insertVerification(entry) {
+    if (this.verifications.has(entry.id)) {
+      throw new Error(`Verification ${entry.id} already exists`);
+    }
+    this.verifications.set(entry.id, entry);
+    await this.persist();
+    return entry;
+  }
+
+  /**
+   * Verification log, oldest first, optionally limited to one file
+   */
+  async listVerifications({ fileId } = {}) {
+    const entries = Array.from(this.verifications.values());
+    return fileId ? entries.filter(entry => entry.fileId === fileId) : entries;
+  }
+
+  /**
+   * Remove verification log entries, e.g. those of contract events dropped by a reorg
+   * @returns {Promise<number>} number of entries removed
+   */
+  async deleteVerifications(ids) {
+    let removed = 0;
+    for (const id of ids) {
+      if (this.verifications.delete(id)) {
+        removed++;
+      }
+    }
+    await this.persist();
+    return removed;
+  }
+
+  /**
+   * Add indexed contract events; events already stored (same id) are replaced
+   */
+  async insertChainEvents(events) {
+    for (const event of events) {
+      this.chainEvents.set(event.id, event);
+    }
+    await this.persist();
+    return events;
+  }
+
+  /**
+   * Indexed contract events in chain order, optionally filtered
+   */
+  async listChainEvents({ event, fileHash, onChainFileId } = {}) {
+    return Array.from(this.chainEvents.values())
+      .filter(entry => !event || entry.event === event)
+      .filter(entry => !fileHash || entry.fileHash === fileHash)
+      .filter(entry => !onChainFileId || entry.onChainFileId === onChainFileId)
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  /**
+   * Drop events from blocks after `blockNumber` (all of them when null), e.g. after a reorg
+   * @returns {Promise<number>} number of events removed
+   */
+  async deleteChainEventsAfter(blockNumber) {
+    let removed = 0;
+    for (const [id, entry] of this.chainEvents) {
+      if (blockNumber === null || entry.blockNumber > blockNumber) {
+        this.chainEvents.delete(id);
+        removed++;
+      }
+    }
+    await this.persist();
+    return removed;
+  }
+
+  async getChainCursor() {
+    return this.chainCursor;
+  }
+
+  async setChainCursor(cursor) {
+    this.chainCursor = cursor;
+    await this.persist();
+    return cursor;
+  }
+
+  async insertIntegrityEvent(event) {
+    if (this.integrityEvents.has(event.id)) {
+      throw new Error(`Integrity event ${event.id} already exists`);
+    }
+    this.integrityEvents.set(event.id, event);
+    await this.persist();
+    return event;
+  }
+
+  /**
+   * Tamper monitor drift events, oldest first, optionally limited to one file
+   */
+  async listIntegrityEvents({ fileId } = {}) {
+    const events = Array.from(this.integrityEvents.values());
+    return fileId ? events.filter(event => event.fileId === fileId) : events;
+  }
+
+  indexUser(user) {
+    if (user.email) {
+      this.emailIndex.set(user.email, user.id);
+    }
+    if (user.walletAddress) {
+      this.walletIndex.set(user.walletAddress.toLowerCase(), user.id);
+    }
+    for (const { keyHash } of user.apiKeys || []) {
+      this.apiKeyIndex.set(keyHash, user.id);
+    }
+  }
+
+  unindexUser(user) {
+    this.emailIndex.delete(user.email);
+    this.walletIndex.delete(user.walletAddress?.toLowerCase());
+    for (const { keyHash } of user.apiKeys || []) {
+      this.apiKeyIndex.delete(keyHash);
+    }
+  }
+
+  async insertUser(user) {
+    if (this.users.has(user.id) || (user.email && this.emailIndex.has(user.email))) {
+      throw new Error(`User ${user.email} already exists`);
+    }
+    if (user.walletAddress && this.walletIndex.has(user.walletAddress.toLowerCase())) {
+      throw new Error(`Wallet ${user.walletAddress} is already linked to an account`);
+    }
+    this.users.set(user.id, user);
+    this.indexUser(user);
+    await this.persist();
+    return user;
+  }
+
+  async getUser(id) {
+    return this.users.get(id) || null;
+  }
+
+  async findUserByEmail(email) {
+    const id = this.emailIndex.get(email);
+    return id ? this.users.get(id) : null;
+  }
+
+  async findUserByWallet(address) {
+    const id = this.walletIndex.get(String(address).toLowerCase());
+    return id ? this.users.get(id) : null;
+  }
+
+  async findUserByApiKey(keyHash) {
+    const id = this.apiKeyIndex.get(keyHash);
+    return id ? this.users.get(id) : null;
+  }
+
+  async listUsers() {
+    return Array.from(this.users.values());
+  }
+
+  async updateUser(id, changes) {
+    const user = this.users.get(id);
+    if (!user) {
+      return null;
+    }
+    const updated = { ...user, ...changes, id: user.id };
+    this.unindexUser(user);
+    this.users.set(id, updated);
+    this.indexUser(updated);
+    await this.persist();
+    return updated;
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryStore } from './memoryStore.js';
+import { InvalidCursorError } from './fileQuery.js';
+
+// Ids of varying length, repeated sizes and names so ties fall back to the id
+const RECORDS = Array.from({ length: 25 }, (_, i) => ({
+  id: String(i < 10 ? i : 100 + i),
+  originalName: `Report-${i % 4}.pdf`,
+  fileHash: i.toString(16).padStart(64, '0'),
+  size: (i * 7) % 5,
+  uploadTime: new Date(Date.UTC(2025, 0, 1 + (i % 6))).toISOString(),
+  ownerId: i % 3 === 0 ? 'alice' : 'bob',
+  supersededBy: null
+}));
+
+async function collectPages(store, query) {
+  const ids = [];
+  let cursor = null;
+  let pages = 0;
+  do {
+    const page = await store.queryFiles({ ...query, cursor });
+    ids.push(...page.records.map(record => record.id));
+    cursor = page.nextCursor;
+    pages++;
+  } while (cursor);
+  return { ids, pages };
+}
+
+function expectedOrder(records, sort, order) {
+  const key = record => sort === 'size' ? record.size : sort === 'name' ? record.originalName.toLowerCase() : record.uploadTime;
+  const compareIds = (a, b) => a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+  const direction = order === 'asc' ? 1 : -1;
+  return [...records]
+    .sort((a, b) => direction * ((key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0) || compareIds(a.id, b.id)))
+    .map(record => record.id);
+}
+
+describe('MemoryStore.queryFiles', function () {
+  let store;
+
+  beforeEach(async function () {
+    store = new MemoryStore();
+    for (const record of RECORDS) {
+      await store.insertFile(record);
+    }
+  });
+
+  for (const sort of ['uploadTime', 'size', 'name']) {
+    for (const order of ['asc', 'desc']) {
+      it(`Should page through every record by ${sort} ${order}`, async function () {
+        const { ids, pages } = await collectPages(store, { sort, order, limit: 4 });
+        assert.deepEqual(ids, expectedOrder(RECORDS, sort, order));
+        assert.equal(pages, 7);
+      });
+    }
+  }
+
+  it('Should report the total and page only matching records', async function () {
+    const alice = RECORDS.filter(record => record.ownerId === 'alice');
+
+    const first = await store.queryFiles({ filter: { ownerId: 'alice' }, limit: 3, countTotal: true });
+    assert.equal(first.total, alice.length);
+    assert.equal(first.records.length, 3);
+
+    const filtered = await store.queryFiles({ filter: { ownerId: 'alice', search: 'report-0' }, countTotal: true });
+    assert.equal(filtered.total, alice.filter(record => record.originalName === 'Report-0.pdf').length);
+    assert.equal((await store.queryFiles({ filter: { ownerId: 'alice' } })).total, null);
+
+    const { ids } = await collectPages(store, { filter: { ownerId: 'alice' }, sort: 'size', order: 'asc', limit: 3 });
+    assert.deepEqual(ids, expectedOrder(alice, 'size', 'asc'));
+  });
+
+  it('Should not return a cursor after the last page', async function () {
+    const page = await store.queryFiles({ limit: RECORDS.length });
+    assert.equal(page.records.length, RECORDS.length);
+    assert.equal(page.nextCursor, null);
+  });
+
+  it('Should keep pages stable when records are added between requests', async function () {
+    const first = await store.queryFiles({ sort: 'size', order: 'asc', limit: 5 });
+    await store.insertFile({ ...RECORDS[0], id: '0000', fileHash: 'f'.repeat(64), size: -1 });
+
+    const second = await store.queryFiles({ sort: 'size', order: 'asc', limit: 5, cursor: first.nextCursor });
+    const ids = expectedOrder(RECORDS, 'size', 'asc');
+    assert.deepEqual(second.records.map(record => record.id), ids.slice(5, 10));
+  });
+
+  it('Should reorder records whose sort key changes', async function () {
+    await store.queryFiles({ sort: 'size', order: 'desc' });
+    await store.updateFile('3', { size: 1000 });
+    await store.updateFile('124', { originalName: 'aaa.pdf' });
+
+    assert.equal((await store.queryFiles({ sort: 'size', order: 'desc', limit: 1 })).records[0].id, '3');
+    assert.equal((await store.queryFiles({ sort: 'name', order: 'asc', limit: 1 })).records[0].id, '124');
+    assert.equal((await store.queryFiles({ sort: 'size', countTotal: true })).total, RECORDS.length);
+  });
+
+  it('Should move records between owner indexes when the owner changes', async function () {
+    await store.queryFiles({ filter: { ownerId: 'alice' }, sort: 'size' });
+    await store.queryFiles({ filter: { ownerId: 'carol' }, sort: 'size' });
+    await store.updateFile('0', { ownerId: 'carol', size: 50 });
+
+    const alice = await store.queryFiles({ filter: { ownerId: 'alice' }, sort: 'size', countTotal: true });
+    const carol = await store.queryFiles({ filter: { ownerId: 'carol' }, sort: 'size', countTotal: true });
+    assert.ok(!alice.records.some(record => record.id === '0'));
+    assert.equal(alice.total, RECORDS.filter(record => record.ownerId === 'alice').length - 1);
+    assert.deepEqual(carol.records.map(record => record.id), ['0']);
+  });
+
+  it('Should reject cursors from another sort order', async function () {
+    const { nextCursor } = await store.queryFiles({ sort: 'size', order: 'asc', limit: 2 });
+
+    await assert.rejects(store.queryFiles({ sort: 'size', order: 'desc', cursor: nextCursor }), InvalidCursorError);
+    await assert.rejects(store.queryFiles({ sort: 'name', order: 'asc', cursor: nextCursor }), InvalidCursorError);
+    await assert.rejects(store.queryFiles({ cursor: 'not-a-cursor' }), InvalidCursorError);
+  });
+});
+
+describe('MemoryStore.listFiles', function () {
+  let store;
+
+  beforeEach(async function () {
+    store = new MemoryStore();
+    await store.insertFile({ id: '1', fileHash: 'a'.repeat(64), ownerId: 'alice', uploadBatchId: 'u1', ipfsHash: 'cid1', anchorMode: 'individual' });
+    await store.insertFile({ id: '2', fileHash: 'b'.repeat(64), ownerId: 'alice', uploadBatchId: 'u2', ipfsHash: 'cid2', anchorMode: 'batch', batch: null });
+    await store.insertFile({ id: '3', fileHash: 'c'.repeat(64), ownerId: 'bob', uploadBatchId: 'u2', ipfsHash: 'cid1', anchorMode: 'batch', batch: null });
+  });
+
+  const ids = records => records.map(record => record.id);
+
+  it('Should select records through the lookup indexes', async function () {
+    assert.deepEqual(ids(await store.listFiles()), ['1', '2', '3']);
+    assert.deepEqual(ids(await store.listFiles({ ownerId: 'alice' })), ['1', '2']);
+    assert.deepEqual(ids(await store.listFiles({ uploadBatchId: 'u2', ownerId: 'bob' })), ['3']);
+    assert.deepEqual(ids(await store.listFiles({ ipfsHash: 'cid1' })), ['1', '3']);
+    assert.deepEqual(ids(await store.listFiles({ ownerId: 'nobody' })), []);
+  });
+
+  it('Should follow records that leave the pending batch queue or change owner', async function () {
+    assert.deepEqual(ids(await store.listFiles({ pendingBatch: true })), ['2', '3']);
+
+    await store.updateFile('2', { batch: { batchId: 'b1' } });
+    await store.updateFile('3', { ownerId: 'alice' });
+
+    assert.deepEqual(ids(await store.listFiles({ pendingBatch: true })), ['3']);
+    assert.deepEqual(ids(await store.listFiles({ ownerId: 'alice' })), ['1', '2', '3']);
+    assert.deepEqual(ids(await store.listFiles({ ownerId: 'bob' })), []);
+  });
+
+  it('Should forget deleted records in every index', async function () {
+    await store.queryFiles({ filter: { ownerId: 'alice' }, sort: 'size' });
+
+    assert.equal(await store.deleteFile('2'), true);
+    assert.equal(await store.deleteFile('2'), false);
+
+    assert.equal(await store.getFile('2'), null);
+    assert.equal(await store.findFileByHash('b'.repeat(64)), null);
+    assert.deepEqual(ids(await store.listFiles({ ownerId: 'alice' })), ['1']);
+    assert.deepEqual(ids(await store.listFiles({ pendingBatch: true })), ['3']);
+    assert.deepEqual(ids((await store.queryFiles({ filter: { ownerId: 'alice' }, sort: 'size' })).records), ['1']);
+  });
+});
+
@@ -0,0 +1,181 @@
+/**
+ * Schema migrations for persisted store snapshots.
+ *
+ * Each migration upgrades a snapshot from `version - 1` to `version`. Add new
+ * entries at the end; never edit a migration that has already shipped.
+ */
+export const migrations = [
+  {
+    version: 1,
+    description: 'Initial schema: file records keyed by id',
+    up(data) {
+      return {
+        ...data,
+        files: data.files || {}
+      };
+    }
+  },
+  {
+    version: 2,
+    description: 'Multi-algorithm digests: seed `digests` from the SHA-256 fileHash',
+    up(data) {
+      const files = {};
+      for (const [id, record] of Object.entries(data.files)) {
+        files[id] = {
+          ...record,
+          digests: record.digests || [{ algorithm: 'sha256', digest: record.fileHash }]
+        };
+      }
+      return { ...data, files };
+    }
+  },
+  {
+    version: 3,
+    description: 'Document versioning: parentId, version and supersededBy links',
+    up(data) {
+      const files = {};
+      for (const [id, record] of Object.entries(data.files)) {
+        files[id] = {
+          parentId: null,
+          version: 1,
+          supersededBy: null,
+          ...record
+        };
+      }
+      return { ...data, files };
+    }
+  },
+  {
+    version: 4,
+    description: 'Merkle batch anchoring: batches collection, anchorMode and batch proof on records',
+    up(data) {
+      const files = {};
+      for (const [id, record] of Object.entries(data.files)) {
+        files[id] = {
+          anchorMode: 'individual',
+          batch: null,
+          ...record
+        };
+      }
+      return { ...data, files, batches: data.batches || {} };
+    }
+  },
+  {
+    version: 5,
+    description: 'Verification history: verifications collection',
+    up(data) {
+      return { ...data, verifications: data.verifications || {} };
+    }
+  },
+  {
+    version: 6,
+    description: 'User accounts: users collection and ownerId on records (existing records stay admin-only)',
+    up(data) {
+      const files = {};
+      for (const [id, record] of Object.entries(data.files)) {
+        files[id] = { ownerId: null, ...record };
+      }
+      return { ...data, files, users: data.users || {} };
+    }
+  },
+  {
+    version: 7,
+    description: 'Sign-In with Ethereum: walletAddress on users, uploaderAddress on records',
+    up(data) {
+      const files = {};
+      for (const [id, record] of Object.entries(data.files)) {
+        files[id] = { uploaderAddress: null, ...record };
+      }
+      const users = {};
+      for (const [id, user] of Object.entries(data.users)) {
+        users[id] = { walletAddress: null, ...user };
+      }
+      return { ...data, files, users };
+    }
+  },
+  {
+    version: 8,
+    description: 'File revocation: revocation on records',
+    up(data) {
+      const files = {};
+      for (const [id, record] of Object.entries(data.files)) {
+        files[id] = { revocation: null, ...record };
+      }
+      return { ...data, files };
+    }
+  },
+  {
+    version: 9,
+    description: 'Chain indexer: indexed contract events and the sync cursor',
+    up(data) {
+      return { ...data, chainEvents: data.chainEvents || {}, chainCursor: data.chainCursor || null };
+    }
+  },
+  {
+    version: 10,
+    description: 'Tamper monitoring: latest integrity check per record and drift events',
+    up(data) {
+      const files = {};
+      for (const [id, record] of Object.entries(data.files)) {
+        files[id] = { integrity: null, ...record };
+      }
+      return { ...data, files, integrityEvents: data.integrityEvents || {} };
+    }
+  },
+  {
+    version: 11,
+    description: 'Multi-file uploads: upload batch id grouping the records of one upload',
+    up(data) {
+      const files = {};
+      for (const [id, record] of Object.entries(data.files)) {
+        files[id] = { uploadBatchId: null, ...record };
+      }
+      return { ...data, files };
+    }
+  },
+  {
+    version: 12,
+    description: 'Revocation indexing: clear the chain index so FileRevoked events are backfilled',
+    up(data) {
+      return { ...data, chainEvents: {}, chainCursor: null };
+    }
+  },
+  {
+    version: 13,
+    description: 'Verification log from the chain index: drop imported FileVerified entries and re-index to rebuild them',
+    up(data) {
+      const verifications = Object.fromEntries(
+        Object.entries(data.verifications).filter(([, entry]) => entry.source !== 'chain')
+      );
+      return { ...data, verifications, chainEvents: {}, chainCursor: null };
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Apply every pending migration to a snapshot
+ * @returns {{ data: object, applied: number[] }}
+ */
+export function migrate(snapshot) {
+  let data = { ...snapshot };
+  const currentVersion = data.schemaVersion || 0;
+  const applied = [];
+
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Store schema version ${currentVersion} is newer than supported version ${LATEST_SCHEMA_VERSION}`
+    );
+  }
+
+  for (const migration of migrations) {
+    if (migration.version > currentVersion) {
+      data = migration.up(data);
+      data.schemaVersion = migration.version;
+      applied.push(migration.version);
+    }
+  }
+
+  return { data, applied };
+}
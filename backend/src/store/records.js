@@ -0,0 +1,371 @@
+import { calculateFileDigests, getDigest } from '../hashing.js';
+import { importFile } from '../ipfs/importer.js';
+import { hashLeaf, verifyMerkleProof } from '../merkle.js';
+import { getReadContract } from '../chain/contract.js';
+
+/**
+ * File records as the API routes see them: creating records for uploads and
+ * manifest entries, version chains, verification outcomes, per-user access
+ * and the response shapes.
+ */
+
+let lastFileId = 0;
+
+/**
+ * Timestamp-based record ID that stays unique when several files are
+ * registered within the same millisecond
+ */
+function nextFileId() {
+  lastFileId = Math.max(Date.now(), lastFileId + 1);
+  return lastFileId.toString();
+}
+
+export class FileRecords {
+  /**
+   * @param {object} options
+   * @param {object} options.store Record store
+   * @param {import('../ipfs/blockStore.js').BlockStore} options.blockStore Local IPFS block store of the uploaded files
+   * @param {number} [options.cidVersion] CID version of new uploads
+   */
+  constructor({ store, blockStore, cidVersion = 0 }) {
+    this.store = store;
+    this.blockStore = blockStore;
+    this.cidVersion = cidVersion;
+  }
+
+  /**
+   * Add a file to the local IPFS block store and return its content CID
+   */
+  async addToIPFS(filePath) {
+    const { cid } = await importFile(filePath, { cidVersion: this.cidVersion, blockStore: this.blockStore });
+    return cid;
+  }
+
+  /**
+   * Hash an uploaded file, add it to IPFS and store its record.
+   * When `parent` is given the record becomes the next version of that file.
+   * Records with anchorMode "batch" wait for the next Merkle batch instead of
+   * being anchored individually by the uploader's wallet. An individually
+   * anchored version stays pending until its uploadFileVersion transaction is
+   * attached, so the parent is only superseded then (see /api/files/:id/blockchain).
+   */
+  async createFileRecord(file, {
+    description = '',
+    parent = null,
+    anchorMode = 'individual',
+    ownerId = null,
+    uploaderAddress = null,
+    originalName = file.originalname,
+    uploadBatchId = null
+  } = {}) {
+    const filePath = file.path;
+
+    // Calculate every registered digest in one pass (SHA-256 stays the primary fileHash)
+    const digests = await calculateFileDigests(filePath);
+    const fileHash = getDigest(digests, 'sha256');
+
+    // Store content-addressed blocks and derive the IPFS CID
+    const ipfsHash = await this.addToIPFS(filePath);
+
+    const fileRecord = {
+      id: nextFileId(),
+      originalName,
+      filePath,
+      fileHash,
+      digests,
+      ipfsHash,
+      description,
+      uploadTime: new Date().toISOString(),
+      size: file.size,
+      mimetype: file.mimetype,
+      parentId: parent ? parent.id : null,
+      version: parent ? parent.version + 1 : 1,
+      supersededBy: null,
+      anchorMode,
+      batch: null,
+      ownerId,
+      uploaderAddress,
+      uploadBatchId,
+      revocation: null,
+      blockchain: null
+    };
+
+    await this.store.insertFile(fileRecord);
+
+    if (parent && anchorMode === 'batch') {
+      await this.store.updateFile(parent.id, { supersededBy: fileRecord.id });
+    }
+
+    return fileRecord;
+  }
+
+  /**
+   * Store a record for a hash imported from a checksum manifest. There is no
+   * stored original, so the record has no IPFS content and is skipped by the
+   * integrity monitor; it is anchored with the next Merkle batch.
+   */
+  async createManifestRecord(entry, { description = '', ownerId = null, uploaderAddress = null, uploadBatchId = null } = {}) {
+    const fileRecord = {
+      id: nextFileId(),
+      originalName: entry.name,
+      filePath: null,
+      fileHash: entry.sha256,
+      digests: [
+        { algorithm: 'sha256', digest: entry.sha256 },
+        ...Object.entries(entry.digests).map(([algorithm, digest]) => ({ algorithm, digest }))
+      ],
+      ipfsHash: null,
+      description,
+      uploadTime: new Date().toISOString(),
+      size: entry.size,
+      mimetype: null,
+      parentId: null,
+      version: 1,
+      supersededBy: null,
+      anchorMode: 'batch',
+      batch: null,
+      ownerId,
+      uploaderAddress,
+      uploadBatchId,
+      revocation: null,
+      blockchain: null
+    };
+
+    await this.store.insertFile(fileRecord);
+    return fileRecord;
+  }
+
+  /**
+   * All versions of the file a record belongs to, oldest first
+   */
+  async getVersionChain(record) {
+    let root = record;
+    while (root.parentId) {
+      root = await this.store.getFile(root.parentId);
+    }
+
+    const chain = [root];
+    while (chain[chain.length - 1].supersededBy) {
+      chain.push(await this.store.getFile(chain[chain.length - 1].supersededBy));
+    }
+    return chain;
+  }
+
+  /**
+   * Verification status of a matched record: still current or replaced by a newer version
+   */
+  async getVersionStatus(record) {
+    if (!record.supersededBy) {
+      return { status: 'valid', latestVersion: null };
+    }
+
+    const chain = await this.getVersionChain(record);
+    const latest = chain[chain.length - 1];
+    return {
+      status: 'superseded',
+      latestVersion: { id: latest.id, version: latest.version, uploadTime: latest.uploadTime }
+    };
+  }
+
+  /**
+   * Whether the backend has confirmed a record's upload transaction: its receipt
+   * was checked when it was attached, or the indexer saw the matching
+   * FileUploaded event. Records attached before receipts were checked rely on the latter.
+   */
+  async isUploadConfirmed(record) {
+    const { blockchain } = record;
+    if (!blockchain) {
+      return false;
+    }
+    if (blockchain.confirmedAt) {
+      return true;
+    }
+    const events = await this.store.listChainEvents({ event: 'FileUploaded', onChainFileId: blockchain.onChainFileId });
+    return events.some(event => event.transactionHash === blockchain.transactionHash && event.fileHash === record.fileHash);
+  }
+
+  /**
+   * Check a record's Merkle inclusion proof against its batch root and, once the
+   * batch is anchored, against the root stored on-chain
+   */
+  async getBatchInclusion(record) {
+    if (!record.batch) {
+      return null;
+    }
+
+    const batch = await this.store.getBatch(record.batch.batchId);
+    const leaf = hashLeaf(record.fileHash);
+    const { proof } = record.batch;
+    const proofValid = Boolean(batch) && verifyMerkleProof(leaf, proof, batch.merkleRoot);
+
+    let onChainVerified = null;
+    let onChainError = null;
+    const contract = getReadContract();
+
+    if (batch?.status === 'anchored' && contract) {
+      try {
+        onChainVerified = await contract.verifyBatchInclusion(batch.anchor.onChainBatchId, leaf, proof);
+      } catch (error) {
+        onChainError = error.shortMessage || error.message;
+      }
+    }
+
+    return {
+      batchId: record.batch.batchId,
+      status: batch?.status || 'missing',
+      merkleRoot: batch?.merkleRoot || null,
+      leafIndex: record.batch.leafIndex,
+      leaf,
+      proof,
+      anchor: batch?.anchor || null,
+      proofValid,
+      onChainVerified,
+      onChainError
+    };
+  }
+
+  /**
+   * Combined verification outcome of a matched record: version status and,
+   * for batched records, whether its inclusion proof still holds
+   */
+  async getVerificationOutcome(record) {
+    const { status, latestVersion } = await this.getVersionStatus(record);
+    const batch = await this.getBatchInclusion(record);
+
+    if (record.revocation) {
+      return { isValid: false, status: 'revoked', latestVersion, batch };
+    }
+    if (batch && (!batch.proofValid || batch.onChainVerified === false)) {
+      return { isValid: false, status: 'proof_invalid', latestVersion, batch };
+    }
+    return { isValid: true, status, latestVersion, batch };
+  }
+
+  /**
+   * Record by ID if the user may see it. Other users' records are reported as
+   * missing so their existence is not revealed.
+   */
+  async getAccessibleFile(user, id) {
+    const record = await this.store.getFile(id);
+    return record && canAccessFile(user, record) ? record : null;
+  }
+
+  /**
+   * Every record the user may see, read from the owner index for non-admins.
+   * Anonymous callers see none.
+   */
+  async listAccessibleFiles(user) {
+    if (!user) {
+      return [];
+    }
+    return this.store.listFiles(user.role === 'admin' ? {} : { ownerId: user.id });
+  }
+
+  /**
+   * Verification log entry for API responses, with a summary of the matched file
+   */
+  async formatVerification(entry) {
+    const record = entry.fileId ? await this.store.getFile(entry.fileId) : null;
+    return {
+      ...entry,
+      file: record
+        ? { id: record.id, originalName: record.originalName, fileHash: record.fileHash, version: record.version || 1 }
+        : null
+    };
+  }
+}
+
+/**
+ * Admins see every record; users only the records they own
+ */
+export function canAccessFile(user, record) {
+  return Boolean(user) && (user.role === 'admin' || record.ownerId === user.id);
+}
+
+/**
+ * 409 body for an upload whose hash is already registered. Other users' record
+ * ids stay private; the hash itself is public through verification.
+ */
+export function duplicateFileBody(user, error) {
+  return {
+    error: error.message,
+    code: 'FILE_EXISTS',
+    recordId: canAccessFile(user, error.existing) ? error.existing.id : null
+  };
+}
+
+/**
+ * Record filter of the file listing query parameters, limited to the records the caller may see
+ */
+export function fileFilterFromQuery(req) {
+  const { uploadBatchId, q, hash, mimetype, status, uploader, from, to } = req.query;
+  return {
+    // Same rule as canAccessFile: admins see every record
+    ownerId: req.user.role === 'admin' ? undefined : req.user.id,
+    uploadBatchId,
+    search: q?.trim(),
+    hashPrefix: hash,
+    mimetype: mimetype?.trim(),
+    status,
+    uploader,
+    from: from ? new Date(from) : undefined,
+    to: to ? new Date(to) : undefined
+  };
+}
+
+/**
+ * Shape a stored record for API responses (never expose the local file path)
+ */
+export function formatRecord(record) {
+  return {
+    id: record.id,
+    originalName: record.originalName,
+    fileHash: record.fileHash,
+    ipfsHash: record.ipfsHash,
+    description: record.description,
+    uploadTime: record.uploadTime,
+    size: record.size,
+    mimetype: record.mimetype,
+    digests: record.digests || [],
+    parentId: record.parentId || null,
+    version: record.version || 1,
+    supersededBy: record.supersededBy || null,
+    anchorMode: record.anchorMode || 'individual',
+    batch: record.batch || null,
+    ownerId: record.ownerId || null,
+    uploaderAddress: record.uploaderAddress || null,
+    uploadBatchId: record.uploadBatchId || null,
+    revocation: record.revocation || null,
+    integrity: record.integrity || null,
+    blockchain: record.blockchain || null
+  };
+}
+
+/**
+ * Record summary returned by the verification endpoints
+ */
+export function formatVerifiedRecord(record) {
+  return {
+    id: record.id,
+    originalName: record.originalName,
+    fileHash: record.fileHash,
+    digests: record.digests || [],
+    uploadTime: record.uploadTime,
+    description: record.description,
+    version: record.version || 1,
+    revocation: formatRevocation(record.revocation)
+  };
+}
+
+/**
+ * Public part of a revocation shown to anyone verifying the file
+ */
+export function formatRevocation(revocation) {
+  return revocation
+    ? {
+        reason: revocation.reason,
+        revokedAt: revocation.revokedAt,
+        transactionHash: revocation.transactionHash || null
+      }
+    : null;
+}
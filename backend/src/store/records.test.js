@@ -0,0 +1,30 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryStore } from './memoryStore.js';
+import { FileRecords } from './records.js';
+
+describe('FileRecords', function () {
+  let store;
+  let fileRecords;
+
+  beforeEach(async function () {
+    store = new MemoryStore();
+    fileRecords = new FileRecords({ store });
+    await store.insertFile({ id: '1', fileHash: 'a'.repeat(64), ownerId: 'u1', uploadTime: '2025-01-01T00:00:00.000Z' });
+    await store.insertFile({ id: '2', fileHash: 'b'.repeat(64), ownerId: 'u2', uploadTime: '2025-01-02T00:00:00.000Z' });
+  });
+
+  it('Should list only the records a caller may see', async function () {
+    const ids = async (user) => (await fileRecords.listAccessibleFiles(user)).map(record => record.id);
+
+    assert.deepEqual(await ids({ id: 'u1', role: 'user' }), ['1']);
+    assert.deepEqual(await ids({ id: 'admin', role: 'admin' }), ['1', '2']);
+    assert.deepEqual(await ids(null), []);
+  });
+
+  it('Should report other users\' records as missing', async function () {
+    assert.equal((await fileRecords.getAccessibleFile({ id: 'u1', role: 'user' }, '1')).id, '1');
+    assert.equal(await fileRecords.getAccessibleFile({ id: 'u1', role: 'user' }, '2'), null);
+    assert.equal(await fileRecords.getAccessibleFile(null, '1'), null);
+  });
+});
@@ -0,0 +1,624 @@
+import crypto from 'crypto';
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import {
+  AnchorProofError,
+  confirmFileRevocation,
+  confirmFileUpload,
+  getReadContract,
+  sameAddress
+} from '../chain/contract.js';
+import { buildProofPayload, createProofBundle, serializeEventLog } from '../proofBundle.js';
+import { parseRelativePaths } from '../uploads.js';
+import { InvalidCursorError } from './fileQuery.js';
+import { DuplicateFileError } from './memoryStore.js';
+import { duplicateFileBody, fileFilterFromQuery, formatRecord } from './records.js';
+
+const ANCHOR_MODES = ['individual', 'batch'];
+
+function getAnchorMode(body) {
+  const anchorMode = body.anchorMode || 'individual';
+  return ANCHOR_MODES.includes(anchorMode) ? anchorMode : null;
+}
+
+/**
+ * File records: uploads, the caller's files with their versions, history and
+ * proof bundles, and attaching the transactions that anchor or revoke them
+ */
+export function createFileRouter({ store, fileRecords, proofSigner, upload, uploadBatchMaxFiles, requireAuth, validateRequest }) {
+  const router = express.Router();
+
+  /**
+   * Upload file and calculate hash
+   */
+  router.post('/upload', requireAuth, upload.single('file'), validateRequest('uploadFile'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded', code: 'FILE_REQUIRED' });
+      }
+
+      const anchorMode = getAnchorMode(req.body);
+      if (!anchorMode) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: `anchorMode must be one of: ${ANCHOR_MODES.join(', ')}` });
+      }
+
+      const { description = '' } = req.body;
+      const fileRecord = await fileRecords.createFileRecord(req.file, {
+        description,
+        anchorMode,
+        ownerId: req.user.id,
+        uploaderAddress: req.walletAddress
+      });
+
+      res.json({
+        success: true,
+        message: 'File uploaded and hashed successfully',
+        data: formatRecord(fileRecord)
+      });
+
+    } catch (error) {
+      if (error instanceof DuplicateFileError) {
+        fs.rmSync(req.file.path, { force: true });
+        return res.status(409).json(duplicateFileBody(req.user, error));
+      }
+      console.error('Upload error:', error);
+      res.status(500).json({ 
+        error: 'Failed to process file upload',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Upload several files at once (multi-select or a folder). Every file is
+   * registered on its own and reported in `results`; failures do not stop the
+   * rest. All files share an upload batch id, and further requests can add to
+   * the same batch by sending it back as `uploadBatchId`.
+   */
+  router.post('/upload/batch', requireAuth, upload.array('files', uploadBatchMaxFiles), validateRequest('uploadFiles'), async (req, res) => {
+    const files = req.files || [];
+    const discardFiles = () => {
+      for (const file of files) {
+        fs.rmSync(file.path, { force: true });
+      }
+    };
+
+    try {
+      if (files.length === 0) {
+        return res.status(400).json({ error: 'No files uploaded', code: 'FILE_REQUIRED' });
+      }
+
+      const anchorMode = getAnchorMode(req.body);
+      if (!anchorMode) {
+        discardFiles();
+        return res.status(400).json({ error: `anchorMode must be one of: ${ANCHOR_MODES.join(', ')}` });
+      }
+
+      const relativePaths = parseRelativePaths(req.body.relativePaths, files);
+      if (!relativePaths) {
+        discardFiles();
+        return res.status(400).json({ error: 'relativePaths must be a JSON array with one path per file' });
+      }
+
+      let uploadBatchId = req.body.uploadBatchId || null;
+      if (uploadBatchId) {
+        const batchRecords = await store.listFiles({ uploadBatchId });
+        if (batchRecords.length === 0 || !batchRecords.every(record => record.ownerId === req.user.id)) {
+          discardFiles();
+          return res.status(404).json({ error: 'Upload batch not found' });
+        }
+      } else {
+        uploadBatchId = crypto.randomUUID();
+      }
+
+      const { description = '' } = req.body;
+      const results = [];
+
+      for (const [index, file] of files.entries()) {
+        try {
+          const fileRecord = await fileRecords.createFileRecord(file, {
+            description,
+            anchorMode,
+            ownerId: req.user.id,
+            uploaderAddress: req.walletAddress,
+            originalName: relativePaths[index],
+            uploadBatchId
+          });
+          results.push({ index, name: relativePaths[index], success: true, data: formatRecord(fileRecord) });
+        } catch (error) {
+          fs.rmSync(file.path, { force: true });
+          if (error instanceof DuplicateFileError) {
+            results.push({ index, name: relativePaths[index], success: false, ...duplicateFileBody(req.user, error) });
+            continue;
+          }
+          console.error(`Batch upload error (${relativePaths[index]}):`, error);
+          results.push({ index, name: relativePaths[index], success: false, error: error.message });
+        }
+      }
+
+      const failed = results.filter(result => !result.success).length;
+
+      // 207 tells clients to look at the per-file results
+      res.status(failed > 0 ? 207 : 200).json({
+        success: failed === 0,
+        message: failed === 0
+          ? `${results.length} file(s) uploaded and hashed successfully`
+          : `${results.length - failed} of ${results.length} file(s) uploaded, ${failed} failed`,
+        data: {
+          uploadBatchId,
+          total: results.length,
+          succeeded: results.length - failed,
+          failed,
+          results
+        }
+      });
+
+    } catch (error) {
+      console.error('Batch upload error:', error);
+      res.status(500).json({ 
+        error: 'Failed to process batch upload',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * One page of the caller's files (every file for admins, for the audit trail), filtered and
+   * sorted (newest first by default); pass the returned nextCursor to get the next page.
+   * The matching records are counted for the first page only.
+   */
+  router.get('/files', requireAuth, validateRequest('listFiles'), async (req, res) => {
+    try {
+      const { sort = 'uploadTime', order = 'desc', cursor } = req.query;
+      const limit = Math.min(Number(req.query.limit) || 100, 500);
+
+      const { records, total, nextCursor } = await store.queryFiles({
+        filter: fileFilterFromQuery(req),
+        sort,
+        order,
+        limit,
+        cursor,
+        countTotal: !cursor
+      });
+
+      res.json({
+        success: true,
+        count: records.length,
+        total,
+        nextCursor,
+        data: records.map(formatRecord)
+      });
+
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ error: error.message, code: 'INVALID_CURSOR' });
+      }
+      console.error('Get files error:', error);
+      res.status(500).json({ 
+        error: 'Failed to retrieve files',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Get file by ID
+   */
+  router.get('/files/:id', requireAuth, validateRequest('getFile'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const record = await fileRecords.getAccessibleFile(req.user, id);
+
+      if (!record) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      res.json({
+        success: true,
+        data: formatRecord(record)
+      });
+
+    } catch (error) {
+      console.error('Get file error:', error);
+      res.status(500).json({ 
+        error: 'Failed to retrieve file',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Delete a record that is still waiting for its own anchoring transaction,
+   * e.g. when the client's digest check or the wallet transaction failed.
+   * Anchored and batch-queued records stay on record.
+   */
+  router.delete('/files/:id', requireAuth, validateRequest('deleteFile'), async (req, res) => {
+    try {
+      const record = await fileRecords.getAccessibleFile(req.user, req.params.id);
+      if (!record) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+      if (record.blockchain || record.anchorMode !== 'individual' || record.supersededBy) {
+        return res.status(409).json({
+          error: 'Only records still waiting for their own anchoring transaction can be deleted',
+          code: 'ALREADY_ANCHORED'
+        });
+      }
+
+      await store.deleteFile(record.id);
+      if (record.filePath && fs.existsSync(record.filePath)) {
+        fs.unlinkSync(record.filePath);
+      }
+
+      res.json({ success: true, message: 'File record deleted' });
+
+    } catch (error) {
+      console.error('Delete file error:', error);
+      res.status(500).json({
+        error: 'Failed to delete file',
+        details: error.message
+      });
+    }
+  });
+
+  /**
+   * Verification timeline of a file, newest first
+   */
+  router.get('/files/:id/verifications', requireAuth, validateRequest('getFileVerifications'), async (req, res) => {
+    try {
+      const record = await fileRecords.getAccessibleFile(req.user, req.params.id);
+
+      if (!record) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      const entries = (await store.listVerifications({ fileId: record.id })).reverse();
+
+      res.json({
+        success: true,
+        count: entries.length,
+        data: await Promise.all(entries.map(entry => fileRecords.formatVerification(entry)))
+      });
+
+    } catch (error) {
+      console.error('Get file verifications error:', error);
+      res.status(500).json({ 
+        error: 'Failed to retrieve verification history',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Tamper monitor status of a file's stored original with its drift events, newest first
+   */
+  router.get('/files/:id/integrity', requireAuth, validateRequest('getFileIntegrity'), async (req, res) => {
+    try {
+      const record = await fileRecords.getAccessibleFile(req.user, req.params.id);
+
+      if (!record) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      const events = (await store.listIntegrityEvents({ fileId: record.id })).reverse();
+
+      res.json({
+        success: true,
+        data: {
+          fileId: record.id,
+          fileHash: record.fileHash,
+          integrity: record.integrity || null,
+          events
+        }
+      });
+
+    } catch (error) {
+      console.error('Get file integrity error:', error);
+      res.status(500).json({ 
+        error: 'Failed to retrieve integrity status',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Register a new version of an existing file
+   */
+  router.post('/files/:id/versions', requireAuth, upload.single('file'), validateRequest('uploadVersion'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded', code: 'FILE_REQUIRED' });
+      }
+
+      const parent = await fileRecords.getAccessibleFile(req.user, req.params.id);
+
+      if (!parent) {
+        fs.unlinkSync(req.file.path);
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      // Matches the contract, where only the uploader may add a version (onlyUploader)
+      if (parent.ownerId !== req.user.id && !sameAddress(parent.uploaderAddress, req.walletAddress)) {
+        fs.unlinkSync(req.file.path);
+        return res.status(403).json({ error: 'Only the uploader of a file can register a new version' });
+      }
+
+      if (parent.supersededBy) {
+        fs.unlinkSync(req.file.path);
+        const chain = await fileRecords.getVersionChain(parent);
+        return res.status(409).json({ 
+          error: 'Only the latest version of a file can be superseded',
+          code: 'NOT_LATEST_VERSION',
+          latestId: chain[chain.length - 1].id
+        });
+      }
+
+      const anchorMode = getAnchorMode(req.body);
+      if (!anchorMode) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ error: `anchorMode must be one of: ${ANCHOR_MODES.join(', ')}` });
+      }
+
+      const { description = '' } = req.body;
+      const fileRecord = await fileRecords.createFileRecord(req.file, {
+        description,
+        parent,
+        anchorMode,
+        ownerId: req.user.id,
+        uploaderAddress: req.walletAddress
+      });
+
+      res.json({
+        success: true,
+        message: `Version ${fileRecord.version} registered successfully`,
+        data: formatRecord(fileRecord)
+      });
+
+    } catch (error) {
+      if (error instanceof DuplicateFileError) {
+        fs.rmSync(req.file.path, { force: true });
+        return res.status(409).json(duplicateFileBody(req.user, error));
+      }
+      console.error('Version upload error:', error);
+      res.status(500).json({ 
+        error: 'Failed to register new version',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Get the version chain of a file, oldest first
+   */
+  router.get('/files/:id/versions', requireAuth, validateRequest('getFileVersions'), async (req, res) => {
+    try {
+      const record = await fileRecords.getAccessibleFile(req.user, req.params.id);
+
+      if (!record) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      const chain = await fileRecords.getVersionChain(record);
+
+      res.json({
+        success: true,
+        count: chain.length,
+        data: chain.map(formatRecord)
+      });
+
+    } catch (error) {
+      console.error('Get versions error:', error);
+      res.status(500).json({ 
+        error: 'Failed to retrieve versions',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Download a signed, self-contained proof bundle for offline verification
+   */
+  router.get('/files/:id/proof', requireAuth, validateRequest('getProofBundle'), async (req, res) => {
+    try {
+      const record = await fileRecords.getAccessibleFile(req.user, req.params.id);
+
+      if (!record) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      const batch = record.batch ? await store.getBatch(record.batch.batchId) : null;
+      const payload = buildProofPayload(record, batch, { uploadConfirmed: await fileRecords.isUploadConfirmed(record) });
+      const bundle = await createProofBundle(payload, proofSigner);
+
+      const fileName = `${path.parse(record.originalName).name}.proof.json`;
+      res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(fileName)}"`);
+      res.json(bundle);
+
+    } catch (error) {
+      console.error('Proof bundle error:', error);
+      res.status(500).json({ 
+        error: 'Failed to create proof bundle',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Attach the FileIntegrity.uploadFile transaction that anchored a record. The
+   * stored details come from the transaction receipt, which must show the
+   * configured contract registering this record's hash as `onChainFileId`.
+   * For a new version the receipt must also show uploadFileVersion superseding
+   * the parent's on-chain file; only then is the parent marked superseded.
+   */
+  router.post('/files/:id/blockchain', requireAuth, validateRequest('attachBlockchainRecord'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const record = await fileRecords.getAccessibleFile(req.user, id);
+
+      if (!record) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      if (record.blockchain) {
+        return res.status(409).json({
+          error: `File is already anchored by transaction ${record.blockchain.transactionHash}`,
+          code: 'ALREADY_ANCHORED'
+        });
+      }
+
+      const contract = getReadContract();
+      if (!contract) {
+        return res.status(503).json({ error: 'FileIntegrity contract address is not configured', code: 'CONTRACT_NOT_CONFIGURED' });
+      }
+
+      const parent = record.parentId ? await store.getFile(record.parentId) : null;
+      if (parent?.supersededBy && parent.supersededBy !== record.id) {
+        const chain = await fileRecords.getVersionChain(parent);
+        return res.status(409).json({
+          error: 'The parent file already has a newer version',
+          code: 'NOT_LATEST_VERSION',
+          latestId: chain[chain.length - 1].id
+        });
+      }
+
+      const { transactionHash, onChainFileId } = req.body;
+      let anchoring;
+      try {
+        anchoring = await confirmFileUpload(contract, {
+          transactionHash,
+          fileHash: record.fileHash,
+          onChainFileId,
+          parentFileId: parent?.blockchain?.onChainFileId
+        });
+      } catch (error) {
+        if (error instanceof AnchorProofError) {
+          return res.status(400).json({ error: error.message, code: 'INVALID_TRANSACTION' });
+        }
+        return res.status(503).json({
+          error: 'Could not read the transaction from the blockchain node',
+          details: error.shortMessage || error.message
+        });
+      }
+
+      if (record.uploaderAddress && !sameAddress(record.uploaderAddress, anchoring.uploaderAddress)) {
+        return res.status(409).json({
+          error: `Transaction was sent by ${anchoring.uploaderAddress} but the file was uploaded by ${record.uploaderAddress}`,
+          code: 'UPLOADER_MISMATCH'
+        });
+      }
+
+      const now = new Date().toISOString();
+      const updated = await store.updateFile(id, {
+        blockchain: {
+          ...anchoring,
+          eventLog: serializeEventLog(anchoring.eventLog),
+          recordedAt: now,
+          confirmedAt: now
+        }
+      });
+      if (parent && !parent.supersededBy) {
+        await store.updateFile(parent.id, { supersededBy: record.id });
+      }
+
+      res.json({
+        success: true,
+        message: 'Blockchain record attached successfully',
+        data: formatRecord(updated)
+      });
+
+    } catch (error) {
+      console.error('Blockchain record error:', error);
+      res.status(500).json({ 
+        error: 'Failed to attach blockchain record',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Revoke a file. Files anchored in their own transaction are revoked on-chain
+   * first (FileIntegrity.revokeFile, uploader only); the transaction is attached
+   * here and its receipt must show FileRevoked for the file. The chain indexer
+   * also records revocations sent to the contract directly.
+   */
+  router.post('/files/:id/revoke', requireAuth, validateRequest('revokeFile'), async (req, res) => {
+    try {
+      const record = await fileRecords.getAccessibleFile(req.user, req.params.id);
+      if (!record) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+      if (record.revocation) {
+        return res.status(409).json({ error: 'File already revoked', code: 'ALREADY_REVOKED' });
+      }
+
+      const { transactionHash } = req.body;
+      const reason = String(req.body.reason || '').trim();
+      if (!reason) {
+        return res.status(400).json({ error: 'A revocation reason is required' });
+      }
+
+      let revocation = { transactionHash: null, blockNumber: null, revokerAddress: null, eventLog: null, confirmedAt: null };
+      if (record.blockchain) {
+        if (!transactionHash) {
+          return res.status(400).json({
+            error: 'This file is recorded on-chain; revoke it with FileIntegrity.revokeFile and send the transactionHash'
+          });
+        }
+
+        const contract = getReadContract();
+        if (!contract) {
+          return res.status(503).json({ error: 'FileIntegrity contract address is not configured', code: 'CONTRACT_NOT_CONFIGURED' });
+        }
+
+        let confirmed;
+        try {
+          confirmed = await confirmFileRevocation(contract, {
+            transactionHash,
+            onChainFileId: record.blockchain.onChainFileId
+          });
+        } catch (error) {
+          if (error instanceof AnchorProofError) {
+            return res.status(400).json({ error: error.message, code: 'INVALID_TRANSACTION' });
+          }
+          return res.status(503).json({
+            error: 'Could not read the transaction from the blockchain node',
+            details: error.shortMessage || error.message
+          });
+        }
+
+        // Includes the reason stored on-chain, which anyone can check, so it wins over the request
+        revocation = {
+          ...confirmed,
+          eventLog: serializeEventLog(confirmed.eventLog),
+          confirmedAt: new Date().toISOString()
+        };
+      }
+
+      const updated = await store.updateFile(record.id, {
+        revocation: {
+          reason,
+          revokedAt: new Date().toISOString(),
+          revokedBy: req.user.id,
+          ...revocation
+        }
+      });
+
+      res.json({
+        success: true,
+        message: 'File revoked',
+        data: formatRecord(updated)
+      });
+
+    } catch (error) {
+      console.error('Revocation error:', error);
+      res.status(500).json({
+        error: 'Failed to revoke file',
+        details: error.message
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import multer from 'multer';
+
+// Uploaded originals are kept here; the integrity monitor re-hashes them
+export const UPLOAD_DIR = './uploads';
+
+// Configure multer for file uploads
+const storage = multer.diskStorage({
+  destination: function (req, file, cb) {
+    if (!fs.existsSync(UPLOAD_DIR)) {
+      fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+    }
+    cb(null, UPLOAD_DIR);
+  },
+  filename: function (req, file, cb) {
+    // Keep original filename with timestamp prefix; the random part keeps
+    // same-named files of one multi-file upload apart
+    const timestamp = Date.now();
+    cb(null, `${timestamp}-${crypto.randomBytes(4).toString('hex')}-${file.originalname}`);
+  }
+});
+
+/**
+ * Multer instances for the upload routes: `upload` for registered files and
+ * `verifyUpload` for bulk verification, which accepts ZIP archives that may be
+ * larger than a single upload
+ */
+export function createUploads({ verifyArchiveMaxMb }) {
+  const upload = multer({
+    storage: storage,
+    limits: {
+      fileSize: 10 * 1024 * 1024 // 10MB limit
+    },
+    fileFilter: (req, file, cb) => {
+      // Allow all file types for demonstration
+      cb(null, true);
+    }
+  });
+
+  const verifyUpload = multer({
+    storage: storage,
+    limits: {
+      fileSize: verifyArchiveMaxMb * 1024 * 1024
+    }
+  });
+
+  return { upload, verifyUpload };
+}
+
+/**
+ * Relative path of every file in a multi-file upload, sent as a JSON array in
+ * the same order as the files (folder uploads). Null when malformed.
+ */
+export function parseRelativePaths(value, files) {
+  if (value === undefined || value === '') {
+    return files.map(file => file.originalname);
+  }
+
+  let paths;
+  try {
+    paths = JSON.parse(value);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(paths) || paths.length !== files.length) {
+    return null;
+  }
+
+  return paths.map((entry, index) => {
+    // Only used as a display name; drop leading slashes and "." / ".." segments
+    const segments = String(entry || '').split(/[\\/]+/).filter(segment => segment && segment !== '.' && segment !== '..');
+    return segments.length > 0 ? segments.join('/') : files[index].originalname;
+  });
+}
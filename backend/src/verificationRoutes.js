@@ -0,0 +1,365 @@
+import crypto from 'crypto';
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { hashBulkFiles, indexRecordsByName, summarizeBulkResults, BulkLimitError } from './bulkVerification.js';
+import { calculateFileDigests, getDigest, parseDigestInput } from './hashing.js';
+import { importFile } from './ipfs/importer.js';
+import { formatRevocation, formatVerifiedRecord } from './store/records.js';
+import { parseRelativePaths } from './uploads.js';
+
+const VERIFICATION_OUTCOMES = ['valid', 'superseded', 'revoked', 'proof_invalid', 'not_found'];
+
+/**
+ * Verification of files and hashes against the records, the verification log
+ * they feed, and hashing without registering
+ */
+export function createVerificationRouter({ store, fileRecords, upload, verifyUpload, verifyBatchMaxFiles, verifyBatchMaxMb, requireAuth, validateRequest }) {
+  const router = express.Router();
+
+  /**
+   * Append a verification attempt to the audit log. Logging problems never fail
+   * the verification itself.
+   */
+  async function recordVerification(req, { method, outcome, calculatedHash, algorithm = 'sha256', record = null }) {
+    try {
+      await store.insertVerification({
+        id: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+        source: 'api',
+        method,
+        outcome,
+        calculatedHash: calculatedHash ? String(calculatedHash).slice(0, 256) : null,
+        algorithm,
+        fileId: record ? record.id : null,
+        requester: {
+          userId: req.user ? req.user.id : null,
+          address: null,
+          ip: req.ip || null,
+          userAgent: req.get('user-agent') || null
+        },
+        chain: null
+      });
+    } catch (error) {
+      console.error('Failed to record verification:', error);
+    }
+  }
+
+  /**
+   * Verify file integrity by comparing hashes
+   */
+  router.post('/verify', upload.single('file'), validateRequest('verifyFile'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file provided for verification', code: 'FILE_REQUIRED' });
+      }
+
+      const filePath = req.file.path;
+      
+      // Calculate hashes of uploaded file
+      const calculatedDigests = await calculateFileDigests(filePath);
+      const calculatedHash = getDigest(calculatedDigests, 'sha256');
+      
+      // Clean up temporary file
+      fs.unlinkSync(filePath);
+
+      // Find matching record
+      const matchingRecord = await store.findFileByHash(calculatedHash);
+
+      if (matchingRecord) {
+        const { isValid, status, latestVersion, batch } = await fileRecords.getVerificationOutcome(matchingRecord);
+        await recordVerification(req, {
+          method: 'file_upload',
+          outcome: status,
+          calculatedHash,
+          record: matchingRecord
+        });
+        res.json({
+          success: true,
+          isValid,
+          status,
+          message: status === 'revoked'
+            ? `File matches a record that was revoked: ${matchingRecord.revocation.reason}`
+            : status === 'proof_invalid'
+              ? 'File hash found in records, but its Merkle inclusion proof does not match the anchored batch root'
+              : status === 'superseded'
+                ? `File integrity verified, but this version has been superseded by v${latestVersion.version}`
+                : 'File integrity verified successfully',
+          latestVersion,
+          batch,
+          revocation: formatRevocation(matchingRecord.revocation),
+          data: formatVerifiedRecord(matchingRecord)
+        });
+      } else {
+        await recordVerification(req, { method: 'file_upload', outcome: 'not_found', calculatedHash });
+        res.json({
+          success: true,
+          isValid: false,
+          status: 'not_found',
+          message: 'File not found or has been tampered with',
+          calculatedHash,
+          calculatedDigests
+        });
+      }
+
+    } catch (error) {
+      console.error('Verification error:', error);
+      res.status(500).json({ 
+        error: 'Failed to verify file',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Verify many files at once: several files, a folder (with `relativePaths`)
+   * or ZIP archives, which are unpacked server-side. Each file is reported as
+   * matched (with its verification status), tampered (its name belongs to one
+   * of the caller's records but the content does not), unknown, or error.
+   * Anonymous callers only get matched or unknown.
+   */
+  router.post('/verify/batch', verifyUpload.array('files', verifyBatchMaxFiles), validateRequest('verifyFiles'), async (req, res) => {
+    const files = req.files || [];
+
+    try {
+      if (files.length === 0) {
+        return res.status(400).json({ error: 'No files provided for verification', code: 'FILE_REQUIRED' });
+      }
+
+      const names = parseRelativePaths(req.body.relativePaths, files);
+      if (!names) {
+        return res.status(400).json({ error: 'relativePaths must be a JSON array with one path per file' });
+      }
+
+      const items = await hashBulkFiles(files, names, {
+        maxItems: verifyBatchMaxFiles,
+        maxBytes: verifyBatchMaxMb * 1024 * 1024
+      });
+
+      // Name matches would reveal other users' files, so only the caller's records count
+      const recordsByName = indexRecordsByName(await fileRecords.listAccessibleFiles(req.user));
+
+      const results = [];
+      for (const [index, item] of items.entries()) {
+        const base = { index, name: item.name, size: item.size, fileHash: item.fileHash };
+
+        if (item.error) {
+          results.push({ ...base, result: 'error', error: item.error });
+          continue;
+        }
+
+        const record = await store.findFileByHash(item.fileHash);
+        if (record) {
+          const { isValid, status } = await fileRecords.getVerificationOutcome(record);
+          await recordVerification(req, { method: 'batch', outcome: status, calculatedHash: item.fileHash, record });
+          results.push({ ...base, result: 'matched', status, isValid, record: formatVerifiedRecord(record) });
+          continue;
+        }
+
+        await recordVerification(req, { method: 'batch', outcome: 'not_found', calculatedHash: item.fileHash });
+        const expected = recordsByName.get(path.posix.basename(item.name));
+        results.push(expected
+          ? {
+              ...base,
+              result: 'tampered',
+              expected: {
+                id: expected.id,
+                originalName: expected.originalName,
+                fileHash: expected.fileHash,
+                version: expected.version || 1
+              }
+            }
+          : { ...base, result: 'unknown' });
+      }
+
+      const summary = summarizeBulkResults(results);
+
+      res.json({
+        success: true,
+        message: `Verified ${summary.total} file(s): ${summary.matched} matched, ${summary.tampered} tampered, ${summary.unknown} unknown`,
+        data: {
+          generatedAt: new Date().toISOString(),
+          summary,
+          results
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof BulkLimitError) {
+        return res.status(413).json({ error: error.message });
+      }
+      console.error('Bulk verification error:', error);
+      res.status(500).json({ 
+        error: 'Failed to verify files',
+        details: error.message 
+      });
+    } finally {
+      // Uploaded files and archives are only needed for hashing
+      for (const file of files) {
+        fs.rmSync(file.path, { force: true });
+      }
+    }
+  });
+
+  /**
+   * Verify file by hash only (no file upload required).
+   * Accepts a digest in any registered algorithm, either tagged ("sha512:...")
+   * or with an explicit `algorithm`; untagged digests are matched by length.
+   */
+  router.post('/verify-hash', validateRequest('verifyHash'), async (req, res) => {
+    try {
+      const { fileHash, algorithm, method } = req.body;
+
+      if (!fileHash) {
+        return res.status(400).json({ error: 'File hash is required' });
+      }
+
+      // Local-mode clients hash in the browser and only send the digest
+      const verificationMethod = method === 'local' ? 'local' : 'hash';
+
+      // Tags and algorithms must agree with each other and with the digest length
+      const parsed = parseDigestInput(fileHash, algorithm);
+      if (!parsed) {
+        return res.status(400).json({
+          error: 'fileHash is not a digest of a supported algorithm (or its tag or length does not match the given algorithm)',
+          code: 'INVALID_HASH'
+        });
+      }
+
+      // Find matching record
+      let matchingRecord = null;
+      let matchedAlgorithm = null;
+
+      for (const candidate of parsed.algorithms) {
+        matchingRecord = await store.findFileByDigest(candidate, parsed.digest);
+        if (matchingRecord) {
+          matchedAlgorithm = candidate;
+          break;
+        }
+      }
+
+      if (matchingRecord) {
+        const { isValid, status, latestVersion, batch } = await fileRecords.getVerificationOutcome(matchingRecord);
+        await recordVerification(req, {
+          method: verificationMethod,
+          outcome: status,
+          calculatedHash: parsed.digest,
+          algorithm: matchedAlgorithm,
+          record: matchingRecord
+        });
+        res.json({
+          success: true,
+          isValid,
+          status,
+          message: status === 'revoked'
+            ? `File hash found in records, but the file was revoked: ${matchingRecord.revocation.reason}`
+            : status === 'proof_invalid'
+              ? 'File hash found in records, but its Merkle inclusion proof does not match the anchored batch root'
+              : status === 'superseded'
+                ? `File hash found in records, but this version has been superseded by v${latestVersion.version}`
+                : 'File hash found in records',
+          latestVersion,
+          batch,
+          revocation: formatRevocation(matchingRecord.revocation),
+          matchedAlgorithm,
+          data: formatVerifiedRecord(matchingRecord)
+        });
+      } else {
+        await recordVerification(req, {
+          method: verificationMethod,
+          outcome: 'not_found',
+          calculatedHash: parsed.digest,
+          algorithm: parsed.algorithms.length === 1 ? parsed.algorithms[0] : algorithm || null
+        });
+        res.json({
+          success: true,
+          isValid: false,
+          status: 'not_found',
+          message: 'File hash not found in records'
+        });
+      }
+
+    } catch (error) {
+      console.error('Hash verification error:', error);
+      res.status(500).json({ 
+        error: 'Failed to verify hash',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Global verification log, newest first, filterable by outcome, method and file
+   */
+  router.get('/verifications', requireAuth, validateRequest('listVerifications'), async (req, res) => {
+    try {
+      const { outcome, method, fileId } = req.query;
+      const limit = Math.min(Number(req.query.limit) || 100, 500);
+
+      if (outcome && !VERIFICATION_OUTCOMES.includes(outcome)) {
+        return res.status(400).json({ error: `outcome must be one of: ${VERIFICATION_OUTCOMES.join(', ')}` });
+      }
+
+      // Users see checks of their own files; admins also see checks that matched nothing
+      const accessibleFileIds = req.user.role === 'admin'
+        ? null
+        : new Set((await store.listFiles({ ownerId: req.user.id })).map(record => record.id));
+
+      const entries = (await store.listVerifications({ fileId }))
+        .filter(entry => !accessibleFileIds || accessibleFileIds.has(entry.fileId))
+        .filter(entry => !outcome || entry.outcome === outcome)
+        .filter(entry => !method || entry.method === method)
+        .reverse();
+
+      res.json({
+        success: true,
+        count: entries.length,
+        data: await Promise.all(entries.slice(0, limit).map(entry => fileRecords.formatVerification(entry)))
+      });
+
+    } catch (error) {
+      console.error('Get verifications error:', error);
+      res.status(500).json({ 
+        error: 'Failed to retrieve verification log',
+        details: error.message 
+      });
+    }
+  });
+
+  /**
+   * Calculate hash for any file (utility endpoint)
+   */
+  router.post('/calculate-hash', upload.single('file'), validateRequest('calculateHash'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file provided', code: 'FILE_REQUIRED' });
+      }
+
+      const filePath = req.file.path;
+      const digests = await calculateFileDigests(filePath);
+      const fileHash = getDigest(digests, 'sha256');
+      const { cid: ipfsHash } = await importFile(filePath, { cidVersion: fileRecords.cidVersion });
+      
+      // Clean up temporary file
+      fs.unlinkSync(filePath);
+
+      res.json({
+        success: true,
+        fileHash,
+        digests,
+        ipfsHash,
+        fileName: req.file.originalname,
+        size: req.file.size
+      });
+
+    } catch (error) {
+      console.error('Hash calculation error:', error);
+      res.status(500).json({ 
+        error: 'Failed to calculate file hash',
+        details: error.message 
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,174 @@
+import fs from 'fs';
+import zlib from 'zlib';
+
+/**
+ * Minimal ZIP reader for bulk verification: lists the central directory and
+ * extracts stored or deflated members. ZIP64 and encrypted archives are not
+ * supported. Members are read one at a time, every read is bounded by the
+ * archive size and inflation is capped at the declared size, so a crafted
+ * archive cannot expand beyond what it announces.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export class ZipError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+/**
+ * Whether an uploaded file should be unpacked as a ZIP archive
+ */
+export function isZipFile(file) {
+  return /\.zip$/i.test(file.originalname) ||
+    ['application/zip', 'application/x-zip-compressed'].includes(file.mimetype);
+}
+
+export class ZipArchive {
+  constructor(handle, size, entries) {
+    this.handle = handle;
+    this.size = size;
+    this.entries = entries;
+  }
+
+  /**
+   * Open an archive and read its central directory
+   */
+  static async open(filePath) {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const { size } = await handle.stat();
+      const entries = await readCentralDirectory(handle, size);
+      return new ZipArchive(handle, size, entries);
+    } catch (error) {
+      await handle.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Uncompressed content of one member
+   * @param {{ maxBytes?: number }} [options] Largest compressed size to load into memory
+   * @returns {Promise<Buffer>}
+   */
+  async read(entry, { maxBytes = Infinity } = {}) {
+    if (entry.encrypted) {
+      throw new ZipError('Encrypted ZIP members are not supported');
+    }
+    if (![METHOD_STORED, METHOD_DEFLATE].includes(entry.method)) {
+      throw new ZipError(`Unsupported ZIP compression method ${entry.method}`);
+    }
+    if (entry.method === METHOD_STORED && entry.compressedSize !== entry.size) {
+      throw new ZipError(`Corrupted ZIP member ${entry.name}: stored size does not match`);
+    }
+    if (entry.compressedSize > maxBytes) {
+      throw new ZipError(`ZIP member ${entry.name} is larger than the remaining size limit`);
+    }
+
+    const header = await readAt(this.handle, this.size, entry.localHeaderOffset, 30);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipError(`Corrupted ZIP member ${entry.name}`);
+    }
+    const dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const compressed = await readAt(this.handle, this.size, dataOffset, entry.compressedSize);
+
+    if (entry.method === METHOD_STORED) {
+      return compressed;
+    }
+    try {
+      return zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(entry.size, 1) });
+    } catch (error) {
+      throw new ZipError(`Failed to inflate ${entry.name}: ${error.message}`);
+    }
+  }
+
+  async close() {
+    await this.handle.close();
+  }
+}
+
+/**
+ * Read `length` bytes at `position`, refusing ranges past the end of the archive
+ * before allocating anything
+ */
+async function readAt(handle, fileSize, position, length) {
+  if (position + length > fileSize) {
+    throw new ZipError('Unexpected end of ZIP archive');
+  }
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead !== length) {
+    throw new ZipError('Unexpected end of ZIP archive');
+  }
+  return buffer;
+}
+
+async function readCentralDirectory(handle, size) {
+  // The end of central directory record sits behind an optional comment
+  const tailLength = Math.min(size, EOCD_MIN_SIZE + MAX_COMMENT_SIZE);
+  if (tailLength < EOCD_MIN_SIZE) {
+    throw new ZipError('Not a ZIP archive');
+  }
+  const tail = await readAt(handle, size, size - tailLength, tailLength);
+
+  let eocd = -1;
+  for (let offset = tail.length - EOCD_MIN_SIZE; offset >= 0; offset--) {
+    if (tail.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new ZipError('Not a ZIP archive');
+  }
+
+  const entryCount = tail.readUInt16LE(eocd + 10);
+  const directorySize = tail.readUInt32LE(eocd + 12);
+  const directoryOffset = tail.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+    throw new ZipError('ZIP64 archives are not supported');
+  }
+
+  const directory = await readAt(handle, size, directoryOffset, directorySize);
+  const entries = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipError('Corrupted ZIP central directory');
+    }
+
+    const flags = directory.readUInt16LE(offset + 8);
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    if (offset + 46 + nameLength > directory.length) {
+      throw new ZipError('Corrupted ZIP central directory');
+    }
+    // Bit 11 marks UTF-8 names; older tools write CP437, read as latin1
+    const name = directory.toString(flags & 0x800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength);
+
+    entries.push({
+      name,
+      directory: name.endsWith('/'),
+      encrypted: Boolean(flags & 0x1),
+      method: directory.readUInt16LE(offset + 10),
+      compressedSize: directory.readUInt32LE(offset + 20),
+      size: directory.readUInt32LE(offset + 24),
+      localHeaderOffset: directory.readUInt32LE(offset + 42)
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
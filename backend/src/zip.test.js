@@ -0,0 +1,161 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { ZipArchive, ZipError } from './zip.js';
+
+/**
+ * A ZIP archive of the given members; `central` overrides central directory
+ * fields of a member to build corrupted archives. CRCs are left at zero since
+ * the reader does not check them.
+ */
+function buildZip(members) {
+  const locals = [];
+  const centrals = [];
+  let offset = 0;
+
+  for (const { name, content, method = 0, central = {} } of members) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const data = method === 8 ? zlib.deflateRawSync(content) : content;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x800, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(central.flags ?? 0x800, 8);
+    header.writeUInt16LE(method, 10);
+    header.writeUInt32LE(central.compressedSize ?? data.length, 20);
+    header.writeUInt32LE(central.size ?? content.length, 24);
+    header.writeUInt16LE(nameBytes.length, 28);
+    header.writeUInt32LE(central.localHeaderOffset ?? offset, 42);
+    centrals.push(header, nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(members.length, 8);
+  eocd.writeUInt16LE(members.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+describe('ZipArchive', function () {
+  let dir;
+
+  before(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-integrity-zip-'));
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function open(name, content) {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return ZipArchive.open(filePath);
+  }
+
+  async function readAll(archive, options) {
+    const results = [];
+    for (const entry of archive.entries) {
+      try {
+        results.push((await archive.read(entry, options)).toString());
+      } catch (error) {
+        assert.ok(error instanceof ZipError, error.message);
+        results.push(error.message);
+      }
+    }
+    await archive.close();
+    return results;
+  }
+
+  it('Should list and read stored and deflated members', async function () {
+    const archive = await open('ok.zip', buildZip([
+      { name: 'docs/', content: Buffer.alloc(0) },
+      { name: 'docs/a.txt', content: Buffer.from('stored content') },
+      { name: 'docs/ü.txt', content: Buffer.from('deflated '.repeat(100)), method: 8 }
+    ]));
+
+    assert.deepEqual(archive.entries.map(entry => [entry.name, entry.directory]), [
+      ['docs/', true], ['docs/a.txt', false], ['docs/ü.txt', false]
+    ]);
+    assert.deepEqual((await readAll(archive)).slice(1), ['stored content', 'deflated '.repeat(100)]);
+  });
+
+  it('Should refuse files that are not archives', async function () {
+    await assert.rejects(open('plain.zip', Buffer.from('not a zip archive at all, just some text')), /Not a ZIP archive/);
+  });
+
+  it('Should refuse a central directory that extends past the end of the file', async function () {
+    const zip = buildZip([{ name: 'a.txt', content: Buffer.from('abc') }]);
+    zip.writeUInt32LE(0x7fffffff, zip.length - 10);
+
+    await assert.rejects(open('directory.zip', zip), /Unexpected end of ZIP archive/);
+  });
+
+  it('Should refuse entries that do not fit in the central directory', async function () {
+    const zip = buildZip([{ name: 'a.txt', content: Buffer.from('abc') }]);
+    zip.writeUInt16LE(40, zip.length - 12);
+
+    await assert.rejects(open('count.zip', zip), /Corrupted ZIP central directory/);
+  });
+
+  it('Should refuse members that extend past the end of the file', async function () {
+    const archive = await open('member.zip', buildZip([
+      { name: 'a.txt', content: Buffer.from('abc'), method: 8, central: { compressedSize: 0x7fffffff } },
+      { name: 'b.txt', content: Buffer.from('abc'), central: { localHeaderOffset: 0x7fffffff } }
+    ]));
+
+    assert.deepEqual(await readAll(archive), ['Unexpected end of ZIP archive', 'Unexpected end of ZIP archive']);
+  });
+
+  it('Should refuse stored members whose sizes disagree', async function () {
+    const archive = await open('stored.zip', buildZip([
+      { name: 'a.txt', content: Buffer.from('abcdef'), central: { size: 3 } }
+    ]));
+
+    assert.match((await readAll(archive))[0], /stored size does not match/);
+  });
+
+  it('Should refuse members larger than the remaining budget', async function () {
+    const archive = await open('budget.zip', buildZip([
+      { name: 'a.txt', content: Buffer.from('x'.repeat(64)) }
+    ]));
+
+    assert.match((await readAll(archive, { maxBytes: 10 }))[0], /remaining size limit/);
+  });
+
+  it('Should not inflate beyond the declared size', async function () {
+    const archive = await open('bomb.zip', buildZip([
+      { name: 'bomb.txt', content: Buffer.alloc(1024 * 1024), method: 8, central: { size: 16 } }
+    ]));
+
+    assert.match((await readAll(archive))[0], /Failed to inflate/);
+  });
+
+  it('Should refuse encrypted members', async function () {
+    const archive = await open('encrypted.zip', buildZip([
+      { name: 'a.txt', content: Buffer.from('abc'), central: { flags: 0x801 } }
+    ]));
+
+    assert.match((await readAll(archive))[0], /Encrypted/);
+  });
+});
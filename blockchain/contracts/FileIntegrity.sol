@@ -4,59 +4,244 @@ pragma solidity ^0.8.19;
 /**
  * @title FileIntegrity
  * @dev Smart contract for ensuring file integrity using blockchain
- * @notice This contract stores file hashes and metadata for verification
+ * @notice This contract stores file hashes and metadata for verification.
+ * Only registrars can register files; the owner manages roles and auditors
+ * can pause registrations in an emergency.
+ *
+ * Digests are stored as bytes32 so every hex spelling of a hash maps to the same
+ * record. File name, IPFS hash and description are only emitted in FileUploaded;
+ * storage keeps their keccak256 (see fileMetadataHash) so they can still be checked.
  */
 contract FileIntegrity {
     
+    bytes32 public constant REGISTRAR_ROLE = keccak256("REGISTRAR_ROLE");
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
+    
+    // The SHA-256 file hash is looked up through hashToFileId rather than digestToFileId
+    bytes32 private constant SHA256_ALGORITHM = keccak256("sha256");
+    
+    // uploader, timestamp and version share one storage slot; an unset uploader means no record
     struct FileRecord {
-        string fileName;
-        string fileHash;
-        string ipfsHash;
+        bytes32 fileHash;
+        bytes32 metadataHash;
         address uploader;
+        uint64 timestamp;
+        uint32 version;
+        uint256 parentFileId;
+    }
+    
+    // The reason is only kept in the FileRevoked event
+    struct Revocation {
+        address revokedBy;
+        uint64 timestamp;
+        bool revoked;
+    }
+    
+    struct MerkleBatch {
+        bytes32 merkleRoot;
+        uint256 leafCount;
+        address anchorer;
         uint256 timestamp;
-        string description;
         bool exists;
     }
     
     // Mapping from file ID to file record
     mapping(uint256 => FileRecord) public files;
     
-    // Mapping from file hash to file ID for quick lookup
-    mapping(string => uint256) public hashToFileId;
+    // Mapping from SHA-256 file hash to file ID for quick lookup
+    mapping(bytes32 => uint256) public hashToFileId;
+    
+    // Mapping from algorithm-tagged digest key (see digestKey) to file ID
+    mapping(bytes32 => uint256) public digestToFileId;
     
-    // Mapping from uploader address to array of file IDs
-    mapping(address => uint256[]) public uploaderFiles;
+    // Mapping from file ID to the ID of the version that replaced it (0 if latest)
+    mapping(uint256 => uint256) public supersededBy;
+    
+    // Mapping from file ID to its revocation (revoked == false if still valid)
+    mapping(uint256 => Revocation) public revocations;
     
     // Current file ID counter
     uint256 public currentFileId;
     
+    // Mapping from batch ID to anchored Merkle batch
+    mapping(uint256 => MerkleBatch) public batches;
+    
+    // Mapping from Merkle root to batch ID
+    mapping(bytes32 => uint256) public rootToBatchId;
+    
+    // Current batch ID counter
+    uint256 public currentBatchId;
+    
+    // Account that grants and revokes roles
+    address public owner;
+    
+    // Mapping from role to account to whether the account holds the role
+    mapping(bytes32 => mapping(address => bool)) private roles;
+    
+    // Whether registrations are paused
+    bool public paused;
+    
     // Events
     event FileUploaded(
         uint256 indexed fileId,
+        bytes32 indexed fileHash,
+        address indexed uploader,
         string fileName,
-        string fileHash,
         string ipfsHash,
-        address indexed uploader,
-        uint256 timestamp
+        string description
+    );
+    
+    event FileVersionAdded(
+        uint256 indexed fileId,
+        uint256 indexed parentFileId,
+        uint256 version
+    );
+    
+    event DigestRegistered(
+        uint256 indexed fileId,
+        string algorithm,
+        bytes digest
     );
     
     event FileVerified(
         uint256 indexed fileId,
-        string fileHash,
+        bytes32 fileHash,
         bool isValid,
         address indexed verifier
     );
     
+    event FileRevoked(
+        uint256 indexed fileId,
+        string reason,
+        address indexed revokedBy,
+        uint256 timestamp
+    );
+    
+    event BatchAnchored(
+        uint256 indexed batchId,
+        bytes32 indexed merkleRoot,
+        uint256 leafCount,
+        address indexed anchorer,
+        uint256 timestamp
+    );
+    
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    
+    event Paused(address account);
+    
+    event Unpaused(address account);
+    
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner can perform this action");
+        _;
+    }
+    
+    modifier onlyRole(bytes32 _role) {
+        require(roles[_role][msg.sender], "Caller is missing the required role");
+        _;
+    }
+    
+    modifier whenNotPaused() {
+        require(!paused, "Registrations are paused");
+        _;
+    }
+    
     modifier onlyUploader(uint256 _fileId) {
         require(files[_fileId].uploader == msg.sender, "Only uploader can perform this action");
         _;
     }
     
     modifier fileExists(uint256 _fileId) {
-        require(files[_fileId].exists, "File does not exist");
+        require(files[_fileId].uploader != address(0), "File does not exist");
+        _;
+    }
+    
+    modifier batchExists(uint256 _batchId) {
+        require(batches[_batchId].exists, "Batch does not exist");
         _;
     }
     
+    /**
+     * @dev The deployer becomes owner and the first registrar
+     */
+    constructor() {
+        owner = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+        _grantRole(REGISTRAR_ROLE, msg.sender);
+    }
+    
+    /**
+     * @dev Hand the owner role to another account
+     * @param _newOwner The new owner
+     */
+    function transferOwnership(address _newOwner) public onlyOwner {
+        require(_newOwner != address(0), "New owner cannot be the zero address");
+        emit OwnershipTransferred(owner, _newOwner);
+        owner = _newOwner;
+    }
+    
+    /**
+     * @dev Grant a role (REGISTRAR_ROLE or AUDITOR_ROLE) to an account
+     * @param _role The role to grant
+     * @param _account The account receiving the role
+     */
+    function grantRole(bytes32 _role, address _account) public onlyOwner {
+        require(_role == REGISTRAR_ROLE || _role == AUDITOR_ROLE, "Unknown role");
+        _grantRole(_role, _account);
+    }
+    
+    /**
+     * @dev Take a role away from an account
+     * @param _role The role to revoke
+     * @param _account The account losing the role
+     */
+    function revokeRole(bytes32 _role, address _account) public onlyOwner {
+        if (roles[_role][_account]) {
+            roles[_role][_account] = false;
+            emit RoleRevoked(_role, _account, msg.sender);
+        }
+    }
+    
+    /**
+     * @dev Check whether an account holds a role
+     * @param _role The role to check
+     * @param _account The account to check
+     * @return Whether the account holds the role
+     */
+    function hasRole(bytes32 _role, address _account) public view returns (bool) {
+        return roles[_role][_account];
+    }
+    
+    /**
+     * @dev Stop all registrations; callable by the owner or an auditor
+     */
+    function pause() public {
+        require(msg.sender == owner || roles[AUDITOR_ROLE][msg.sender], "Only owner or auditor can pause");
+        require(!paused, "Registrations are already paused");
+        paused = true;
+        emit Paused(msg.sender);
+    }
+    
+    /**
+     * @dev Resume registrations
+     */
+    function unpause() public onlyOwner {
+        require(paused, "Registrations are not paused");
+        paused = false;
+        emit Unpaused(msg.sender);
+    }
+    
+    function _grantRole(bytes32 _role, address _account) internal {
+        if (!roles[_role][_account]) {
+            roles[_role][_account] = true;
+            emit RoleGranted(_role, _account, msg.sender);
+        }
+    }
+    
     /**
      * @dev Upload a new file record to the blockchain
      * @param _fileName Name of the file
@@ -66,73 +251,238 @@ contract FileIntegrity {
      * @return fileId The unique identifier for the uploaded file
      */
     function uploadFile(
-        string memory _fileName,
-        string memory _fileHash,
-        string memory _ipfsHash,
-        string memory _description
+        string calldata _fileName,
+        bytes32 _fileHash,
+        string calldata _ipfsHash,
+        string calldata _description
     ) public returns (uint256) {
+        return _uploadFile(_fileName, _fileHash, _ipfsHash, _description, 0);
+    }
+    
+    /**
+     * @dev Upload a new file record together with additional digests in one transaction
+     * @param _fileName Name of the file
+     * @param _fileHash SHA-256 hash of the file
+     * @param _ipfsHash IPFS hash for file storage
+     * @param _description Description of the file
+     * @param _algorithms Algorithms of the additional digests (e.g. "sha512")
+     * @param _digests Raw digests, in the same order as _algorithms
+     * @return fileId The unique identifier for the uploaded file
+     */
+    function uploadFileWithDigests(
+        string calldata _fileName,
+        bytes32 _fileHash,
+        string calldata _ipfsHash,
+        string calldata _description,
+        string[] calldata _algorithms,
+        bytes[] calldata _digests
+    ) public returns (uint256) {
+        uint256 fileId = _uploadFile(_fileName, _fileHash, _ipfsHash, _description, 0);
+        _registerDigests(fileId, _algorithms, _digests);
+        return fileId;
+    }
+    
+    /**
+     * @dev Register a new version of an existing file, superseding it
+     * @param _parentFileId The file ID of the current latest version
+     * @param _fileName Name of the new version
+     * @param _fileHash SHA-256 hash of the new version
+     * @param _ipfsHash IPFS hash for the new version
+     * @param _description Description of the new version
+     * @param _algorithms Algorithms of additional digests (may be empty)
+     * @param _digests Raw digests, in the same order as _algorithms
+     * @return fileId The file ID of the new version
+     */
+    function uploadFileVersion(
+        uint256 _parentFileId,
+        string calldata _fileName,
+        bytes32 _fileHash,
+        string calldata _ipfsHash,
+        string calldata _description,
+        string[] calldata _algorithms,
+        bytes[] calldata _digests
+    ) public fileExists(_parentFileId) onlyUploader(_parentFileId) returns (uint256) {
+        require(supersededBy[_parentFileId] == 0, "File already has a newer version");
+        
+        uint256 fileId = _uploadFile(_fileName, _fileHash, _ipfsHash, _description, _parentFileId);
+        _registerDigests(fileId, _algorithms, _digests);
+        supersededBy[_parentFileId] = fileId;
+        
+        emit FileVersionAdded(fileId, _parentFileId, files[fileId].version);
+        
+        return fileId;
+    }
+    
+    /**
+     * @dev Register additional algorithm-tagged digests for an existing file
+     * @param _fileId The file ID the digests belong to
+     * @param _algorithms Algorithms of the digests (e.g. "sha3-256")
+     * @param _digests Raw digests, in the same order as _algorithms
+     */
+    function registerDigests(
+        uint256 _fileId,
+        string[] calldata _algorithms,
+        bytes[] calldata _digests
+    ) public onlyRole(REGISTRAR_ROLE) whenNotPaused fileExists(_fileId) onlyUploader(_fileId) {
+        _registerDigests(_fileId, _algorithms, _digests);
+    }
+    
+    function _uploadFile(
+        string calldata _fileName,
+        bytes32 _fileHash,
+        string calldata _ipfsHash,
+        string calldata _description,
+        uint256 _parentFileId
+    ) internal returns (uint256) {
+        // Checked here rather than with modifiers so every upload path shares it (and stays within stack limits)
+        require(roles[REGISTRAR_ROLE][msg.sender], "Caller is missing the required role");
+        require(!paused, "Registrations are paused");
         require(bytes(_fileName).length > 0, "File name cannot be empty");
-        require(bytes(_fileHash).length > 0, "File hash cannot be empty");
+        require(_fileHash != bytes32(0), "File hash cannot be empty");
         require(hashToFileId[_fileHash] == 0, "File with this hash already exists");
         
         currentFileId++;
         uint256 fileId = currentFileId;
         
-        files[fileId] = FileRecord({
-            fileName: _fileName,
-            fileHash: _fileHash,
-            ipfsHash: _ipfsHash,
-            uploader: msg.sender,
-            timestamp: block.timestamp,
-            description: _description,
-            exists: true
-        });
+        FileRecord storage file = files[fileId];
+        file.fileHash = _fileHash;
+        file.metadataHash = fileMetadataHash(_fileName, _ipfsHash, _description);
+        file.uploader = msg.sender;
+        file.timestamp = uint64(block.timestamp);
+        file.version = _parentFileId == 0 ? 1 : files[_parentFileId].version + 1;
+        // Original uploads leave the slot untouched
+        if (_parentFileId != 0) {
+            file.parentFileId = _parentFileId;
+        }
         
         hashToFileId[_fileHash] = fileId;
-        uploaderFiles[msg.sender].push(fileId);
         
-        emit FileUploaded(
-            fileId,
-            _fileName,
-            _fileHash,
-            _ipfsHash,
-            msg.sender,
-            block.timestamp
-        );
+        emit FileUploaded(fileId, _fileHash, msg.sender, _fileName, _ipfsHash, _description);
         
         return fileId;
     }
     
+    function _registerDigests(
+        uint256 _fileId,
+        string[] calldata _algorithms,
+        bytes[] calldata _digests
+    ) internal {
+        require(_algorithms.length == _digests.length, "Algorithms and digests length mismatch");
+        
+        for (uint256 i = 0; i < _algorithms.length; i++) {
+            require(bytes(_algorithms[i]).length > 0, "Algorithm cannot be empty");
+            require(_digests[i].length > 0, "Digest cannot be empty");
+            require(keccak256(bytes(_algorithms[i])) != SHA256_ALGORITHM, "SHA-256 is registered as the file hash");
+            
+            bytes32 key = digestKey(_algorithms[i], _digests[i]);
+            require(digestToFileId[key] == 0, "Digest already registered");
+            
+            digestToFileId[key] = _fileId;
+            emit DigestRegistered(_fileId, _algorithms[i], _digests[i]);
+        }
+    }
+    
+    /**
+     * @dev Commitment to the metadata emitted in FileUploaded
+     * @param _fileName Name of the file
+     * @param _ipfsHash IPFS hash for file storage
+     * @param _description Description of the file
+     * @return metadataHash keccak256 of the ABI-encoded name, IPFS hash and description
+     */
+    function fileMetadataHash(
+        string calldata _fileName,
+        string calldata _ipfsHash,
+        string calldata _description
+    ) public pure returns (bytes32) {
+        return keccak256(abi.encode(_fileName, _ipfsHash, _description));
+    }
+    
+    /**
+     * @dev Lookup key for an algorithm-tagged digest
+     * @param _algorithm Digest algorithm (e.g. "sha512", "keccak256")
+     * @param _digest Raw digest bytes
+     * @return key keccak256 of "algorithm:" followed by the digest bytes
+     */
+    function digestKey(string memory _algorithm, bytes memory _digest) public pure returns (bytes32) {
+        return keccak256(abi.encodePacked(_algorithm, ":", _digest));
+    }
+    
+    /**
+     * @dev Find a file by an algorithm-tagged digest
+     * @param _algorithm Digest algorithm
+     * @param _digest Raw digest bytes
+     * @return fileId The file ID, or 0 if the digest is unknown
+     */
+    function getFileIdByDigest(string calldata _algorithm, bytes calldata _digest) public view returns (uint256) {
+        if (keccak256(bytes(_algorithm)) == SHA256_ALGORITHM) {
+            return _digest.length == 32 ? hashToFileId[bytes32(_digest)] : 0;
+        }
+        return digestToFileId[digestKey(_algorithm, _digest)];
+    }
+    
+    /**
+     * @dev Withdraw a registered file; it stays on record but no longer verifies as valid
+     * @param _fileId The file ID to revoke
+     * @param _reason Why the file was revoked (emitted in FileRevoked)
+     */
+    function revokeFile(uint256 _fileId, string calldata _reason) 
+        public 
+        fileExists(_fileId) 
+        onlyUploader(_fileId) 
+    {
+        require(!revocations[_fileId].revoked, "File already revoked");
+        require(bytes(_reason).length > 0, "Revocation reason cannot be empty");
+        
+        revocations[_fileId] = Revocation({
+            revokedBy: msg.sender,
+            timestamp: uint64(block.timestamp),
+            revoked: true
+        });
+        
+        emit FileRevoked(_fileId, _reason, msg.sender, block.timestamp);
+    }
+    
+    /**
+     * @dev Check whether a file has been revoked
+     * @param _fileId The file ID to check
+     * @return revoked Whether the file was revoked by its uploader
+     */
+    function isRevoked(uint256 _fileId) public view returns (bool) {
+        return revocations[_fileId].revoked;
+    }
+    
     /**
      * @dev Verify file integrity using its hash
      * @param _fileHash SHA-256 hash of the file to verify
-     * @return isValid Whether the file hash exists in the blockchain
+     * @return isValid Whether the file hash exists in the blockchain and was not revoked
      * @return fileId The file ID if found
      * @return uploader Address of the original uploader
      * @return timestamp When the file was originally uploaded
+     * @return revoked Whether the file was found but has been revoked
      */
-    function verifyFile(string memory _fileHash) 
+    function verifyFile(bytes32 _fileHash) 
         public 
-        returns (bool isValid, uint256 fileId, address uploader, uint256 timestamp) 
+        returns (bool isValid, uint256 fileId, address uploader, uint256 timestamp, bool revoked) 
     {
         fileId = hashToFileId[_fileHash];
-        isValid = fileId != 0;
         
-        if (isValid) {
-            FileRecord memory file = files[fileId];
+        if (fileId != 0) {
+            FileRecord storage file = files[fileId];
             uploader = file.uploader;
             timestamp = file.timestamp;
+            revoked = revocations[fileId].revoked;
         }
+        isValid = fileId != 0 && !revoked;
         
         emit FileVerified(fileId, _fileHash, isValid, msg.sender);
         
-        return (isValid, fileId, uploader, timestamp);
+        return (isValid, fileId, uploader, timestamp, revoked);
     }
     
     /**
-     * @dev Get file details by file ID
+     * @dev Get file details by file ID; name, IPFS hash and description are in FileUploaded
      * @param _fileId The file ID to query
-     * @return file The complete file record
+     * @return file The stored file record
      */
     function getFileById(uint256 _fileId) 
         public 
@@ -144,16 +494,158 @@ contract FileIntegrity {
     }
     
     /**
-     * @dev Get all files uploaded by a specific address
-     * @param _uploader The uploader address
-     * @return fileIds Array of file IDs uploaded by the address
+     * @dev Follow the version chain to the newest version of a file
+     * @param _fileId Any file ID in the chain
+     * @return latestFileId The file ID of the latest version
+     */
+    function getLatestVersion(uint256 _fileId) 
+        public 
+        view 
+        fileExists(_fileId) 
+        returns (uint256 latestFileId) 
+    {
+        latestFileId = _fileId;
+        while (supersededBy[latestFileId] != 0) {
+            latestFileId = supersededBy[latestFileId];
+        }
+    }
+    
+    /**
+     * @dev Get every version of a file, oldest first
+     * @param _fileId Any file ID in the chain
+     * @return fileIds File IDs from the original upload to the latest version
      */
-    function getFilesByUploader(address _uploader) 
+    function getVersionHistory(uint256 _fileId) 
         public 
         view 
-        returns (uint256[] memory) 
+        fileExists(_fileId) 
+        returns (uint256[] memory fileIds) 
     {
-        return uploaderFiles[_uploader];
+        uint256 rootFileId = _fileId;
+        while (files[rootFileId].parentFileId != 0) {
+            rootFileId = files[rootFileId].parentFileId;
+        }
+        
+        uint256 latestFileId = getLatestVersion(rootFileId);
+        fileIds = new uint256[](files[latestFileId].version);
+        
+        uint256 current = rootFileId;
+        for (uint256 i = 0; i < fileIds.length; i++) {
+            fileIds[i] = current;
+            current = supersededBy[current];
+        }
+    }
+    
+    /**
+     * @dev Anchor the Merkle root of a batch of file hashes in a single transaction
+     * @param _merkleRoot Root of the tree built from batchLeaf() of every file hash
+     * @param _leafCount Number of files in the batch
+     * @return batchId The unique identifier for the anchored batch
+     */
+    function anchorBatch(bytes32 _merkleRoot, uint256 _leafCount) 
+        public 
+        onlyRole(REGISTRAR_ROLE) 
+        whenNotPaused 
+        returns (uint256) 
+    {
+        require(_merkleRoot != bytes32(0), "Merkle root cannot be empty");
+        require(_leafCount > 0, "Batch cannot be empty");
+        require(rootToBatchId[_merkleRoot] == 0, "Batch with this root already exists");
+        
+        currentBatchId++;
+        uint256 batchId = currentBatchId;
+        
+        batches[batchId] = MerkleBatch({
+            merkleRoot: _merkleRoot,
+            leafCount: _leafCount,
+            anchorer: msg.sender,
+            timestamp: block.timestamp,
+            exists: true
+        });
+        
+        rootToBatchId[_merkleRoot] = batchId;
+        
+        emit BatchAnchored(batchId, _merkleRoot, _leafCount, msg.sender, block.timestamp);
+        
+        return batchId;
+    }
+    
+    /**
+     * @dev Get an anchored batch by ID
+     * @param _batchId The batch ID to query
+     * @return batch The anchored batch
+     */
+    function getBatch(uint256 _batchId) 
+        public 
+        view 
+        batchExists(_batchId) 
+        returns (MerkleBatch memory) 
+    {
+        return batches[_batchId];
+    }
+    
+    /**
+     * @dev Merkle leaf for a file hash; the 0x00 prefix keeps leaves distinct from inner nodes
+     * @param _fileHash SHA-256 hash of the file, in the same bytes32 form uploadFile stores
+     * @return leaf keccak256 of 0x00 || fileHash
+     */
+    function batchLeaf(bytes32 _fileHash) public pure returns (bytes32) {
+        return keccak256(abi.encodePacked(bytes1(0x00), _fileHash));
+    }
+    
+    /**
+     * @dev Recompute a Merkle root from a leaf and its proof; pairs are hashed in sorted order
+     * @param _leaf The leaf to start from
+     * @param _proof Sibling hashes from the leaf up to the root
+     * @return root The resulting Merkle root
+     */
+    function computeMerkleRoot(bytes32 _leaf, bytes32[] memory _proof) public pure returns (bytes32) {
+        bytes32 computed = _leaf;
+        for (uint256 i = 0; i < _proof.length; i++) {
+            computed = computed < _proof[i]
+                ? keccak256(abi.encodePacked(bytes1(0x01), computed, _proof[i]))
+                : keccak256(abi.encodePacked(bytes1(0x01), _proof[i], computed));
+        }
+        return computed;
+    }
+    
+    /**
+     * @dev Check that a leaf is included in an anchored batch
+     * @param _batchId The batch ID
+     * @param _leaf The leaf (see batchLeaf)
+     * @param _proof Sibling hashes from the leaf up to the root
+     * @return included Whether the proof resolves to the anchored root
+     */
+    function verifyBatchInclusion(uint256 _batchId, bytes32 _leaf, bytes32[] memory _proof) 
+        public 
+        view 
+        batchExists(_batchId) 
+        returns (bool) 
+    {
+        return computeMerkleRoot(_leaf, _proof) == batches[_batchId].merkleRoot;
+    }
+    
+    /**
+     * @dev Check that a file hash is included in an anchored batch
+     * @param _batchId The batch ID
+     * @param _fileHash SHA-256 hash of the file (see batchLeaf)
+     * @param _proof Sibling hashes from the leaf up to the root
+     * @return included Whether the file hash is part of the batch
+     */
+    function verifyFileInBatch(uint256 _batchId, bytes32 _fileHash, bytes32[] memory _proof) 
+        public 
+        view 
+        returns (bool) 
+    {
+        return verifyBatchInclusion(_batchId, batchLeaf(_fileHash), _proof);
+    }
+    
+    /**
+     * @dev Get total number of anchored batches
+     * @return The total number of batches
+     */
+    function getTotalBatches() public view returns (uint256) {
+        return currentBatchId;
     }
     
     /**
@@ -169,38 +661,7 @@ contract FileIntegrity {
      * @param _fileHash The file hash to check
      * @return exists Whether the hash exists
      */
-    function fileHashExists(string memory _fileHash) public view returns (bool) {
+    function fileHashExists(bytes32 _fileHash) public view returns (bool) {
         return hashToFileId[_fileHash] != 0;
     }
-    
-    /**
-     * @dev Get file verification history for audit trail
-     * @param _fileId The file ID to get history for
-     * @return fileName Name of the file
-     * @return fileHash Hash of the file
-     * @return uploader Original uploader
-     * @return timestamp Upload timestamp
-     * @return description File description
-     */
-    function getFileAuditTrail(uint256 _fileId) 
-        public 
-        view 
-        fileExists(_fileId) 
-        returns (
-            string memory fileName,
-            string memory fileHash,
-            address uploader,
-            uint256 timestamp,
-            string memory description
-        ) 
-    {
-        FileRecord memory file = files[_fileId];
-        return (
-            file.fileName,
-            file.fileHash,
-            file.uploader,
-            file.timestamp,
-            file.description
-        );
-    }
-}
+}
\ No newline at end of file
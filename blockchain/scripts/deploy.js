@@ -12,13 +12,29 @@ async function main() {
   await fileIntegrity.waitForDeployment();
 
   const contractAddress = await fileIntegrity.getAddress();
+  const deploymentReceipt = await fileIntegrity.deploymentTransaction().wait();
   
   console.log("FileIntegrity contract deployed to:", contractAddress);
+
+  // The deployer is owner and registrar; grant further roles from comma-separated address lists
+  const roleGrants = [
+    ["REGISTRAR_ROLE", process.env.REGISTRAR_ADDRESSES],
+    ["AUDITOR_ROLE", process.env.AUDITOR_ADDRESSES],
+  ];
+  for (const [roleName, addresses] of roleGrants) {
+    const role = await fileIntegrity[roleName]();
+    for (const account of (addresses || "").split(",").map(a => a.trim()).filter(Boolean)) {
+      await (await fileIntegrity.grantRole(role, account)).wait();
+      console.log(`Granted ${roleName} to ${account}`);
+    }
+  }
   
   // Save deployment info
   const fs = require('fs');
   const deploymentInfo = {
     contractAddress: contractAddress,
+    // Block the backend indexer starts backfilling from
+    blockNumber: deploymentReceipt.blockNumber,
     deploymentTime: new Date().toISOString(),
     network: "localhost"
   };
@@ -1,5 +1,6 @@
 const { expect } = require("chai");
 const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
 
 describe("FileIntegrity", function () {
   let FileIntegrity;
@@ -7,12 +8,20 @@ describe("FileIntegrity", function () {
   let owner;
   let addr1;
   let addr2;
+  let addr3;
+  let REGISTRAR_ROLE;
+  let AUDITOR_ROLE;
 
   beforeEach(async function () {
     FileIntegrity = await ethers.getContractFactory("FileIntegrity");
-    [owner, addr1, addr2] = await ethers.getSigners();
+    [owner, addr1, addr2, addr3] = await ethers.getSigners();
     fileIntegrity = await FileIntegrity.deploy();
     await fileIntegrity.waitForDeployment();
+
+    REGISTRAR_ROLE = await fileIntegrity.REGISTRAR_ROLE();
+    AUDITOR_ROLE = await fileIntegrity.AUDITOR_ROLE();
+    await fileIntegrity.grantRole(REGISTRAR_ROLE, addr1.address);
+    await fileIntegrity.grantRole(REGISTRAR_ROLE, addr2.address);
   });
 
   describe("File Upload", function () {
@@ -22,16 +31,22 @@ describe("FileIntegrity", function () {
       const ipfsHash = "QmTest123";
       const description = "Test document";
 
+      const timestamp = (await time.latest()) + 1;
+      await time.setNextBlockTimestamp(timestamp);
+
       const tx = await fileIntegrity.uploadFile(fileName, fileHash, ipfsHash, description);
       await tx.wait();
 
       const file = await fileIntegrity.getFileById(1);
-      expect(file.fileName).to.equal(fileName);
       expect(file.fileHash).to.equal(fileHash);
-      expect(file.ipfsHash).to.equal(ipfsHash);
       expect(file.uploader).to.equal(owner.address);
-      expect(file.description).to.equal(description);
-      expect(file.exists).to.be.true;
+      expect(file.timestamp).to.equal(timestamp);
+      expect(file.version).to.equal(1);
+      expect(file.metadataHash).to.equal(
+        ethers.keccak256(
+          ethers.AbiCoder.defaultAbiCoder().encode(["string", "string", "string"], [fileName, ipfsHash, description])
+        )
+      );
     });
 
     it("Should emit FileUploaded event", async function () {
@@ -42,7 +57,7 @@ describe("FileIntegrity", function () {
 
       await expect(fileIntegrity.uploadFile(fileName, fileHash, ipfsHash, description))
         .to.emit(fileIntegrity, "FileUploaded")
-        .withArgs(1, fileName, fileHash, ipfsHash, owner.address, await time.latest() + 1);
+        .withArgs(1, fileHash, owner.address, fileName, ipfsHash, description);
     });
 
     it("Should not allow duplicate file hashes", async function () {
@@ -58,15 +73,24 @@ describe("FileIntegrity", function () {
       ).to.be.revertedWith("File with this hash already exists");
     });
 
+    it("Should treat differently cased hashes as the same file", async function () {
+      await fileIntegrity.uploadFile("test.pdf", "0x" + "ab".repeat(32), "QmTest123", "Test document");
+
+      await expect(
+        fileIntegrity.uploadFile("copy.pdf", "0x" + "AB".repeat(32), "QmTest123", "Same hash, upper case")
+      ).to.be.revertedWith("File with this hash already exists");
+      expect(await fileIntegrity.fileHashExists("0x" + "aB".repeat(32))).to.be.true;
+    });
+
     it("Should not allow empty file names", async function () {
       await expect(
-        fileIntegrity.uploadFile("", "0x123", "QmTest", "Description")
+        fileIntegrity.uploadFile("", "0x" + "12".repeat(32), "QmTest", "Description")
       ).to.be.revertedWith("File name cannot be empty");
     });
 
     it("Should not allow empty file hashes", async function () {
       await expect(
-        fileIntegrity.uploadFile("test.pdf", "", "QmTest", "Description")
+        fileIntegrity.uploadFile("test.pdf", ethers.ZeroHash, "QmTest", "Description")
       ).to.be.revertedWith("File hash cannot be empty");
     });
   });
@@ -84,7 +108,7 @@ describe("FileIntegrity", function () {
     it("Should verify existing file successfully", async function () {
       const fileHash = "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef";
       
-      const result = await fileIntegrity.verifyFile(fileHash);
+      const result = await fileIntegrity.verifyFile.staticCall(fileHash);
       expect(result[0]).to.be.true; // isValid
       expect(result[1]).to.equal(1); // fileId
       expect(result[2]).to.equal(owner.address); // uploader
@@ -93,7 +117,7 @@ describe("FileIntegrity", function () {
     it("Should return false for non-existing file", async function () {
       const nonExistentHash = "0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890";
       
-      const result = await fileIntegrity.verifyFile(nonExistentHash);
+      const result = await fileIntegrity.verifyFile.staticCall(nonExistentHash);
       expect(result[0]).to.be.false; // isValid
       expect(result[1]).to.equal(0); // fileId
     });
@@ -129,15 +153,13 @@ describe("FileIntegrity", function () {
       );
     });
 
-    it("Should return files by uploader", async function () {
-      const addr1Files = await fileIntegrity.getFilesByUploader(addr1.address);
-      expect(addr1Files.length).to.equal(2);
-      expect(addr1Files[0]).to.equal(1);
-      expect(addr1Files[1]).to.equal(2);
+    it("Should find files by uploader from FileUploaded events", async function () {
+      const addr1Files = await fileIntegrity.queryFilter(fileIntegrity.filters.FileUploaded(null, null, addr1.address));
+      expect(addr1Files.map(event => Number(event.args.fileId))).to.deep.equal([1, 2]);
+      expect(addr1Files[0].args.fileName).to.equal("doc1.pdf");
 
-      const addr2Files = await fileIntegrity.getFilesByUploader(addr2.address);
-      expect(addr2Files.length).to.equal(1);
-      expect(addr2Files[0]).to.equal(3);
+      const addr2Files = await fileIntegrity.queryFilter(fileIntegrity.filters.FileUploaded(null, null, addr2.address));
+      expect(addr2Files.map(event => Number(event.args.fileId))).to.deep.equal([3]);
     });
 
     it("Should return total files count", async function () {
@@ -153,12 +175,10 @@ describe("FileIntegrity", function () {
       expect(await fileIntegrity.fileHashExists(nonExistentHash)).to.be.false;
     });
 
-    it("Should return audit trail", async function () {
-      const auditTrail = await fileIntegrity.getFileAuditTrail(1);
-      expect(auditTrail[0]).to.equal("doc1.pdf"); // fileName
-      expect(auditTrail[1]).to.equal("0x1111111111111111111111111111111111111111111111111111111111111111"); // fileHash
-      expect(auditTrail[2]).to.equal(addr1.address); // uploader
-      expect(auditTrail[4]).to.equal("Document 1"); // description
+    it("Should commit to the metadata emitted at upload", async function () {
+      const file = await fileIntegrity.getFileById(1);
+      expect(file.metadataHash).to.equal(await fileIntegrity.fileMetadataHash("doc1.pdf", "QmDoc1", "Document 1"));
+      expect(file.metadataHash).to.not.equal(await fileIntegrity.fileMetadataHash("doc1.pdf", "QmDoc1", "Forged"));
     });
 
     it("Should revert when getting non-existent file", async function () {
@@ -166,4 +186,432 @@ describe("FileIntegrity", function () {
         .to.be.revertedWith("File does not exist");
     });
   });
+
+  describe("Multi-algorithm Digests", function () {
+    const fileHash = "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef";
+    const sha512 = "0x" + "ab".repeat(64);
+    const blake3 = "0x" + "cd".repeat(32);
+
+    it("Should register the SHA-256 file hash as a tagged digest", async function () {
+      await fileIntegrity.uploadFile("test.pdf", fileHash, "QmTest123", "Test document");
+
+      expect(await fileIntegrity.getFileIdByDigest("sha256", fileHash)).to.equal(1);
+      expect(await fileIntegrity.getFileIdByDigest("sha512", fileHash)).to.equal(0);
+    });
+
+    it("Should upload a file with additional digests in one transaction", async function () {
+      await expect(
+        fileIntegrity.uploadFileWithDigests(
+          "test.pdf", fileHash, "QmTest123", "Test document", ["sha512", "blake3"], [sha512, blake3]
+        )
+      )
+        .to.emit(fileIntegrity, "DigestRegistered")
+        .withArgs(1, "sha512", sha512)
+        .and.to.emit(fileIntegrity, "DigestRegistered")
+        .withArgs(1, "blake3", blake3);
+
+      expect(await fileIntegrity.getFileIdByDigest("sha512", sha512)).to.equal(1);
+      expect(await fileIntegrity.getFileIdByDigest("blake3", blake3)).to.equal(1);
+      expect(await fileIntegrity.digestToFileId(await fileIntegrity.digestKey("blake3", blake3))).to.equal(1);
+    });
+
+    it("Should not register SHA-256 as an additional digest", async function () {
+      await fileIntegrity.uploadFile("test.pdf", fileHash, "QmTest123", "Test document");
+
+      await expect(
+        fileIntegrity.registerDigests(1, ["sha256"], ["0x" + "ee".repeat(32)])
+      ).to.be.revertedWith("SHA-256 is registered as the file hash");
+    });
+
+    it("Should keep digests of different algorithms apart", async function () {
+      await fileIntegrity.uploadFileWithDigests(
+        "test.pdf", fileHash, "QmTest123", "Test document", ["blake3"], [blake3]
+      );
+
+      expect(await fileIntegrity.getFileIdByDigest("keccak256", blake3)).to.equal(0);
+    });
+
+    it("Should let the uploader register digests later", async function () {
+      await fileIntegrity.uploadFile("test.pdf", fileHash, "QmTest123", "Test document");
+      await fileIntegrity.registerDigests(1, ["sha512"], [sha512]);
+
+      expect(await fileIntegrity.getFileIdByDigest("sha512", sha512)).to.equal(1);
+    });
+
+    it("Should only let the uploader register digests", async function () {
+      await fileIntegrity.uploadFile("test.pdf", fileHash, "QmTest123", "Test document");
+
+      await expect(
+        fileIntegrity.connect(addr1).registerDigests(1, ["sha512"], [sha512])
+      ).to.be.revertedWith("Only uploader can perform this action");
+    });
+
+    it("Should not allow a digest to be registered twice", async function () {
+      await fileIntegrity.uploadFileWithDigests(
+        "test.pdf", fileHash, "QmTest123", "Test document", ["sha512"], [sha512]
+      );
+
+      await expect(
+        fileIntegrity.uploadFileWithDigests(
+          "other.pdf", "0x" + "ff".repeat(32), "QmTest456", "Other", ["sha512"], [sha512]
+        )
+      ).to.be.revertedWith("Digest already registered");
+    });
+
+    it("Should reject mismatched algorithm and digest arrays", async function () {
+      await expect(
+        fileIntegrity.uploadFileWithDigests(
+          "test.pdf", fileHash, "QmTest123", "Test document", ["sha512", "blake3"], [sha512]
+        )
+      ).to.be.revertedWith("Algorithms and digests length mismatch");
+    });
+  });
+
+  describe("Versioning", function () {
+    const v1Hash = "0x1111111111111111111111111111111111111111111111111111111111111111";
+    const v2Hash = "0x2222222222222222222222222222222222222222222222222222222222222222";
+    const v3Hash = "0x3333333333333333333333333333333333333333333333333333333333333333";
+
+    beforeEach(async function () {
+      await fileIntegrity.connect(addr1).uploadFile("contract.pdf", v1Hash, "QmV1", "Contract v1");
+    });
+
+    it("Should start every original upload at version 1", async function () {
+      const file = await fileIntegrity.getFileById(1);
+      expect(file.version).to.equal(1);
+      expect(file.parentFileId).to.equal(0);
+    });
+
+    it("Should register a new version linked to its parent", async function () {
+      await expect(
+        fileIntegrity.connect(addr1).uploadFileVersion(1, "contract.pdf", v2Hash, "QmV2", "Contract v2", [], [])
+      )
+        .to.emit(fileIntegrity, "FileVersionAdded")
+        .withArgs(2, 1, 2);
+
+      const file = await fileIntegrity.getFileById(2);
+      expect(file.parentFileId).to.equal(1);
+      expect(file.version).to.equal(2);
+      expect(await fileIntegrity.supersededBy(1)).to.equal(2);
+    });
+
+    it("Should only let the original uploader add versions", async function () {
+      await expect(
+        fileIntegrity.connect(addr2).uploadFileVersion(1, "contract.pdf", v2Hash, "QmV2", "Forged", [], [])
+      ).to.be.revertedWith("Only uploader can perform this action");
+    });
+
+    it("Should only allow versioning the latest version", async function () {
+      await fileIntegrity.connect(addr1).uploadFileVersion(1, "contract.pdf", v2Hash, "QmV2", "Contract v2", [], []);
+
+      await expect(
+        fileIntegrity.connect(addr1).uploadFileVersion(1, "contract.pdf", v3Hash, "QmV3", "Branch", [], [])
+      ).to.be.revertedWith("File already has a newer version");
+    });
+
+    it("Should not allow versions of non-existent files", async function () {
+      await expect(
+        fileIntegrity.connect(addr1).uploadFileVersion(42, "contract.pdf", v2Hash, "QmV2", "Contract v2", [], [])
+      ).to.be.revertedWith("File does not exist");
+    });
+
+    it("Should resolve the latest version and full history", async function () {
+      await fileIntegrity.connect(addr1).uploadFileVersion(1, "contract.pdf", v2Hash, "QmV2", "Contract v2", [], []);
+      await fileIntegrity.connect(addr1).uploadFileVersion(2, "contract.pdf", v3Hash, "QmV3", "Contract v3", [], []);
+
+      expect(await fileIntegrity.getLatestVersion(1)).to.equal(3);
+      expect(await fileIntegrity.getLatestVersion(3)).to.equal(3);
+
+      const history = await fileIntegrity.getVersionHistory(2);
+      expect(history.map(Number)).to.deep.equal([1, 2, 3]);
+    });
+  });
+  describe("Revocation", function () {
+    const fileHash = "0x4444444444444444444444444444444444444444444444444444444444444444";
+
+    beforeEach(async function () {
+      await fileIntegrity.connect(addr1).uploadFile("policy.pdf", fileHash, "QmPolicy", "Policy");
+    });
+
+    it("Should let the uploader revoke a file", async function () {
+      const revokedAt = (await time.latest()) + 10;
+      await time.setNextBlockTimestamp(revokedAt);
+
+      await expect(fileIntegrity.connect(addr1).revokeFile(1, "Issued in error"))
+        .to.emit(fileIntegrity, "FileRevoked")
+        .withArgs(1, "Issued in error", addr1.address, revokedAt);
+
+      const revocation = await fileIntegrity.revocations(1);
+      expect(revocation.revokedBy).to.equal(addr1.address);
+      expect(revocation.timestamp).to.equal(revokedAt);
+      expect(await fileIntegrity.isRevoked(1)).to.be.true;
+    });
+
+    it("Should report revoked files as invalid", async function () {
+      await fileIntegrity.connect(addr1).revokeFile(1, "Withdrawn");
+
+      const result = await fileIntegrity.verifyFile.staticCall(fileHash);
+      expect(result.isValid).to.be.false;
+      expect(result.fileId).to.equal(1);
+      expect(result.revoked).to.be.true;
+
+      await expect(fileIntegrity.verifyFile(fileHash))
+        .to.emit(fileIntegrity, "FileVerified")
+        .withArgs(1, fileHash, false, owner.address);
+    });
+
+    it("Should only let the uploader revoke", async function () {
+      await expect(
+        fileIntegrity.connect(addr2).revokeFile(1, "Not mine")
+      ).to.be.revertedWith("Only uploader can perform this action");
+    });
+
+    it("Should not revoke twice or without a reason", async function () {
+      await expect(
+        fileIntegrity.connect(addr1).revokeFile(1, "")
+      ).to.be.revertedWith("Revocation reason cannot be empty");
+
+      await fileIntegrity.connect(addr1).revokeFile(1, "Withdrawn");
+      await expect(
+        fileIntegrity.connect(addr1).revokeFile(1, "Again")
+      ).to.be.revertedWith("File already revoked");
+    });
+
+    it("Should not revoke non-existent files", async function () {
+      await expect(
+        fileIntegrity.connect(addr1).revokeFile(42, "Missing")
+      ).to.be.revertedWith("File does not exist");
+    });
+  });
+
+  describe("Access Control", function () {
+    const fileHash = "0x5555555555555555555555555555555555555555555555555555555555555555";
+
+    it("Should make the deployer owner and registrar", async function () {
+      expect(await fileIntegrity.owner()).to.equal(owner.address);
+      expect(await fileIntegrity.hasRole(REGISTRAR_ROLE, owner.address)).to.be.true;
+      expect(await fileIntegrity.hasRole(AUDITOR_ROLE, owner.address)).to.be.false;
+      expect(REGISTRAR_ROLE).to.equal(ethers.id("REGISTRAR_ROLE"));
+    });
+
+    it("Should emit RoleGranted and RoleRevoked", async function () {
+      await expect(fileIntegrity.grantRole(AUDITOR_ROLE, addr3.address))
+        .to.emit(fileIntegrity, "RoleGranted")
+        .withArgs(AUDITOR_ROLE, addr3.address, owner.address);
+      expect(await fileIntegrity.hasRole(AUDITOR_ROLE, addr3.address)).to.be.true;
+
+      await expect(fileIntegrity.revokeRole(AUDITOR_ROLE, addr3.address))
+        .to.emit(fileIntegrity, "RoleRevoked")
+        .withArgs(AUDITOR_ROLE, addr3.address, owner.address);
+      expect(await fileIntegrity.hasRole(AUDITOR_ROLE, addr3.address)).to.be.false;
+    });
+
+    it("Should only let the owner manage roles", async function () {
+      await expect(
+        fileIntegrity.connect(addr1).grantRole(REGISTRAR_ROLE, addr3.address)
+      ).to.be.revertedWith("Only owner can perform this action");
+      await expect(
+        fileIntegrity.connect(addr1).revokeRole(REGISTRAR_ROLE, addr2.address)
+      ).to.be.revertedWith("Only owner can perform this action");
+      await expect(
+        fileIntegrity.grantRole(ethers.id("OTHER_ROLE"), addr3.address)
+      ).to.be.revertedWith("Unknown role");
+    });
+
+    it("Should only let registrars register files", async function () {
+      await expect(
+        fileIntegrity.connect(addr3).uploadFile("fake.pdf", fileHash, "QmFake", "Looks official")
+      ).to.be.revertedWith("Caller is missing the required role");
+      await expect(
+        fileIntegrity.connect(addr3).anchorBatch(ethers.id("root"), 1)
+      ).to.be.revertedWith("Caller is missing the required role");
+
+      await fileIntegrity.revokeRole(REGISTRAR_ROLE, addr1.address);
+      await expect(
+        fileIntegrity.connect(addr1).uploadFile("doc.pdf", fileHash, "QmDoc", "")
+      ).to.be.revertedWith("Caller is missing the required role");
+    });
+
+    it("Should let auditors pause registrations and only the owner resume them", async function () {
+      await fileIntegrity.grantRole(AUDITOR_ROLE, addr3.address);
+
+      await expect(fileIntegrity.connect(addr1).pause())
+        .to.be.revertedWith("Only owner or auditor can pause");
+      await expect(fileIntegrity.connect(addr3).pause())
+        .to.emit(fileIntegrity, "Paused")
+        .withArgs(addr3.address);
+      expect(await fileIntegrity.paused()).to.be.true;
+
+      await expect(
+        fileIntegrity.connect(addr1).uploadFile("doc.pdf", fileHash, "QmDoc", "")
+      ).to.be.revertedWith("Registrations are paused");
+      await expect(
+        fileIntegrity.anchorBatch(ethers.id("root"), 1)
+      ).to.be.revertedWith("Registrations are paused");
+
+      await expect(fileIntegrity.connect(addr3).unpause())
+        .to.be.revertedWith("Only owner can perform this action");
+      await expect(fileIntegrity.unpause())
+        .to.emit(fileIntegrity, "Unpaused")
+        .withArgs(owner.address);
+
+      await fileIntegrity.connect(addr1).uploadFile("doc.pdf", fileHash, "QmDoc", "");
+      expect(await fileIntegrity.fileHashExists(fileHash)).to.be.true;
+    });
+
+    it("Should keep verification available while paused", async function () {
+      await fileIntegrity.connect(addr1).uploadFile("doc.pdf", fileHash, "QmDoc", "");
+      await fileIntegrity.pause();
+
+      const result = await fileIntegrity.verifyFile.staticCall(fileHash);
+      expect(result.isValid).to.be.true;
+    });
+
+    it("Should transfer ownership", async function () {
+      await expect(fileIntegrity.transferOwnership(addr1.address))
+        .to.emit(fileIntegrity, "OwnershipTransferred")
+        .withArgs(owner.address, addr1.address);
+      expect(await fileIntegrity.owner()).to.equal(addr1.address);
+
+      await expect(
+        fileIntegrity.grantRole(AUDITOR_ROLE, addr3.address)
+      ).to.be.revertedWith("Only owner can perform this action");
+    });
+  });
+
+  describe("Gas Benchmarks", function () {
+    // Typical metadata; the former string-based layout spent ~465k gas on the first uploadFile
+    const fileName = "quarterly-report-2025.pdf";
+    const ipfsHash = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+    const description = "Signed quarterly financial report for the board";
+    const hashOf = (n) => ethers.zeroPadValue(ethers.toBeHex(n), 32);
+
+    // Upper bounds per call; raise them only for a deliberate layout change
+    const GAS_BUDGETS = {
+      uploadFile: 160000n,
+      uploadFileWithDigests: 225000n,
+      uploadFileVersion: 230000n,
+      revokeFile: 60000n,
+      verifyFile: 40000n,
+    };
+
+    const measure = async (name, txPromise) => {
+      const receipt = await (await txPromise).wait();
+      expect(receipt.gasUsed).to.be.at.most(GAS_BUDGETS[name]);
+    };
+
+    it("Should register a file within budget", async function () {
+      await measure("uploadFile", fileIntegrity.uploadFile(fileName, hashOf(1), ipfsHash, description));
+    });
+
+    it("Should register a file with extra digests within budget", async function () {
+      await measure(
+        "uploadFileWithDigests",
+        fileIntegrity.uploadFileWithDigests(
+          fileName, hashOf(1), ipfsHash, description,
+          ["sha512", "sha3-256"], ["0x" + "ab".repeat(64), "0x" + "cd".repeat(32)]
+        )
+      );
+    });
+
+    it("Should register a new version within budget", async function () {
+      await fileIntegrity.uploadFile(fileName, hashOf(1), ipfsHash, description);
+
+      await measure(
+        "uploadFileVersion",
+        fileIntegrity.uploadFileVersion(1, fileName, hashOf(2), ipfsHash, description, ["sha512"], ["0x" + "ef".repeat(64)])
+      );
+    });
+
+    it("Should revoke a file within budget", async function () {
+      await fileIntegrity.uploadFile(fileName, hashOf(1), ipfsHash, description);
+
+      await measure("revokeFile", fileIntegrity.revokeFile(1, "Superseded by the audited report"));
+    });
+
+    it("Should verify a file within budget", async function () {
+      await fileIntegrity.uploadFile(fileName, hashOf(1), ipfsHash, description);
+
+      await measure("verifyFile", fileIntegrity.verifyFile(hashOf(1)));
+    });
+  });
+
+  describe("Merkle Batches", function () {
+    const fileHashes = [
+      "0xaaaa000000000000000000000000000000000000000000000000000000000001",
+      "0xaaaa000000000000000000000000000000000000000000000000000000000002",
+      "0xaaaa000000000000000000000000000000000000000000000000000000000003",
+    ];
+
+    const leafOf = (fileHash) => ethers.solidityPackedKeccak256(["bytes1", "bytes32"], ["0x00", fileHash]);
+    const hashPair = (a, b) =>
+      BigInt(a) < BigInt(b)
+        ? ethers.solidityPackedKeccak256(["bytes1", "bytes32", "bytes32"], ["0x01", a, b])
+        : ethers.solidityPackedKeccak256(["bytes1", "bytes32", "bytes32"], ["0x01", b, a]);
+
+    // Three leaves: the odd leaf is carried up unchanged
+    const [l0, l1, l2] = fileHashes.map(leafOf);
+    const n01 = hashPair(l0, l1);
+    const root = hashPair(n01, l2);
+
+    it("Should anchor a batch root", async function () {
+      const anchoredAt = (await time.latest()) + 10;
+      await time.setNextBlockTimestamp(anchoredAt);
+
+      await expect(fileIntegrity.anchorBatch(root, fileHashes.length))
+        .to.emit(fileIntegrity, "BatchAnchored")
+        .withArgs(1, root, fileHashes.length, owner.address, anchoredAt);
+
+      const batch = await fileIntegrity.getBatch(1);
+      expect(batch.merkleRoot).to.equal(root);
+      expect(batch.leafCount).to.equal(fileHashes.length);
+      expect(await fileIntegrity.rootToBatchId(root)).to.equal(1);
+      expect(await fileIntegrity.getTotalBatches()).to.equal(1);
+    });
+
+    it("Should not anchor the same root twice", async function () {
+      await fileIntegrity.anchorBatch(root, fileHashes.length);
+
+      await expect(
+        fileIntegrity.anchorBatch(root, fileHashes.length)
+      ).to.be.revertedWith("Batch with this root already exists");
+    });
+
+    it("Should reject empty batches", async function () {
+      await expect(
+        fileIntegrity.anchorBatch(ethers.ZeroHash, 1)
+      ).to.be.revertedWith("Merkle root cannot be empty");
+
+      await expect(
+        fileIntegrity.anchorBatch(root, 0)
+      ).to.be.revertedWith("Batch cannot be empty");
+    });
+
+    it("Should compute leaves the same way off-chain", async function () {
+      expect(await fileIntegrity.batchLeaf(fileHashes[0])).to.equal(l0);
+    });
+
+    it("Should verify inclusion proofs against the anchored root", async function () {
+      await fileIntegrity.anchorBatch(root, fileHashes.length);
+
+      expect(await fileIntegrity.verifyBatchInclusion(1, l0, [l1, l2])).to.be.true;
+      expect(await fileIntegrity.verifyBatchInclusion(1, l1, [l0, l2])).to.be.true;
+      expect(await fileIntegrity.verifyFileInBatch(1, fileHashes[2], [n01])).to.be.true;
+    });
+
+    it("Should reject invalid inclusion proofs", async function () {
+      await fileIntegrity.anchorBatch(root, fileHashes.length);
+
+      const otherHash = "0xbbbb000000000000000000000000000000000000000000000000000000000001";
+      expect(await fileIntegrity.verifyFileInBatch(1, otherHash, [l1, l2])).to.be.false;
+      expect(await fileIntegrity.verifyBatchInclusion(1, l0, [l2, l1])).to.be.false;
+      expect(await fileIntegrity.verifyFileInBatch(1, fileHashes[0], [l2])).to.be.false;
+    });
+
+    it("Should not verify against unknown batches", async function () {
+      await expect(
+        fileIntegrity.verifyBatchInclusion(7, l0, [l1, l2])
+      ).to.be.revertedWith("Batch does not exist");
+    });
+  });
 });
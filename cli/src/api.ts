@@ -0,0 +1,145 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import axios, { type AxiosInstance } from 'axios';
+import type { CliConfig } from './config.js';
+
+export type VerificationStatus = 'valid' | 'superseded' | 'revoked' | 'proof_invalid' | 'not_found';
+
+export type AnchorMode = 'individual' | 'batch';
+
+export interface Digest {
+  algorithm: string;
+  digest: string;
+}
+
+export interface BlockchainRecord {
+  transactionHash: string;
+  blockNumber: number;
+  onChainFileId: string;
+  chainId: string | null;
+  contractAddress: string | null;
+  uploaderAddress: string | null;
+}
+
+export interface FileRecord {
+  id: string;
+  originalName: string;
+  fileHash: string;
+  ipfsHash: string | null;
+  description: string;
+  uploadTime: string;
+  size: number | null;
+  digests: Digest[];
+  version: number;
+  supersededBy: string | null;
+  anchorMode: AnchorMode;
+  batch: { batchId: string; leafIndex: number } | null;
+  uploaderAddress: string | null;
+  uploadBatchId: string | null;
+  revocation: { reason: string; revokedAt: string } | null;
+  blockchain: BlockchainRecord | null;
+}
+
+export interface VerificationResult {
+  isValid: boolean;
+  status: VerificationStatus;
+  message: string;
+  calculatedHash?: string;
+  matchedAlgorithm?: string;
+  latestVersion?: { id: string; version: number };
+  data?: Pick<FileRecord, 'id' | 'originalName' | 'fileHash' | 'uploadTime' | 'description' | 'version'>;
+}
+
+export interface HashResult {
+  fileHash: string;
+  digests: Digest[];
+  ipfsHash: string;
+  fileName: string;
+  size: number;
+}
+
+/**
+ * Backend error message of a failed request, or the transport error
+ */
+export function getErrorMessage(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      const { error: message, details } = error.response.data || {};
+      return `${message || `HTTP ${error.response.status}`}${typeof details === 'string' ? ` (${details})` : ''}`;
+    }
+    return `Backend not reachable at ${error.config?.baseURL}: ${error.message}`;
+  }
+  return (error as Error).message;
+}
+
+async function fileField(filePath: string): Promise<FormData> {
+  const form = new FormData();
+  form.append('file', await fs.openAsBlob(filePath), path.basename(filePath));
+  return form;
+}
+
+/**
+ * Thin wrapper around the backend routes the CLI uses
+ */
+export class ApiClient {
+  private readonly http: AxiosInstance;
+
+  constructor(config: CliConfig) {
+    this.http = axios.create({
+      baseURL: config.apiUrl,
+      headers: config.apiKey ? { 'X-API-Key': config.apiKey } : {},
+    });
+  }
+
+  async upload(filePath: string, options: { description: string; anchorMode: AnchorMode }): Promise<FileRecord> {
+    const form = await fileField(filePath);
+    form.append('description', options.description);
+    form.append('anchorMode', options.anchorMode);
+    const response = await this.http.post('/upload', form);
+    return response.data.data;
+  }
+
+  async verifyFile(filePath: string): Promise<VerificationResult> {
+    const response = await this.http.post('/verify', await fileField(filePath));
+    return response.data;
+  }
+
+  /**
+   * Verify a digest; `local` marks digests the CLI computed itself, as the browser's local mode does
+   */
+  async verifyHash(fileHash: string, { local = false } = {}): Promise<VerificationResult> {
+    const response = await this.http.post('/verify-hash', { fileHash, method: local ? 'local' : undefined });
+    return response.data;
+  }
+
+  async calculateHash(filePath: string): Promise<HashResult> {
+    const response = await this.http.post('/calculate-hash', await fileField(filePath));
+    return response.data;
+  }
+
+  /**
+   * Every record the caller can see, oldest first, following the page cursors
+   */
+  async listFiles(uploadBatchId?: string): Promise<FileRecord[]> {
+    const records: FileRecord[] = [];
+    let cursor: string | undefined;
+    do {
+      const response = await this.http.get('/files', {
+        params: { uploadBatchId, sort: 'uploadTime', order: 'asc', limit: 500, cursor },
+      });
+      records.push(...response.data.data);
+      cursor = response.data.nextCursor ?? undefined;
+    } while (cursor);
+    return records;
+  }
+
+  async getFile(id: string): Promise<FileRecord> {
+    const response = await this.http.get(`/files/${encodeURIComponent(id)}`);
+    return response.data.data;
+  }
+
+  async attachBlockchainRecord(id: string, record: BlockchainRecord & { eventLog: unknown }): Promise<FileRecord> {
+    const response = await this.http.post(`/files/${encodeURIComponent(id)}/blockchain`, record);
+    return response.data.data;
+  }
+}
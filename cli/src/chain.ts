@@ -0,0 +1,149 @@
+import { ethers } from 'ethers';
+import type { BlockchainRecord, FileRecord, VerificationStatus } from './api.js';
+import type { CliConfig } from './config.js';
+
+/**
+ * Subset of the FileIntegrity ABI used by the CLI
+ */
+const FILE_INTEGRITY_ABI = [
+  'function uploadFileWithDigests(string _fileName, bytes32 _fileHash, string _ipfsHash, string _description, string[] _algorithms, bytes[] _digests) returns (uint256)',
+  'function hashToFileId(bytes32) view returns (uint256)',
+  'function getFileById(uint256 _fileId) view returns (tuple(bytes32 fileHash, bytes32 metadataHash, address uploader, uint64 timestamp, uint32 version, uint256 parentFileId))',
+  'function getLatestVersion(uint256 _fileId) view returns (uint256)',
+  'function isRevoked(uint256 _fileId) view returns (bool)',
+  'event FileUploaded(uint256 indexed fileId, bytes32 indexed fileHash, address indexed uploader, string fileName, string ipfsHash, string description)',
+];
+
+export interface ChainVerification {
+  isValid: boolean;
+  status: VerificationStatus;
+  fileHash: string;
+  onChainFileId: string | null;
+  uploader: string | null;
+  timestamp: string | null;
+  version: number | null;
+  latestFileId: string | null;
+}
+
+function toDigestBytes(digest: string): string {
+  return ethers.hexlify(`0x${digest.replace(/^0x/i, '')}`);
+}
+
+function getContract(config: CliConfig, runner: ethers.ContractRunner): ethers.Contract {
+  if (!config.contractAddress) {
+    throw new Error('FileIntegrity contract address is not configured (--contract, FILE_INTEGRITY_ADDRESS or deployment.json)');
+  }
+  return new ethers.Contract(config.contractAddress, FILE_INTEGRITY_ABI, runner);
+}
+
+/**
+ * Look a SHA-256 digest up on the contract with view calls only, so no
+ * wallet or gas is needed. Files anchored through a Merkle batch are not
+ * registered individually and come back as not_found.
+ */
+export async function verifyOnChain(config: CliConfig, fileHash: string): Promise<ChainVerification> {
+  const contract = getContract(config, new ethers.JsonRpcProvider(config.rpcUrl));
+  const fileId: bigint = await contract.hashToFileId(toDigestBytes(fileHash));
+
+  if (fileId === 0n) {
+    return {
+      isValid: false,
+      status: 'not_found',
+      fileHash,
+      onChainFileId: null,
+      uploader: null,
+      timestamp: null,
+      version: null,
+      latestFileId: null,
+    };
+  }
+
+  const [file, latestFileId, revoked] = await Promise.all([
+    contract.getFileById(fileId),
+    contract.getLatestVersion(fileId) as Promise<bigint>,
+    contract.isRevoked(fileId) as Promise<boolean>,
+  ]);
+  const status: VerificationStatus = revoked ? 'revoked' : latestFileId !== fileId ? 'superseded' : 'valid';
+
+  return {
+    isValid: !revoked,
+    status,
+    fileHash,
+    onChainFileId: fileId.toString(),
+    uploader: file.uploader,
+    timestamp: new Date(Number(file.timestamp) * 1000).toISOString(),
+    version: Number(file.version),
+    latestFileId: latestFileId.toString(),
+  };
+}
+
+/**
+ * Register a backend record on FileIntegrity with the FILE_INTEGRITY_PRIVATE_KEY
+ * wallet, the way the web UI does with the browser wallet, and return the
+ * details the backend stores with the record
+ */
+export async function registerOnChain(
+  config: CliConfig,
+  record: FileRecord
+): Promise<BlockchainRecord & { eventLog: unknown }> {
+  if (!config.privateKey) {
+    throw new Error('FILE_INTEGRITY_PRIVATE_KEY is not set');
+  }
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  const wallet = new ethers.Wallet(config.privateKey, provider);
+  const contract = getContract(config, wallet);
+
+  // SHA-256 is registered as the primary fileHash; anchor the other digests alongside it
+  const extraDigests = record.digests.filter(entry => entry.algorithm !== 'sha256');
+  const tx = await contract.uploadFileWithDigests(
+    record.originalName,
+    toDigestBytes(record.fileHash),
+    record.ipfsHash || '',
+    record.description,
+    extraDigests.map(entry => entry.algorithm),
+    extraDigests.map(entry => toDigestBytes(entry.digest))
+  );
+  const receipt: ethers.TransactionReceipt | null = await tx.wait();
+  if (!receipt || receipt.status !== 1) {
+    throw new Error('Blockchain transaction reverted');
+  }
+
+  const uploadedLog = receipt.logs.find(log => {
+    try {
+      return contract.interface.parseLog(log)?.name === 'FileUploaded';
+    } catch {
+      return false;
+    }
+  });
+  if (!uploadedLog) {
+    throw new Error('FileUploaded event not found in transaction receipt');
+  }
+  const uploadedEvent = contract.interface.parseLog(uploadedLog)!;
+  const network = await provider.getNetwork();
+
+  return {
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    onChainFileId: uploadedEvent.args.fileId.toString(),
+    chainId: network.chainId.toString(),
+    contractAddress: config.contractAddress,
+    uploaderAddress: wallet.address,
+    eventLog: {
+      address: uploadedLog.address,
+      topics: [...uploadedLog.topics],
+      data: uploadedLog.data,
+      blockNumber: uploadedLog.blockNumber,
+      blockHash: uploadedLog.blockHash,
+      transactionHash: uploadedLog.transactionHash,
+      logIndex: uploadedLog.index,
+    },
+  };
+}
+
+/**
+ * Revert reason of a failed contract call, or the JSON-RPC error
+ */
+export function getContractErrorMessage(error: unknown): string {
+  const err = error as { reason?: string; shortMessage?: string; message?: string };
+  return err?.reason || err?.shortMessage || err?.message || 'Blockchain call failed';
+}
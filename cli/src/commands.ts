@@ -0,0 +1,317 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import axios from 'axios';
+import { ApiClient, getErrorMessage, type AnchorMode, type FileRecord, type VerificationStatus } from './api.js';
+import { getContractErrorMessage, registerOnChain, verifyOnChain } from './chain.js';
+import type { CliConfig } from './config.js';
+
+/**
+ * Exit codes: a failed verification is told apart from a command that could not run
+ */
+export const EXIT_OK = 0;
+export const EXIT_VERIFICATION_FAILED = 1;
+export const EXIT_ERROR = 2;
+
+/**
+ * What a command produced: `data` is printed with --json, `lines` otherwise
+ */
+export interface CommandResult {
+  exitCode: number;
+  lines: string[];
+  data: unknown;
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export interface CommandOptions {
+  description?: string;
+  'anchor-mode'?: string;
+  chain?: boolean;
+  local?: boolean;
+  strict?: boolean;
+  batch?: string;
+  pending?: boolean;
+}
+
+const ANCHOR_MODES: AnchorMode[] = ['individual', 'batch'];
+
+function requireSigner(config: CliConfig) {
+  if (!config.privateKey) {
+    throw new Error('Set FILE_INTEGRITY_PRIVATE_KEY to sign FileIntegrity transactions');
+  }
+}
+
+/**
+ * Backend errors carry the API's message; everything else comes from the chain or the file system
+ */
+function describeError(error: unknown): string {
+  return axios.isAxiosError(error) ? getErrorMessage(error) : getContractErrorMessage(error);
+}
+
+/**
+ * Files named on the command line, with directories expanded recursively
+ */
+function collectFiles(paths: string[]): string[] {
+  const files: string[] = [];
+  for (const entry of paths) {
+    if (fs.statSync(entry).isDirectory()) {
+      const children = fs.readdirSync(entry).sort().map(name => path.join(entry, name));
+      files.push(...collectFiles(children));
+    } else {
+      files.push(entry);
+    }
+  }
+  return files;
+}
+
+function sha256File(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', data => hash.update(data))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * A digest argument: hex, optionally "algorithm:" tagged or 0x prefixed
+ */
+function isHashArgument(value: string): boolean {
+  return /^([a-z0-9-]+:)?(0x)?[0-9a-f]{64,128}$/i.test(value);
+}
+
+function describeAnchor(record: FileRecord): string {
+  if (record.blockchain) return `on-chain #${record.blockchain.onChainFileId} (tx ${record.blockchain.transactionHash})`;
+  if (record.batch) return `Merkle batch ${record.batch.batchId} (leaf ${record.batch.leafIndex})`;
+  return record.anchorMode === 'batch' ? 'waiting for the next batch' : 'not anchored';
+}
+
+function describeRecord(record: FileRecord): string[] {
+  return [
+    `ID:          ${record.id}`,
+    `Name:        ${record.originalName} (v${record.version})`,
+    `SHA-256:     ${record.fileHash}`,
+    ...record.digests
+      .filter(entry => entry.algorithm !== 'sha256')
+      .map(entry => `${`${entry.algorithm}:`.padEnd(13)}${entry.digest}`),
+    `IPFS:        ${record.ipfsHash || '-'}`,
+    `Size:        ${record.size ?? '-'} bytes`,
+    `Uploaded:    ${record.uploadTime}`,
+    `Description: ${record.description || '-'}`,
+    `Anchor:      ${describeAnchor(record)}`,
+    ...(record.uploadBatchId ? [`Upload batch: ${record.uploadBatchId}`] : []),
+    ...(record.supersededBy ? [`Superseded by: ${record.supersededBy}`] : []),
+    ...(record.revocation ? [`Revoked:     ${record.revocation.reason} (${record.revocation.revokedAt})`] : []),
+  ];
+}
+
+/**
+ * Upload files (directories recursively) and, with --chain, register each
+ * one on the contract straight away
+ */
+export async function register(config: CliConfig, paths: string[], options: CommandOptions): Promise<CommandResult> {
+  if (paths.length === 0) {
+    throw new UsageError('register needs at least one file or directory');
+  }
+  const anchorMode = (options['anchor-mode'] || 'individual') as AnchorMode;
+  if (!ANCHOR_MODES.includes(anchorMode)) {
+    throw new UsageError(`--anchor-mode must be one of: ${ANCHOR_MODES.join(', ')}`);
+  }
+  if (options.chain && anchorMode !== 'individual') {
+    throw new UsageError('--chain registers files individually and cannot be combined with --anchor-mode batch');
+  }
+  if (options.chain) {
+    requireSigner(config);
+  }
+
+  const api = new ApiClient(config);
+  const results = [];
+  const lines = [];
+
+  for (const filePath of collectFiles(paths)) {
+    let record: FileRecord | null = null;
+    try {
+      record = await api.upload(filePath, { description: options.description || '', anchorMode });
+      if (options.chain) {
+        record = await api.attachBlockchainRecord(record.id, await registerOnChain(config, record));
+      }
+      results.push({ path: filePath, success: true, record });
+      lines.push(`registered  ${filePath}  ${record.id}  ${record.fileHash}`);
+    } catch (error) {
+      const message = describeError(error);
+      // A record that was uploaded but not anchored is still reported so it can be anchored later
+      results.push({ path: filePath, success: false, error: message, record });
+      lines.push(`failed      ${filePath}  ${record ? `${record.id}  ` : ''}${message}`);
+    }
+  }
+
+  const failed = results.filter(result => !result.success).length;
+  lines.push(`${results.length - failed} of ${results.length} file(s) registered`);
+  return { exitCode: failed > 0 ? EXIT_ERROR : EXIT_OK, lines, data: { results } };
+}
+
+/**
+ * Verify files or digests through the backend or, with --chain, against the
+ * contract alone. With --local files are hashed here and only the digest is sent.
+ */
+export async function verify(config: CliConfig, targets: string[], options: CommandOptions): Promise<CommandResult> {
+  if (targets.length === 0) {
+    throw new UsageError('verify needs at least one file, directory or hash');
+  }
+
+  const api = new ApiClient(config);
+  const items: { target: string; kind: 'file' | 'hash' }[] = [];
+  for (const target of targets) {
+    if (fs.existsSync(target)) {
+      items.push(...collectFiles([target]).map(file => ({ target: file, kind: 'file' as const })));
+    } else if (isHashArgument(target)) {
+      items.push({ target, kind: 'hash' });
+    } else {
+      throw new UsageError(`${target} is neither a file nor a hash`);
+    }
+  }
+
+  const results = [];
+  for (const { target, kind } of items) {
+    try {
+      let fileHash: string | null = kind === 'hash' ? target : null;
+      let status: VerificationStatus;
+      let isValid: boolean;
+      let message: string;
+      let record: unknown = null;
+
+      if (options.chain) {
+        fileHash = fileHash ?? await sha256File(target);
+        const result = await verifyOnChain(config, fileHash.replace(/^sha256:/i, ''));
+        ({ status, isValid } = result);
+        message = result.onChainFileId
+          ? `On-chain file #${result.onChainFileId} v${result.version}, registered by ${result.uploader} at ${result.timestamp}`
+          : 'Hash is not registered on-chain';
+        record = result;
+      } else {
+        if (kind === 'file' && options.local) {
+          fileHash = await sha256File(target);
+        }
+        const result = fileHash
+          ? await api.verifyHash(fileHash, { local: kind === 'file' })
+          : await api.verifyFile(target);
+        ({ status, isValid, message } = result);
+        fileHash = fileHash ?? result.data?.fileHash ?? result.calculatedHash ?? null;
+        record = result.data ?? null;
+      }
+
+      const passed = isValid && !(options.strict && status === 'superseded');
+      results.push({ target, fileHash, status, isValid, passed, message, record });
+    } catch (error) {
+      const message = describeError(error);
+      results.push({ target, fileHash: null, status: null, isValid: false, passed: false, message, error: true });
+    }
+  }
+
+  const errors = results.filter(result => result.status === null).length;
+  const failed = results.filter(result => !result.passed).length - errors;
+  const lines = results.map(result =>
+    `${(result.status ?? 'error').padEnd(13)} ${result.target}  ${result.message}`
+  );
+  lines.push(`${results.length - failed - errors} of ${results.length} passed${failed ? `, ${failed} failed` : ''}${errors ? `, ${errors} could not be checked` : ''}`);
+
+  return {
+    exitCode: errors > 0 ? EXIT_ERROR : failed > 0 ? EXIT_VERIFICATION_FAILED : EXIT_OK,
+    lines,
+    data: { passed: failed === 0 && errors === 0, results },
+  };
+}
+
+/**
+ * The caller's records (every record for admins), optionally one upload batch
+ */
+export async function list(config: CliConfig, options: CommandOptions): Promise<CommandResult> {
+  const records = await new ApiClient(config).listFiles(options.batch);
+  const lines = records.map(record => {
+    const flags = [
+      record.revocation && 'revoked',
+      record.supersededBy && 'superseded',
+      record.blockchain ? 'on-chain' : record.batch ? 'batched' : 'pending',
+    ].filter(Boolean).join(',');
+    return `${record.id}  ${record.fileHash.substring(0, 16)}  v${record.version}  ${flags.padEnd(20)} ${record.originalName}`;
+  });
+  lines.push(`${records.length} record(s)`);
+  return { exitCode: EXIT_OK, lines, data: records };
+}
+
+export async function show(config: CliConfig, id: string | undefined): Promise<CommandResult> {
+  if (!id) {
+    throw new UsageError('show needs a record id');
+  }
+  const record = await new ApiClient(config).getFile(id);
+  return { exitCode: EXIT_OK, lines: describeRecord(record), data: record };
+}
+
+/**
+ * Every digest and the IPFS CID of files, computed by the backend without registering them
+ */
+export async function hash(config: CliConfig, paths: string[]): Promise<CommandResult> {
+  if (paths.length === 0) {
+    throw new UsageError('hash needs at least one file or directory');
+  }
+  const api = new ApiClient(config);
+  const results = [];
+  const lines = [];
+  for (const filePath of collectFiles(paths)) {
+    const result = await api.calculateHash(filePath);
+    results.push({ path: filePath, ...result });
+    // sha256sum layout, so the output doubles as a manifest
+    lines.push(`${result.fileHash}  ${filePath}`);
+  }
+  return { exitCode: EXIT_OK, lines, data: results };
+}
+
+/**
+ * Register records on the contract with the FILE_INTEGRITY_PRIVATE_KEY wallet:
+ * the given ids, or with --pending every individually anchored record that
+ * has no transaction yet
+ */
+export async function anchor(config: CliConfig, ids: string[], options: CommandOptions): Promise<CommandResult> {
+  requireSigner(config);
+  const api = new ApiClient(config);
+  let records: FileRecord[];
+  if (options.pending) {
+    records = (await api.listFiles()).filter(record =>
+      record.anchorMode === 'individual' && !record.blockchain && !record.revocation
+    );
+  } else if (ids.length > 0) {
+    records = await Promise.all(ids.map(id => api.getFile(id)));
+  } else {
+    throw new UsageError('anchor needs record ids or --pending');
+  }
+
+  const results = [];
+  const lines = [];
+  for (const record of records) {
+    if (record.blockchain) {
+      results.push({ id: record.id, success: true, skipped: true, record });
+      lines.push(`skipped   ${record.id}  already on-chain #${record.blockchain.onChainFileId}`);
+      continue;
+    }
+    try {
+      const updated = await api.attachBlockchainRecord(record.id, await registerOnChain(config, record));
+      results.push({ id: record.id, success: true, record: updated });
+      lines.push(`anchored  ${record.id}  on-chain #${updated.blockchain!.onChainFileId}  tx ${updated.blockchain!.transactionHash}`);
+    } catch (error) {
+      const message = describeError(error);
+      results.push({ id: record.id, success: false, error: message });
+      lines.push(`failed    ${record.id}  ${message}`);
+    }
+  }
+
+  const failed = results.filter(result => !result.success).length;
+  lines.push(`${results.length - failed} of ${results.length} record(s) anchored`);
+  return { exitCode: failed > 0 ? EXIT_ERROR : EXIT_OK, lines, data: { results } };
+}
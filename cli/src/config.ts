@@ -0,0 +1,43 @@
+import fs from 'node:fs';
+
+/**
+ * Connection settings, from command-line options first and the environment
+ * second. The chain settings use the same variables as the backend.
+ */
+export interface CliConfig {
+  apiUrl: string;
+  apiKey: string | null;
+  rpcUrl: string;
+  contractAddress: string | null;
+  privateKey: string | null;
+}
+
+export interface ConfigOptions {
+  api?: string;
+  'api-key'?: string;
+  'rpc-url'?: string;
+  contract?: string;
+}
+
+/**
+ * Contract address from deployment.json (DEPLOYMENT_FILE), as written by the Hardhat deploy script
+ */
+function readDeploymentAddress(): string | null {
+  const deploymentFile = process.env.DEPLOYMENT_FILE || 'blockchain/deployment.json';
+  if (!fs.existsSync(deploymentFile)) {
+    return null;
+  }
+  const deployment = JSON.parse(fs.readFileSync(deploymentFile, 'utf8')) as { contractAddress?: string };
+  return deployment.contractAddress || null;
+}
+
+export function loadConfig(options: ConfigOptions): CliConfig {
+  return {
+    apiUrl: (options.api || process.env.FILE_INTEGRITY_API_URL || 'http://localhost:5000/api').replace(/\/+$/, ''),
+    apiKey: options['api-key'] || process.env.FILE_INTEGRITY_API_KEY || null,
+    rpcUrl: options['rpc-url'] || process.env.RPC_URL || 'http://127.0.0.1:8545',
+    contractAddress: options.contract || process.env.FILE_INTEGRITY_ADDRESS || readDeploymentAddress(),
+    // Only read from the environment so keys never end up in shell history
+    privateKey: process.env.FILE_INTEGRITY_PRIVATE_KEY || null,
+  };
+}
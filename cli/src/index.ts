@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import { loadConfig } from './config.js';
+import { getErrorMessage } from './api.js';
+import {
+  anchor,
+  hash,
+  list,
+  register,
+  show,
+  verify,
+  EXIT_ERROR,
+  UsageError,
+  type CommandResult,
+} from './commands.js';
+
+const USAGE = `Usage: file-integrity <command> [options]
+
+Commands:
+  register <paths...>      Upload and hash files (directories recursively)
+      --description <text>   Description stored with every file
+      --anchor-mode <mode>   individual (default) or batch
+      --chain                Also register each file on the contract
+  verify <path|hash...>    Verify files, directories or digests
+      --local                Hash files here and send only the digest
+      --chain                Check the contract over JSON-RPC instead of the backend
+      --strict               Fail superseded versions as well
+  list                     List your registered files
+      --batch <id>           Only one upload batch
+  show <id>                Show one record
+  hash <paths...>          Digests and IPFS CID of files, without registering them
+  anchor <ids...>          Register records on the contract
+      --pending              Every individual record without a transaction
+
+Options:
+  --json                   Print JSON instead of text
+  --api <url>              Backend API (FILE_INTEGRITY_API_URL, default http://localhost:5000/api)
+  --api-key <key>          API key (FILE_INTEGRITY_API_KEY)
+  --rpc-url <url>          JSON-RPC endpoint (RPC_URL, default http://127.0.0.1:8545)
+  --contract <address>     FileIntegrity address (FILE_INTEGRITY_ADDRESS or blockchain/deployment.json)
+  -h, --help               Show this help
+
+Transactions are signed with FILE_INTEGRITY_PRIVATE_KEY.
+Exit codes: 0 success, 1 verification failed, 2 error.`;
+
+async function run(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean', default: false },
+      api: { type: 'string' },
+      'api-key': { type: 'string' },
+      'rpc-url': { type: 'string' },
+      contract: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+      description: { type: 'string' },
+      'anchor-mode': { type: 'string' },
+      chain: { type: 'boolean', default: false },
+      local: { type: 'boolean', default: false },
+      strict: { type: 'boolean', default: false },
+      batch: { type: 'string' },
+      pending: { type: 'boolean', default: false },
+    },
+  });
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : EXIT_ERROR;
+  }
+
+  const config = loadConfig(values);
+  let result: CommandResult;
+  switch (command) {
+    case 'register':
+      result = await register(config, args, values);
+      break;
+    case 'verify':
+      result = await verify(config, args, values);
+      break;
+    case 'list':
+      result = await list(config, values);
+      break;
+    case 'show':
+      result = await show(config, args[0]);
+      break;
+    case 'hash':
+      result = await hash(config, args);
+      break;
+    case 'anchor':
+      result = await anchor(config, args, values);
+      break;
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+
+  console.log(values.json ? JSON.stringify(result.data, null, 2) : result.lines.join('\n'));
+  return result.exitCode;
+}
+
+run(process.argv.slice(2))
+  .then(exitCode => {
+    process.exitCode = exitCode;
+  })
+  .catch((error: unknown) => {
+    // parseArgs reports unknown options with a TypeError carrying an ERR_PARSE_ARGS code
+    const usage = error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS');
+    console.error(`Error: ${getErrorMessage(error)}`);
+    if (usage) {
+      console.error('Run "file-integrity --help" for usage.');
+    }
+    process.exitCode = EXIT_ERROR;
+  });
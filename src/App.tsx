@@ -1,4 +1,4 @@
-import React from 'react';
+import { useState, useEffect } from 'react';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import CssBaseline from '@mui/material/CssBaseline';
 import { Container, Box } from '@mui/material';
@@ -7,6 +7,9 @@ import FileUpload from './components/FileUpload';
 import FileVerification from './components/FileVerification';
 import AuditTrail from './components/AuditTrail';
 import BlockchainConnection from './components/BlockchainConnection';
+import AccountPanel from './components/AccountPanel';
+import { fetchCurrentUser, AUTH_EXPIRED_EVENT, type AuthUser } from './utils/auth';
+import type { ContractRoles } from './contracts/fileIntegrity';
 import './App.css';
 
 const theme = createTheme({
@@ -34,6 +37,18 @@ const theme = createTheme({
 });
 
 function App() {
+  const [account, setAccount] = useState<string | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [roles, setRoles] = useState<ContractRoles | null>(null);
+
+  useEffect(() => {
+    fetchCurrentUser().then(setUser);
+
+    const handleExpired = () => setUser(null);
+    window.addEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+  }, []);
+
   return (
     <ThemeProvider theme={theme}>
       <CssBaseline />
@@ -41,10 +56,16 @@ function App() {
         <Header />
         <Container maxWidth="lg">
           <Box sx={{ mt: 4, mb: 4 }}>
-            <BlockchainConnection />
-            <FileUpload />
+            <AccountPanel user={user} onUserChange={setUser} />
+            <BlockchainConnection
+              onAccountChange={setAccount}
+              onRolesChange={setRoles}
+              user={user}
+              onUserChange={setUser}
+            />
+            <FileUpload account={account} user={user} roles={roles} />
             <FileVerification />
-            <AuditTrail />
+            <AuditTrail user={user} />
           </Box>
         </Container>
       </div>
@@ -0,0 +1,76 @@
+import axios, { type AxiosRequestConfig } from 'axios';
+import { isAbortError } from '../utils/fileHasher';
+import type { ErrorCode, ErrorResponse } from './types';
+
+/**
+ * Backend API used by every component. Set VITE_API_BASE_URL (for example in
+ * .env.staging) to point the app at another deployment.
+ */
+export const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api').replace(/\/+$/, '');
+
+export const apiClient = axios.create({ baseURL: API_BASE_URL });
+
+/**
+ * Per-request options accepted by the endpoint functions
+ */
+export type RequestOptions = Pick<AxiosRequestConfig, 'signal' | 'onUploadProgress'>;
+
+/**
+ * A failed API request, carrying the backend's `{ error, code, details }` body
+ */
+export class ApiError extends Error {
+  // HTTP status, null when the backend could not be reached
+  status: number | null;
+  // Machine-readable reason, null when the response had no error body
+  code: ErrorCode | null;
+  details: ErrorResponse['details'];
+
+  constructor(
+    message: string,
+    status: number | null = null,
+    code: ErrorCode | null = null,
+    details: ErrorResponse['details'] = null
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// Cancelled requests are passed through untouched so callers can tell them apart
+apiClient.interceptors.response.use(undefined, async (error: unknown) => {
+  if (axios.isCancel(error) || !axios.isAxiosError(error)) {
+    return Promise.reject(error);
+  }
+
+  let body: unknown = error.response?.data;
+  // Downloads requested as blobs receive their JSON error body as a Blob too
+  if (body instanceof Blob) {
+    try {
+      body = JSON.parse(await body.text());
+    } catch {
+      body = null;
+    }
+  }
+  const { error: message, code, details } = (body && typeof body === 'object' ? body : {}) as Partial<ErrorResponse>;
+
+  return Promise.reject(
+    new ApiError(message || error.message, error.response?.status ?? null, code ?? null, details ?? null)
+  );
+});
+
+/**
+ * Message to show for a failed request or any other error
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  return (error instanceof Error && error.message) || fallback;
+}
+
+/**
+ * Whether a request or a local hash was aborted through its signal
+ */
+export function isCancelled(error: unknown): boolean {
+  return axios.isCancel(error) || isAbortError(error);
+}
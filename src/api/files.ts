@@ -0,0 +1,152 @@
+import { apiClient, type RequestOptions } from './client';
+import type {
+  AnchorMode,
+  BatchUploadReport,
+  BlockchainRegistration,
+  FileIntegrityReport,
+  FileQuery,
+  FileRecord,
+  RevocationDetails,
+  VerificationEntry,
+} from './types';
+import type { ProofBundle } from '../utils/proofBundle';
+import type { SelectedFile } from '../utils/fileSelection';
+
+export interface UploadOptions {
+  description: string;
+  anchorMode: AnchorMode;
+  // Adds the files to an earlier upload
+  uploadBatchId?: string | null;
+}
+
+export interface FilePage {
+  files: FileRecord[];
+  // Records matching the query across all pages; only counted for the first page
+  total: number | null;
+  nextCursor: string | null;
+}
+
+/**
+ * One page of the records the signed-in user can see (every record for admins)
+ */
+export async function listFiles(query: FileQuery = {}, options: RequestOptions = {}): Promise<FilePage> {
+  const response = await apiClient.get('/files', { ...options, params: query });
+  const { data, total, nextCursor } = response.data;
+  return { files: data || [], total, nextCursor };
+}
+
+/**
+ * Every record matching the query, following the page cursors
+ */
+export async function listAllFiles(
+  query: Omit<FileQuery, 'cursor' | 'limit'> = {},
+  options: RequestOptions = {}
+): Promise<FileRecord[]> {
+  const files: FileRecord[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await listFiles({ ...query, cursor, limit: 500 }, options);
+    files.push(...page.files);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return files;
+}
+
+/**
+ * Upload files in one request. The backend answers 207 when only some of
+ * them failed; those are reported in the results.
+ */
+export async function uploadFiles(
+  files: SelectedFile[],
+  { description, anchorMode, uploadBatchId }: UploadOptions,
+  options: RequestOptions = {}
+): Promise<BatchUploadReport> {
+  const formData = new FormData();
+  for (const { file } of files) {
+    formData.append('files', file);
+  }
+  formData.append('relativePaths', JSON.stringify(files.map(({ path }) => path)));
+  formData.append('description', description);
+  formData.append('anchorMode', anchorMode);
+  if (uploadBatchId) {
+    formData.append('uploadBatchId', uploadBatchId);
+  }
+
+  const response = await apiClient.post('/upload/batch', formData, {
+    ...options,
+    validateStatus: status => status === 200 || status === 207,
+  });
+  return response.data.data;
+}
+
+/**
+ * Register a file as the next version of an existing record
+ */
+export async function uploadVersion(
+  parentId: string,
+  file: File,
+  { description, anchorMode }: UploadOptions,
+  options: RequestOptions = {}
+): Promise<FileRecord> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('description', description);
+  formData.append('anchorMode', anchorMode);
+  const response = await apiClient.post(`/files/${parentId}/versions`, formData, options);
+  return response.data.data;
+}
+
+/**
+ * Attach the FileIntegrity transaction that registered a record
+ */
+export async function attachBlockchainRecord(
+  id: string,
+  registration: BlockchainRegistration,
+  options: RequestOptions = {}
+): Promise<FileRecord> {
+  const response = await apiClient.post(`/files/${id}/blockchain`, registration, options);
+  return response.data.data;
+}
+
+export async function getFileVersions(id: string, options: RequestOptions = {}): Promise<FileRecord[]> {
+  const response = await apiClient.get(`/files/${id}/versions`, options);
+  return response.data.data || [];
+}
+
+export async function getFileVerifications(id: string, options: RequestOptions = {}): Promise<VerificationEntry[]> {
+  const response = await apiClient.get(`/files/${id}/verifications`, options);
+  return response.data.data || [];
+}
+
+export async function getFileIntegrity(id: string, options: RequestOptions = {}): Promise<FileIntegrityReport> {
+  const response = await apiClient.get(`/files/${id}/integrity`, options);
+  return response.data.data;
+}
+
+/**
+ * Delete a record that is not anchored yet, e.g. after its wallet transaction failed
+ */
+export async function deleteFile(id: string, options: RequestOptions = {}): Promise<void> {
+  await apiClient.delete(`/files/${id}`, options);
+}
+
+/**
+ * Signed proof bundle of a record, for offline verification
+ */
+export async function getProofBundle(id: string, options: RequestOptions = {}): Promise<ProofBundle> {
+  const response = await apiClient.get(`/files/${id}/proof`, options);
+  return response.data;
+}
+
+/**
+ * Stored content of a record by its IPFS CID
+ */
+export async function getIpfsContent(cid: string, options: RequestOptions = {}): Promise<Blob> {
+  const response = await apiClient.get(`/ipfs/${cid}`, { ...options, responseType: 'blob' });
+  return response.data;
+}
+
+export async function revokeFile(id: string, details: RevocationDetails, options: RequestOptions = {}): Promise<FileRecord> {
+  const response = await apiClient.post(`/files/${id}/revoke`, details, options);
+  return response.data.data;
+}
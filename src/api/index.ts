@@ -0,0 +1,7 @@
+export * from './client';
+export * from './files';
+export * from './manifest';
+export * from './reports';
+export * from './system';
+export * from './types';
+export * from './verification';
@@ -0,0 +1,29 @@
+import { apiClient, type RequestOptions } from './client';
+import type { FileFilters, ManifestFormat, ManifestImportReport } from './types';
+
+/**
+ * Checksum manifest of the user's records, or only of those matching the audit trail filters
+ */
+export async function exportManifest(format: ManifestFormat, filters: FileFilters = {}, options: RequestOptions = {}): Promise<Blob> {
+  const response = await apiClient.get('/manifest', {
+    ...options,
+    params: { format, ...filters },
+    responseType: 'blob',
+  });
+  return response.data;
+}
+
+/**
+ * Register every hash of a sha256sum or JSON manifest
+ */
+export async function importManifest(
+  manifest: File,
+  description: string,
+  options: RequestOptions = {}
+): Promise<ManifestImportReport> {
+  const formData = new FormData();
+  formData.append('manifest', manifest);
+  formData.append('description', description);
+  const response = await apiClient.post('/manifest/import', formData, options);
+  return response.data.data;
+}
@@ -0,0 +1,16 @@
+import { apiClient, type RequestOptions } from './client';
+import type { AuditReportReceipt, FileQuery, ReportFormat } from './types';
+
+/**
+ * Generate an audit report of the records matching the filters and sort order.
+ * The backend registers the document as a record and signs its hash; the
+ * content is downloaded from the record's IPFS CID.
+ */
+export async function createAuditReport(
+  format: ReportFormat,
+  query: Omit<FileQuery, 'cursor' | 'limit'> = {},
+  options: RequestOptions = {}
+): Promise<AuditReportReceipt> {
+  const response = await apiClient.post('/reports/audit', undefined, { ...options, params: { format, ...query } });
+  return response.data.data;
+}
@@ -0,0 +1,2947 @@
+/**
+ * This file was auto-generated by openapi-typescript.
+ * Do not make direct changes to the file.
+ */
+
+export interface paths {
+    "/api/health": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Health check with chain and signer configuration */
+        get: operations["getHealth"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/openapi.json": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** This document */
+        get: operations["getOpenApiDocument"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/register": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Create a user account (admins are seeded from ADMIN_EMAIL or ADMIN_WALLET) */
+        post: operations["register"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/login": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Exchange email and password for a session token */
+        post: operations["login"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/siwe/challenge": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** One-time EIP-4361 message for the wallet to sign */
+        post: operations["createSiweChallenge"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/siwe/verify": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Sign in with a signed challenge, or link the wallet to the signed-in account */
+        post: operations["verifySiwe"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/logout": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** End the current session token */
+        post: operations["logout"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/me": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Current account */
+        get: operations["getCurrentUser"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/api-keys": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Create an API key; the key is only returned here */
+        post: operations["createApiKey"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/api-keys/{keyId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Revoke one of the caller's API keys */
+        delete: operations["revokeApiKey"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/users": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List all accounts (admin) */
+        get: operations["listUsers"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/users/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        /** Change an account's role (admin) */
+        patch: operations["updateUser"];
+        trace?: never;
+    };
+    "/api/upload": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Upload a file, hash it and store its record */
+        post: operations["uploadFile"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/upload/batch": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Upload several files or a folder; every file is registered on its own */
+        post: operations["uploadFiles"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/verify": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Upload a file and look its hash up in the records */
+        post: operations["verifyFile"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/verify/batch": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Verify several files, a folder or ZIP archives */
+        post: operations["verifyFiles"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/verify-hash": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Look a digest up in the records without uploading the file */
+        post: operations["verifyHash"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/manifest": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Export the caller's records as a sha256sum or JSON manifest */
+        get: operations["exportManifest"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/manifest/import": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Register every hash of a sha256sum or JSON manifest */
+        post: operations["importManifest"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/manifest/verify": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Check a directory against a manifest */
+        post: operations["verifyManifest"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/reports/audit": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Generate, register and sign an audit report of the filtered records */
+        post: operations["createAuditReport"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/files": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** The caller's records (every record for admins), one page at a time */
+        get: operations["listFiles"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/files/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** One record */
+        get: operations["getFile"];
+        put?: never;
+        post?: never;
+        /** Delete a record that is not anchored yet (individual anchoring only) */
+        delete: operations["deleteFile"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/files/{id}/verifications": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Verification timeline of a record, newest first */
+        get: operations["getFileVerifications"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/files/{id}/integrity": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Tamper monitor status of a record's stored original */
+        get: operations["getFileIntegrity"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/files/{id}/versions": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Version chain of a record, oldest first */
+        get: operations["getFileVersions"];
+        put?: never;
+        /** Register a new version of the latest version of a file (uploader only) */
+        post: operations["uploadVersion"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/files/{id}/proof": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Signed proof bundle for offline verification */
+        get: operations["getProofBundle"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/files/{id}/blockchain": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Attach the FileIntegrity.uploadFile transaction to a record; the stored details are read from its receipt */
+        post: operations["attachBlockchainRecord"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/files/{id}/revoke": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Revoke a file; files recorded on-chain need the FileIntegrity.revokeFile transaction */
+        post: operations["revokeFile"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/verifications": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Verification log, newest first */
+        get: operations["listVerifications"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/chain/status": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Chain indexer progress */
+        get: operations["getChainStatus"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/chain/sync": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Run the chain indexer now (admin) */
+        post: operations["syncChain"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/chain/files": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Indexed FileUploaded events, newest first */
+        get: operations["listChainFiles"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/chain/files/{onChainFileId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** One on-chain file with its on-chain verifications */
+        get: operations["getChainFile"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/chain/verifications": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Indexed FileVerified events, newest first */
+        get: operations["listChainVerifications"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/chain/reconciliation": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Hashes recorded off-chain but not on-chain and the other way round (admin) */
+        get: operations["getReconciliation"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/integrity": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Tamper monitor overview of the caller's stored files */
+        get: operations["getIntegrity"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/integrity/check": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Re-hash every stored file now (admin) */
+        post: operations["checkIntegrity"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/batches": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Merkle batches, newest first (admin) */
+        get: operations["listBatches"];
+        put?: never;
+        /** Batch every pending record and anchor the root (admin) */
+        post: operations["createBatch"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/batches/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** A batch with its records (admin) */
+        get: operations["getBatch"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/batches/{id}/anchor": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Retry anchoring a batch whose transaction failed (admin) */
+        post: operations["anchorBatch"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/calculate-hash": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Digests and IPFS CID of a file without storing it */
+        post: operations["calculateHash"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/ipfs/{cid}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Content of one of the caller's files by IPFS CID */
+        get: operations["getIpfsContent"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+    schemas: {
+        /** @description Record id (numeric string) */
+        FileId: string;
+        Uuid: string;
+        /** @description Merkle batch id (numeric string) */
+        BatchId: string;
+        EthereumAddress: string;
+        TransactionHash: string;
+        /** @description SHA-256 digest as 64 hex digits, optionally 0x-prefixed */
+        Sha256Hex: string;
+        /** @description Hex digest of 64 or 128 digits, optionally 0x-prefixed and tagged with its algorithm ("sha512:...") */
+        DigestInput: string;
+        Description: string;
+        /** @enum {string} */
+        HashAlgorithm: "sha256" | "sha512" | "sha3-256" | "keccak256" | "blake3";
+        /** @enum {string} */
+        AnchorMode: "individual" | "batch";
+        /** @enum {string} */
+        VerificationOutcome: "valid" | "superseded" | "revoked" | "proof_invalid" | "not_found";
+        /** @enum {string} */
+        VerificationMethod: "file_upload" | "batch" | "hash" | "local" | "on_chain";
+        /** @enum {string} */
+        IntegrityStatus: "ok" | "modified" | "missing" | "error";
+        /** @enum {string} */
+        ManifestFormat: "sha256sum" | "json";
+        /** @enum {string} */
+        FileSortField: "uploadTime" | "size" | "name";
+        /** @enum {string} */
+        SortOrder: "asc" | "desc";
+        /** @enum {string} */
+        FileStatus: "latest" | "superseded" | "revoked" | "tampered";
+        /** @enum {string} */
+        ReportFormat: "csv" | "json" | "pdf";
+        /** @enum {string} */
+        Role: "user" | "admin";
+        /** @enum {string} */
+        ErrorCode: "BAD_REQUEST" | "VALIDATION_FAILED" | "INVALID_JSON" | "INVALID_HASH" | "INVALID_MANIFEST" | "INVALID_CID" | "INVALID_CURSOR" | "INVALID_TRANSACTION" | "FILE_REQUIRED" | "UNAUTHENTICATED" | "INVALID_CREDENTIALS" | "INVALID_SIGNATURE" | "FORBIDDEN" | "REGISTRATION_DISABLED" | "NOT_FOUND" | "CONFLICT" | "EMAIL_TAKEN" | "WALLET_CONFLICT" | "NOT_LATEST_VERSION" | "FILE_EXISTS" | "ALREADY_REVOKED" | "ALREADY_ANCHORED" | "UPLOADER_MISMATCH" | "INDEXER_NOT_SYNCED" | "PAYLOAD_TOO_LARGE" | "REPORT_TOO_LARGE" | "INTERNAL_ERROR" | "SERVICE_UNAVAILABLE" | "CONTRACT_NOT_CONFIGURED";
+        ValidationIssue: {
+            message: string;
+            /** @enum {string} */
+            location?: "path" | "query" | "body";
+            field?: string;
+            line?: number;
+        };
+        ErrorResponse: {
+            /** @constant */
+            success: false;
+            error: string;
+            code: components["schemas"]["ErrorCode"];
+            /** @description Cause of a server error, or the invalid fields of a rejected request */
+            details: string | components["schemas"]["ValidationIssue"][] | null;
+            /** @description Latest version of the file (NOT_LATEST_VERSION only) */
+            latestId?: string;
+            /** @description Record already registered for the hash when the caller may see it (FILE_EXISTS only) */
+            recordId?: string | null;
+        };
+        ApiKey: {
+            id: string;
+            name: string;
+            prefix: string;
+            /** Format: date-time */
+            createdAt: string;
+        };
+        CreatedApiKey: components["schemas"]["ApiKey"] & {
+            /** @description Only returned once */
+            key: string;
+        };
+        User: {
+            id: string;
+            email: string | null;
+            name: string;
+            role: components["schemas"]["Role"];
+            walletAddress: string | null;
+            /** Format: date-time */
+            createdAt: string;
+            apiKeys: components["schemas"]["ApiKey"][];
+        };
+        CurrentUser: components["schemas"]["User"] & {
+            /** @enum {string} */
+            authMethod: "jwt" | "siwe" | "api_key";
+            sessionAddress: string | null;
+        };
+        Session: {
+            token: string;
+            user: components["schemas"]["User"];
+        };
+        SiweChallenge: {
+            message: string;
+            nonce: string;
+            /** Format: date-time */
+            expiresAt: string;
+        };
+        Digest: {
+            algorithm: string;
+            digest: string;
+        };
+        EventLog: {
+            address: string;
+            topics: string[];
+            data: string;
+            blockNumber: number;
+            blockHash: string;
+            transactionHash: string;
+            logIndex: number;
+        };
+        Revocation: {
+            reason: string;
+            /** Format: date-time */
+            revokedAt: string;
+            transactionHash: string | null;
+        };
+        FileRevocation: {
+            reason: string;
+            /** Format: date-time */
+            revokedAt: string;
+            revokedBy?: string | null;
+            transactionHash: string | null;
+            blockNumber?: number | null;
+            revokerAddress?: string | null;
+            eventLog?: components["schemas"]["EventLog"] | null;
+            /** Format: date-time */
+            confirmedAt?: string | null;
+        };
+        BlockchainRecord: {
+            transactionHash: string;
+            blockNumber: number;
+            onChainFileId: string;
+            chainId: string | null;
+            contractAddress: string | null;
+            uploaderAddress: string | null;
+            eventLog: components["schemas"]["EventLog"] | null;
+            /** Format: date-time */
+            recordedAt: string;
+            /** Format: date-time */
+            confirmedAt: string | null;
+        };
+        BatchLeaf: {
+            batchId: string;
+            leafIndex: number;
+            leaf: string;
+            proof: string[];
+        };
+        IntegrityCheck: {
+            status: components["schemas"]["IntegrityStatus"];
+            /** Format: date-time */
+            lastCheckedAt: string;
+            /** Format: date-time */
+            lastVerifiedAt: string | null;
+            actualHash: string | null;
+            error: string | null;
+        };
+        IntegrityEvent: {
+            id: string;
+            fileId: string;
+            /** Format: date-time */
+            detectedAt: string;
+            status: components["schemas"]["IntegrityStatus"];
+            previousStatus: components["schemas"]["IntegrityStatus"] | null;
+            expectedHash: string;
+            actualHash: string | null;
+            error: string | null;
+        };
+        FileRecord: {
+            id: string;
+            originalName: string;
+            fileHash: string;
+            /** @description Null for hashes imported from a checksum manifest, which have no stored copy */
+            ipfsHash: string | null;
+            description: string;
+            /** Format: date-time */
+            uploadTime: string;
+            size: number | null;
+            mimetype: string | null;
+            digests: components["schemas"]["Digest"][];
+            parentId: string | null;
+            version: number;
+            supersededBy: string | null;
+            anchorMode: components["schemas"]["AnchorMode"];
+            batch: components["schemas"]["BatchLeaf"] | null;
+            ownerId: string | null;
+            uploaderAddress: string | null;
+            uploadBatchId: string | null;
+            revocation: components["schemas"]["FileRevocation"] | null;
+            integrity: components["schemas"]["IntegrityCheck"] | null;
+            blockchain: components["schemas"]["BlockchainRecord"] | null;
+        };
+        BatchUploadResult: {
+            index: number;
+            name: string;
+            success: boolean;
+            data?: components["schemas"]["FileRecord"];
+            error?: string;
+            /** @description FILE_EXISTS when the hash is already registered */
+            code?: components["schemas"]["ErrorCode"];
+            recordId?: string | null;
+        };
+        BatchUploadReport: {
+            uploadBatchId: string | null;
+            total: number;
+            succeeded: number;
+            failed: number;
+            results: components["schemas"]["BatchUploadResult"][];
+        };
+        FileIntegrityReport: {
+            fileId: string;
+            fileHash: string;
+            integrity: components["schemas"]["IntegrityCheck"] | null;
+            events: components["schemas"]["IntegrityEvent"][];
+        };
+        ProofBundle: {
+            format: string;
+            formatVersion: number;
+            /** @description Signed record, chain and batch details (see proofBundle.js) */
+            payload: {
+                [key: string]: unknown;
+            };
+            signature: {
+                algorithm: string;
+                signer: string;
+                value: string;
+            };
+        };
+        BatchAnchor: {
+            transactionHash: string;
+            blockNumber: number;
+            onChainBatchId: string;
+            chainId?: string;
+            contractAddress?: string;
+            anchorerAddress?: string;
+            /** Format: date-time */
+            anchoredAt?: string;
+            eventLog?: components["schemas"]["EventLog"] | null;
+        };
+        Batch: {
+            id: string;
+            merkleRoot: string;
+            leafCount: number;
+            fileIds: string[];
+            /** Format: date-time */
+            createdAt: string;
+            /** @enum {string} */
+            status: "pending" | "anchored" | "failed";
+            anchor: components["schemas"]["BatchAnchor"] | null;
+            error: string | null;
+        };
+        BatchDetails: components["schemas"]["Batch"] & {
+            files: components["schemas"]["FileRecord"][];
+        };
+        VerifiedRecord: {
+            id: string;
+            originalName: string;
+            fileHash: string;
+            digests: components["schemas"]["Digest"][];
+            /** Format: date-time */
+            uploadTime: string;
+            description: string;
+            version: number;
+            revocation: components["schemas"]["Revocation"] | null;
+        };
+        LatestVersion: {
+            id: string;
+            version: number;
+            /** Format: date-time */
+            uploadTime: string;
+        };
+        BatchInclusion: components["schemas"]["BatchLeaf"] & {
+            /** @enum {string} */
+            status: "pending" | "anchored" | "failed" | "missing";
+            merkleRoot: string | null;
+            anchor: components["schemas"]["BatchAnchor"] | null;
+            proofValid: boolean;
+            onChainVerified: boolean | null;
+            onChainError: string | null;
+        };
+        VerificationResult: {
+            success: boolean;
+            isValid: boolean;
+            status: components["schemas"]["VerificationOutcome"];
+            message: string;
+            /** @description Set when the file or hash matched a record */
+            data?: components["schemas"]["VerifiedRecord"];
+            revocation?: components["schemas"]["Revocation"] | null;
+            latestVersion?: components["schemas"]["LatestVersion"] | null;
+            batch?: components["schemas"]["BatchInclusion"] | null;
+            matchedAlgorithm?: string | null;
+            /** @description Set when an uploaded file matched nothing */
+            calculatedHash?: string;
+            calculatedDigests?: components["schemas"]["Digest"][];
+        };
+        VerificationEntry: {
+            id: string;
+            /** Format: date-time */
+            timestamp: string;
+            /** @enum {string} */
+            source: "api" | "chain";
+            method: components["schemas"]["VerificationMethod"];
+            outcome: components["schemas"]["VerificationOutcome"];
+            calculatedHash: string | null;
+            algorithm: string | null;
+            fileId: string | null;
+            requester: {
+                userId?: string | null;
+                address: string | null;
+                ip: string | null;
+                userAgent: string | null;
+            };
+            chain: {
+                transactionHash: string;
+                blockNumber: number;
+                logIndex: number;
+                onChainFileId: string;
+            } | null;
+            file: {
+                id: string;
+                originalName: string;
+                fileHash: string;
+                version: number;
+            } | null;
+        };
+        /** @enum {string} */
+        BulkResult: "matched" | "tampered" | "unknown" | "error";
+        BulkRecord: {
+            id: string;
+            originalName: string;
+            fileHash: string;
+            version: number;
+        };
+        BulkVerificationItem: {
+            index: number;
+            name: string;
+            size: number;
+            fileHash: string | null;
+            result: components["schemas"]["BulkResult"];
+            status?: components["schemas"]["VerificationOutcome"];
+            isValid?: boolean;
+            /** @description Matched record (matched only) */
+            record?: components["schemas"]["BulkRecord"];
+            /** @description Record whose name the file carries (tampered only) */
+            expected?: components["schemas"]["BulkRecord"];
+            error?: string;
+        };
+        BulkVerificationReport: {
+            /** Format: date-time */
+            generatedAt: string;
+            summary: {
+                total: number;
+                matched: number;
+                valid: number;
+                tampered: number;
+                unknown: number;
+                errors: number;
+            };
+            results: components["schemas"]["BulkVerificationItem"][];
+        };
+        ManifestIssue: {
+            line: number;
+            message: string;
+        };
+        JsonManifest: {
+            format: string;
+            version: number;
+            /** Format: date-time */
+            generatedAt: string;
+            algorithm: string;
+            files: {
+                [key: string]: unknown;
+            }[];
+        };
+        /** @enum {string} */
+        ManifestImportResult: "registered" | "existing" | "duplicate";
+        ManifestImportEntry: {
+            line: number;
+            name: string;
+            fileHash: string;
+            result: components["schemas"]["ManifestImportResult"];
+            recordId?: string | null;
+        };
+        ManifestImportReport: {
+            format: components["schemas"]["ManifestFormat"];
+            uploadBatchId: string | null;
+            summary: {
+                total: number;
+                registered: number;
+                existing: number;
+                duplicate: number;
+                invalid: number;
+            };
+            results: components["schemas"]["ManifestImportEntry"][];
+            errors: components["schemas"]["ManifestIssue"][];
+        };
+        /** @enum {string} */
+        ManifestEntryStatus: "ok" | "modified" | "missing";
+        ManifestCheckEntry: {
+            name: string;
+            path?: string;
+            expectedHash: string;
+            actualHash: string | null;
+            status: components["schemas"]["ManifestEntryStatus"];
+            /** @description Verification status of the expected hash, null when it was never registered */
+            registration: {
+                status: components["schemas"]["VerificationOutcome"];
+                isValid: boolean;
+                record: components["schemas"]["VerifiedRecord"];
+            } | null;
+        };
+        ManifestCheckReport: {
+            /** Format: date-time */
+            generatedAt: string;
+            format: components["schemas"]["ManifestFormat"];
+            summary: {
+                total: number;
+                ok: number;
+                modified: number;
+                missing: number;
+                extra: number;
+                registered: number;
+            };
+            entries: components["schemas"]["ManifestCheckEntry"][];
+            extra: {
+                path: string;
+                actualHash: string;
+            }[];
+            errors: components["schemas"]["ManifestIssue"][];
+        };
+        AuditReportReceipt: {
+            /** @description Signed summary of the generated document */
+            report: {
+                /** @enum {string} */
+                type: "audit-report";
+                fileName: string;
+                format: components["schemas"]["ReportFormat"];
+                sha256: components["schemas"]["Sha256Hex"];
+                /** Format: date-time */
+                generatedAt: string;
+                recordId: components["schemas"]["FileId"];
+                recordCount: number;
+            };
+            signature: {
+                algorithm: string;
+                signer: string;
+                value: string;
+            };
+            /** @description Registry record of the report; download it from /api/ipfs/{record.ipfsHash} */
+            record: components["schemas"]["FileRecord"];
+        };
+        ChainEvent: {
+            id: string;
+            /** @enum {string} */
+            event: "FileUploaded" | "FileVerified" | "FileRevoked";
+            blockNumber: number;
+            blockHash: string;
+            transactionHash: string;
+            logIndex: number;
+            /** Format: date-time */
+            timestamp: string;
+            onChainFileId: string;
+            /** @description Null for FileRevoked, which carries no hash */
+            fileHash: string | null;
+            uploader?: string;
+            fileName?: string;
+            ipfsHash?: string;
+            description?: string;
+            verifier?: string;
+            isValid?: boolean;
+            reason?: string;
+            revokedBy?: string;
+            eventLog?: components["schemas"]["EventLog"];
+        };
+        ChainFile: components["schemas"]["ChainEvent"] & {
+            verificationCount: number;
+        };
+        ChainFileDetails: components["schemas"]["ChainEvent"] & {
+            recordId: string | null;
+            verifications: components["schemas"]["ChainEvent"][];
+        };
+        Reorg: {
+            /** Format: date-time */
+            detectedAt: string;
+            reason: string;
+            previousBlock: number;
+            resumedFromBlock: number;
+            removedEvents: number;
+        };
+        ChainStatus: {
+            configured: boolean;
+            cursor: {
+                chainId: string;
+                contractAddress: string;
+                blockNumber: number;
+                blockHash: string;
+                /** Format: date-time */
+                updatedAt: string;
+            } | null;
+            headBlock: number | null;
+            headError: string | null;
+            lag: number | null;
+            eventCounts: {
+                [key: string]: number;
+            };
+            syncing: boolean;
+            /** Format: date-time */
+            lastSyncAt: string | null;
+            lastError: string | null;
+            lastReorg: components["schemas"]["Reorg"] | null;
+        };
+        ChainSyncResult: {
+            fromBlock: number;
+            toBlock: number;
+            indexed: number;
+            reorg: components["schemas"]["Reorg"] | null;
+        };
+        ReconciliationReport: {
+            /** Format: date-time */
+            generatedAt: string;
+            indexedThroughBlock: number;
+            summary: {
+                offChainRecords: number;
+                onChainFiles: number;
+                matched: number;
+                batched: number;
+                offChainOnly: number;
+                onChainOnly: number;
+                mismatched: number;
+            };
+            offChainOnly: {
+                fileId: string;
+                fileHash: string;
+                originalName: string;
+                /** Format: date-time */
+                uploadTime: string;
+                claimedOnChainFileId: string | null;
+            }[];
+            onChainOnly: {
+                onChainFileId: string;
+                fileHash: string;
+                fileName: string;
+                uploader: string;
+                transactionHash: string;
+                blockNumber: number;
+                /** Format: date-time */
+                timestamp: string;
+            }[];
+            mismatched: {
+                fileId: string;
+                fileHash: string;
+                onChainFileId: string;
+                transactionHash: string;
+                problems: string[];
+            }[];
+        };
+        IntegrityCounts: {
+            ok: number;
+            modified: number;
+            missing: number;
+            error: number;
+        };
+        IntegrityRun: {
+            /** Format: date-time */
+            startedAt: string;
+            /** Format: date-time */
+            finishedAt: string;
+            checked: number;
+            counts: components["schemas"]["IntegrityCounts"];
+            drifted: number;
+        };
+        IntegrityOverview: {
+            /** @enum {string} */
+            status: "ok" | "drift" | "degraded";
+            intervalMinutes: number;
+            checking: boolean;
+            lastRun: components["schemas"]["IntegrityRun"] | null;
+            counts: components["schemas"]["IntegrityCounts"] & {
+                unchecked: number;
+            };
+            files: {
+                id: string;
+                originalName: string;
+                fileHash: string;
+                status: components["schemas"]["IntegrityStatus"] | null;
+                /** Format: date-time */
+                lastCheckedAt: string | null;
+                /** Format: date-time */
+                lastVerifiedAt: string | null;
+            }[];
+        };
+        Health: {
+            status: string;
+            message: string;
+            hashAlgorithms: components["schemas"]["HashAlgorithm"][];
+            chain: {
+                rpcUrl: string;
+                chainId: number;
+                contractAddress: string | null;
+                canAnchor: boolean;
+            };
+            proofSigner: string;
+            batchIntervalMinutes: number;
+            /** Format: date-time */
+            timestamp: string;
+        };
+        HashResult: {
+            success: boolean;
+            fileHash: string;
+            digests: components["schemas"]["Digest"][];
+            ipfsHash: string;
+            fileName: string;
+            size: number;
+        };
+    };
+    responses: {
+        /** @description Invalid request */
+        BadRequest: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["ErrorResponse"];
+            };
+        };
+        /** @description Authentication required or failed */
+        Unauthorized: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["ErrorResponse"];
+            };
+        };
+        /** @description Not allowed for this account */
+        Forbidden: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["ErrorResponse"];
+            };
+        };
+        /** @description Not found */
+        NotFound: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["ErrorResponse"];
+            };
+        };
+        /** @description Conflicts with the current state */
+        Conflict: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["ErrorResponse"];
+            };
+        };
+        /** @description Upload limits exceeded */
+        PayloadTooLarge: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["ErrorResponse"];
+            };
+        };
+        /** @description Unexpected server error */
+        ServerError: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["ErrorResponse"];
+            };
+        };
+        /** @description FileIntegrity contract address is not configured */
+        ServiceUnavailable: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["ErrorResponse"];
+            };
+        };
+    };
+    parameters: never;
+    requestBodies: never;
+    headers: never;
+    pathItems: never;
+}
+export type $defs = Record<string, never>;
+export interface operations {
+    getHealth: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Service is up */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Health"];
+                };
+            };
+        };
+    };
+    getOpenApiDocument: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OpenAPI document */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        [key: string]: unknown;
+                    };
+                };
+            };
+        };
+    };
+    register: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": {
+                    email: string;
+                    password: string;
+                    name?: string;
+                };
+            };
+        };
+        responses: {
+            /** @description Account created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["Session"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            403: components["responses"]["Forbidden"];
+            409: components["responses"]["Conflict"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    login: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": {
+                    email: string;
+                    password: string;
+                };
+            };
+        };
+        responses: {
+            /** @description Signed in */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["Session"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    createSiweChallenge: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": {
+                    address: components["schemas"]["EthereumAddress"];
+                    chainId?: number | string;
+                };
+            };
+        };
+        responses: {
+            /** @description Message to sign */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["SiweChallenge"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            403: components["responses"]["Forbidden"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    verifySiwe: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": {
+                    message: string;
+                    signature: string;
+                };
+            };
+        };
+        responses: {
+            /** @description Signed in */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["Session"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            409: components["responses"]["Conflict"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    logout: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Signed out */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message: string;
+                    };
+                };
+            };
+        };
+    };
+    getCurrentUser: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Current account */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["CurrentUser"];
+                    };
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    createApiKey: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: {
+            content: {
+                "application/json": {
+                    name?: string;
+                };
+            };
+        };
+        responses: {
+            /** @description API key created */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["CreatedApiKey"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    revokeApiKey: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                keyId: components["schemas"]["Uuid"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description API key revoked */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message: string;
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            404: components["responses"]["NotFound"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    listUsers: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Accounts */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["User"][];
+                    };
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    updateUser: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["schemas"]["Uuid"];
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": {
+                    role: components["schemas"]["Role"];
+                };
+            };
+        };
+        responses: {
+            /** @description Role updated */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["User"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            404: components["responses"]["NotFound"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    uploadFile: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "multipart/form-data": {
+                    /** Format: binary */
+                    file: string;
+                    description?: components["schemas"]["Description"];
+                    /** @default individual */
+                    anchorMode?: components["schemas"]["AnchorMode"];
+                };
+            };
+        };
+        responses: {
+            /** @description File registered */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["FileRecord"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            409: components["responses"]["Conflict"];
+            413: components["responses"]["PayloadTooLarge"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    uploadFiles: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "multipart/form-data": {
+                    files: string[];
+                    description?: components["schemas"]["Description"];
+                    /** @default individual */
+                    anchorMode?: components["schemas"]["AnchorMode"];
+                    /** @description JSON array with the relative path of every file, in upload order (folder uploads) */
+                    relativePaths?: string;
+                    /** @description Add the files to an earlier upload */
+                    uploadBatchId?: components["schemas"]["Uuid"];
+                };
+            };
+        };
+        responses: {
+            /** @description Every file registered */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["BatchUploadReport"];
+                    };
+                };
+            };
+            /** @description Some files failed, see the per-file results */
+            207: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["BatchUploadReport"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            404: components["responses"]["NotFound"];
+            413: components["responses"]["PayloadTooLarge"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    verifyFile: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "multipart/form-data": {
+                    /** Format: binary */
+                    file: string;
+                };
+            };
+        };
+        responses: {
+            /** @description Verification result */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["VerificationResult"];
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            413: components["responses"]["PayloadTooLarge"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    verifyFiles: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "multipart/form-data": {
+                    files: string[];
+                    /** @description JSON array with the relative path of every file, in upload order (folder uploads) */
+                    relativePaths?: string;
+                };
+            };
+        };
+        responses: {
+            /** @description Per-file results */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["BulkVerificationReport"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            413: components["responses"]["PayloadTooLarge"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    verifyHash: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": {
+                    fileHash: components["schemas"]["DigestInput"];
+                    /** @description Algorithm of the digest; must match its tag if tagged, matched by length when omitted */
+                    algorithm?: components["schemas"]["HashAlgorithm"];
+                    /**
+                     * @description Logged as a check of a browser-hashed file when "local"
+                     * @enum {string}
+                     */
+                    method?: "hash" | "local";
+                };
+            };
+        };
+        responses: {
+            /** @description Verification result */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["VerificationResult"];
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    exportManifest: {
+        parameters: {
+            query?: {
+                format?: components["schemas"]["ManifestFormat"];
+                /** @description Comma-separated record ids */
+                ids?: string;
+                /** @description Only records of this multi-file upload */
+                uploadBatchId?: components["schemas"]["Uuid"];
+                /** @description Text in the file name or description */
+                q?: string;
+                /** @description Start of the SHA-256 or any other digest */
+                hash?: string;
+                /** @description MIME type, or a whole type as "image/*" */
+                mimetype?: string;
+                status?: components["schemas"]["FileStatus"];
+                /** @description Account id or wallet address of the uploader */
+                uploader?: components["schemas"]["Uuid"] | components["schemas"]["EthereumAddress"];
+                /** @description Uploaded at or after */
+                from?: string;
+                /** @description Uploaded at or before */
+                to?: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Manifest download */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "text/plain": string;
+                    "application/json": components["schemas"]["JsonManifest"];
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    importManifest: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "multipart/form-data": {
+                    /** Format: binary */
+                    manifest: string;
+                    description?: components["schemas"]["Description"];
+                };
+            };
+        };
+        responses: {
+            /** @description Import report */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["ManifestImportReport"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            413: components["responses"]["PayloadTooLarge"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    verifyManifest: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "multipart/form-data": {
+                    /** Format: binary */
+                    manifest: string;
+                    files?: string[];
+                    /** @description JSON array with the relative path of every file, in upload order (folder uploads) */
+                    relativePaths?: string;
+                };
+            };
+        };
+        responses: {
+            /** @description Per-entry results */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["ManifestCheckReport"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            413: components["responses"]["PayloadTooLarge"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    createAuditReport: {
+        parameters: {
+            query?: {
+                format?: components["schemas"]["ReportFormat"];
+                /** @description Only records of this multi-file upload */
+                uploadBatchId?: components["schemas"]["Uuid"];
+                /** @description Text in the file name or description */
+                q?: string;
+                /** @description Start of the SHA-256 or any other digest */
+                hash?: string;
+                /** @description MIME type, or a whole type as "image/*" */
+                mimetype?: string;
+                status?: components["schemas"]["FileStatus"];
+                /** @description Account id or wallet address of the uploader */
+                uploader?: components["schemas"]["Uuid"] | components["schemas"]["EthereumAddress"];
+                /** @description Uploaded at or after */
+                from?: string;
+                /** @description Uploaded at or before */
+                to?: string;
+                sort?: components["schemas"]["FileSortField"];
+                order?: components["schemas"]["SortOrder"];
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Report registered */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["AuditReportReceipt"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    listFiles: {
+        parameters: {
+            query?: {
+                /** @description Only records of this multi-file upload */
+                uploadBatchId?: components["schemas"]["Uuid"];
+                /** @description Text in the file name or description */
+                q?: string;
+                /** @description Start of the SHA-256 or any other digest */
+                hash?: string;
+                /** @description MIME type, or a whole type as "image/*" */
+                mimetype?: string;
+                status?: components["schemas"]["FileStatus"];
+                /** @description Account id or wallet address of the uploader */
+                uploader?: components["schemas"]["Uuid"] | components["schemas"]["EthereumAddress"];
+                /** @description Uploaded at or after */
+                from?: string;
+                /** @description Uploaded at or before */
+                to?: string;
+                sort?: components["schemas"]["FileSortField"];
+                order?: components["schemas"]["SortOrder"];
+                /** @description nextCursor of the previous page */
+                cursor?: string;
+                /** @description Maximum number of entries, capped at 500 */
+                limit?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description One page of records */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        count: number;
+                        /** @description Records matching the query, counted on the first page only */
+                        total: number | null;
+                        nextCursor: string | null;
+                        data: components["schemas"]["FileRecord"][];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    getFile: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["schemas"]["FileId"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Record */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["FileRecord"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            404: components["responses"]["NotFound"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    deleteFile: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["schemas"]["FileId"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Record deleted */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message: string;
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            404: components["responses"]["NotFound"];
+            409: components["responses"]["Conflict"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    getFileVerifications: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["schemas"]["FileId"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Verifications */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        count: number;
+                        data: components["schemas"]["VerificationEntry"][];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            404: components["responses"]["NotFound"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    getFileIntegrity: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["schemas"]["FileId"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Status and drift events */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["FileIntegrityReport"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            404: components["responses"]["NotFound"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    getFileVersions: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["schemas"]["FileId"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Versions */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        count: number;
+                        data: components["schemas"]["FileRecord"][];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            404: components["responses"]["NotFound"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    uploadVersion: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["schemas"]["FileId"];
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "multipart/form-data": {
+                    /** Format: binary */
+                    file: string;
+                    description?: components["schemas"]["Description"];
+                    /** @default individual */
+                    anchorMode?: components["schemas"]["AnchorMode"];
+                };
+            };
+        };
+        responses: {
+            /** @description Version registered */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["FileRecord"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            404: components["responses"]["NotFound"];
+            409: components["responses"]["Conflict"];
+            413: components["responses"]["PayloadTooLarge"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    getProofBundle: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["schemas"]["FileId"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Proof bundle download */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ProofBundle"];
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            404: components["responses"]["NotFound"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    attachBlockchainRecord: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["schemas"]["FileId"];
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": {
+                    transactionHash: components["schemas"]["TransactionHash"];
+                    blockNumber?: number;
+                    onChainFileId: string | number;
+                    chainId?: string | number | null;
+                    contractAddress?: components["schemas"]["EthereumAddress"] | null;
+                    uploaderAddress?: components["schemas"]["EthereumAddress"] | null;
+                    /** @description Log of the FileUploaded event */
+                    eventLog?: components["schemas"]["EventLog"] | null;
+                };
+            };
+        };
+        responses: {
+            /** @description Record updated */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["FileRecord"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            404: components["responses"]["NotFound"];
+            409: components["responses"]["Conflict"];
+            500: components["responses"]["ServerError"];
+            503: components["responses"]["ServiceUnavailable"];
+        };
+    };
+    revokeFile: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["schemas"]["FileId"];
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": {
+                    reason: string;
+                    /** @description FileIntegrity.revokeFile transaction; its receipt must contain FileRevoked for the file */
+                    transactionHash?: components["schemas"]["TransactionHash"];
+                };
+            };
+        };
+        responses: {
+            /** @description File revoked */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["FileRecord"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            404: components["responses"]["NotFound"];
+            409: components["responses"]["Conflict"];
+            500: components["responses"]["ServerError"];
+            503: components["responses"]["ServiceUnavailable"];
+        };
+    };
+    listVerifications: {
+        parameters: {
+            query?: {
+                outcome?: components["schemas"]["VerificationOutcome"];
+                method?: components["schemas"]["VerificationMethod"];
+                fileId?: components["schemas"]["FileId"];
+                /** @description Maximum number of entries, capped at 500 */
+                limit?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Log entries */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        count: number;
+                        data: components["schemas"]["VerificationEntry"][];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    getChainStatus: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Indexer status */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["ChainStatus"];
+                    };
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    syncChain: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Indexed range */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["ChainSyncResult"];
+                    };
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            500: components["responses"]["ServerError"];
+            503: components["responses"]["ServiceUnavailable"];
+        };
+    };
+    listChainFiles: {
+        parameters: {
+            query?: {
+                uploader?: components["schemas"]["EthereumAddress"];
+                fileHash?: components["schemas"]["Sha256Hex"];
+                /** @description Maximum number of entries, capped at 500 */
+                limit?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description On-chain files */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        count: number;
+                        data: components["schemas"]["ChainFile"][];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    getChainFile: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                onChainFileId: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description On-chain file */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["ChainFileDetails"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            404: components["responses"]["NotFound"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    listChainVerifications: {
+        parameters: {
+            query?: {
+                verifier?: components["schemas"]["EthereumAddress"];
+                isValid?: boolean;
+                fileHash?: components["schemas"]["Sha256Hex"];
+                /** @description Maximum number of entries, capped at 500 */
+                limit?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description On-chain verifications */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        count: number;
+                        data: components["schemas"]["ChainEvent"][];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    getReconciliation: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Reconciliation report */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["ReconciliationReport"];
+                    };
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            409: components["responses"]["Conflict"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    getIntegrity: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Status counts and per-file status */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["IntegrityOverview"];
+                    };
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    checkIntegrity: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Check summary */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["IntegrityRun"];
+                    };
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    listBatches: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Batches */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        count: number;
+                        pendingFiles: number;
+                        data: components["schemas"]["Batch"][];
+                    };
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    createBatch: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Batch, or null when nothing is pending */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["Batch"] | null;
+                    };
+                };
+            };
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    getBatch: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["schemas"]["BatchId"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Batch */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["BatchDetails"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            404: components["responses"]["NotFound"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    anchorBatch: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["schemas"]["BatchId"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Batch */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        success: boolean;
+                        message?: string;
+                        data: components["schemas"]["Batch"];
+                    };
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            403: components["responses"]["Forbidden"];
+            404: components["responses"]["NotFound"];
+            409: components["responses"]["Conflict"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    calculateHash: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "multipart/form-data": {
+                    /** Format: binary */
+                    file: string;
+                };
+            };
+        };
+        responses: {
+            /** @description Digests */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["HashResult"];
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            413: components["responses"]["PayloadTooLarge"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+    getIpfsContent: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                cid: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description File content */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/octet-stream": string;
+                };
+            };
+            400: components["responses"]["BadRequest"];
+            401: components["responses"]["Unauthorized"];
+            404: components["responses"]["NotFound"];
+            500: components["responses"]["ServerError"];
+        };
+    };
+}
@@ -0,0 +1,10 @@
+import { apiClient, type RequestOptions } from './client';
+import type { Health } from './types';
+
+/**
+ * Backend status with its chain configuration and proof signing address
+ */
+export async function getHealth(options: RequestOptions = {}): Promise<Health> {
+  const response = await apiClient.get('/health', options);
+  return response.data;
+}
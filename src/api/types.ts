@@ -0,0 +1,74 @@
+import type { components, operations } from './schema';
+
+/**
+ * Request and response shapes of the backend API, generated from its OpenAPI
+ * document (backend/src/openapi/document.js) into ./schema.d.ts by
+ * `npm run generate:api`
+ */
+
+type Schemas = components['schemas'];
+
+export type AnchorMode = Schemas['AnchorMode'];
+export type VerificationOutcome = Schemas['VerificationOutcome'];
+export type IntegrityStatus = Schemas['IntegrityStatus'];
+export type ManifestFormat = Schemas['ManifestFormat'];
+export type ErrorCode = Schemas['ErrorCode'];
+export type ErrorResponse = Schemas['ErrorResponse'];
+export type ValidationIssue = Schemas['ValidationIssue'];
+
+export type Revocation = Schemas['Revocation'];
+export type BlockchainRecord = Schemas['BlockchainRecord'];
+// Leaf of a record in its Merkle batch
+export type BatchLeaf = Schemas['BatchLeaf'];
+export type IntegrityCheck = Schemas['IntegrityCheck'];
+export type IntegrityEvent = Schemas['IntegrityEvent'];
+export type FileRecord = Schemas['FileRecord'];
+export type FileIntegrityReport = Schemas['FileIntegrityReport'];
+
+export type FileSortField = Schemas['FileSortField'];
+export type SortOrder = Schemas['SortOrder'];
+export type FileStatus = Schemas['FileStatus'];
+
+/**
+ * Filters, sort order and page of GET /api/files
+ */
+export type FileQuery = NonNullable<operations['listFiles']['parameters']['query']>;
+// Record filters of FileQuery, also accepted by the manifest export
+export type FileFilters = Omit<FileQuery, 'sort' | 'order' | 'cursor' | 'limit'>;
+
+/**
+ * Details of the FileIntegrity transaction sent to POST /api/files/:id/blockchain
+ */
+export type BlockchainRegistration = operations['attachBlockchainRecord']['requestBody']['content']['application/json'];
+
+/**
+ * Revocation reason, plus the FileIntegrity.revokeFile transaction for files recorded on-chain
+ */
+export type RevocationDetails = operations['revokeFile']['requestBody']['content']['application/json'];
+
+// Per-file outcome reported by /api/upload/batch
+export type BatchUploadResult = Schemas['BatchUploadResult'];
+export type BatchUploadReport = Schemas['BatchUploadReport'];
+
+export type VerifiedRecord = Schemas['VerifiedRecord'];
+export type BatchInclusion = Schemas['BatchInclusion'];
+export type VerificationResult = Schemas['VerificationResult'];
+export type VerificationEntry = Schemas['VerificationEntry'];
+
+export type BulkResult = Schemas['BulkResult'];
+export type BulkRecord = Schemas['BulkRecord'];
+export type BulkVerificationItem = Schemas['BulkVerificationItem'];
+export type BulkVerificationReport = Schemas['BulkVerificationReport'];
+
+export type ReportFormat = Schemas['ReportFormat'];
+// Signed summary and registry record of a generated audit report
+export type AuditReportReceipt = Schemas['AuditReportReceipt'];
+
+export type ManifestImportResult = Schemas['ManifestImportResult'];
+export type ManifestImportReport = Schemas['ManifestImportReport'];
+export type ManifestEntryStatus = Schemas['ManifestEntryStatus'];
+export type ManifestCheckEntry = Schemas['ManifestCheckEntry'];
+export type ManifestCheckReport = Schemas['ManifestCheckReport'];
+
+// Chain configuration and the proofSigner address published by GET /api/health
+export type Health = Schemas['Health'];
@@ -0,0 +1,86 @@
+import { apiClient, type RequestOptions } from './client';
+import type {
+  BulkVerificationReport,
+  ManifestCheckReport,
+  VerificationEntry,
+  VerificationOutcome,
+  VerificationResult,
+} from './types';
+import type { SelectedFile } from '../utils/fileSelection';
+
+/**
+ * Upload a file and look its hash up in the records
+ */
+export async function verifyFile(file: File, options: RequestOptions = {}): Promise<VerificationResult> {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await apiClient.post('/verify', formData, options);
+  return response.data;
+}
+
+export interface VerifyHashOptions {
+  // Restrict the lookup to one digest algorithm
+  algorithm?: string;
+  // Logged as a local (browser-hashed) check instead of a hash lookup
+  method?: 'hash' | 'local';
+}
+
+export async function verifyHash(
+  fileHash: string,
+  { algorithm, method }: VerifyHashOptions = {},
+  options: RequestOptions = {}
+): Promise<VerificationResult> {
+  const response = await apiClient.post('/verify-hash', { fileHash, algorithm, method }, options);
+  return response.data;
+}
+
+/**
+ * Verify several files or ZIP archives in one request
+ */
+export async function verifyBatch(files: SelectedFile[], options: RequestOptions = {}): Promise<BulkVerificationReport> {
+  const formData = new FormData();
+  for (const { file } of files) {
+    formData.append('files', file);
+  }
+  formData.append('relativePaths', JSON.stringify(files.map(({ path }) => path)));
+  const response = await apiClient.post('/verify/batch', formData, options);
+  return response.data.data;
+}
+
+/**
+ * Check files against a sha256sum or JSON manifest
+ */
+export async function verifyManifest(
+  manifest: File,
+  files: SelectedFile[],
+  options: RequestOptions = {}
+): Promise<ManifestCheckReport> {
+  const formData = new FormData();
+  formData.append('manifest', manifest);
+  for (const { file } of files) {
+    formData.append('files', file);
+  }
+  formData.append('relativePaths', JSON.stringify(files.map(({ path }) => path)));
+  const response = await apiClient.post('/manifest/verify', formData, options);
+  return response.data.data;
+}
+
+/**
+ * Verification log of the files the user can see
+ */
+export async function listVerifications(
+  outcome?: VerificationOutcome,
+  options: RequestOptions = {}
+): Promise<VerificationEntry[]> {
+  const response = await apiClient.get('/verifications', { ...options, params: { outcome } });
+  return response.data.data || [];
+}
+
+/**
+ * Run the backend's chain indexer, which adds FileVerified events to the log;
+ * resolves with the backend's summary
+ */
+export async function syncVerifications(options: RequestOptions = {}): Promise<string> {
+  const response = await apiClient.post('/chain/sync', undefined, options);
+  return response.data.message;
+}
@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  TextField,
+  Chip,
+  Alert,
+  CircularProgress,
+  Tabs,
+  Tab,
+  List,
+  ListItem,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  Divider,
+} from '@mui/material';
+import {
+  AccountCircle,
+  Login,
+  Logout,
+  Key,
+  Delete,
+  ContentCopy,
+  AccountBalanceWallet,
+} from '@mui/icons-material';
+import { getErrorMessage } from '../api';
+import {
+  login,
+  register,
+  logout,
+  fetchCurrentUser,
+  createApiKey,
+  revokeApiKey,
+  type AuthUser,
+  type CreatedApiKey,
+} from '../utils/auth';
+
+interface AccountPanelProps {
+  user: AuthUser | null;
+  onUserChange: (user: AuthUser | null) => void;
+}
+
+const formatAddress = (address: string | null): string =>
+  address ? `${address.substring(0, 6)}...${address.substring(address.length - 4)}` : '';
+
+/**
+ * Sign in to the backend and manage API keys for scripted access
+ */
+const AccountPanel: React.FC<AccountPanelProps> = ({ user, onUserChange }) => {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [keyName, setKeyName] = useState('');
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const signedIn = mode === 'login'
+        ? await login(email, password)
+        : await register(email, password, name);
+      setPassword('');
+      onUserChange(signedIn);
+    } catch (error) {
+      setError(getErrorMessage(error, mode === 'login' ? 'Failed to sign in' : 'Failed to create account'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const signOut = async () => {
+    await logout();
+    setCreatedKey(null);
+    onUserChange(null);
+  };
+
+  const addApiKey = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      setCreatedKey(await createApiKey(keyName || 'API key'));
+      setKeyName('');
+      onUserChange(await fetchCurrentUser());
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to create API key'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const removeApiKey = async (id: string) => {
+    setError(null);
+
+    try {
+      await revokeApiKey(id);
+      if (createdKey?.id === id) setCreatedKey(null);
+      onUserChange(await fetchCurrentUser());
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to revoke API key'));
+    }
+  };
+
+  return (
+    <Card elevation={3} sx={{ mb: 3 }}>
+      <CardContent>
+        <Typography variant="h5" gutterBottom sx={{ display: 'flex', alignItems: 'center' }}>
+          <AccountCircle sx={{ mr: 1 }} />
+          Account
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {user ? (
+          <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+              <Typography variant="body1">
+                Signed in as <strong>{user.name || user.email || formatAddress(user.walletAddress)}</strong>
+              </Typography>
+              {user.walletAddress && (
+                <Tooltip title={user.walletAddress}>
+                  <Chip icon={<AccountBalanceWallet />} label={formatAddress(user.walletAddress)} size="small" variant="outlined" />
+                </Tooltip>
+              )}
+              <Chip label={user.role === 'admin' ? 'Admin' : 'User'} size="small" color={user.role === 'admin' ? 'secondary' : 'default'} />
+              <Box sx={{ flexGrow: 1 }} />
+              <Button variant="outlined" size="small" startIcon={<Logout />} onClick={signOut}>
+                Sign Out
+              </Button>
+            </Box>
+
+            <Divider sx={{ mb: 2 }} />
+
+            <Typography variant="subtitle1" gutterBottom>
+              API Keys
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Send a key as the X-API-Key header to use the API from scripts and CI.
+            </Typography>
+
+            {createdKey && (
+              <Alert
+                severity="warning"
+                sx={{ mb: 2 }}
+                action={
+                  <Tooltip title="Copy key">
+                    <IconButton size="small" onClick={() => navigator.clipboard.writeText(createdKey.key)}>
+                      <ContentCopy fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                }
+              >
+                Copy "{createdKey.name}" now, it will not be shown again:
+                <Box component="div" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  {createdKey.key}
+                </Box>
+              </Alert>
+            )}
+
+            {user.apiKeys.length > 0 && (
+              <List dense>
+                {user.apiKeys.map(apiKey => (
+                  <ListItem
+                    key={apiKey.id}
+                    secondaryAction={
+                      <Tooltip title="Revoke key">
+                        <IconButton edge="end" size="small" onClick={() => removeApiKey(apiKey.id)}>
+                          <Delete fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    }
+                  >
+                    <ListItemText
+                      primary={apiKey.name}
+                      secondary={`${apiKey.prefix}... · created ${new Date(apiKey.createdAt).toLocaleString()}`}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <TextField
+                size="small"
+                label="Key Name"
+                value={keyName}
+                onChange={(e) => setKeyName(e.target.value)}
+                placeholder="e.g. CI pipeline"
+              />
+              <Button
+                variant="outlined"
+                startIcon={<Key />}
+                onClick={addApiKey}
+                disabled={isSubmitting}
+              >
+                Create Key
+              </Button>
+            </Box>
+          </Box>
+        ) : (
+          <Box component="form" onSubmit={submit}>
+            <Tabs value={mode} onChange={(_, value) => setMode(value)} sx={{ mb: 2 }}>
+              <Tab value="login" label="Sign In" />
+              <Tab value="register" label="Create Account" />
+            </Tabs>
+
+            <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2 }}>
+              {mode === 'register' && (
+                <TextField
+                  size="small"
+                  label="Name (Optional)"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              )}
+              <TextField
+                size="small"
+                type="email"
+                label="Email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+              <TextField
+                size="small"
+                type="password"
+                label="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                helperText={mode === 'register' ? 'At least 8 characters' : undefined}
+                required
+              />
+              <Button
+                type="submit"
+                variant="contained"
+                disabled={isSubmitting}
+                startIcon={isSubmitting ? <CircularProgress size={20} /> : <Login />}
+                sx={{ alignSelf: 'flex-start' }}
+              >
+                {mode === 'login' ? 'Sign In' : 'Create Account'}
+              </Button>
+            </Box>
+
+            <Alert severity="info" sx={{ mt: 2 }}>
+              <Typography variant="body2">
+                Sign in to upload files and see your audit trail, or use "Sign In with Ethereum" once your
+                wallet is connected. Verifying a file works without an account.
+              </Typography>
+            </Alert>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AccountPanel;
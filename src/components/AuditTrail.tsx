@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Card,
   CardContent,
@@ -11,14 +11,28 @@ import {
   TableContainer,
   TableHead,
   TableRow,
+  TablePagination,
+  TableSortLabel,
   Paper,
   Chip,
   IconButton,
   Tooltip,
   Alert,
   CircularProgress,
+  LinearProgress,
   TextField,
+  MenuItem,
   InputAdornment,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  List,
+  ListItem,
+  ListItemText,
+  Tabs,
+  Tab,
+  Divider,
 } from '@mui/material';
 import {
   History,
@@ -28,62 +42,406 @@ import {
   Description,
   AccessTime,
   Fingerprint,
+  FactCheck,
+  Inventory,
+  Block,
+  GppGood,
+  GppBad,
+  GppMaybe,
+  FolderCopy,
+  Download,
+  UploadFile,
 } from '@mui/icons-material';
-import axios from 'axios';
-
-interface FileRecord {
-  id: string;
-  originalName: string;
-  fileHash: string;
-  ipfsHash: string;
-  description: string;
-  uploadTime: string;
-  size: number;
-  mimetype: string;
+import { ethers } from 'ethers';
+import { getFileIntegrityContract, getContractErrorMessage } from '../contracts/fileIntegrity';
+import VerificationLog, { VerificationTimeline } from './VerificationLog';
+import {
+  createAuditReport,
+  exportManifest,
+  getErrorMessage,
+  getFileIntegrity,
+  getFileVerifications,
+  getFileVersions,
+  getIpfsContent,
+  importManifest,
+  isCancelled,
+  listFiles,
+  revokeFile,
+  type AuditReportReceipt,
+  type FileFilters,
+  type FileQuery,
+  type FileRecord,
+  type FileSortField,
+  type FileStatus,
+  type IntegrityCheck,
+  type IntegrityEvent,
+  type IntegrityStatus,
+  type ManifestFormat,
+  type ManifestImportReport,
+  type ReportFormat,
+  type RevocationDetails,
+  type SortOrder,
+  type VerificationEntry,
+} from '../api';
+import type { AuthUser } from '../utils/auth';
+
+const HEALTH: Record<IntegrityStatus, { label: string; color: 'success' | 'error' | 'warning'; icon: React.ReactElement }> = {
+  ok: { label: 'Intact', color: 'success', icon: <GppGood /> },
+  modified: { label: 'Modified', color: 'error', icon: <GppBad /> },
+  missing: { label: 'Missing', color: 'error', icon: <GppBad /> },
+  error: { label: 'Unreadable', color: 'warning', icon: <GppMaybe /> },
+};
+
+const describeLastVerified = (integrity: IntegrityCheck): string =>
+  integrity.lastVerifiedAt
+    ? `Last verified at ${new Date(integrity.lastVerifiedAt).toLocaleString()}`
+    : 'The stored file has never matched its recorded hash';
+
+/**
+ * Result of the backend's scheduled re-hash of the stored original
+ */
+const HealthChip: React.FC<{ integrity: IntegrityCheck | null }> = ({ integrity }) => {
+  if (!integrity) {
+    return (
+      <Tooltip title="The stored file has not been checked yet">
+        <Chip label="Not checked" size="small" variant="outlined" />
+      </Tooltip>
+    );
+  }
+
+  const health = HEALTH[integrity.status];
+  return (
+    <Tooltip title={`${describeLastVerified(integrity)} (checked ${new Date(integrity.lastCheckedAt).toLocaleString()})`}>
+      <Chip icon={health.icon} label={health.label} color={health.color} size="small" variant="outlined" />
+    </Tooltip>
+  );
+};
+
+const STATUSES: Record<FileStatus, string> = {
+  latest: 'Latest version',
+  superseded: 'Superseded',
+  revoked: 'Revoked',
+  tampered: 'Tampered',
+};
+
+// Whole MIME types ("image/*") or single types for the type filter
+const MIME_TYPES = [
+  { value: 'image/*', label: 'Images' },
+  { value: 'video/*', label: 'Video' },
+  { value: 'audio/*', label: 'Audio' },
+  { value: 'text/*', label: 'Text' },
+  { value: 'application/pdf', label: 'PDF' },
+  { value: 'application/zip', label: 'ZIP archives' },
+];
+
+// Names read best A to Z, times and sizes newest and largest first
+const DEFAULT_ORDER: Record<FileSortField, SortOrder> = { name: 'asc', uploadTime: 'desc', size: 'desc' };
+
+const ROWS_PER_PAGE = [25, 50, 100];
+const SEARCH_DELAY_MS = 300;
+const HEX_PREFIX = /^(0x)?[0-9a-f]+$/i;
+const UPLOADER = /^(0x[0-9a-f]{40}|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+/**
+ * The value once it stopped changing for `delay` ms, so typing does not send a request per key
+ */
+function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+  return debounced;
+}
+
+// Local start of the day of a date input, or its end for the upper bound
+const toRangeBoundary = (date: string, end: boolean): string | undefined =>
+  date ? new Date(`${date}T${end ? '23:59:59.999' : '00:00:00'}`).toISOString() : undefined;
+
+// A header row opens every upload batch with more than one file on the page
+const startsUploadBatch = (files: FileRecord[], index: number): boolean => {
+  const batchId = files[index].uploadBatchId;
+  return Boolean(batchId) && files[index - 1]?.uploadBatchId !== batchId && files[index + 1]?.uploadBatchId === batchId;
+};
+
+const REPORT_FORMATS: { format: ReportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+const MANIFEST_FILE_NAMES: Record<ManifestFormat, string> = {
+  sha256sum: 'manifest.sha256',
+  json: 'manifest.json',
+};
+
+const saveFile = (content: Blob, fileName: string) => {
+  const url = URL.createObjectURL(content);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface AuditTrailProps {
+  user: AuthUser | null;
 }
 
-const AuditTrail: React.FC = () => {
+const AuditTrail: React.FC<AuditTrailProps> = ({ user }) => {
   const [files, setFiles] = useState<FileRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filteredFiles, setFilteredFiles] = useState<FileRecord[]>([]);
+  const [hashPrefix, setHashPrefix] = useState('');
+  const [uploader, setUploader] = useState('');
+  const [mimetype, setMimetype] = useState('');
+  const [status, setStatus] = useState<FileStatus | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [uploadBatchId, setUploadBatchId] = useState<string | null>(null);
+  const [sort, setSort] = useState<FileSortField>('uploadTime');
+  const [order, setOrder] = useState<SortOrder>('desc');
+  const [rowsPerPage, setRowsPerPage] = useState(ROWS_PER_PAGE[0]);
+  const [pages, setPages] = useState<{ queryKey: string; cursors: (string | undefined)[] }>({ queryKey: '', cursors: [undefined] });
+  const [detailsFile, setDetailsFile] = useState<FileRecord | null>(null);
+  const [versionChain, setVersionChain] = useState<FileRecord[]>([]);
+  const [isLoadingVersions, setIsLoadingVersions] = useState(false);
+  const [verificationTimeline, setVerificationTimeline] = useState<VerificationEntry[]>([]);
+  const [integrityEvents, setIntegrityEvents] = useState<IntegrityEvent[]>([]);
+  const [view, setView] = useState(0);
+  const [revokeReason, setRevokeReason] = useState('');
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [revokeError, setRevokeError] = useState<string | null>(null);
+  const [manifestReport, setManifestReport] = useState<ManifestImportReport | null>(null);
+  const [manifestError, setManifestError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [reportFormat, setReportFormat] = useState<ReportFormat | null>(null);
+  const [reportReceipt, setReportReceipt] = useState<AuditReportReceipt | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null);
 
-  useEffect(() => {
-    loadFiles();
-  }, []);
+  const debouncedSearch = useDebouncedValue(searchTerm.trim(), SEARCH_DELAY_MS);
+  const debouncedHash = useDebouncedValue(hashPrefix.trim(), SEARCH_DELAY_MS);
+  const debouncedUploader = useDebouncedValue(uploader.trim(), SEARCH_DELAY_MS);
+  const isHashInvalid = hashPrefix.trim() !== '' && !HEX_PREFIX.test(hashPrefix.trim());
+  const isUploaderInvalid = uploader.trim() !== '' && !UPLOADER.test(uploader.trim());
+
+  // Incomplete hash prefixes and uploaders are left out rather than rejected by the backend
+  const filters = useMemo<FileFilters>(() => ({
+    q: debouncedSearch || undefined,
+    hash: HEX_PREFIX.test(debouncedHash) ? debouncedHash : undefined,
+    uploader: UPLOADER.test(debouncedUploader) ? debouncedUploader : undefined,
+    mimetype: mimetype || undefined,
+    status: status || undefined,
+    from: toRangeBoundary(fromDate, false),
+    to: toRangeBoundary(toDate, true),
+    uploadBatchId: uploadBatchId || undefined,
+  }), [debouncedSearch, debouncedHash, debouncedUploader, mimetype, status, fromDate, toDate, uploadBatchId]);
+  const isFiltered = Object.values(filters).some(Boolean);
+
+  const query = useMemo<FileQuery>(
+    () => ({ ...filters, sort, order, limit: rowsPerPage }),
+    [filters, sort, order, rowsPerPage]
+  );
+
+  // Cursors of the pages visited so far; another query or account starts over at the first page
+  const queryKey = JSON.stringify({ userId: user?.id, query });
+  const cursors = pages.queryKey === queryKey ? pages.cursors : [undefined];
+  const page = cursors.length - 1;
+  const cursor = cursors[page];
+
+  const loadFiles = useCallback(async (signal?: AbortSignal) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await listFiles({ ...query, cursor }, { signal });
+      setFiles(result.files);
+      // Later pages keep the count of the first one
+      if (result.total !== null) setTotal(result.total);
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      // Signed out or replaced by a newer load
+      if (isCancelled(error)) return;
+      console.error('Error loading files:', error);
+      setError(getErrorMessage(error, 'Failed to load audit trail'));
+    }
+    setIsLoading(false);
+  }, [query, cursor]);
 
   useEffect(() => {
-    // Filter files based on search term
-    if (searchTerm.trim() === '') {
-      setFilteredFiles(files);
+    if (!user) {
+      setFiles([]);
+      setTotal(0);
+      setNextCursor(null);
+      return;
+    }
+    const controller = new AbortController();
+    loadFiles(controller.signal);
+    return () => controller.abort();
+  }, [user, loadFiles]);
+
+  const changePage = (_event: unknown, newPage: number) => {
+    if (newPage > page && nextCursor) {
+      setPages({ queryKey, cursors: [...cursors, nextCursor] });
+    } else if (newPage < page) {
+      setPages({ queryKey, cursors: cursors.slice(0, newPage + 1) });
+    }
+  };
+
+  const changeSort = (field: FileSortField) => {
+    if (field === sort) {
+      setOrder(order === 'asc' ? 'desc' : 'asc');
     } else {
-      const filtered = files.filter(file =>
-        file.originalName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        file.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        file.fileHash.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-      setFilteredFiles(filtered);
+      setSort(field);
+      setOrder(DEFAULT_ORDER[field]);
     }
-  }, [files, searchTerm]);
+  };
 
-  const loadFiles = async () => {
-    setIsLoading(true);
-    setError(null);
+  const clearFilters = () => {
+    setSearchTerm('');
+    setHashPrefix('');
+    setUploader('');
+    setMimetype('');
+    setStatus('');
+    setFromDate('');
+    setToDate('');
+    setUploadBatchId(null);
+  };
+
+  const openDetails = async (file: FileRecord) => {
+    setDetailsFile(file);
+    setRevokeReason('');
+    setRevokeError(null);
+    setVersionChain([]);
+    setVerificationTimeline([]);
+    setIntegrityEvents([]);
+    setIsLoadingVersions(true);
 
     try {
-      const response = await axios.get('http://localhost:5000/api/files');
-      
-      if (response.data.success) {
-        setFiles(response.data.data || []);
-      } else {
-        throw new Error('Failed to load files');
+      const [versions, verifications, integrity] = await Promise.all([
+        getFileVersions(file.id),
+        getFileVerifications(file.id),
+        getFileIntegrity(file.id),
+      ]);
+      setVersionChain(versions);
+      setVerificationTimeline(verifications);
+      setIntegrityEvents(integrity.events);
+    } catch (error) {
+      console.error('Error loading version history:', error);
+    } finally {
+      setIsLoadingVersions(false);
+    }
+  };
+
+  /**
+   * Revoke a file: on-chain records are revoked through the uploader's wallet
+   * first, then the backend record is marked with the transaction
+   */
+  const handleRevoke = async (file: FileRecord) => {
+    const reason = revokeReason.trim();
+    if (!reason) {
+      setRevokeError('Please give a reason for the revocation');
+      return;
+    }
+
+    setIsRevoking(true);
+    setRevokeError(null);
+
+    try {
+      let chainDetails: Omit<RevocationDetails, 'reason'> = {};
+      if (file.blockchain) {
+        if (!window.ethereum) {
+          throw new Error('Connect the wallet that uploaded this file to revoke it on-chain');
+        }
+        const provider = new ethers.BrowserProvider(window.ethereum);
+        const signer = await provider.getSigner();
+        const contract = getFileIntegrityContract(signer);
+
+        let receipt: ethers.TransactionReceipt | null;
+        try {
+          const tx = await contract.revokeFile(BigInt(file.blockchain.onChainFileId), reason);
+          receipt = await tx.wait();
+        } catch (chainError) {
+          throw new Error(getContractErrorMessage(chainError));
+        }
+        if (!receipt || receipt.status !== 1) {
+          throw new Error('Revocation transaction reverted');
+        }
+
+        // The backend reads the FileRevoked event from the receipt itself
+        chainDetails = { transactionHash: receipt.hash };
       }
-    } catch (error: any) {
-      console.error('Error loading files:', error);
-      setError(error.response?.data?.error || error.message || 'Failed to load audit trail');
+
+      setDetailsFile(await revokeFile(file.id, { reason, ...chainDetails }));
+      setRevokeReason('');
+      loadFiles();
+    } catch (error) {
+      console.error('Revocation error:', error);
+      setRevokeError(getErrorMessage(error, 'Failed to revoke file'));
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  /**
+   * Download the records matching the filters, on every page, as a checksum manifest
+   */
+  const handleManifestExport = async (format: ManifestFormat) => {
+    setManifestError(null);
+    try {
+      saveFile(await exportManifest(format, filters), MANIFEST_FILE_NAMES[format]);
+    } catch (error) {
+      console.error('Manifest export error:', error);
+      setManifestError(getErrorMessage(error, 'Failed to export manifest'));
+    }
+  };
+
+  /**
+   * Generate an audit report of the records matching the filters. The backend
+   * registers the document in the registry and signs its hash, then the
+   * registered copy is downloaded.
+   */
+  const handleReportExport = async (format: ReportFormat) => {
+    setReportFormat(format);
+    setReportError(null);
+    setReportReceipt(null);
+
+    try {
+      const receipt = await createAuditReport(format, { ...filters, sort, order });
+      saveFile(await getIpfsContent(receipt.record.ipfsHash!), receipt.report.fileName);
+      setReportReceipt(receipt);
+      loadFiles();
+    } catch (error) {
+      console.error('Audit report error:', error);
+      setReportError(getErrorMessage(error, 'Failed to generate audit report'));
     } finally {
-      setIsLoading(false);
+      setReportFormat(null);
+    }
+  };
+
+  /**
+   * Register every hash of a sha256sum or JSON manifest at once
+   */
+  const handleManifestImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const manifest = event.target.files?.[0];
+    event.target.value = '';
+    if (!manifest) return;
+
+    setIsImporting(true);
+    setManifestError(null);
+    setManifestReport(null);
+
+    try {
+      setManifestReport(await importManifest(manifest, `Imported from ${manifest.name}`));
+      loadFiles();
+    } catch (error) {
+      console.error('Manifest import error:', error);
+      setManifestError(getErrorMessage(error, 'Failed to import manifest'));
+    } finally {
+      setIsImporting(false);
     }
   };
 
@@ -92,7 +450,20 @@ const AuditTrail: React.FC = () => {
     // Could add a toast notification here
   };
 
-  const formatFileSize = (bytes: number): string => {
+  const renderSortHeader = (field: FileSortField, label: string) => (
+    <TableCell sortDirection={sort === field ? order : false}>
+      <TableSortLabel
+        active={sort === field}
+        direction={sort === field ? order : DEFAULT_ORDER[field]}
+        onClick={() => changeSort(field)}
+      >
+        {label}
+      </TableSortLabel>
+    </TableCell>
+  );
+
+  const formatFileSize = (bytes: number | null): string => {
+    if (bytes === null) return '-';
     const sizes = ['Bytes', 'KB', 'MB', 'GB'];
     if (bytes === 0) return '0 Bytes';
     const i = Math.floor(Math.log(bytes) / Math.log(1024));
@@ -103,7 +474,8 @@ const AuditTrail: React.FC = () => {
     return `${hash.substring(0, 8)}...${hash.substring(hash.length - 8)}`;
   };
 
-  const getMimeTypeIcon = (mimetype: string) => {
+  const getMimeTypeIcon = (mimetype: string | null) => {
+    if (!mimetype) return '#️⃣';
     if (mimetype.startsWith('image/')) return '🖼️';
     if (mimetype.startsWith('video/')) return '🎥';
     if (mimetype.startsWith('audio/')) return '🎵';
@@ -127,193 +499,594 @@ const AuditTrail: React.FC = () => {
           <Button
             variant="outlined"
             startIcon={<Refresh />}
-            onClick={loadFiles}
-            disabled={isLoading}
+            onClick={() => loadFiles()}
+            disabled={!user || isLoading}
           >
             Refresh
           </Button>
         </Box>
 
         <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
-          Complete audit trail of all files registered in the blockchain system. 
-          Each entry represents an immutable record of file integrity.
+          {user?.role === 'admin'
+            ? 'Complete audit trail of all files registered in the blockchain system.'
+            : 'Audit trail of the files registered by your account.'}
+          {' '}Each entry represents an immutable record of file integrity.
         </Typography>
 
-        {error && (
-          <Alert severity="error" sx={{ mb: 2 }}>
-            {error}
-          </Alert>
-        )}
-
-        <Box sx={{ mb: 3 }}>
-          <TextField
-            fullWidth
-            placeholder="Search by filename, description, or hash..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            InputProps={{
-              startAdornment: (
-                <InputAdornment position="start">
-                  <Search />
-                </InputAdornment>
-              ),
-            }}
-          />
+        <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 3 }}>
+          <Tabs value={view} onChange={(_event, value) => setView(value)} aria-label="audit views">
+            <Tab label="File Registry" icon={<Inventory />} iconPosition="start" />
+            <Tab label="Verification Log" icon={<FactCheck />} iconPosition="start" />
+          </Tabs>
         </Box>
 
-        {isLoading ? (
-          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
-            <CircularProgress />
-          </Box>
+        {!user ? (
+          <Alert severity="info">
+            Sign in to see the files registered by your account.
+          </Alert>
+        ) : view === 1 ? (
+          <VerificationLog key={user.id} canImport={user.role === 'admin'} />
         ) : (
           <>
-            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
-              <Typography variant="body2" color="text.secondary">
-                {filteredFiles.length} file{filteredFiles.length !== 1 ? 's' : ''} found
-                {searchTerm && ` (filtered from ${files.length} total)`}
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Box sx={{ mb: 2 }}>
+            <TextField
+              fullWidth
+              placeholder="Search by filename or description..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <Search />
+                  </InputAdornment>
+                ),
+              }}
+            />
+          </Box>
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'flex-start', mb: 3 }}>
+            <TextField
+              size="small"
+              label="Hash prefix"
+              value={hashPrefix}
+              onChange={(e) => setHashPrefix(e.target.value)}
+              error={isHashInvalid}
+              helperText={isHashInvalid ? 'Hex digits only' : undefined}
+              sx={{ width: 200 }}
+            />
+            <TextField
+              select
+              size="small"
+              label="Type"
+              value={mimetype}
+              onChange={(e) => setMimetype(e.target.value)}
+              sx={{ minWidth: 150 }}
+            >
+              <MenuItem value="">All types</MenuItem>
+              {MIME_TYPES.map(type => (
+                <MenuItem key={type.value} value={type.value}>{type.label}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="Status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as FileStatus | '')}
+              sx={{ minWidth: 160 }}
+            >
+              <MenuItem value="">Any status</MenuItem>
+              {(Object.keys(STATUSES) as FileStatus[]).map(key => (
+                <MenuItem key={key} value={key}>{STATUSES[key]}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              type="date"
+              size="small"
+              label="Uploaded from"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              type="date"
+              size="small"
+              label="Uploaded until"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            {user.role === 'admin' && (
+              <TextField
+                size="small"
+                label="Uploader"
+                placeholder="Account id or wallet"
+                value={uploader}
+                onChange={(e) => setUploader(e.target.value)}
+                error={isUploaderInvalid}
+                helperText={isUploaderInvalid ? 'Account id or 0x wallet address' : undefined}
+                sx={{ width: 260 }}
+              />
+            )}
+            {uploadBatchId && (
+              <Chip
+                icon={<FolderCopy />}
+                label={`Upload batch ${uploadBatchId.substring(0, 8)}`}
+                onDelete={() => setUploadBatchId(null)}
+                sx={{ mt: 0.5 }}
+              />
+            )}
+            {isFiltered && (
+              <Button onClick={clearFilters} sx={{ mt: 0.25 }}>
+                Clear filters
+              </Button>
+            )}
+          </Box>
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, alignItems: 'center', mb: 2 }}>
+            <Typography variant="body2" color="text.secondary" sx={{ mr: 1 }}>
+              Checksum manifest:
+            </Typography>
+            <Button
+              size="small"
+              startIcon={<Download />}
+              onClick={() => handleManifestExport('sha256sum')}
+              disabled={total === 0}
+            >
+              sha256sum
+            </Button>
+            <Button
+              size="small"
+              startIcon={<Download />}
+              onClick={() => handleManifestExport('json')}
+              disabled={total === 0}
+            >
+              JSON
+            </Button>
+            <Button
+              component="label"
+              size="small"
+              startIcon={isImporting ? <CircularProgress size={16} /> : <UploadFile />}
+              disabled={isImporting}
+            >
+              Import
+              <input type="file" hidden accept=".sha256,.sha256sum,.txt,.json" onChange={handleManifestImport} />
+            </Button>
+            <Divider orientation="vertical" flexItem sx={{ mx: 1 }} />
+            <Typography variant="body2" color="text.secondary" sx={{ mr: 1 }}>
+              Audit report:
+            </Typography>
+            {REPORT_FORMATS.map(({ format, label }) => (
+              <Button
+                key={format}
+                size="small"
+                startIcon={reportFormat === format ? <CircularProgress size={16} /> : <Download />}
+                onClick={() => handleReportExport(format)}
+                disabled={total === 0 || reportFormat !== null}
+              >
+                {label}
+              </Button>
+            ))}
+          </Box>
+
+          {reportError && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setReportError(null)}>
+              {reportError}
+            </Alert>
+          )}
+
+          {reportReceipt && (
+            <Alert severity="success" sx={{ mb: 2 }} onClose={() => setReportReceipt(null)}>
+              Audit report of {reportReceipt.report.recordCount} record{reportReceipt.report.recordCount !== 1 ? 's' : ''} registered
+              as record #{reportReceipt.record.id} and signed by {reportReceipt.signature.signer}. Upload the downloaded
+              file under File Verification to confirm it has not been altered.
+              <Typography variant="caption" component="div" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                SHA-256 {reportReceipt.report.sha256}
               </Typography>
-              
-              {filteredFiles.length > 0 && (
-                <Chip 
-                  label="Blockchain Verified" 
-                  color="primary" 
-                  variant="outlined" 
-                  size="small" 
-                />
+            </Alert>
+          )}
+
+          {manifestError && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setManifestError(null)}>
+              {manifestError}
+            </Alert>
+          )}
+
+          {manifestReport && (
+            <Alert
+              severity={manifestReport.summary.invalid > 0 ? 'warning' : 'success'}
+              sx={{ mb: 2 }}
+              onClose={() => setManifestReport(null)}
+              action={manifestReport.uploadBatchId && (
+                <Button color="inherit" size="small" onClick={() => setUploadBatchId(manifestReport.uploadBatchId!)}>
+                  Show
+                </Button>
               )}
+            >
+              Registered {manifestReport.summary.registered} of {manifestReport.summary.total} hashes
+              from the {manifestReport.format === 'json' ? 'JSON' : 'sha256sum'} manifest
+              {manifestReport.summary.existing > 0 && `, ${manifestReport.summary.existing} already registered`}
+              {manifestReport.summary.duplicate > 0 && `, ${manifestReport.summary.duplicate} repeated`}.
+              {manifestReport.errors.length > 0 && (
+                <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                  {manifestReport.errors.slice(0, 5).map(entry => (
+                    <li key={entry.line}>Line {entry.line}: {entry.message}</li>
+                  ))}
+                  {manifestReport.errors.length > 5 && <li>{manifestReport.errors.length - 5} more skipped</li>}
+                </Box>
+              )}
+            </Alert>
+          )}
+
+          {isLoading && files.length === 0 ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress />
             </Box>
+          ) : (
+            <>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                <Typography variant="body2" color="text.secondary">
+                  {total} file{total !== 1 ? 's' : ''} found
+                  {isFiltered && ' matching the filters'}
+                </Typography>
+              
+                {total > 0 && (
+                  <Chip 
+                    label="Blockchain Verified" 
+                    color="primary" 
+                    variant="outlined" 
+                    size="small" 
+                  />
+                )}
+              </Box>
 
-            {filteredFiles.length === 0 ? (
-              <Alert severity="info">
-                {files.length === 0 
-                  ? 'No files have been uploaded yet. Upload a file to see it appear in the audit trail.'
-                  : 'No files match your search criteria. Try a different search term.'
-                }
-              </Alert>
-            ) : (
-              <TableContainer component={Paper} elevation={1}>
-                <Table>
-                  <TableHead>
-                    <TableRow sx={{ bgcolor: 'grey.50' }}>
-                      <TableCell>File</TableCell>
-                      <TableCell>Hash</TableCell>
-                      <TableCell>IPFS</TableCell>
-                      <TableCell>Upload Time</TableCell>
-                      <TableCell>Size</TableCell>
-                      <TableCell>Actions</TableCell>
-                    </TableRow>
-                  </TableHead>
-                  <TableBody>
-                    {filteredFiles.map((file) => (
-                      <TableRow key={file.id} hover>
-                        <TableCell>
-                          <Box sx={{ display: 'flex', alignItems: 'center' }}>
-                            <Box sx={{ mr: 2, fontSize: '1.2em' }}>
-                              {getMimeTypeIcon(file.mimetype)}
-                            </Box>
-                            <Box>
-                              <Typography variant="body2" sx={{ fontWeight: 'medium' }}>
-                                {file.originalName}
-                              </Typography>
-                              {file.description && (
-                                <Typography variant="caption" color="text.secondary">
-                                  {file.description.length > 50 
-                                    ? `${file.description.substring(0, 50)}...` 
-                                    : file.description
-                                  }
-                                </Typography>
-                              )}
-                            </Box>
-                          </Box>
-                        </TableCell>
+              {files.length === 0 ? (
+                <Alert severity="info">
+                  {!isFiltered
+                    ? 'No files have been uploaded yet. Upload a file to see it appear in the audit trail.'
+                    : 'No files match your search criteria. Try a different search term or filter.'
+                  }
+                </Alert>
+              ) : (
+                <>
+                <Box sx={{ height: 4, mb: 1 }}>
+                  {isLoading && <LinearProgress />}
+                </Box>
+                <TableContainer component={Paper} elevation={1}>
+                  <Table>
+                    <TableHead>
+                      <TableRow sx={{ bgcolor: 'grey.50' }}>
+                        {renderSortHeader('name', 'File')}
+                        <TableCell>Hash</TableCell>
+                        <TableCell>IPFS</TableCell>
+                        {renderSortHeader('uploadTime', 'Upload Time')}
+                        {renderSortHeader('size', 'Size')}
+                        <TableCell>Health</TableCell>
+                        <TableCell>Actions</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {files.map((file, index) => (
+                        <React.Fragment key={file.id}>
+                          {startsUploadBatch(files, index) && (
+                            <TableRow sx={{ bgcolor: 'grey.100' }}>
+                              <TableCell colSpan={7}>
+                                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                                  <FolderCopy fontSize="small" color="action" />
+                                  <Typography variant="body2" sx={{ fontWeight: 'medium' }}>
+                                    Upload batch · {new Date(file.uploadTime).toLocaleString()}
+                                  </Typography>
+                                  <Box sx={{ flexGrow: 1 }} />
+                                  {uploadBatchId !== file.uploadBatchId && (
+                                    <Button size="small" onClick={() => setUploadBatchId(file.uploadBatchId)}>
+                                      Show only this batch
+                                    </Button>
+                                  )}
+                                </Box>
+                              </TableCell>
+                            </TableRow>
+                          )}
+                          <TableRow
+                            hover
+                            sx={file.revocation ? { bgcolor: 'grey.100', '& > td': { color: 'text.disabled' } } : undefined}
+                          >
+                            <TableCell>
+                              <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                                <Box sx={{ mr: 2, fontSize: '1.2em' }}>
+                                  {file.revocation ? <Block color="error" /> : getMimeTypeIcon(file.mimetype)}
+                                </Box>
+                                <Box>
+                                  <Typography variant="body2" sx={{ fontWeight: 'medium' }}>
+                                    <Box
+                                      component="span"
+                                      sx={file.revocation ? { textDecoration: 'line-through', color: 'text.secondary' } : undefined}
+                                    >
+                                      {file.originalName}
+                                    </Box>
+                                    <Chip label={`v${file.version}`} size="small" sx={{ ml: 1 }} />
+                                    {file.revocation && (
+                                      <Tooltip title={`${file.revocation.reason} (${new Date(file.revocation.revokedAt).toLocaleString()})`}>
+                                        <Chip label="Revoked" size="small" color="error" sx={{ ml: 0.5 }} />
+                                      </Tooltip>
+                                    )}
+                                    {file.supersededBy && (
+                                      <Chip label="Superseded" size="small" color="warning" variant="outlined" sx={{ ml: 0.5 }} />
+                                    )}
+                                    {!file.ipfsHash && (
+                                      <Tooltip title="Imported from a checksum manifest; only the hash is registered">
+                                        <Chip label="Hash only" size="small" variant="outlined" sx={{ ml: 0.5 }} />
+                                      </Tooltip>
+                                    )}
+                                  </Typography>
+                                  {file.description && (
+                                    <Typography variant="caption" color="text.secondary">
+                                      {file.description.length > 50 
+                                        ? `${file.description.substring(0, 50)}...` 
+                                        : file.description
+                                      }
+                                    </Typography>
+                                  )}
+                                </Box>
+                              </Box>
+                            </TableCell>
                         
-                        <TableCell>
-                          <Box sx={{ display: 'flex', alignItems: 'center' }}>
-                            <Typography 
-                              variant="body2" 
-                              sx={{ 
-                                fontFamily: 'monospace', 
-                                fontSize: '0.8em',
-                                mr: 1
-                              }}
-                            >
-                              {formatHash(file.fileHash)}
-                            </Typography>
-                            <Tooltip title="Copy full hash">
-                              <IconButton 
-                                size="small" 
-                                onClick={() => copyToClipboard(file.fileHash)}
-                              >
-                                <ContentCopy fontSize="small" />
-                              </IconButton>
-                            </Tooltip>
-                          </Box>
-                        </TableCell>
+                            <TableCell>
+                              <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                                <Typography 
+                                  variant="body2" 
+                                  sx={{ 
+                                    fontFamily: 'monospace', 
+                                    fontSize: '0.8em',
+                                    mr: 1
+                                  }}
+                                >
+                                  {formatHash(file.fileHash)}
+                                </Typography>
+                                <Tooltip title="Copy full hash">
+                                  <IconButton 
+                                    size="small" 
+                                    onClick={() => copyToClipboard(file.fileHash)}
+                                  >
+                                    <ContentCopy fontSize="small" />
+                                  </IconButton>
+                                </Tooltip>
+                              </Box>
+                            </TableCell>
                         
-                        <TableCell>
-                          <Box sx={{ display: 'flex', alignItems: 'center' }}>
-                            <Typography 
-                              variant="body2" 
-                              sx={{ 
-                                fontFamily: 'monospace', 
-                                fontSize: '0.8em',
-                                mr: 1
-                              }}
-                            >
-                              {formatHash(file.ipfsHash)}
-                            </Typography>
-                            <Tooltip title="Copy IPFS hash">
-                              <IconButton 
-                                size="small" 
-                                onClick={() => copyToClipboard(file.ipfsHash)}
-                              >
-                                <ContentCopy fontSize="small" />
-                              </IconButton>
-                            </Tooltip>
-                          </Box>
-                        </TableCell>
+                            <TableCell>
+                              {file.ipfsHash ? (
+                                <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                                  <Typography 
+                                    variant="body2" 
+                                    sx={{ 
+                                      fontFamily: 'monospace', 
+                                      fontSize: '0.8em',
+                                      mr: 1
+                                    }}
+                                  >
+                                    {formatHash(file.ipfsHash)}
+                                  </Typography>
+                                  <Tooltip title="Copy IPFS hash">
+                                    <IconButton 
+                                      size="small" 
+                                      onClick={() => copyToClipboard(file.ipfsHash!)}
+                                    >
+                                      <ContentCopy fontSize="small" />
+                                    </IconButton>
+                                  </Tooltip>
+                                </Box>
+                              ) : (
+                                <Typography variant="body2" color="text.secondary">-</Typography>
+                              )}
+                            </TableCell>
                         
-                        <TableCell>
-                          <Box sx={{ display: 'flex', alignItems: 'center' }}>
-                            <AccessTime fontSize="small" sx={{ mr: 1, color: 'text.secondary' }} />
-                            <Typography variant="body2">
-                              {new Date(file.uploadTime).toLocaleDateString()}
-                            </Typography>
-                          </Box>
-                          <Typography variant="caption" color="text.secondary">
-                            {new Date(file.uploadTime).toLocaleTimeString()}
-                          </Typography>
-                        </TableCell>
+                            <TableCell>
+                              <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                                <AccessTime fontSize="small" sx={{ mr: 1, color: 'text.secondary' }} />
+                                <Typography variant="body2">
+                                  {new Date(file.uploadTime).toLocaleDateString()}
+                                </Typography>
+                              </Box>
+                              <Typography variant="caption" color="text.secondary">
+                                {new Date(file.uploadTime).toLocaleTimeString()}
+                              </Typography>
+                            </TableCell>
                         
-                        <TableCell>
-                          <Typography variant="body2">
-                            {formatFileSize(file.size)}
-                          </Typography>
-                        </TableCell>
+                            <TableCell>
+                              <Typography variant="body2">
+                                {formatFileSize(file.size)}
+                              </Typography>
+                            </TableCell>
+
+                            <TableCell>
+                              {file.ipfsHash ? (
+                                <HealthChip integrity={file.integrity} />
+                              ) : (
+                                <Typography variant="body2" color="text.secondary">-</Typography>
+                              )}
+                            </TableCell>
                         
-                        <TableCell>
-                          <Box sx={{ display: 'flex', gap: 0.5 }}>
-                            <Tooltip title="View Details">
-                              <IconButton size="small">
-                                <Description fontSize="small" />
-                              </IconButton>
-                            </Tooltip>
-                            <Tooltip title="Verify Hash">
-                              <IconButton size="small">
-                                <Fingerprint fontSize="small" />
-                              </IconButton>
-                            </Tooltip>
-                          </Box>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </TableContainer>
-            )}
+                            <TableCell>
+                              <Box sx={{ display: 'flex', gap: 0.5 }}>
+                                <Tooltip title="View Details">
+                                  <IconButton size="small" onClick={() => openDetails(file)}>
+                                    <Description fontSize="small" />
+                                  </IconButton>
+                                </Tooltip>
+                                <Tooltip title="Verify Hash">
+                                  <IconButton size="small">
+                                    <Fingerprint fontSize="small" />
+                                  </IconButton>
+                                </Tooltip>
+                              </Box>
+                            </TableCell>
+                          </TableRow>
+                        </React.Fragment>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+                <TablePagination
+                  component="div"
+                  count={total}
+                  page={page}
+                  rowsPerPage={rowsPerPage}
+                  rowsPerPageOptions={ROWS_PER_PAGE}
+                  onPageChange={changePage}
+                  onRowsPerPageChange={(e) => setRowsPerPage(Number(e.target.value))}
+                  slotProps={{ actions: { nextButton: { disabled: !nextCursor || isLoading } } }}
+                />
+                </>
+              )}
+            </>
+          )}
           </>
         )}
 
+        <Dialog open={!!detailsFile} onClose={() => setDetailsFile(null)} maxWidth="sm" fullWidth>
+          <DialogTitle>{detailsFile?.originalName}</DialogTitle>
+          <DialogContent dividers>
+            <Typography variant="subtitle2" gutterBottom>
+              Version History
+            </Typography>
+            {isLoadingVersions ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+                <CircularProgress size={24} />
+              </Box>
+            ) : (
+              <List dense>
+                {versionChain.map((version) => (
+                  <ListItem
+                    key={version.id}
+                    sx={{ bgcolor: version.id === detailsFile?.id ? 'action.selected' : undefined, borderRadius: 1 }}
+                  >
+                    <ListItemText
+                      primary={`v${version.version} · ${version.originalName}`}
+                      secondary={
+                        <>
+                          <Box component="span" sx={{ fontFamily: 'monospace', display: 'block' }}>
+                            {formatHash(version.fileHash)}
+                          </Box>
+                          {new Date(version.uploadTime).toLocaleString()}
+                        </>
+                      }
+                    />
+                    {version.revocation && <Chip label="Revoked" size="small" color="error" sx={{ mr: 0.5 }} />}
+                    {!version.supersededBy && <Chip label="Latest" size="small" color="success" />}
+                  </ListItem>
+                ))}
+              </List>
+            )}
+
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle2" gutterBottom>
+              Verification Timeline
+            </Typography>
+            {!isLoadingVersions && <VerificationTimeline entries={verificationTimeline} />}
+
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle2" gutterBottom>
+              Stored File Health
+            </Typography>
+            {detailsFile && !detailsFile.ipfsHash ? (
+              <Typography variant="body2" color="text.secondary">
+                Only the hash of this file was imported from a checksum manifest, so there is no stored copy to check.
+              </Typography>
+            ) : !detailsFile?.integrity ? (
+              <Typography variant="body2" color="text.secondary">
+                The stored copy of this file has not been checked yet.
+              </Typography>
+            ) : (
+              <Alert severity={HEALTH[detailsFile.integrity.status].color}>
+                <Typography variant="body2">
+                  {detailsFile.integrity.status === 'ok'
+                    ? 'The stored file still matches its recorded hash.'
+                    : detailsFile.integrity.status === 'modified'
+                      ? 'The stored file no longer matches its recorded hash.'
+                      : detailsFile.integrity.status === 'missing'
+                        ? 'The stored file is missing from the upload directory.'
+                        : `The stored file could not be read: ${detailsFile.integrity.error}`}
+                  {' '}{describeLastVerified(detailsFile.integrity)}.
+                </Typography>
+                {detailsFile.integrity.actualHash && (
+                  <Typography variant="caption" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                    Current hash {detailsFile.integrity.actualHash}
+                  </Typography>
+                )}
+              </Alert>
+            )}
+            {integrityEvents.length > 0 && (
+              <List dense>
+                {integrityEvents.map(event => (
+                  <ListItem
+                    key={event.id}
+                    secondaryAction={<Chip label={HEALTH[event.status].label} color={HEALTH[event.status].color} size="small" />}
+                  >
+                    <ListItemText
+                      primary={new Date(event.detectedAt).toLocaleString()}
+                      secondary={event.previousStatus
+                        ? `Was ${HEALTH[event.previousStatus].label.toLowerCase()}`
+                        : 'First check'}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle2" gutterBottom>
+              Revocation
+            </Typography>
+            {detailsFile?.revocation ? (
+              <Alert severity="error" icon={<Block />}>
+                <Typography variant="body2">
+                  Revoked on {new Date(detailsFile.revocation.revokedAt).toLocaleString()}: {detailsFile.revocation.reason}
+                </Typography>
+                {detailsFile.revocation.transactionHash && (
+                  <Typography variant="caption" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                    Transaction {detailsFile.revocation.transactionHash}
+                  </Typography>
+                )}
+              </Alert>
+            ) : detailsFile && (
+              <Box>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  Revoking withdraws this file: it stays on record but no longer verifies as valid.
+                  {detailsFile.blockchain && ' The revocation is sent from the wallet that uploaded it.'}
+                </Typography>
+                {revokeError && <Alert severity="error" sx={{ mb: 1 }}>{revokeError}</Alert>}
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  <TextField
+                    size="small"
+                    fullWidth
+                    label="Reason"
+                    value={revokeReason}
+                    onChange={(e) => setRevokeReason(e.target.value)}
+                  />
+                  <Button
+                    color="error"
+                    variant="outlined"
+                    onClick={() => handleRevoke(detailsFile)}
+                    disabled={isRevoking}
+                    startIcon={isRevoking ? <CircularProgress size={16} /> : <Block />}
+                  >
+                    Revoke
+                  </Button>
+                </Box>
+              </Box>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setDetailsFile(null)}>Close</Button>
+          </DialogActions>
+        </Dialog>
+
         <Box sx={{ mt: 3 }}>
           <Alert severity="info">
             <Typography variant="body2">
@@ -14,24 +14,65 @@ import {
   AccountBalanceWallet,
   Link,
   LinkOff,
+  Login,
 } from '@mui/icons-material';
 import { ethers } from 'ethers';
+import { getErrorMessage } from '../api';
+import { signInWithEthereum, getSessionAddress, logout, type AuthUser } from '../utils/auth';
+import { FILE_INTEGRITY_ADDRESS, getContractRoles, type ContractRoles } from '../contracts/fileIntegrity';
 
-interface BlockchainConnectionProps {}
+interface BlockchainConnectionProps {
+  onAccountChange?: (account: string | null) => void;
+  onRolesChange?: (roles: ContractRoles | null) => void;
+  user: AuthUser | null;
+  onUserChange: (user: AuthUser | null) => void;
+}
 
-const BlockchainConnection: React.FC<BlockchainConnectionProps> = () => {
+const BlockchainConnection: React.FC<BlockchainConnectionProps> = ({ onAccountChange, onRolesChange, user, onUserChange }) => {
   const [account, setAccount] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [networkInfo, setNetworkInfo] = useState<any>(null);
+  const [networkInfo, setNetworkInfo] = useState<{ name: string; chainId: string } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [roles, setRoles] = useState<ContractRoles | null>(null);
+
+  // Session signed in with the connected wallet (not just an account with a linked wallet)
+  const sessionAddress = user ? getSessionAddress() : null;
+  const isWalletSession = Boolean(
+    account && sessionAddress && account.toLowerCase() === sessionAddress.toLowerCase()
+  );
 
   useEffect(() => {
     checkConnection();
   }, []);
 
+  useEffect(() => {
+    onAccountChange?.(account);
+  }, [account, onAccountChange]);
+
+  // Roles are unknown (null) without a wallet or a reachable contract
+  useEffect(() => {
+    setRoles(null);
+    if (!account || !window.ethereum || !FILE_INTEGRITY_ADDRESS) return;
+
+    let cancelled = false;
+    getContractRoles(new ethers.BrowserProvider(window.ethereum), account)
+      .then(accountRoles => {
+        if (!cancelled) setRoles(accountRoles);
+      })
+      .catch(error => console.error('Error loading contract roles:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [account]);
+
+  useEffect(() => {
+    onRolesChange?.(roles);
+  }, [roles, onRolesChange]);
+
   const checkConnection = async () => {
-    if (typeof window.ethereum !== 'undefined') {
+    if (window.ethereum) {
       try {
         const provider = new ethers.BrowserProvider(window.ethereum);
         const accounts = await provider.listAccounts();
@@ -53,7 +94,7 @@ const BlockchainConnection: React.FC<BlockchainConnectionProps> = () => {
   };
 
   const connectWallet = async () => {
-    if (typeof window.ethereum === 'undefined') {
+    if (!window.ethereum) {
       setError('MetaMask is not installed. Please install MetaMask to continue.');
       return;
     }
@@ -79,15 +120,40 @@ const BlockchainConnection: React.FC<BlockchainConnectionProps> = () => {
         chainId: network.chainId.toString(),
       });
 
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error connecting wallet:', error);
-      setError(error.message || 'Failed to connect wallet');
+      setError(getErrorMessage(error, 'Failed to connect wallet'));
     } finally {
       setIsConnecting(false);
     }
   };
 
-  const disconnectWallet = () => {
+  /**
+   * Prove ownership of the connected wallet to the backend (EIP-4361)
+   */
+  const signIn = async () => {
+    if (!window.ethereum) return;
+
+    setIsSigningIn(true);
+    setError(null);
+
+    try {
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      onUserChange(await signInWithEthereum(await provider.getSigner()));
+    } catch (error) {
+      console.error('Error signing in with Ethereum:', error);
+      setError(getErrorMessage(error, 'Failed to sign in with Ethereum'));
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const disconnectWallet = async () => {
+    // A session bound to this wallet ends with the connection
+    if (getSessionAddress()) {
+      await logout();
+      onUserChange(null);
+    }
     setAccount(null);
     setIsConnected(false);
     setNetworkInfo(null);
@@ -113,7 +179,7 @@ const BlockchainConnection: React.FC<BlockchainConnectionProps> = () => {
         )}
 
         <Grid container spacing={2} alignItems="center">
-          <Grid item xs={12} md={6}>
+          <Grid size={{ xs: 12, md: 6 }}>
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
               {isConnected ? (
                 <>
@@ -126,6 +192,9 @@ const BlockchainConnection: React.FC<BlockchainConnectionProps> = () => {
                   <Typography variant="body2">
                     Account: {account && formatAddress(account)}
                   </Typography>
+                  {isWalletSession && (
+                    <Chip label="Signed In" color="primary" size="small" variant="outlined" />
+                  )}
                 </>
               ) : (
                 <Chip
@@ -138,7 +207,7 @@ const BlockchainConnection: React.FC<BlockchainConnectionProps> = () => {
             </Box>
           </Grid>
 
-          <Grid item xs={12} md={6}>
+          <Grid size={{ xs: 12, md: 6 }}>
             <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
               {isConnected ? (
                 <>
@@ -150,6 +219,17 @@ const BlockchainConnection: React.FC<BlockchainConnectionProps> = () => {
                       size="small"
                     />
                   )}
+                  {!isWalletSession && (
+                    <Button
+                      variant="contained"
+                      onClick={signIn}
+                      disabled={isSigningIn}
+                      size="small"
+                      startIcon={isSigningIn ? <CircularProgress size={16} /> : <Login />}
+                    >
+                      {user ? 'Link Wallet' : 'Sign In with Ethereum'}
+                    </Button>
+                  )}
                   <Button
                     variant="outlined"
                     color="error"
@@ -173,7 +253,31 @@ const BlockchainConnection: React.FC<BlockchainConnectionProps> = () => {
           </Grid>
         </Grid>
 
-        {isConnected && (
+        {roles && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+            <Typography variant="body2" color="text.secondary">
+              Contract roles:
+            </Typography>
+            {roles.isOwner && <Chip label="Owner" size="small" color="secondary" />}
+            {roles.isRegistrar && <Chip label="Registrar" size="small" color="primary" />}
+            {roles.isAuditor && <Chip label="Auditor" size="small" color="info" />}
+            {!roles.isOwner && !roles.isRegistrar && !roles.isAuditor && (
+              <Chip label="None" size="small" variant="outlined" />
+            )}
+            {roles.paused && <Chip label="Registrations paused" size="small" color="error" />}
+          </Box>
+        )}
+
+        {isConnected && roles && !roles.isRegistrar && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            <Typography variant="body2">
+              This account is not a registrar, so it cannot record files on the blockchain. Ask the
+              contract owner to grant it the registrar role.
+            </Typography>
+          </Alert>
+        )}
+
+        {isConnected && (!roles || roles.isRegistrar) && (
           <Alert severity="info" sx={{ mt: 2 }}>
             <Typography variant="body2">
               🎉 Wallet connected successfully! You can now upload files and store their hashes on the blockchain.
@@ -0,0 +1,308 @@
+import React, { useState } from 'react';
+import {
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  Paper,
+  Chip,
+  LinearProgress,
+  MenuItem,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import {
+  CloudUpload,
+  FolderOpen,
+  FactCheck,
+  Download,
+} from '@mui/icons-material';
+import { styled } from '@mui/material/styles';
+import { OutcomeChip } from './VerificationLog';
+import {
+  getErrorMessage,
+  verifyBatch,
+  type BulkResult,
+  type BulkVerificationItem,
+  type BulkVerificationReport,
+} from '../api';
+import { fromDataTransfer, fromFileList, type SelectedFile } from '../utils/fileSelection';
+
+const VisuallyHiddenInput = styled('input')({
+  clip: 'rect(0 0 0 0)',
+  clipPath: 'inset(50%)',
+  height: 1,
+  overflow: 'hidden',
+  position: 'absolute',
+  bottom: 0,
+  left: 0,
+  whiteSpace: 'nowrap',
+  width: 1,
+});
+
+const RESULTS: Record<BulkResult, { label: string; color: 'success' | 'error' | 'warning' | 'default' }> = {
+  matched: { label: 'Matched', color: 'success' },
+  tampered: { label: 'Tampered', color: 'error' },
+  unknown: { label: 'Unknown', color: 'warning' },
+  error: { label: 'Unreadable', color: 'default' },
+};
+
+const describeItem = (item: BulkVerificationItem): string => {
+  if (item.result === 'matched' && item.record) {
+    return `${item.record.originalName} (v${item.record.version})`;
+  }
+  if (item.result === 'tampered' && item.expected) {
+    return `Content differs from ${item.expected.originalName} (v${item.expected.version})`;
+  }
+  if (item.result === 'error') {
+    return item.error || 'Could not be read';
+  }
+  return 'No matching record';
+};
+
+const CSV_COLUMNS = ['name', 'size', 'result', 'status', 'sha256', 'recordId', 'recordName', 'expectedHash', 'error'];
+
+const toCsvValue = (value: string | number | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One line per file, for spreadsheets and evidence logs
+ */
+const toCsv = (report: BulkVerificationReport): string => {
+  const lines = report.results.map(item => [
+    item.name,
+    item.size,
+    item.result,
+    item.status,
+    item.fileHash,
+    (item.record || item.expected)?.id,
+    (item.record || item.expected)?.originalName,
+    item.expected?.fileHash,
+    item.error,
+  ].map(toCsvValue).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\n');
+};
+
+const saveFile = (content: string, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Verify several files, a folder or ZIP archives in one request and report
+ * every file as matched, tampered or unknown
+ */
+const BulkVerification: React.FC = () => {
+  const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
+  const [report, setReport] = useState<BulkVerificationReport | null>(null);
+  const [filter, setFilter] = useState<BulkResult | ''>('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectFiles = (files: SelectedFile[]) => {
+    setSelectedFiles(files);
+    setReport(null);
+    setFilter('');
+    setError(null);
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    selectFiles(fromFileList(event.target.files));
+    event.target.value = '';
+  };
+
+  const handleDrop = async (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (isVerifying) return;
+
+    try {
+      selectFiles(await fromDataTransfer(event.dataTransfer));
+    } catch (error) {
+      console.error('Error reading dropped files:', error);
+      setError('Failed to read the dropped files');
+    }
+  };
+
+  const verifyFiles = async () => {
+    setIsVerifying(true);
+    setError(null);
+    setReport(null);
+    setUploadProgress(0);
+
+    try {
+      setReport(await verifyBatch(selectedFiles, {
+        onUploadProgress: ({ loaded, total }) => setUploadProgress(total ? (loaded / total) * 100 : null),
+      }));
+    } catch (error) {
+      console.error('Bulk verification error:', error);
+      setError(getErrorMessage(error, 'Failed to verify files'));
+    } finally {
+      setUploadProgress(null);
+      setIsVerifying(false);
+    }
+  };
+
+  const exportReport = (format: 'csv' | 'json') => {
+    if (!report) return;
+    const fileName = `verification-report-${report.generatedAt.replace(/[:.]/g, '-')}.${format}`;
+    if (format === 'csv') {
+      saveFile(toCsv(report), 'text/csv', fileName);
+    } else {
+      saveFile(JSON.stringify(report, null, 2), 'application/json', fileName);
+    }
+  };
+
+  const visibleResults = report?.results.filter(item => !filter || item.result === filter) || [];
+
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Check many files at once. ZIP archives are unpacked on the server and every file inside is
+        reported. Sign in to have files that carry the name of one of your records but different
+        content flagged as tampered.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <Paper
+        variant="outlined"
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        sx={{
+          p: 2,
+          mb: 2,
+          borderStyle: 'dashed',
+          borderColor: isDragging ? 'primary.main' : undefined,
+          bgcolor: isDragging ? 'action.hover' : undefined,
+        }}
+      >
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 1 }}>
+          <Button component="label" variant="outlined" startIcon={<CloudUpload />} disabled={isVerifying}>
+            Choose Files or ZIP
+            <VisuallyHiddenInput type="file" multiple onChange={handleFileSelect} />
+          </Button>
+          <Button component="label" variant="outlined" startIcon={<FolderOpen />} disabled={isVerifying}>
+            Choose Folder
+            <VisuallyHiddenInput
+              type="file"
+              ref={input => {
+                if (input) input.webkitdirectory = true;
+              }}
+              onChange={handleFileSelect}
+            />
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          {selectedFiles.length === 0
+            ? 'Or drop files, folders and ZIP archives here.'
+            : `${selectedFiles.length} file${selectedFiles.length !== 1 ? 's' : ''} selected`}
+        </Typography>
+      </Paper>
+
+      <Button
+        variant="contained"
+        onClick={verifyFiles}
+        disabled={selectedFiles.length === 0 || isVerifying}
+        startIcon={isVerifying ? <CircularProgress size={20} /> : <FactCheck />}
+        size="large"
+        fullWidth
+      >
+        {isVerifying ? 'Verifying...' : 'Verify All'}
+      </Button>
+      {isVerifying && uploadProgress !== null && (
+        <LinearProgress variant="determinate" value={uploadProgress} sx={{ mt: 1 }} />
+      )}
+
+      {report && (
+        <Box sx={{ mt: 3 }}>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, alignItems: 'center', mb: 2 }}>
+            <Chip label={`${report.summary.total} checked`} />
+            <Chip label={`${report.summary.matched} matched`} color="success" variant="outlined" />
+            {report.summary.matched !== report.summary.valid && (
+              <Chip label={`${report.summary.matched - report.summary.valid} not valid`} color="warning" variant="outlined" />
+            )}
+            <Chip label={`${report.summary.tampered} tampered`} color="error" variant="outlined" />
+            <Chip label={`${report.summary.unknown} unknown`} color="warning" variant="outlined" />
+            {report.summary.errors > 0 && (
+              <Chip label={`${report.summary.errors} unreadable`} variant="outlined" />
+            )}
+            <Box sx={{ flexGrow: 1 }} />
+            <Button size="small" startIcon={<Download />} onClick={() => exportReport('csv')}>
+              CSV
+            </Button>
+            <Button size="small" startIcon={<Download />} onClick={() => exportReport('json')}>
+              JSON
+            </Button>
+          </Box>
+
+          <TextField
+            select
+            size="small"
+            label="Result"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as BulkResult | '')}
+            sx={{ minWidth: 180, mb: 2 }}
+          >
+            <MenuItem value="">All results</MenuItem>
+            {(Object.keys(RESULTS) as BulkResult[]).map(key => (
+              <MenuItem key={key} value={key}>{RESULTS[key].label}</MenuItem>
+            ))}
+          </TextField>
+
+          <TableContainer component={Paper} elevation={1} sx={{ maxHeight: 480 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>File</TableCell>
+                  <TableCell>Result</TableCell>
+                  <TableCell>Details</TableCell>
+                  <TableCell>SHA-256</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visibleResults.map(item => (
+                  <TableRow key={item.index} hover>
+                    <TableCell sx={{ wordBreak: 'break-all' }}>{item.name}</TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      <Chip label={RESULTS[item.result].label} color={RESULTS[item.result].color} size="small" />
+                      {item.status && item.status !== 'valid' && (
+                        <Box component="span" sx={{ ml: 0.5 }}>
+                          <OutcomeChip outcome={item.status} />
+                        </Box>
+                      )}
+                    </TableCell>
+                    <TableCell>{describeItem(item)}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8em' }}>
+                      {item.fileHash ? `${item.fileHash.substring(0, 16)}...` : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default BulkVerification;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import {
   Card,
   CardContent,
@@ -8,22 +8,59 @@ import {
   TextField,
   Alert,
   CircularProgress,
-  Stepper,
-  Step,
-  StepLabel,
   Chip,
   Paper,
   Divider,
+  LinearProgress,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
 } from '@mui/material';
 import {
   CloudUpload,
   Security,
   CheckCircle,
   ContentCopy,
+  Download,
+  FolderOpen,
 } from '@mui/icons-material';
 import { styled } from '@mui/material/styles';
-import axios from 'axios';
-import CryptoJS from 'crypto-js';
+import { ethers } from 'ethers';
+import { hashFile } from '../utils/fileHasher';
+import {
+  getAlgorithmLabel,
+  getDigest,
+  type Digest,
+} from '../utils/hashAlgorithms';
+import {
+  FILE_INTEGRITY_ADDRESS,
+  getFileIntegrityContract,
+  getContractErrorMessage,
+  toDigestBytes,
+  type ContractRoles,
+} from '../contracts/fileIntegrity';
+import { fromDataTransfer, fromFileList, type SelectedFile } from '../utils/fileSelection';
+import type { AuthUser } from '../utils/auth';
+import {
+  attachBlockchainRecord,
+  deleteFile,
+  getErrorMessage,
+  getProofBundle,
+  isCancelled,
+  listAllFiles,
+  uploadFiles,
+  uploadVersion,
+  type BatchUploadReport,
+  type BlockchainRegistration,
+  type FileRecord,
+  type UploadOptions,
+} from '../api';
 
 const VisuallyHiddenInput = styled('input')({
   clip: 'rect(0 0 0 0)',
@@ -37,106 +74,423 @@ const VisuallyHiddenInput = styled('input')({
   width: 1,
 });
 
-interface UploadResult {
-  id: string;
-  originalName: string;
-  fileHash: string;
-  ipfsHash: string;
-  description: string;
-  uploadTime: string;
+// Matches the backend's per-file multer limit
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Files sent per /api/upload/batch request (the backend accepts up to 100)
+const UPLOAD_CHUNK_SIZE = 20;
+
+type RowStatus = 'ready' | 'hashing' | 'uploading' | 'uploaded' | 'recording' | 'registered' | 'queued' | 'failed';
+
+interface UploadRow {
+  path: string;
   size: number;
+  status: RowStatus;
+  // Hashing progress in percent
+  progress: number | null;
+  error: string | null;
+}
+
+const ROW_STATUSES: Record<RowStatus, { label: string; color: 'default' | 'info' | 'success' | 'error' }> = {
+  ready: { label: 'Ready', color: 'default' },
+  hashing: { label: 'Hashing', color: 'info' },
+  uploading: { label: 'Uploading', color: 'info' },
+  uploaded: { label: 'Awaiting wallet', color: 'info' },
+  recording: { label: 'Recording on-chain', color: 'info' },
+  registered: { label: 'Registered', color: 'success' },
+  queued: { label: 'Queued for batch', color: 'success' },
+  failed: { label: 'Failed', color: 'error' },
+};
+
+const FINAL_STATUSES: RowStatus[] = ['registered', 'queued', 'failed'];
+
+const formatFileSize = (bytes: number): string => {
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  if (bytes === 0) return '0 Bytes';
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round((bytes / Math.pow(1024, i)) * 100) / 100 + ' ' + sizes[i];
+};
+
+const toRows = (files: SelectedFile[]): UploadRow[] =>
+  files.map(({ file, path }) => file.size > MAX_UPLOAD_BYTES
+    ? { path, size: file.size, status: 'failed', progress: null, error: `Larger than the ${formatFileSize(MAX_UPLOAD_BYTES)} upload limit` }
+    : { path, size: file.size, status: 'ready', progress: null, error: null });
+
+interface FileUploadProps {
+  account: string | null;
+  user: AuthUser | null;
+  roles: ContractRoles | null;
 }
 
-const FileUpload: React.FC = () => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+const FileUpload: React.FC<FileUploadProps> = ({ account, user, roles }) => {
+  const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
+  const [rows, setRows] = useState<UploadRow[]>([]);
   const [description, setDescription] = useState('');
   const [isUploading, setIsUploading] = useState(false);
-  const [uploadResult, setUploadResult] = useState<UploadResult | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploadResult, setUploadResult] = useState<FileRecord | null>(null);
+  const [uploadBatchId, setUploadBatchId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [activeStep, setActiveStep] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+  const [existingFiles, setExistingFiles] = useState<FileRecord[]>([]);
+  const [parentId, setParentId] = useState('');
+  const [batchMode, setBatchMode] = useState(false);
 
-  const steps = [
-    'Select File',
-    'Calculate Hash',
-    'Store on IPFS',
-    'Record on Blockchain'
-  ];
+  useEffect(() => {
+    if (!user) {
+      setExistingFiles([]);
+      setParentId('');
+      return;
+    }
+    const controller = new AbortController();
+    loadExistingFiles(user.id, controller.signal);
+    return () => controller.abort();
+  }, [user]);
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0] || null;
-    setSelectedFile(file);
+  /**
+   * Load the latest version of the user's files, for the "new version of" selector.
+   * Only the uploader of a file can register a new version, admins included.
+   */
+  const loadExistingFiles = async (userId: string, signal?: AbortSignal) => {
+    try {
+      setExistingFiles(await listAllFiles({ status: 'latest', uploader: userId }, { signal }));
+    } catch (error) {
+      if (!isCancelled(error)) {
+        console.error('Error loading files:', error);
+      }
+    }
+  };
+
+  // Only hide the form when the contract confirms the wallet cannot register
+  const walletCanRegister = !roles || (roles.isRegistrar && !roles.paused);
+
+  const selectFiles = (files: SelectedFile[]) => {
+    setSelectedFiles(files);
+    setRows(toRows(files));
     setUploadResult(null);
+    setUploadBatchId(null);
     setError(null);
-    setActiveStep(0);
+    if (files.length !== 1) {
+      // Only a single file can be registered as a new version
+      setParentId('');
+    }
   };
 
-  const calculateClientSideHash = async (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const arrayBuffer = e.target?.result as ArrayBuffer;
-          const wordArray = CryptoJS.lib.WordArray.create(arrayBuffer);
-          const hash = CryptoJS.SHA256(wordArray).toString(CryptoJS.enc.Hex);
-          resolve(hash);
-        } catch (error) {
-          reject(error);
-        }
-      };
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsArrayBuffer(file);
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    selectFiles(fromFileList(event.target.files));
+    // Allow picking the same selection again after a run
+    event.target.value = '';
+  };
+
+  const handleDrop = async (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (isUploading || !user) return;
+
+    try {
+      selectFiles(await fromDataTransfer(event.dataTransfer));
+    } catch (error) {
+      console.error('Error reading dropped files:', error);
+      setError('Failed to read the dropped files');
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<UploadRow>) => {
+    setRows(current => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const cancelUpload = () => {
+    abortRef.current?.abort();
+  };
+
+  /**
+   * Submit the backend-computed hashes to FileIntegrity and wait for the receipt
+   */
+  const recordOnBlockchain = async (
+    record: FileRecord,
+    parent: FileRecord | null
+  ): Promise<BlockchainRegistration> => {
+    if (!window.ethereum || !account) {
+      throw new Error('Connect your wallet to record the file on the blockchain');
+    }
+
+    const provider = new ethers.BrowserProvider(window.ethereum);
+    const signer = await provider.getSigner();
+    const contract = getFileIntegrityContract(signer);
+
+    // SHA-256 is registered as the primary fileHash; anchor the other digests alongside it
+    const extraDigests = record.digests.filter(entry => entry.algorithm !== 'sha256');
+    const algorithms = extraDigests.map(entry => entry.algorithm);
+    const digests = extraDigests.map(entry => toDigestBytes(entry.digest));
+
+    const tx = parent
+      ? await contract.uploadFileVersion(
+          BigInt(parent.blockchain!.onChainFileId),
+          record.originalName,
+          toDigestBytes(record.fileHash),
+          record.ipfsHash || '',
+          record.description,
+          algorithms,
+          digests
+        )
+      : await contract.uploadFileWithDigests(
+          record.originalName,
+          toDigestBytes(record.fileHash),
+          record.ipfsHash || '',
+          record.description,
+          algorithms,
+          digests
+        );
+    const receipt = await tx.wait();
+
+    if (!receipt || receipt.status !== 1) {
+      throw new Error('Blockchain transaction reverted');
+    }
+
+    const uploadedLog = receipt.logs.find((log: ethers.Log) => {
+      try {
+        return contract.interface.parseLog(log)?.name === 'FileUploaded';
+      } catch {
+        return false;
+      }
     });
+
+    if (!uploadedLog) {
+      throw new Error('FileUploaded event not found in transaction receipt');
+    }
+    const uploadedEvent = contract.interface.parseLog(uploadedLog)!;
+
+    const network = await provider.getNetwork();
+
+    return {
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      onChainFileId: uploadedEvent.args.fileId.toString(),
+      chainId: network.chainId.toString(),
+      contractAddress: FILE_INTEGRITY_ADDRESS,
+      uploaderAddress: await signer.getAddress(),
+      eventLog: {
+        address: uploadedLog.address,
+        topics: [...uploadedLog.topics],
+        data: uploadedLog.data,
+        blockNumber: uploadedLog.blockNumber,
+        blockHash: uploadedLog.blockHash,
+        transactionHash: uploadedLog.transactionHash,
+        logIndex: uploadedLog.index,
+      },
+    };
+  };
+
+  /**
+   * Save the signed proof bundle of the uploaded file for offline verification
+   */
+  const downloadProof = async () => {
+    if (!uploadResult) return;
+
+    try {
+      const bundle = await getProofBundle(uploadResult.id);
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${uploadResult.originalName.replace(/^.*\//, '').replace(/\.[^.]+$/, '')}.proof.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Proof download error:', error);
+      setError('Failed to download the proof bundle');
+    }
+  };
+
+  /**
+   * Send files to the backend: a new version goes to the versions endpoint,
+   * everything else to /api/upload/batch, which reports every file separately
+   */
+  const sendFiles = async (
+    indexes: number[],
+    parent: FileRecord | null,
+    currentBatchId: string | null,
+    signal: AbortSignal
+  ): Promise<Pick<BatchUploadReport, 'uploadBatchId' | 'results'>> => {
+    const uploadOptions: UploadOptions = {
+      description,
+      anchorMode: batchMode ? 'batch' : 'individual',
+      uploadBatchId: currentBatchId,
+    };
+
+    if (parent) {
+      const { file, path } = selectedFiles[indexes[0]];
+      const record = await uploadVersion(parent.id, file, uploadOptions, { signal });
+      return {
+        uploadBatchId: null,
+        results: [{ index: 0, name: path, success: true, data: record }],
+      };
+    }
+
+    return uploadFiles(indexes.map(index => selectedFiles[index]), uploadOptions, { signal });
   };
 
   const handleUpload = async () => {
-    if (!selectedFile) {
-      setError('Please select a file first');
+    if (selectedFiles.length === 0) {
+      setError('Please select at least one file');
+      return;
+    }
+
+    // The backend only accepts the anchoring transaction from the wallet the account signed in with
+    if (!batchMode && account && user?.walletAddress && account.toLowerCase() !== user.walletAddress.toLowerCase()) {
+      setError(`Switch your wallet to ${user.walletAddress}, the address linked to your account`);
       return;
     }
 
+    const parent = existingFiles.find(file => file.id === parentId) || null;
+    if (parent && !batchMode && !parent.blockchain) {
+      setError('The selected file has not been recorded on the blockchain yet, so it cannot be versioned');
+      return;
+    }
+
+    const initialRows = toRows(selectedFiles);
+    setRows(initialRows);
     setIsUploading(true);
     setError(null);
-    setActiveStep(0);
+    setUploadResult(null);
+    setUploadBatchId(null);
+
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    const records = new Map<number, FileRecord>();
+    // Records the backend created but that must not stay on record; deleted once all chunks are sent
+    const discarded: string[] = [];
+    let currentBatchId: string | null = null;
 
     try {
-      // Step 1: File selected
-      setActiveStep(1);
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Step 2: Calculate hash
-      setActiveStep(2);
-      await calculateClientSideHash(selectedFile);
-      
-      // Step 3: Upload to backend (simulates IPFS)
-      setActiveStep(3);
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-      formData.append('description', description);
-
-      const response = await axios.post('http://localhost:5000/api/upload', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-
-      if (response.data.success) {
-        setUploadResult(response.data.data);
-        setActiveStep(4);
-        
-        // Here you would typically also store on blockchain
-        // For demo purposes, we'll simulate this step
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-      } else {
-        throw new Error(response.data.error || 'Upload failed');
+      const readyIndexes = initialRows.flatMap((row, index) => (row.status === 'ready' ? [index] : []));
+
+      for (let start = 0; start < readyIndexes.length; start += UPLOAD_CHUNK_SIZE) {
+        // Hash locally first (streamed in a worker) to check the server's digests against
+        const clientDigests = new Map<number, Digest[]>();
+        for (const index of readyIndexes.slice(start, start + UPLOAD_CHUNK_SIZE)) {
+          updateRow(index, { status: 'hashing', progress: 0 });
+          try {
+            clientDigests.set(index, await hashFile(selectedFiles[index].file, {
+              onProgress: ({ bytesProcessed, totalBytes }) =>
+                updateRow(index, { progress: totalBytes ? (bytesProcessed / totalBytes) * 100 : 100 }),
+              signal: abortController.signal,
+            }));
+            updateRow(index, { status: 'uploading', progress: null });
+          } catch (hashError) {
+            if (isCancelled(hashError)) throw hashError;
+            updateRow(index, { status: 'failed', progress: null, error: getErrorMessage(hashError, 'Failed to hash file') });
+          }
+        }
+
+        // Upload to the backend (adds content-addressed IPFS blocks)
+        const chunk = [...clientDigests.keys()];
+        if (chunk.length === 0) continue;
+
+        let response: Pick<BatchUploadReport, 'uploadBatchId' | 'results'>;
+        try {
+          response = await sendFiles(chunk, parent, currentBatchId, abortController.signal);
+        } catch (uploadError) {
+          if (isCancelled(uploadError)) throw uploadError;
+          const message = getErrorMessage(uploadError, 'Upload failed');
+          chunk.forEach(index => updateRow(index, { status: 'failed', error: message }));
+          continue;
+        }
+        currentBatchId = response.uploadBatchId;
+
+        for (const result of response.results) {
+          const index = chunk[result.index];
+          if (!result.success || !result.data) {
+            updateRow(index, { status: 'failed', error: result.error || 'Upload failed' });
+            continue;
+          }
+
+          const record = result.data;
+          const mismatched = clientDigests.get(index)!.filter(
+            entry => getDigest(record.digests, entry.algorithm) !== entry.digest
+          );
+          if (mismatched.length > 0) {
+            discarded.push(record.id);
+            updateRow(index, {
+              status: 'failed',
+              error: 'Hashes computed by the server do not match the local hashes; the file may have been altered in transit',
+            });
+            continue;
+          }
+
+          records.set(index, record);
+          // Batched records are anchored later by the backend
+          updateRow(index, { status: batchMode ? 'queued' : 'uploaded' });
+        }
       }
 
-    } catch (error: any) {
-      console.error('Upload error:', error);
-      setError(error.response?.data?.error || error.message || 'Failed to upload file');
-      setActiveStep(0);
+      // Record every uploaded file on the blockchain, one wallet transaction each
+      if (!batchMode) {
+        for (const [index, record] of records) {
+          if (abortController.signal.aborted) {
+            throw new DOMException('Upload was cancelled', 'AbortError');
+          }
+
+          updateRow(index, { status: 'recording' });
+          let registration: BlockchainRegistration;
+          try {
+            registration = await recordOnBlockchain(record, parent);
+          } catch (chainError) {
+            // Nothing reached the chain, so the record is dropped and the file can be uploaded again
+            records.delete(index);
+            discarded.push(record.id);
+            updateRow(index, { status: 'failed', error: getContractErrorMessage(chainError) });
+            continue;
+          }
+
+          try {
+            records.set(index, await attachBlockchainRecord(record.id, registration));
+            updateRow(index, { status: 'registered' });
+          } catch (attachError) {
+            // The file is registered on-chain, so the record stays for the reconciliation report
+            records.delete(index);
+            updateRow(index, {
+              status: 'failed',
+              error: `Recorded on-chain, but the backend did not accept the transaction: ${getErrorMessage(attachError, 'request failed')}`,
+            });
+          }
+        }
+      }
+    } catch (error) {
+      if (isCancelled(error)) {
+        setError('Upload cancelled');
+      } else {
+        console.error('Upload error:', error);
+        setError(getErrorMessage(error, 'Failed to upload files'));
+      }
+      // Files that did not finish are reported as failed and their records dropped
+      setRows(current => current.map(row => FINAL_STATUSES.includes(row.status)
+        ? row
+        : { ...row, status: 'failed', progress: null, error: 'Cancelled' }));
+      if (!batchMode) {
+        for (const [index, record] of records) {
+          if (!record.blockchain) {
+            records.delete(index);
+            discarded.push(record.id);
+          }
+        }
+      }
     } finally {
-      setIsUploading(false);
+      abortRef.current = null;
+    }
+
+    await Promise.all(discarded.map(id => deleteFile(id).catch(deleteError => {
+      console.error(`Failed to delete record ${id}:`, deleteError);
+    })));
+    setIsUploading(false);
+
+    if (selectedFiles.length === 1 && records.size === 1) {
+      setUploadResult([...records.values()][0]);
+    }
+    setUploadBatchId(currentBatchId);
+    if (records.size > 0) {
+      setParentId('');
+      if (user) loadExistingFiles(user.id);
     }
   };
 
@@ -144,19 +498,15 @@ const FileUpload: React.FC = () => {
     navigator.clipboard.writeText(text);
   };
 
-  const formatFileSize = (bytes: number): string => {
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    if (bytes === 0) return '0 Bytes';
-    const i = Math.floor(Math.log(bytes) / Math.log(1024));
-    return Math.round((bytes / Math.pow(1024, i)) * 100) / 100 + ' ' + sizes[i];
-  };
+  const finishedRows = rows.filter(row => row.status === 'registered' || row.status === 'queued').length;
+  const failedRows = rows.filter(row => row.status === 'failed').length;
 
   return (
     <Card elevation={3} sx={{ mb: 3 }}>
       <CardContent>
         <Typography variant="h5" gutterBottom sx={{ display: 'flex', alignItems: 'center' }}>
           <CloudUpload sx={{ mr: 1 }} />
-          Upload & Secure File
+          Upload & Secure Files
         </Typography>
 
         {error && (
@@ -165,110 +515,259 @@ const FileUpload: React.FC = () => {
           </Alert>
         )}
 
+        {!user && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Sign in to upload files. Uploaded files are only visible to your account.
+          </Alert>
+        )}
+
         <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 3 }}>
           <Box sx={{ flex: 1 }}>
-            <Box sx={{ mb: 3 }}>
-              <Button
-                component="label"
-                variant="outlined"
-                startIcon={<CloudUpload />}
-                sx={{ mr: 2, mb: 2 }}
-                size="large"
-              >
-                Choose File
-                <VisuallyHiddenInput
-                  type="file"
-                  onChange={handleFileSelect}
-                />
-              </Button>
-
-              {selectedFile && (
-                <Paper sx={{ p: 2, mt: 2 }}>
-                  <Typography variant="body2" color="text.secondary">
-                    Selected File:
-                  </Typography>
-                  <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
-                    {selectedFile.name}
-                  </Typography>
-                  <Typography variant="body2" color="text.secondary">
-                    Size: {formatFileSize(selectedFile.size)}
-                  </Typography>
+            {walletCanRegister ? (
+              <>
+                <Paper
+                  variant="outlined"
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setIsDragging(true);
+                  }}
+                  onDragLeave={() => setIsDragging(false)}
+                  onDrop={handleDrop}
+                  sx={{
+                    p: 2,
+                    mb: 3,
+                    borderStyle: 'dashed',
+                    borderColor: isDragging ? 'primary.main' : undefined,
+                    bgcolor: isDragging ? 'action.hover' : undefined,
+                  }}
+                >
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 1 }}>
+                    <Button
+                      component="label"
+                      variant="outlined"
+                      startIcon={<CloudUpload />}
+                      disabled={isUploading}
+                    >
+                      Choose Files
+                      <VisuallyHiddenInput
+                        type="file"
+                        multiple
+                        onChange={handleFileSelect}
+                      />
+                    </Button>
+                    <Button
+                      component="label"
+                      variant="outlined"
+                      startIcon={<FolderOpen />}
+                      disabled={isUploading}
+                    >
+                      Choose Folder
+                      <VisuallyHiddenInput
+                        type="file"
+                        ref={input => {
+                          if (input) input.webkitdirectory = true;
+                        }}
+                        onChange={handleFileSelect}
+                      />
+                    </Button>
+                  </Box>
                   <Typography variant="body2" color="text.secondary">
-                    Type: {selectedFile.type || 'Unknown'}
+                    {selectedFiles.length === 0
+                      ? 'Or drop files and folders here.'
+                      : `${selectedFiles.length} file${selectedFiles.length !== 1 ? 's' : ''} selected · ${formatFileSize(selectedFiles.reduce((total, { file }) => total + file.size, 0))}`}
                   </Typography>
                 </Paper>
-              )}
-            </Box>
-
-            <TextField
-              fullWidth
-              label="File Description (Optional)"
-              multiline
-              rows={3}
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Describe the purpose or contents of this file..."
-              sx={{ mb: 2 }}
-            />
-
-            <Button
-              variant="contained"
-              onClick={handleUpload}
-              disabled={!selectedFile || isUploading}
-              startIcon={isUploading ? <CircularProgress size={20} /> : <Security />}
-              size="large"
-              fullWidth
-            >
-              {isUploading ? 'Securing File...' : 'Upload & Secure File'}
-            </Button>
+
+                {selectedFiles.length <= 1 && (
+                  <TextField
+                    select
+                    fullWidth
+                    label="Register As"
+                    value={parentId}
+                    onChange={(e) => setParentId(e.target.value)}
+                    helperText="Choose an existing file to register this upload as its next version"
+                    sx={{ mb: 2 }}
+                  >
+                    <MenuItem value="">New file</MenuItem>
+                    {existingFiles.map(file => (
+                      <MenuItem key={file.id} value={file.id}>
+                        New version of {file.originalName} (currently v{file.version})
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                )}
+
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={batchMode}
+                      onChange={(e) => setBatchMode(e.target.checked)}
+                      disabled={isUploading}
+                    />
+                  }
+                  label="Anchor in the next Merkle batch (no wallet transaction)"
+                  sx={{ mb: 2 }}
+                />
+
+                {!batchMode && selectedFiles.length > 1 && (
+                  <Alert severity="info" sx={{ mb: 2 }}>
+                    Each file is recorded with its own wallet transaction. Anchor large folders in a
+                    Merkle batch to avoid confirming {selectedFiles.length} transactions.
+                  </Alert>
+                )}
+
+                <TextField
+                  fullWidth
+                  label="Description (Optional)"
+                  multiline
+                  rows={3}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Describe the purpose or contents of these files..."
+                  helperText={selectedFiles.length > 1 ? 'Applied to every selected file' : undefined}
+                  sx={{ mb: 2 }}
+                />
+
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  <Button
+                    variant="contained"
+                    onClick={handleUpload}
+                    disabled={!user || selectedFiles.length === 0 || isUploading}
+                    startIcon={isUploading ? <CircularProgress size={20} /> : <Security />}
+                    size="large"
+                    fullWidth
+                  >
+                    {isUploading
+                      ? 'Securing Files...'
+                      : selectedFiles.length > 1 ? `Upload & Secure ${selectedFiles.length} Files` : 'Upload & Secure File'}
+                  </Button>
+                  {isUploading && (
+                    <Button variant="outlined" onClick={cancelUpload}>
+                      Cancel
+                    </Button>
+                  )}
+                </Box>
+              </>
+            ) : (
+              <Alert severity="warning">
+                {roles?.paused
+                  ? 'Registrations are paused on the FileIntegrity contract. Uploads are disabled until the owner resumes them.'
+                  : 'The connected wallet holds no registrar role on the FileIntegrity contract, so it cannot register files.'}
+              </Alert>
+            )}
           </Box>
 
-          <Box sx={{ flex: 1 }}>
-            {(isUploading || uploadResult) && (
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            {rows.length > 0 && (
               <Box>
-                <Typography variant="h6" gutterBottom>
-                  Process Status
-                </Typography>
-                <Stepper activeStep={activeStep} orientation="vertical">
-                  {steps.map((label, index) => (
-                    <Step key={label}>
-                      <StepLabel>
-                        {label}
-                        {index === 1 && activeStep > 1 && (
-                          <Chip label="SHA-256" size="small" sx={{ ml: 1 }} />
-                        )}
-                        {index === 2 && activeStep > 2 && (
-                          <Chip label="Distributed" size="small" sx={{ ml: 1 }} />
-                        )}
-                        {index === 3 && activeStep > 3 && (
-                          <Chip label="Immutable" size="small" sx={{ ml: 1 }} />
-                        )}
-                      </StepLabel>
-                    </Step>
-                  ))}
-                </Stepper>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                  <Typography variant="h6">
+                    Process Status
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {finishedRows} of {rows.length} done{failedRows > 0 && ` · ${failedRows} failed`}
+                  </Typography>
+                </Box>
+                <LinearProgress
+                  variant="determinate"
+                  value={((finishedRows + failedRows) / rows.length) * 100}
+                  sx={{ mb: 1 }}
+                />
+                <TableContainer component={Paper} elevation={1} sx={{ maxHeight: 420 }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>File</TableCell>
+                        <TableCell>Size</TableCell>
+                        <TableCell>Status</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {rows.map((row, index) => (
+                        <TableRow key={`${index}-${row.path}`}>
+                          <TableCell sx={{ wordBreak: 'break-all' }}>{row.path}</TableCell>
+                          <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatFileSize(row.size)}</TableCell>
+                          <TableCell sx={{ minWidth: 160 }}>
+                            <Chip
+                              label={ROW_STATUSES[row.status].label}
+                              color={ROW_STATUSES[row.status].color}
+                              size="small"
+                            />
+                            {row.status === 'hashing' && row.progress !== null && (
+                              <LinearProgress variant="determinate" value={row.progress} sx={{ mt: 0.5 }} />
+                            )}
+                            {row.error && (
+                              <Typography variant="caption" color="error" sx={{ display: 'block', mt: 0.5 }}>
+                                {row.error}
+                              </Typography>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
               </Box>
             )}
           </Box>
         </Box>
 
+        {!isUploading && rows.length > 1 && finishedRows > 0 && (
+          <Alert severity={failedRows > 0 ? 'warning' : 'success'} sx={{ mt: 3 }}>
+            <Typography variant="body2">
+              {batchMode
+                ? `${finishedRows} file(s) queued for the next Merkle batch.`
+                : `${finishedRows} file(s) hashed and recorded on the blockchain.`}
+              {failedRows > 0 && ` ${failedRows} file(s) failed; select them again to retry.`}
+            </Typography>
+            {uploadBatchId && (
+              <Typography variant="caption" sx={{ fontFamily: 'monospace' }}>
+                Upload batch {uploadBatchId}
+              </Typography>
+            )}
+          </Alert>
+        )}
+
         {uploadResult && (
           <Box sx={{ mt: 3 }}>
             <Divider sx={{ mb: 2 }} />
-            <Alert severity="success" sx={{ mb: 2 }}>
-              <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
-                🎉 File secured successfully!
-              </Typography>
-              <Typography variant="body2">
-                Your file has been hashed and its integrity can now be verified using the blockchain.
-              </Typography>
-            </Alert>
+            {uploadResult.blockchain ? (
+              <Alert severity="success" sx={{ mb: 2 }}>
+                <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
+                  🎉 File secured successfully!
+                  {uploadResult.version > 1 && (
+                    <Chip label={`Version ${uploadResult.version}`} size="small" color="primary" sx={{ ml: 1 }} />
+                  )}
+                </Typography>
+                <Typography variant="body2">
+                  Your file has been hashed and recorded on the blockchain. Its integrity can now be verified at any time.
+                </Typography>
+              </Alert>
+            ) : (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
+                  File uploaded and queued for anchoring
+                  {uploadResult.version > 1 && (
+                    <Chip label={`Version ${uploadResult.version}`} size="small" color="primary" sx={{ ml: 1 }} />
+                  )}
+                </Typography>
+                <Typography variant="body2">
+                  Your file has been hashed and stored. It is recorded on the blockchain with the next Merkle batch;
+                  the inclusion proof and anchoring transaction are attached then.
+                </Typography>
+              </Alert>
+            )}
 
             <Paper sx={{ p: 3, bgcolor: 'grey.50' }}>
-              <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center' }}>
-                <CheckCircle color="success" sx={{ mr: 1 }} />
-                File Security Details
-              </Typography>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center' }}>
+                  <CheckCircle color="success" sx={{ mr: 1 }} />
+                  File Security Details
+                </Typography>
+                <Button variant="outlined" size="small" startIcon={<Download />} onClick={downloadProof}>
+                  Download proof
+                </Button>
+              </Box>
 
               <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
                 <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
@@ -318,6 +817,38 @@ const FileUpload: React.FC = () => {
                   </Box>
                 </Box>
 
+                {uploadResult.digests
+                  .filter(entry => entry.algorithm !== 'sha256')
+                  .map(entry => (
+                    <Box key={entry.algorithm}>
+                      <Typography variant="body2" color="text.secondary">
+                        {getAlgorithmLabel(entry.algorithm)} Hash:
+                      </Typography>
+                      <Box sx={{ display: 'flex', alignItems: 'center', mt: 0.5 }}>
+                        <Typography 
+                          variant="body2" 
+                          sx={{ 
+                            fontFamily: 'monospace', 
+                            bgcolor: 'grey.100', 
+                            p: 1, 
+                            borderRadius: 1,
+                            wordBreak: 'break-all',
+                            flexGrow: 1
+                          }}
+                        >
+                          {entry.digest}
+                        </Typography>
+                        <Button
+                          size="small"
+                          onClick={() => copyToClipboard(`${entry.algorithm}:${entry.digest}`)}
+                          sx={{ ml: 1 }}
+                        >
+                          <ContentCopy fontSize="small" />
+                        </Button>
+                      </Box>
+                    </Box>
+                  ))}
+
                 <Box>
                   <Typography variant="body2" color="text.secondary">
                     IPFS Hash:
@@ -338,7 +869,7 @@ const FileUpload: React.FC = () => {
                     </Typography>
                     <Button
                       size="small"
-                      onClick={() => copyToClipboard(uploadResult.ipfsHash)}
+                      onClick={() => copyToClipboard(uploadResult.ipfsHash!)}
                       sx={{ ml: 1 }}
                     >
                       <ContentCopy fontSize="small" />
@@ -346,6 +877,39 @@ const FileUpload: React.FC = () => {
                   </Box>
                 </Box>
 
+                {uploadResult.blockchain && (
+                  <Box>
+                    <Typography variant="body2" color="text.secondary">
+                      Blockchain Transaction:
+                    </Typography>
+                    <Box sx={{ display: 'flex', alignItems: 'center', mt: 0.5 }}>
+                      <Typography 
+                        variant="body2" 
+                        sx={{ 
+                          fontFamily: 'monospace', 
+                          bgcolor: 'grey.100', 
+                          p: 1, 
+                          borderRadius: 1,
+                          wordBreak: 'break-all',
+                          flexGrow: 1
+                        }}
+                      >
+                        {uploadResult.blockchain.transactionHash}
+                      </Typography>
+                      <Button
+                        size="small"
+                        onClick={() => copyToClipboard(uploadResult.blockchain!.transactionHash)}
+                        sx={{ ml: 1 }}
+                      >
+                        <ContentCopy fontSize="small" />
+                      </Button>
+                    </Box>
+                    <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+                      On-chain File ID: {uploadResult.blockchain.onChainFileId} · Block #{uploadResult.blockchain.blockNumber}
+                    </Typography>
+                  </Box>
+                )}
+
                 {uploadResult.description && (
                   <Box>
                     <Typography variant="body2" color="text.secondary">
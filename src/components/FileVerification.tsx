@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import {
   Card,
   CardContent,
@@ -13,18 +13,51 @@ import {
   Divider,
   Tabs,
   Tab,
+  FormControlLabel,
+  Switch,
+  LinearProgress,
+  MenuItem,
 } from '@mui/material';
 import {
   VerifiedUser,
   CloudUpload,
   Fingerprint,
   CheckCircle,
-  Error,
+  Error as ErrorIcon,
   Info,
+  Lock,
+  Description,
+  Block,
+  FolderZip,
+  Checklist,
 } from '@mui/icons-material';
 import { styled } from '@mui/material/styles';
-import axios from 'axios';
-import CryptoJS from 'crypto-js';
+import { ethers } from 'ethers';
+import { hashFile, type HashProgress } from '../utils/fileHasher';
+import {
+  HASH_ALGORITHMS,
+  HASH_ALGORITHM_LABELS,
+  getAlgorithmLabel,
+  getDigest,
+} from '../utils/hashAlgorithms';
+import {
+  FILE_INTEGRITY_ADDRESS,
+  getFileIntegrityContract,
+  toDigestBytes,
+  fromDigestBytes,
+} from '../contracts/fileIntegrity';
+import {
+  getErrorMessage,
+  isCancelled,
+  verifyFile,
+  verifyHash,
+  type Revocation,
+  type VerificationResult,
+  type VerifiedRecord,
+} from '../api';
+import ProofBundleVerifier from './ProofBundleVerifier';
+import BulkVerification from './BulkVerification';
+import ManifestVerifier from './ManifestVerifier';
 
 const VisuallyHiddenInput = styled('input')({
   clip: 'rect(0 0 0 0)',
@@ -60,31 +93,40 @@ function TabPanel(props: TabPanelProps) {
   );
 }
 
-interface VerificationResult {
-  isValid: boolean;
-  message: string;
-  data?: {
-    id: string;
-    originalName: string;
-    fileHash: string;
-    uploadTime: string;
-    description: string;
+interface LocalVerification {
+  backendChecked: boolean;
+  onChain: {
+    checked: boolean;
+    fileId?: string;
+    record?: Omit<VerifiedRecord, 'digests' | 'revocation'>;
+    revocation?: Revocation | null;
+    error?: string;
   };
-  calculatedHash?: string;
+}
+
+// A local check merges the backend lookup with the contract's and adds the browser's digests
+interface DisplayedVerification extends Omit<VerificationResult, 'data'> {
+  data?: VerifiedRecord | LocalVerification['onChain']['record'];
+  localVerification?: LocalVerification;
 }
 
 const FileVerification: React.FC = () => {
   const [tabValue, setTabValue] = useState(0);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [hashInput, setHashInput] = useState('');
+  const [hashAlgorithm, setHashAlgorithm] = useState('');
   const [isVerifying, setIsVerifying] = useState(false);
-  const [verificationResult, setVerificationResult] = useState<VerificationResult | null>(null);
+  const [verificationResult, setVerificationResult] = useState<DisplayedVerification | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [localMode, setLocalMode] = useState(false);
+  const [hashProgress, setHashProgress] = useState<HashProgress | null>(null);
+  const hashAbortRef = useRef<AbortController | null>(null);
 
   const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
     setSelectedFile(null);
     setHashInput('');
+    setHashAlgorithm('');
     setVerificationResult(null);
     setError(null);
   };
@@ -96,25 +138,82 @@ const FileVerification: React.FC = () => {
     setError(null);
   };
 
-  const calculateFileHash = async (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const arrayBuffer = e.target?.result as ArrayBuffer;
-          const wordArray = CryptoJS.lib.WordArray.create(arrayBuffer);
-          const hash = CryptoJS.SHA256(wordArray).toString(CryptoJS.enc.Hex);
-          resolve(hash);
-        } catch (error) {
-          reject(error);
-        }
+  const verifyFileUpload = async () => {
+    if (!selectedFile) {
+      setError('Please select a file first');
+      return;
+    }
+
+    setIsVerifying(true);
+    setError(null);
+
+    try {
+      setVerificationResult(await verifyFile(selectedFile));
+
+    } catch (error) {
+      console.error('Verification error:', error);
+      setError(getErrorMessage(error, 'Failed to verify file'));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  /**
+   * Look the hash up directly on the FileIntegrity contract (read-only, no transaction)
+   */
+  const checkOnChain = async (fileHash: string): Promise<LocalVerification['onChain']> => {
+    if (!window.ethereum || !FILE_INTEGRITY_ADDRESS) {
+      return { checked: false, error: 'Wallet or contract address not available' };
+    }
+
+    try {
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      const contract = getFileIntegrityContract(provider);
+      const fileId: bigint = await contract.hashToFileId(toDigestBytes(fileHash));
+
+      if (fileId === 0n) {
+        return { checked: true, fileId: '0' };
+      }
+
+      // Name and description only live in FileUploaded, the revocation reason in FileRevoked
+      const [file, revocation, [uploaded], [revoked]] = await Promise.all([
+        contract.getFileById(fileId),
+        contract.revocations(fileId),
+        contract.queryFilter(contract.filters.FileUploaded(fileId)),
+        contract.queryFilter(contract.filters.FileRevoked(fileId)),
+      ]);
+      const metadata = (uploaded as ethers.EventLog | undefined)?.args;
+      const revokedEvent = revoked as ethers.EventLog | undefined;
+
+      return {
+        checked: true,
+        fileId: fileId.toString(),
+        revocation: revocation.revoked
+          ? {
+              reason: revokedEvent?.args.reason ?? '',
+              revokedAt: new Date(Number(revocation.timestamp) * 1000).toISOString(),
+              transactionHash: revokedEvent?.transactionHash ?? null,
+            }
+          : null,
+        record: {
+          id: fileId.toString(),
+          originalName: metadata?.fileName ?? '',
+          fileHash: fromDigestBytes(file.fileHash),
+          uploadTime: new Date(Number(file.timestamp) * 1000).toISOString(),
+          description: metadata?.description ?? '',
+          version: Number(file.version),
+        },
       };
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsArrayBuffer(file);
-    });
+    } catch (error) {
+      console.error('On-chain lookup error:', error);
+      return { checked: false, error: (error as Error).message };
+    }
   };
 
-  const verifyFileUpload = async () => {
+  /**
+   * Hash the file in the browser and only send the hash for lookup
+   */
+  const verifyFileLocally = async () => {
     if (!selectedFile) {
       setError('Please select a file first');
       return;
@@ -122,23 +221,59 @@ const FileVerification: React.FC = () => {
 
     setIsVerifying(true);
     setError(null);
+    setHashProgress(null);
 
-    try {
-      const formData = new FormData();
-      formData.append('file', selectedFile);
+    const abortController = new AbortController();
+    hashAbortRef.current = abortController;
 
-      const response = await axios.post('http://localhost:5000/api/verify', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
+    try {
+      const calculatedDigests = await hashFile(selectedFile, {
+        onProgress: setHashProgress,
+        signal: abortController.signal,
+      });
+      const calculatedHash = getDigest(calculatedDigests, 'sha256')!;
+
+      const [backendResult, onChain] = await Promise.all([
+        verifyHash(calculatedHash, { method: 'local' }, { signal: abortController.signal }),
+        checkOnChain(calculatedHash),
+      ]);
+
+      const onChainValid = onChain.checked && onChain.fileId !== '0';
+      // Revocation on either side wins over a match on the other
+      const revocation = backendResult.revocation || onChain.revocation || null;
+      const isValid = !revocation && (backendResult.isValid || onChainValid);
+
+      setVerificationResult({
+        ...backendResult,
+        data: backendResult.data || onChain.record,
+        isValid,
+        status: revocation ? 'revoked' : backendResult.status,
+        revocation,
+        message: revocation
+          ? `File matches a record that was revoked: ${revocation.reason}`
+          : backendResult.status === 'superseded' || backendResult.status === 'proof_invalid'
+            ? backendResult.message
+            : isValid
+              ? 'File integrity verified from a locally computed hash'
+              : 'File not found or has been tampered with',
+        calculatedHash,
+        calculatedDigests,
+        localVerification: {
+          backendChecked: true,
+          onChain,
         },
       });
 
-      setVerificationResult(response.data);
-
-    } catch (error: any) {
-      console.error('Verification error:', error);
-      setError(error.response?.data?.error || error.message || 'Failed to verify file');
+    } catch (error) {
+      if (isCancelled(error)) {
+        setError('Verification cancelled');
+      } else {
+        console.error('Local verification error:', error);
+        setError(getErrorMessage(error, 'Failed to verify file'));
+      }
     } finally {
+      hashAbortRef.current = null;
+      setHashProgress(null);
       setIsVerifying(false);
     }
   };
@@ -153,15 +288,11 @@ const FileVerification: React.FC = () => {
     setError(null);
 
     try {
-      const response = await axios.post('http://localhost:5000/api/verify-hash', {
-        fileHash: hashInput.trim()
-      });
-
-      setVerificationResult(response.data);
+      setVerificationResult(await verifyHash(hashInput.trim(), { algorithm: hashAlgorithm || undefined }));
 
-    } catch (error: any) {
+    } catch (error) {
       console.error('Hash verification error:', error);
-      setError(error.response?.data?.error || error.message || 'Failed to verify hash');
+      setError(getErrorMessage(error, 'Failed to verify hash'));
     } finally {
       setIsVerifying(false);
     }
@@ -194,9 +325,12 @@ const FileVerification: React.FC = () => {
         )}
 
         <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
-          <Tabs value={tabValue} onChange={handleTabChange} aria-label="verification methods">
+          <Tabs value={tabValue} onChange={handleTabChange} aria-label="verification methods" variant="scrollable" scrollButtons="auto">
             <Tab label="Upload File" icon={<CloudUpload />} />
             <Tab label="Enter Hash" icon={<Fingerprint />} />
+            <Tab label="Proof Bundle" icon={<Description />} />
+            <Tab label="Bulk" icon={<FolderZip />} />
+            <Tab label="Manifest" icon={<Checklist />} />
           </Tabs>
         </Box>
 
@@ -232,30 +366,77 @@ const FileVerification: React.FC = () => {
               </Paper>
             )}
 
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={localMode}
+                  onChange={(e) => {
+                    setLocalMode(e.target.checked);
+                    setVerificationResult(null);
+                  }}
+                />
+              }
+              label="Local verification: hash in the browser, never upload the file"
+            />
+
             <Button
               variant="contained"
-              onClick={verifyFileUpload}
+              onClick={localMode ? verifyFileLocally : verifyFileUpload}
               disabled={!selectedFile || isVerifying}
-              startIcon={isVerifying ? <CircularProgress size={20} /> : <VerifiedUser />}
+              startIcon={isVerifying ? <CircularProgress size={20} /> : localMode ? <Lock /> : <VerifiedUser />}
               size="large"
             >
-              {isVerifying ? 'Verifying...' : 'Verify File Integrity'}
+              {isVerifying ? 'Verifying...' : localMode ? 'Verify Locally' : 'Verify File Integrity'}
             </Button>
+
+            {isVerifying && hashProgress && (
+              <Box>
+                <LinearProgress
+                  variant="determinate"
+                  value={hashProgress.totalBytes
+                    ? (hashProgress.bytesProcessed / hashProgress.totalBytes) * 100
+                    : 100}
+                />
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <Typography variant="caption" color="text.secondary">
+                    Hashing locally: {formatFileSize(hashProgress.bytesProcessed)} / {formatFileSize(hashProgress.totalBytes)}
+                  </Typography>
+                  <Button size="small" onClick={() => hashAbortRef.current?.abort()}>
+                    Cancel
+                  </Button>
+                </Box>
+              </Box>
+            )}
           </Box>
         </TabPanel>
 
         <TabPanel value={tabValue} index={1}>
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <TextField
+              select
+              label="Hash Algorithm"
+              value={hashAlgorithm}
+              onChange={(e) => setHashAlgorithm(e.target.value)}
+              helperText="Auto-detect matches the hash against every algorithm with the same length"
+            >
+              <MenuItem value="">Auto-detect</MenuItem>
+              {HASH_ALGORITHMS.map(algorithm => (
+                <MenuItem key={algorithm} value={algorithm}>
+                  {HASH_ALGORITHM_LABELS[algorithm]}
+                </MenuItem>
+              ))}
+            </TextField>
+
             <TextField
               fullWidth
-              label="File Hash (SHA-256)"
-              placeholder="Enter the SHA-256 hash of the file..."
+              label="File Hash"
+              placeholder="Enter the hash of the file, e.g. 3a7bd3... or sha512:9b71d2..."
               value={hashInput}
               onChange={(e) => setHashInput(e.target.value)}
               multiline
               rows={3}
               sx={{ fontFamily: 'monospace' }}
-              helperText="Paste the SHA-256 hash you want to verify against the blockchain records"
+              helperText="SHA-256, SHA-512, SHA3-256, Keccak-256 or BLAKE3 hash to verify against the blockchain records"
             />
 
             <Button
@@ -270,22 +451,151 @@ const FileVerification: React.FC = () => {
           </Box>
         </TabPanel>
 
+        <TabPanel value={tabValue} index={2}>
+          <ProofBundleVerifier />
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={3}>
+          <BulkVerification />
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={4}>
+          <ManifestVerifier />
+        </TabPanel>
+
         {verificationResult && (
           <Box sx={{ mt: 3 }}>
             <Divider sx={{ mb: 2 }} />
+
+            {verificationResult.localVerification && (
+              <Alert severity="info" icon={<Lock />} sx={{ mb: 2 }}>
+                <Typography variant="body2" sx={{ fontWeight: 'medium' }}>
+                  Local verification: no file bytes were transmitted.
+                </Typography>
+                <Typography variant="body2">
+                  The SHA-256 hash was computed in your browser and only the hash was checked against
+                  the registry
+                  {verificationResult.localVerification.onChain.checked
+                    ? ' and the FileIntegrity contract'
+                    : ''}
+                  .
+                </Typography>
+              </Alert>
+            )}
             
-            <Alert 
-              severity={verificationResult.isValid ? 'success' : 'warning'} 
-              sx={{ mb: 2 }}
-              icon={verificationResult.isValid ? <CheckCircle /> : <Error />}
-            >
-              <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
-                {verificationResult.isValid ? '✅ File Integrity Verified' : '⚠️ File Not Found or Tampered'}
-              </Typography>
-              <Typography variant="body2">
-                {verificationResult.message}
-              </Typography>
-            </Alert>
+            {verificationResult.status === 'revoked' ? (
+              <Alert severity="error" variant="filled" sx={{ mb: 2 }} icon={<Block />}>
+                <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
+                  🚫 File Revoked
+                </Typography>
+                <Typography variant="body2">
+                  {verificationResult.message}
+                </Typography>
+              </Alert>
+            ) : (
+              <Alert 
+                severity={verificationResult.isValid ? 'success' : 'warning'} 
+                sx={{ mb: 2 }}
+                icon={verificationResult.isValid ? <CheckCircle /> : <ErrorIcon />}
+              >
+                <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
+                  {verificationResult.isValid ? '✅ File Integrity Verified' : '⚠️ File Not Found or Tampered'}
+                </Typography>
+                <Typography variant="body2">
+                  {verificationResult.message}
+                </Typography>
+              </Alert>
+            )}
+
+            {verificationResult.revocation && (
+              <Paper variant="outlined" sx={{ p: 2, mb: 2, borderColor: 'error.main', bgcolor: 'grey.100' }}>
+                <Typography variant="subtitle1" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Block color="error" />
+                  Revocation
+                </Typography>
+                <Typography variant="body2">
+                  <strong>Reason:</strong> {verificationResult.revocation.reason}
+                </Typography>
+                <Typography variant="body2">
+                  <strong>Revoked on:</strong> {new Date(verificationResult.revocation.revokedAt).toLocaleString()}
+                </Typography>
+                {verificationResult.data && (
+                  <Typography variant="body2">
+                    <strong>Record:</strong> {verificationResult.data.originalName}, registered{' '}
+                    {new Date(verificationResult.data.uploadTime).toLocaleString()}
+                  </Typography>
+                )}
+                {verificationResult.revocation.transactionHash && (
+                  <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all', mt: 1 }}>
+                    Revoked in tx {verificationResult.revocation.transactionHash}
+                  </Typography>
+                )}
+              </Paper>
+            )}
+
+            {verificationResult.batch && (
+              <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+                <Typography variant="subtitle1" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  Merkle Batch Inclusion
+                  <Chip
+                    label={verificationResult.batch.proofValid ? 'Proof matches root' : 'Proof mismatch'}
+                    color={verificationResult.batch.proofValid ? 'success' : 'error'}
+                    size="small"
+                  />
+                  {verificationResult.batch.onChainVerified !== null && (
+                    <Chip
+                      label={verificationResult.batch.onChainVerified ? 'Verified on-chain' : 'Rejected on-chain'}
+                      color={verificationResult.batch.onChainVerified ? 'success' : 'error'}
+                      size="small"
+                      variant="outlined"
+                    />
+                  )}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Batch {verificationResult.batch.batchId} ({verificationResult.batch.status}) · leaf #{verificationResult.batch.leafIndex}
+                </Typography>
+                <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all', mt: 1 }}>
+                  Root: {verificationResult.batch.merkleRoot}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                  Proof path:
+                </Typography>
+                {verificationResult.batch.proof.map((node, index) => (
+                  <Typography
+                    key={`${index}-${node}`}
+                    variant="body2"
+                    sx={{ fontFamily: 'monospace', fontSize: '0.8em', wordBreak: 'break-all' }}
+                  >
+                    {index + 1}. {node}
+                  </Typography>
+                ))}
+                {verificationResult.batch.anchor ? (
+                  <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all', mt: 1 }}>
+                    Anchored in tx {verificationResult.batch.anchor.transactionHash} (on-chain batch{' '}
+                    {verificationResult.batch.anchor.onChainBatchId}, block #{verificationResult.batch.anchor.blockNumber})
+                  </Typography>
+                ) : (
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                    The batch root has not been anchored on-chain yet.
+                  </Typography>
+                )}
+                {verificationResult.batch.onChainError && (
+                  <Typography variant="caption" color="error">
+                    On-chain check unavailable: {verificationResult.batch.onChainError}
+                  </Typography>
+                )}
+              </Paper>
+            )}
+
+            {verificationResult.status === 'superseded' && verificationResult.latestVersion && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                <Typography variant="body2">
+                  This is version {verificationResult.data?.version ?? '?'} of the document. The latest
+                  version is v{verificationResult.latestVersion.version}, registered on{' '}
+                  {new Date(verificationResult.latestVersion.uploadTime).toLocaleString()}.
+                </Typography>
+              </Alert>
+            )}
 
             {verificationResult.isValid && verificationResult.data ? (
               <Paper sx={{ p: 3, bgcolor: 'success.50' }}>
@@ -330,6 +640,13 @@ const FileVerification: React.FC = () => {
                     >
                       {verificationResult.data.fileHash}
                     </Typography>
+                    {verificationResult.matchedAlgorithm && (
+                      <Chip
+                        label={`Matched by ${getAlgorithmLabel(verificationResult.matchedAlgorithm)}`}
+                        size="small"
+                        sx={{ mt: 1 }}
+                      />
+                    )}
                   </Box>
 
                   {verificationResult.data.description && (
@@ -343,6 +660,19 @@ const FileVerification: React.FC = () => {
                     </Box>
                   )}
 
+                  {verificationResult.localVerification?.onChain.checked && (
+                    <Box>
+                      <Typography variant="body2" color="text.secondary">
+                        On-chain File ID:
+                      </Typography>
+                      <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
+                        {verificationResult.localVerification.onChain.fileId !== '0'
+                          ? verificationResult.localVerification.onChain.fileId
+                          : 'Not recorded on chain'}
+                      </Typography>
+                    </Box>
+                  )}
+
                   <Box sx={{ mt: 2 }}>
                     <Chip label="Authentic" color="success" variant="filled" sx={{ mr: 1 }} />
                     <Chip label="Unmodified" color="success" variant="filled" sx={{ mr: 1 }} />
@@ -350,10 +680,10 @@ const FileVerification: React.FC = () => {
                   </Box>
                 </Box>
               </Paper>
-            ) : (
+            ) : verificationResult.status !== 'revoked' && (
               <Paper sx={{ p: 3, bgcolor: 'warning.50' }}>
                 <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center' }}>
-                  <Error color="warning" sx={{ mr: 1 }} />
+                  <ErrorIcon color="warning" sx={{ mr: 1 }} />
                   Verification Failed
                 </Typography>
 
@@ -369,7 +699,28 @@ const FileVerification: React.FC = () => {
                     </ul>
                   </Alert>
 
-                  {verificationResult.calculatedHash && (
+                  {verificationResult.calculatedDigests ? (
+                    verificationResult.calculatedDigests.map(entry => (
+                      <Box key={entry.algorithm}>
+                        <Typography variant="body2" color="text.secondary">
+                          Calculated {getAlgorithmLabel(entry.algorithm)} Hash:
+                        </Typography>
+                        <Typography 
+                          variant="body2" 
+                          sx={{ 
+                            fontFamily: 'monospace', 
+                            bgcolor: 'grey.100', 
+                            p: 1, 
+                            borderRadius: 1,
+                            wordBreak: 'break-all',
+                            mt: 0.5
+                          }}
+                        >
+                          {entry.digest}
+                        </Typography>
+                      </Box>
+                    ))
+                  ) : verificationResult.calculatedHash && (
                     <Box>
                       <Typography variant="body2" color="text.secondary">
                         Calculated Hash:
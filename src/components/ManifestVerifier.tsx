@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import {
+  Typography,
+  Box,
+  Button,
+  Alert,
+  CircularProgress,
+  Paper,
+  Chip,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import {
+  Checklist,
+  FolderOpen,
+  UploadFile,
+} from '@mui/icons-material';
+import { styled } from '@mui/material/styles';
+import { OutcomeChip } from './VerificationLog';
+import {
+  getErrorMessage,
+  verifyManifest,
+  type ManifestCheckReport,
+  type ManifestEntryStatus,
+} from '../api';
+import { fromDataTransfer, fromFileList, type SelectedFile } from '../utils/fileSelection';
+
+const VisuallyHiddenInput = styled('input')({
+  clip: 'rect(0 0 0 0)',
+  clipPath: 'inset(50%)',
+  height: 1,
+  overflow: 'hidden',
+  position: 'absolute',
+  bottom: 0,
+  left: 0,
+  whiteSpace: 'nowrap',
+  width: 1,
+});
+
+const STATUSES: Record<ManifestEntryStatus, { label: string; color: 'success' | 'error' | 'warning' }> = {
+  ok: { label: 'OK', color: 'success' },
+  modified: { label: 'Modified', color: 'error' },
+  missing: { label: 'Missing', color: 'warning' },
+};
+
+/**
+ * Check a local directory against a sha256sum or JSON manifest, like
+ * `sha256sum -c`, and show whether each listed hash is registered
+ */
+const ManifestVerifier: React.FC = () => {
+  const [manifest, setManifest] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
+  const [report, setReport] = useState<ManifestCheckReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectFiles = (files: SelectedFile[]) => {
+    setSelectedFiles(files);
+    setReport(null);
+    setError(null);
+  };
+
+  const handleManifestSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setManifest(event.target.files?.[0] || null);
+    setReport(null);
+    setError(null);
+    event.target.value = '';
+  };
+
+  const handleFolderSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    selectFiles(fromFileList(event.target.files));
+    event.target.value = '';
+  };
+
+  const handleDrop = async (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (isChecking) return;
+
+    try {
+      selectFiles(await fromDataTransfer(event.dataTransfer));
+    } catch (error) {
+      console.error('Error reading dropped files:', error);
+      setError('Failed to read the dropped files');
+    }
+  };
+
+  const checkFiles = async () => {
+    if (!manifest) return;
+
+    setIsChecking(true);
+    setError(null);
+    setReport(null);
+    setUploadProgress(0);
+
+    try {
+      setReport(await verifyManifest(manifest, selectedFiles, {
+        onUploadProgress: ({ loaded, total }) => setUploadProgress(total ? (loaded / total) * 100 : null),
+      }));
+    } catch (error) {
+      console.error('Manifest check error:', error);
+      setError(getErrorMessage(error, 'Failed to check files against the manifest'));
+    } finally {
+      setUploadProgress(null);
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Check a folder against a checksum manifest (GNU sha256sum output or a JSON manifest exported
+        from the audit trail). Names in the manifest are matched relative to the chosen folder.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+        <Button component="label" variant="outlined" startIcon={<UploadFile />} disabled={isChecking}>
+          Choose Manifest
+          <VisuallyHiddenInput type="file" accept=".sha256,.sha256sum,.txt,.json" onChange={handleManifestSelect} />
+        </Button>
+        <Typography variant="body2" color="text.secondary">
+          {manifest ? manifest.name : 'No manifest selected'}
+        </Typography>
+      </Box>
+
+      <Paper
+        variant="outlined"
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        sx={{
+          p: 2,
+          mb: 2,
+          borderStyle: 'dashed',
+          borderColor: isDragging ? 'primary.main' : undefined,
+          bgcolor: isDragging ? 'action.hover' : undefined,
+        }}
+      >
+        <Button component="label" variant="outlined" startIcon={<FolderOpen />} disabled={isChecking} sx={{ mb: 1 }}>
+          Choose Folder
+          <VisuallyHiddenInput
+            type="file"
+            ref={input => {
+              if (input) input.webkitdirectory = true;
+            }}
+            onChange={handleFolderSelect}
+          />
+        </Button>
+        <Typography variant="body2" color="text.secondary">
+          {selectedFiles.length === 0
+            ? 'Or drop the folder here.'
+            : `${selectedFiles.length} file${selectedFiles.length !== 1 ? 's' : ''} selected`}
+        </Typography>
+      </Paper>
+
+      <Button
+        variant="contained"
+        onClick={checkFiles}
+        disabled={!manifest || isChecking}
+        startIcon={isChecking ? <CircularProgress size={20} /> : <Checklist />}
+        size="large"
+        fullWidth
+      >
+        {isChecking ? 'Checking...' : 'Check Against Manifest'}
+      </Button>
+      {isChecking && uploadProgress !== null && (
+        <LinearProgress variant="determinate" value={uploadProgress} sx={{ mt: 1 }} />
+      )}
+
+      {report && (
+        <Box sx={{ mt: 3 }}>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+            <Chip label={`${report.summary.total} listed`} />
+            <Chip label={`${report.summary.ok} OK`} color="success" variant="outlined" />
+            <Chip label={`${report.summary.modified} modified`} color="error" variant="outlined" />
+            <Chip label={`${report.summary.missing} missing`} color="warning" variant="outlined" />
+            {report.summary.extra > 0 && (
+              <Chip label={`${report.summary.extra} not in manifest`} variant="outlined" />
+            )}
+            <Chip label={`${report.summary.registered} registered`} color="primary" variant="outlined" />
+          </Box>
+
+          {report.errors.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {report.errors.length} manifest line{report.errors.length !== 1 ? 's' : ''} could not be read
+              (first at line {report.errors[0].line}: {report.errors[0].message}).
+            </Alert>
+          )}
+
+          <TableContainer component={Paper} elevation={1} sx={{ maxHeight: 480 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Registered</TableCell>
+                  <TableCell>SHA-256</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {report.entries.map((entry, index) => (
+                  <TableRow key={index} hover>
+                    <TableCell sx={{ wordBreak: 'break-all' }}>{entry.name}</TableCell>
+                    <TableCell>
+                      <Chip label={STATUSES[entry.status].label} color={STATUSES[entry.status].color} size="small" />
+                    </TableCell>
+                    <TableCell>
+                      {entry.registration ? <OutcomeChip outcome={entry.registration.status} /> : 'No'}
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8em' }}>
+                      {entry.status === 'modified'
+                        ? `expected ${entry.expectedHash.substring(0, 12)}..., got ${entry.actualHash!.substring(0, 12)}...`
+                        : `${entry.expectedHash.substring(0, 16)}...`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {report.extra.map(file => (
+                  <TableRow key={`extra-${file.path}`} hover>
+                    <TableCell sx={{ wordBreak: 'break-all' }}>{file.path}</TableCell>
+                    <TableCell>
+                      <Chip label="Not in manifest" size="small" variant="outlined" />
+                    </TableCell>
+                    <TableCell>-</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8em' }}>
+                      {file.actualHash.substring(0, 16)}...
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ManifestVerifier;
@@ -0,0 +1,230 @@
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  Typography,
+  Box,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+  Paper,
+  FormControlLabel,
+  Switch,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+} from '@mui/material';
+import {
+  CloudUpload,
+  Description,
+  CheckCircle,
+  Cancel,
+  RemoveCircleOutline,
+  VerifiedUser,
+} from '@mui/icons-material';
+import { styled } from '@mui/material/styles';
+import { ethers } from 'ethers';
+import { getHealth } from '../api';
+import { isAbortError, type HashProgress } from '../utils/fileHasher';
+import {
+  parseProofBundle,
+  verifyProofBundle,
+  type ProofBundle,
+  type ProofCheckStatus,
+  type ProofVerificationResult,
+} from '../utils/proofBundle';
+
+const VisuallyHiddenInput = styled('input')({
+  clip: 'rect(0 0 0 0)',
+  clipPath: 'inset(50%)',
+  height: 1,
+  overflow: 'hidden',
+  position: 'absolute',
+  bottom: 0,
+  left: 0,
+  whiteSpace: 'nowrap',
+  width: 1,
+});
+
+const CHECK_ICONS: Record<ProofCheckStatus, React.ReactElement> = {
+  passed: <CheckCircle color="success" />,
+  failed: <Cancel color="error" />,
+  skipped: <RemoveCircleOutline color="disabled" />,
+};
+
+/**
+ * Verify a file against a downloaded proof bundle entirely in the browser
+ */
+const ProofBundleVerifier: React.FC = () => {
+  const [file, setFile] = useState<File | null>(null);
+  const [bundle, setBundle] = useState<ProofBundle | null>(null);
+  const [expectedSigner, setExpectedSigner] = useState('');
+  const [checkChain, setCheckChain] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [hashProgress, setHashProgress] = useState<HashProgress | null>(null);
+  const [result, setResult] = useState<ProofVerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Start from the signer this backend publishes; a bundle from another deployment needs its own
+  useEffect(() => {
+    const controller = new AbortController();
+    getHealth({ signal: controller.signal })
+      .then(health => setExpectedSigner(current => current || health.proofSigner))
+      .catch(() => undefined);
+    return () => controller.abort();
+  }, []);
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(event.target.files?.[0] || null);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleBundleSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const bundleFile = event.target.files?.[0];
+    setBundle(null);
+    setResult(null);
+    setError(null);
+    if (!bundleFile) return;
+
+    try {
+      setBundle(await parseProofBundle(bundleFile));
+    } catch (parseError) {
+      setError((parseError as Error).message);
+    }
+  };
+
+  const verify = async () => {
+    if (!file || !bundle) return;
+
+    if (expectedSigner && !ethers.isAddress(expectedSigner)) {
+      setError('Expected signer must be an Ethereum address');
+      return;
+    }
+
+    setIsVerifying(true);
+    setError(null);
+    setResult(null);
+    setHashProgress(null);
+
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+
+    try {
+      const provider = checkChain && window.ethereum
+        ? new ethers.BrowserProvider(window.ethereum)
+        : undefined;
+
+      setResult(await verifyProofBundle(file, bundle, {
+        expectedSigner: expectedSigner || undefined,
+        provider,
+        onProgress: setHashProgress,
+        signal: abortController.signal,
+      }));
+    } catch (verifyError) {
+      setError(isAbortError(verifyError) ? 'Verification cancelled' : (verifyError as Error).message);
+    } finally {
+      abortRef.current = null;
+      setIsVerifying(false);
+    }
+  };
+
+  const hasFailures = result?.checks.some(check => check.status === 'failed') ?? false;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Typography variant="body2" color="text.secondary">
+        Check a file against a proof bundle downloaded after upload. Everything runs in your browser;
+        only the expected signer is read from the backend. The bundle is trusted when it is signed by
+        that key or its transactions are confirmed through your wallet's network.
+      </Typography>
+
+      {error && <Alert severity="error">{error}</Alert>}
+
+      <Box sx={{ display: 'flex', gap: 2 }}>
+        <Button component="label" variant="outlined" startIcon={<CloudUpload />} sx={{ flex: 1 }}>
+          {file ? file.name : 'Choose File'}
+          <VisuallyHiddenInput type="file" onChange={handleFileSelect} />
+        </Button>
+        <Button component="label" variant="outlined" startIcon={<Description />} sx={{ flex: 1 }}>
+          {bundle ? `Proof for ${bundle.payload.file.originalName}` : 'Choose Proof Bundle'}
+          <VisuallyHiddenInput type="file" accept=".json,application/json" onChange={handleBundleSelect} />
+        </Button>
+      </Box>
+
+      <TextField
+        label="Expected Server Signer"
+        placeholder="0x..."
+        value={expectedSigner}
+        onChange={(e) => setExpectedSigner(e.target.value.trim())}
+        helperText="The proofSigner address published by the backend health endpoint; without it, only the chain can confirm the bundle"
+        sx={{ fontFamily: 'monospace' }}
+      />
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={checkChain}
+            onChange={(e) => setCheckChain(e.target.checked)}
+            disabled={!window.ethereum}
+          />
+        }
+        label="Also confirm the anchoring transactions through my wallet's network"
+      />
+
+      <Button
+        variant="contained"
+        onClick={verify}
+        disabled={!file || !bundle || isVerifying}
+        startIcon={isVerifying ? <CircularProgress size={20} /> : <VerifiedUser />}
+        size="large"
+      >
+        {isVerifying ? 'Verifying...' : 'Verify Proof Bundle'}
+      </Button>
+
+      {isVerifying && hashProgress && (
+        <Box>
+          <LinearProgress
+            variant="determinate"
+            value={hashProgress.totalBytes ? (hashProgress.bytesProcessed / hashProgress.totalBytes) * 100 : 100}
+          />
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+            <Button size="small" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </Button>
+          </Box>
+        </Box>
+      )}
+
+      {result && (
+        <Paper sx={{ p: 2 }}>
+          <Alert severity={result.valid ? 'success' : hasFailures ? 'error' : 'warning'} sx={{ mb: 1 }}>
+            {result.valid
+              ? '✅ File matches the proof bundle'
+              : hasFailures
+                ? '⚠️ Proof bundle verification failed'
+                : !result.anchored
+                  ? '⚠️ The bundle checks out but the file was not anchored on-chain yet'
+                  : '⚠️ Nothing failed, but nothing vouches for the bundle: give the expected server signer or confirm the transactions through your wallet\'s network'}
+          </Alert>
+          <List dense>
+            {result.checks.map((check) => (
+              <ListItem key={check.label}>
+                <ListItemIcon>{CHECK_ICONS[check.status]}</ListItemIcon>
+                <ListItemText
+                  primary={check.label}
+                  secondary={check.detail}
+                  slotProps={{ secondary: { sx: { wordBreak: 'break-all' } } }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Paper>
+      )}
+    </Box>
+  );
+};
+
+export default ProofBundleVerifier;
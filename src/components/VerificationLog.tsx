@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  Alert,
+  CircularProgress,
+  TextField,
+  MenuItem,
+  Typography,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import { Refresh, Sync } from '@mui/icons-material';
+import {
+  getErrorMessage,
+  isCancelled,
+  listVerifications,
+  syncVerifications,
+  type VerificationEntry,
+  type VerificationOutcome,
+} from '../api';
+
+const OUTCOMES: Record<VerificationOutcome, { label: string; color: 'success' | 'info' | 'error' | 'warning' }> = {
+  valid: { label: 'Valid', color: 'success' },
+  superseded: { label: 'Superseded', color: 'info' },
+  revoked: { label: 'Revoked', color: 'error' },
+  proof_invalid: { label: 'Proof Invalid', color: 'error' },
+  not_found: { label: 'Not Found', color: 'warning' },
+};
+
+const METHOD_LABELS: Record<VerificationEntry['method'], string> = {
+  file_upload: 'File upload',
+  batch: 'Bulk verification',
+  hash: 'Hash lookup',
+  local: 'Local (browser)',
+  on_chain: 'On-chain',
+};
+
+export const OutcomeChip: React.FC<{ outcome: VerificationOutcome }> = ({ outcome }) => (
+  <Chip label={OUTCOMES[outcome].label} color={OUTCOMES[outcome].color} size="small" />
+);
+
+// Wallet address for on-chain checks, client address for API checks
+const describeRequester = (entry: VerificationEntry): string =>
+  entry.requester.address || entry.requester.ip || 'Unknown';
+
+/**
+ * Per-file verification timeline, newest first
+ */
+export const VerificationTimeline: React.FC<{ entries: VerificationEntry[] }> = ({ entries }) => {
+  if (entries.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        This file has not been verified yet.
+      </Typography>
+    );
+  }
+
+  return (
+    <List dense>
+      {entries.map(entry => (
+        <ListItem key={entry.id} secondaryAction={<OutcomeChip outcome={entry.outcome} />}>
+          <ListItemText
+            primary={`${new Date(entry.timestamp).toLocaleString()} · ${METHOD_LABELS[entry.method]}`}
+            secondary={
+              <Box component="span" sx={{ fontFamily: 'monospace', fontSize: '0.85em' }}>
+                {describeRequester(entry)}
+                {entry.chain && ` · tx ${entry.chain.transactionHash.substring(0, 10)}...`}
+              </Box>
+            }
+          />
+        </ListItem>
+      ))}
+    </List>
+  );
+};
+
+interface VerificationLogProps {
+  // Importing on-chain checks is an admin operation
+  canImport: boolean;
+}
+
+/**
+ * Log of verification attempts, API and on-chain, for the files the user can see
+ */
+const VerificationLog: React.FC<VerificationLogProps> = ({ canImport }) => {
+  const [entries, setEntries] = useState<VerificationEntry[]>([]);
+  const [outcome, setOutcome] = useState<VerificationOutcome | ''>('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [syncMessage, setSyncMessage] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async (signal?: AbortSignal) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setEntries(await listVerifications(outcome || undefined, { signal }));
+    } catch (error) {
+      // A newer load replaced this one
+      if (isCancelled(error)) return;
+      console.error('Error loading verification log:', error);
+      setError(getErrorMessage(error, 'Failed to load verification log'));
+    }
+    setIsLoading(false);
+  }, [outcome]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadEntries(controller.signal);
+    return () => controller.abort();
+  }, [loadEntries]);
+
+  const syncOnChain = async () => {
+    setIsSyncing(true);
+    setSyncMessage(null);
+    setError(null);
+
+    try {
+      setSyncMessage(await syncVerifications());
+      await loadEntries();
+    } catch (error) {
+      setError(getErrorMessage(error, 'Failed to import on-chain verifications'));
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+        <TextField
+          select
+          size="small"
+          label="Outcome"
+          value={outcome}
+          onChange={(e) => setOutcome(e.target.value as VerificationOutcome | '')}
+          sx={{ minWidth: 180 }}
+        >
+          <MenuItem value="">All outcomes</MenuItem>
+          {(Object.keys(OUTCOMES) as VerificationOutcome[]).map(key => (
+            <MenuItem key={key} value={key}>{OUTCOMES[key].label}</MenuItem>
+          ))}
+        </TextField>
+        <Box sx={{ flexGrow: 1 }} />
+        {canImport && (
+          <Button
+            variant="outlined"
+            startIcon={isSyncing ? <CircularProgress size={16} /> : <Sync />}
+            onClick={syncOnChain}
+            disabled={isSyncing}
+          >
+            Import On-chain Checks
+          </Button>
+        )}
+        <Button variant="outlined" startIcon={<Refresh />} onClick={() => loadEntries()} disabled={isLoading}>
+          Refresh
+        </Button>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+      {syncMessage && <Alert severity="info" sx={{ mb: 2 }}>{syncMessage}</Alert>}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : entries.length === 0 ? (
+        <Alert severity="info">
+          {outcome ? 'No verifications with this outcome yet.' : 'No verification attempts have been recorded yet.'}
+        </Alert>
+      ) : (
+        <TableContainer component={Paper} elevation={1}>
+          <Table size="small">
+            <TableHead>
+              <TableRow sx={{ bgcolor: 'grey.50' }}>
+                <TableCell>Time</TableCell>
+                <TableCell>File</TableCell>
+                <TableCell>Method</TableCell>
+                <TableCell>Outcome</TableCell>
+                <TableCell>Requester</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id} hover>
+                  <TableCell>{new Date(entry.timestamp).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Typography variant="body2" sx={{ fontWeight: 'medium' }}>
+                      {entry.file ? entry.file.originalName : 'No matching record'}
+                    </Typography>
+                    {entry.calculatedHash && (
+                      <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                        {entry.calculatedHash.substring(0, 16)}...
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{METHOD_LABELS[entry.method]}</TableCell>
+                  <TableCell><OutcomeChip outcome={entry.outcome} /></TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8em' }}>
+                    {describeRequester(entry)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+};
+
+export default VerificationLog;
@@ -0,0 +1,106 @@
+import { ethers } from 'ethers';
+
+/**
+ * Address of the deployed FileIntegrity contract.
+ * Set VITE_FILE_INTEGRITY_ADDRESS to the `contractAddress` from blockchain/deployment.json.
+ */
+export const FILE_INTEGRITY_ADDRESS: string = import.meta.env.VITE_FILE_INTEGRITY_ADDRESS || '';
+
+/**
+ * Subset of the FileIntegrity ABI used by the frontend
+ */
+export const FILE_INTEGRITY_ABI = [
+  'function uploadFile(string _fileName, bytes32 _fileHash, string _ipfsHash, string _description) returns (uint256)',
+  'function uploadFileWithDigests(string _fileName, bytes32 _fileHash, string _ipfsHash, string _description, string[] _algorithms, bytes[] _digests) returns (uint256)',
+  'function getFileIdByDigest(string _algorithm, bytes _digest) view returns (uint256)',
+  'function verifyFile(bytes32 _fileHash) returns (bool isValid, uint256 fileId, address uploader, uint256 timestamp, bool revoked)',
+  'function revokeFile(uint256 _fileId, string _reason)',
+  'function isRevoked(uint256 _fileId) view returns (bool)',
+  'function revocations(uint256) view returns (address revokedBy, uint64 timestamp, bool revoked)',
+  'function hashToFileId(bytes32) view returns (uint256)',
+  'function uploadFileVersion(uint256 _parentFileId, string _fileName, bytes32 _fileHash, string _ipfsHash, string _description, string[] _algorithms, bytes[] _digests) returns (uint256)',
+  'function getFileById(uint256 _fileId) view returns (tuple(bytes32 fileHash, bytes32 metadataHash, address uploader, uint64 timestamp, uint32 version, uint256 parentFileId))',
+  'function fileMetadataHash(string _fileName, string _ipfsHash, string _description) pure returns (bytes32)',
+  'function getLatestVersion(uint256 _fileId) view returns (uint256)',
+  'function getVersionHistory(uint256 _fileId) view returns (uint256[])',
+  'function fileHashExists(bytes32 _fileHash) view returns (bool)',
+  'function getTotalFiles() view returns (uint256)',
+  'function REGISTRAR_ROLE() view returns (bytes32)',
+  'function AUDITOR_ROLE() view returns (bytes32)',
+  'function owner() view returns (address)',
+  'function paused() view returns (bool)',
+  'function hasRole(bytes32 _role, address _account) view returns (bool)',
+  'function grantRole(bytes32 _role, address _account)',
+  'function revokeRole(bytes32 _role, address _account)',
+  'function pause()',
+  'function unpause()',
+  'event FileUploaded(uint256 indexed fileId, bytes32 indexed fileHash, address indexed uploader, string fileName, string ipfsHash, string description)',
+  'event FileVersionAdded(uint256 indexed fileId, uint256 indexed parentFileId, uint256 version)',
+  'event DigestRegistered(uint256 indexed fileId, string algorithm, bytes digest)',
+  'event FileVerified(uint256 indexed fileId, bytes32 fileHash, bool isValid, address indexed verifier)',
+  'event FileRevoked(uint256 indexed fileId, string reason, address indexed revokedBy, uint256 timestamp)',
+  'event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)',
+  'event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)',
+  'event Paused(address account)',
+  'event Unpaused(address account)',
+  'event BatchAnchored(uint256 indexed batchId, bytes32 indexed merkleRoot, uint256 leafCount, address indexed anchorer, uint256 timestamp)',
+];
+
+export function getFileIntegrityContract(runner: ethers.ContractRunner): ethers.Contract {
+  if (!FILE_INTEGRITY_ADDRESS) {
+    throw new Error('FileIntegrity contract address is not configured (VITE_FILE_INTEGRITY_ADDRESS)');
+  }
+  return new ethers.Contract(FILE_INTEGRITY_ADDRESS, FILE_INTEGRITY_ABI, runner);
+}
+
+/**
+ * Contract form of a hex digest as the backend stores it (lowercase, no 0x)
+ */
+export function toDigestBytes(digest: string): string {
+  return ethers.hexlify(`0x${digest.replace(/^0x/i, '')}`);
+}
+
+/**
+ * Backend form of a bytes32/bytes digest read from the contract
+ */
+export function fromDigestBytes(value: string): string {
+  return value.replace(/^0x/i, '').toLowerCase();
+}
+
+export interface ContractRoles {
+  isOwner: boolean;
+  isRegistrar: boolean;
+  isAuditor: boolean;
+  paused: boolean;
+}
+
+/**
+ * Roles an account holds on FileIntegrity, and whether registrations are paused
+ */
+export async function getContractRoles(runner: ethers.ContractRunner, account: string): Promise<ContractRoles> {
+  const contract = getFileIntegrityContract(runner);
+  const [registrarRole, auditorRole] = await Promise.all([contract.REGISTRAR_ROLE(), contract.AUDITOR_ROLE()]);
+  const [owner, isRegistrar, isAuditor, paused] = await Promise.all([
+    contract.owner(),
+    contract.hasRole(registrarRole, account),
+    contract.hasRole(auditorRole, account),
+    contract.paused(),
+  ]);
+  return {
+    isOwner: owner.toLowerCase() === account.toLowerCase(),
+    isRegistrar,
+    isAuditor,
+    paused,
+  };
+}
+
+/**
+ * Turn a wallet / JSON-RPC error into a readable message, preferring the revert reason
+ */
+export function getContractErrorMessage(error: unknown): string {
+  const err = error as { code?: string; reason?: string; shortMessage?: string; message?: string };
+  if (err?.code === 'ACTION_REJECTED') {
+    return 'Transaction was rejected in the wallet';
+  }
+  return err?.reason || err?.shortMessage || err?.message || 'Blockchain transaction failed';
+}
@@ -0,0 +1,154 @@
+import type { ethers } from 'ethers';
+import { apiClient, ApiError } from '../api/client';
+
+/**
+ * Backend accounts: the session token lives in localStorage and is attached
+ * to every request of the API client. A 401 clears it and notifies the app.
+ */
+
+const TOKEN_STORAGE_KEY = 'fileIntegrity.authToken';
+
+export const AUTH_EXPIRED_EVENT = 'file-integrity:auth-expired';
+
+export type UserRole = 'user' | 'admin';
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  createdAt: string;
+}
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+  name: string;
+  role: UserRole;
+  walletAddress: string | null;
+  createdAt: string;
+  apiKeys: ApiKeySummary[];
+}
+
+export interface CreatedApiKey extends ApiKeySummary {
+  key: string;
+}
+
+export function getAuthToken(): string | null {
+  return localStorage.getItem(TOKEN_STORAGE_KEY);
+}
+
+function setAuthToken(token: string | null) {
+  if (token) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+}
+
+/**
+ * Attach the session token to API requests and drop it when the backend rejects it
+ */
+export function installAuthInterceptors() {
+  apiClient.interceptors.request.use(config => {
+    const token = getAuthToken();
+    if (token && !config.headers.has('Authorization')) {
+      config.headers.set('Authorization', `Bearer ${token}`);
+    }
+    return config;
+  });
+
+  // Runs after the client's own interceptor, so failed requests arrive as ApiError
+  apiClient.interceptors.response.use(undefined, error => {
+    if (error instanceof ApiError && error.status === 401 && getAuthToken()) {
+      setAuthToken(null);
+      window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+    }
+    return Promise.reject(error);
+  });
+}
+
+export async function login(email: string, password: string): Promise<AuthUser> {
+  const response = await apiClient.post('/auth/login', { email, password });
+  setAuthToken(response.data.data.token);
+  return response.data.data.user;
+}
+
+export async function register(email: string, password: string, name: string): Promise<AuthUser> {
+  const response = await apiClient.post('/auth/register', { email, password, name });
+  setAuthToken(response.data.data.token);
+  return response.data.data.user;
+}
+
+/**
+ * Sign-In with Ethereum: the wallet signs the backend's one-time EIP-4361 message.
+ * When already signed in, the wallet is linked to the current account.
+ */
+export async function signInWithEthereum(signer: ethers.Signer): Promise<AuthUser> {
+  const address = await signer.getAddress();
+  const network = await signer.provider?.getNetwork();
+
+  const challenge = await apiClient.post('/auth/siwe/challenge', {
+    address,
+    chainId: network?.chainId.toString(),
+  });
+  const { message } = challenge.data.data;
+  const signature = await signer.signMessage(message);
+
+  const response = await apiClient.post('/auth/siwe/verify', { message, signature });
+  setAuthToken(response.data.data.token);
+  return response.data.data.user;
+}
+
+/**
+ * Wallet address the current session was signed in with, if any
+ */
+export function getSessionAddress(): string | null {
+  const token = getAuthToken();
+  if (!token) {
+    return null;
+  }
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload)).address || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * End the session on the backend and forget the token
+ */
+export async function logout(): Promise<void> {
+  if (getAuthToken()) {
+    try {
+      await apiClient.post('/auth/logout');
+    } catch (error) {
+      console.error('Error ending session:', error);
+    }
+  }
+  setAuthToken(null);
+}
+
+/**
+ * Account for the stored session, or null when signed out or the session expired
+ */
+export async function fetchCurrentUser(): Promise<AuthUser | null> {
+  if (!getAuthToken()) {
+    return null;
+  }
+  try {
+    const response = await apiClient.get('/auth/me');
+    return response.data.data;
+  } catch {
+    return null;
+  }
+}
+
+export async function createApiKey(name: string): Promise<CreatedApiKey> {
+  const response = await apiClient.post('/auth/api-keys', { name });
+  return response.data.data;
+}
+
+export async function revokeApiKey(id: string): Promise<void> {
+  await apiClient.delete(`/auth/api-keys/${id}`);
+}
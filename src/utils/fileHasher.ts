@@ -0,0 +1,73 @@
+import type { HashWorkerMessage } from '../workers/hashWorker';
+import { HASH_ALGORITHMS, type Digest, type HashAlgorithm } from './hashAlgorithms';
+
+export interface HashProgress {
+  bytesProcessed: number;
+  totalBytes: number;
+}
+
+export interface HashOptions {
+  onProgress?: (progress: HashProgress) => void;
+  signal?: AbortSignal;
+  chunkSize?: number;
+  algorithms?: readonly HashAlgorithm[];
+}
+
+const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Calculate digests of a file in a Web Worker, streaming it in chunks.
+ * Hex digests are identical to the backend's calculateFileDigests.
+ * Aborting the signal terminates the worker and rejects with an AbortError.
+ */
+export function hashFile(file: Blob, options: HashOptions = {}): Promise<Digest[]> {
+  const { onProgress, signal, chunkSize = DEFAULT_CHUNK_SIZE, algorithms = HASH_ALGORITHMS } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Hashing was cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/hashWorker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException('Hashing was cancelled', 'AbortError'));
+    };
+
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<HashWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.({ bytesProcessed: message.bytesProcessed, totalBytes: message.totalBytes });
+      } else if (message.type === 'done') {
+        cleanup();
+        resolve(message.digests);
+      } else {
+        cleanup();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Hash worker failed'));
+    };
+
+    onProgress?.({ bytesProcessed: 0, totalBytes: file.size });
+    worker.postMessage({ file, chunkSize, algorithms: [...algorithms] });
+  });
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
@@ -0,0 +1,64 @@
+/**
+ * Files picked for upload together with their path inside a selected or
+ * dropped folder, so a folder keeps its structure in the registered names.
+ */
+
+export interface SelectedFile {
+  file: File;
+  // "evidence/photos/1.jpg" for files from a folder, the file name otherwise
+  path: string;
+}
+
+/**
+ * Files from an <input type="file" multiple> or a webkitdirectory input
+ */
+export function fromFileList(files: FileList | null): SelectedFile[] {
+  return Array.from(files || []).map(file => ({
+    file,
+    path: file.webkitRelativePath || file.name,
+  }));
+}
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+async function collectEntry(entry: FileSystemEntry, files: SelectedFile[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await readFile(entry as FileSystemFileEntry);
+    files.push({ file, path: entry.fullPath.replace(/^\//, '') });
+    return;
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns a directory in chunks; an empty chunk ends it
+    for (let chunk = await readEntries(reader); chunk.length > 0; chunk = await readEntries(reader)) {
+      for (const child of chunk) {
+        await collectEntry(child, files);
+      }
+    }
+  }
+}
+
+/**
+ * Files dropped on the page, walking into dropped folders
+ */
+export async function fromDataTransfer(dataTransfer: DataTransfer): Promise<SelectedFile[]> {
+  // Entries have to be taken before the first await, the list is emptied afterwards
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry());
+
+  if (entries.some(entry => entry === null)) {
+    return fromFileList(dataTransfer.files);
+  }
+
+  const files: SelectedFile[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry!, files);
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
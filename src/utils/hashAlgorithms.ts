@@ -0,0 +1,27 @@
+/**
+ * Digest algorithms registered with the backend (see backend/src/hashing.js)
+ */
+export const HASH_ALGORITHMS = ['sha256', 'sha512', 'sha3-256', 'keccak256', 'blake3'] as const;
+
+export type HashAlgorithm = (typeof HASH_ALGORITHMS)[number];
+
+export const HASH_ALGORITHM_LABELS: Record<HashAlgorithm, string> = {
+  sha256: 'SHA-256',
+  sha512: 'SHA-512',
+  'sha3-256': 'SHA3-256',
+  keccak256: 'Keccak-256',
+  blake3: 'BLAKE3',
+};
+
+export interface Digest {
+  algorithm: string;
+  digest: string;
+}
+
+export function getDigest(digests: Digest[] | undefined, algorithm: string): string | undefined {
+  return digests?.find(entry => entry.algorithm === algorithm)?.digest;
+}
+
+export function getAlgorithmLabel(algorithm: string): string {
+  return HASH_ALGORITHM_LABELS[algorithm as HashAlgorithm] || algorithm;
+}
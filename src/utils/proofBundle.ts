@@ -0,0 +1,449 @@
+import { ethers } from 'ethers';
+import { FILE_INTEGRITY_ABI, fromDigestBytes, toDigestBytes } from '../contracts/fileIntegrity';
+import { hashFile, type HashProgress } from './fileHasher';
+import { HASH_ALGORITHMS, getAlgorithmLabel, getDigest, type Digest, type HashAlgorithm } from './hashAlgorithms';
+
+/**
+ * Offline verification of proof bundles produced by GET /api/files/:id/proof
+ * (see backend/src/proofBundle.js). Nothing here talks to the backend; an
+ * optional provider only re-reads the anchoring transactions from the chain.
+ */
+
+export const PROOF_FORMAT = 'file-integrity-proof';
+
+export interface ProofEventLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface ProofPayload {
+  file: {
+    id: string;
+    originalName: string;
+    description: string;
+    uploadTime: string;
+    // Null for hashes imported from a checksum manifest
+    size: number | null;
+    mimetype: string | null;
+    version: number;
+    parentId: string | null;
+  };
+  fileHash: string;
+  digests: Digest[];
+  ipfsHash: string | null;
+  chain: {
+    chainId: string | null;
+    contractAddress: string | null;
+    transactionHash: string;
+    blockNumber: number;
+    onChainFileId: string;
+    uploaderAddress: string | null;
+    eventLog: ProofEventLog | null;
+    // Whether the backend checked the transaction on-chain; missing in format version 1
+    confirmed?: boolean;
+  } | null;
+  batch: {
+    batchId: string;
+    merkleRoot: string;
+    leafCount: number;
+    leafIndex: number;
+    leaf: string;
+    proof: string[];
+    anchor: {
+      transactionHash: string;
+      blockNumber: number;
+      onChainBatchId: string;
+      chainId: string;
+      contractAddress: string;
+      eventLog: ProofEventLog | null;
+    } | null;
+  } | null;
+  revocation?: {
+    reason: string;
+    revokedAt: string;
+    transactionHash: string | null;
+    eventLog: ProofEventLog | null;
+    // Whether the backend read the FileRevoked event on-chain; missing before format version 3
+    confirmed?: boolean;
+  } | null;
+  issuedAt: string;
+}
+
+export interface ProofBundle {
+  format: typeof PROOF_FORMAT;
+  formatVersion: number;
+  payload: ProofPayload;
+  signature: {
+    algorithm: string;
+    signer: string;
+    value: string;
+  };
+}
+
+export type ProofCheckStatus = 'passed' | 'failed' | 'skipped';
+
+export interface ProofCheck {
+  label: string;
+  status: ProofCheckStatus;
+  detail: string;
+}
+
+export interface ProofVerificationResult {
+  valid: boolean;
+  anchored: boolean;
+  // The expected server key vouches for the bundle, or its transactions were confirmed on-chain
+  trusted: boolean;
+  checks: ProofCheck[];
+}
+
+export interface ProofVerificationOptions {
+  expectedSigner?: string;
+  provider?: ethers.Provider;
+  onProgress?: (progress: HashProgress) => void;
+  signal?: AbortSignal;
+}
+
+const contractInterface = new ethers.Interface(FILE_INTEGRITY_ABI);
+
+/**
+ * Deterministic JSON matching the backend's canonicalJson: sorted keys, undefined dropped
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Merkle leaf for a file hash, matching FileIntegrity.batchLeaf
+ */
+export function hashMerkleLeaf(fileHash: string): string {
+  return ethers.solidityPackedKeccak256(['bytes1', 'bytes32'], ['0x00', toDigestBytes(fileHash)]);
+}
+
+/**
+ * Recompute a batch root from a leaf and its proof, matching FileIntegrity.computeMerkleRoot
+ */
+export function computeMerkleRoot(leaf: string, proof: string[]): string {
+  return proof.reduce((node, sibling) => {
+    const [left, right] = BigInt(node) < BigInt(sibling) ? [node, sibling] : [sibling, node];
+    return ethers.solidityPackedKeccak256(['bytes1', 'bytes32', 'bytes32'], ['0x01', left, right]);
+  }, leaf);
+}
+
+/**
+ * Read and sanity-check a proof bundle file
+ */
+export async function parseProofBundle(file: Blob): Promise<ProofBundle> {
+  let bundle: ProofBundle;
+  try {
+    bundle = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Proof bundle is not valid JSON');
+  }
+
+  if (bundle?.format !== PROOF_FORMAT || !bundle.payload || !bundle.signature) {
+    throw new Error('File is not a file integrity proof bundle');
+  }
+  return bundle;
+}
+
+function sameAddress(a: string | null | undefined, b: string | null | undefined): boolean {
+  return Boolean(a && b) && a!.toLowerCase() === b!.toLowerCase();
+}
+
+function decodeLog(log: ProofEventLog, eventName: string): ethers.LogDescription | null {
+  try {
+    const parsed = contractInterface.parseLog({ topics: log.topics, data: log.data });
+    return parsed?.name === eventName ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function checkDigests(file: Blob, payload: ProofPayload, options: ProofVerificationOptions): Promise<ProofCheck> {
+  const algorithms = payload.digests
+    .map(entry => entry.algorithm)
+    .filter((algorithm): algorithm is HashAlgorithm => (HASH_ALGORITHMS as readonly string[]).includes(algorithm));
+
+  const calculated = await hashFile(file, {
+    algorithms,
+    onProgress: options.onProgress,
+    signal: options.signal,
+  });
+
+  const mismatched = algorithms.filter(algorithm => getDigest(calculated, algorithm) !== getDigest(payload.digests, algorithm));
+  if (getDigest(calculated, 'sha256') !== payload.fileHash) {
+    mismatched.push('sha256');
+  }
+
+  if (mismatched.length > 0) {
+    return {
+      label: 'File digests',
+      status: 'failed',
+      detail: `File does not match the bundle (${[...new Set(mismatched)].map(getAlgorithmLabel).join(', ')})`,
+    };
+  }
+  return {
+    label: 'File digests',
+    status: 'passed',
+    detail: `${algorithms.map(getAlgorithmLabel).join(', ')} match the file`,
+  };
+}
+
+function checkSignature(bundle: ProofBundle, expectedSigner?: string): ProofCheck {
+  let recovered: string;
+  try {
+    recovered = ethers.verifyMessage(canonicalJson(bundle.payload), bundle.signature.value);
+  } catch {
+    return { label: 'Server signature', status: 'failed', detail: 'Signature is malformed' };
+  }
+
+  if (!sameAddress(recovered, bundle.signature.signer)) {
+    return { label: 'Server signature', status: 'failed', detail: 'Bundle contents were modified after signing' };
+  }
+  // Anyone can sign a bundle with their own key, so only the published server key counts
+  if (!expectedSigner) {
+    return {
+      label: 'Server signature',
+      status: 'skipped',
+      detail: `Signed by ${recovered}, but no expected signer was given to trust it`,
+    };
+  }
+  if (!sameAddress(recovered, expectedSigner)) {
+    return {
+      label: 'Server signature',
+      status: 'failed',
+      detail: `Signed by ${recovered}, expected ${expectedSigner}`,
+    };
+  }
+  return { label: 'Server signature', status: 'passed', detail: `Signed by the expected server key ${recovered}` };
+}
+
+function checkUploadEvent(payload: ProofPayload): ProofCheck {
+  const { chain } = payload;
+  if (!chain) {
+    return { label: 'Upload transaction', status: 'skipped', detail: 'File was not anchored in its own transaction' };
+  }
+  if (!chain.eventLog) {
+    return { label: 'Upload transaction', status: 'skipped', detail: 'Bundle has no FileUploaded event log' };
+  }
+
+  const event = decodeLog(chain.eventLog, 'FileUploaded');
+  const problems = [
+    !event && 'log is not a FileUploaded event',
+    event && fromDigestBytes(event.args.fileHash) !== payload.fileHash && 'event hash differs from the file hash',
+    event && event.args.fileId.toString() !== chain.onChainFileId && 'event file ID differs',
+    !sameAddress(chain.eventLog.address, chain.contractAddress) && 'log was not emitted by the contract',
+    chain.eventLog.transactionHash !== chain.transactionHash && 'log belongs to another transaction',
+  ].filter(Boolean);
+
+  return problems.length > 0
+    ? { label: 'Upload transaction', status: 'failed', detail: problems.join('; ') }
+    : {
+        label: 'Upload transaction',
+        status: 'passed',
+        detail: `FileUploaded #${chain.onChainFileId} in block ${chain.blockNumber}`
+          + (chain.confirmed ? ', confirmed by the server' : ', not confirmed by the server'),
+      };
+}
+
+function checkRevocation(payload: ProofPayload): ProofCheck[] {
+  const { revocation } = payload;
+  if (!revocation) {
+    return [{ label: 'Revocation', status: 'passed', detail: 'Not revoked when the bundle was issued' }];
+  }
+
+  const checks: ProofCheck[] = [
+    { label: 'Revocation', status: 'failed', detail: `Revoked on ${revocation.revokedAt}: ${revocation.reason}` },
+  ];
+  if (!revocation.transactionHash) {
+    return checks;
+  }
+  if (!revocation.eventLog) {
+    checks.push({ label: 'Revocation transaction', status: 'skipped', detail: 'Bundle has no FileRevoked event log' });
+    return checks;
+  }
+
+  const event = decodeLog(revocation.eventLog, 'FileRevoked');
+  const problems = [
+    !event && 'log is not a FileRevoked event',
+    event && event.args.fileId.toString() !== payload.chain?.onChainFileId && 'event file ID differs',
+    !sameAddress(revocation.eventLog.address, payload.chain?.contractAddress) && 'log was not emitted by the contract',
+    revocation.eventLog.transactionHash !== revocation.transactionHash && 'log belongs to another transaction',
+  ].filter(Boolean);
+
+  checks.push(
+    problems.length > 0
+      ? { label: 'Revocation transaction', status: 'failed', detail: problems.join('; ') }
+      : {
+          label: 'Revocation transaction',
+          status: 'passed',
+          detail: `FileRevoked #${payload.chain!.onChainFileId} in block ${revocation.eventLog.blockNumber}`
+            + (revocation.confirmed ? ', confirmed by the server' : ', not confirmed by the server'),
+        }
+  );
+  return checks;
+}
+
+function checkBatch(payload: ProofPayload): ProofCheck[] {
+  const { batch } = payload;
+  if (!batch) {
+    return [{ label: 'Merkle inclusion', status: 'skipped', detail: 'File is not part of a Merkle batch' }];
+  }
+
+  const leaf = hashMerkleLeaf(payload.fileHash);
+  const included = leaf === batch.leaf && computeMerkleRoot(leaf, batch.proof) === batch.merkleRoot;
+  const checks: ProofCheck[] = [
+    included
+      ? { label: 'Merkle inclusion', status: 'passed', detail: `Leaf #${batch.leafIndex} resolves to ${batch.merkleRoot}` }
+      : { label: 'Merkle inclusion', status: 'failed', detail: 'Proof path does not resolve to the batch root' },
+  ];
+
+  const eventLog = batch.anchor?.eventLog;
+  if (!eventLog) {
+    checks.push({ label: 'Batch anchoring', status: 'skipped', detail: 'Batch root has not been anchored yet' });
+    return checks;
+  }
+
+  const event = decodeLog(eventLog, 'BatchAnchored');
+  const problems = [
+    !event && 'log is not a BatchAnchored event',
+    event && event.args.merkleRoot !== batch.merkleRoot && 'anchored root differs from the batch root',
+    event && event.args.batchId.toString() !== batch.anchor!.onChainBatchId && 'event batch ID differs',
+    !sameAddress(eventLog.address, batch.anchor!.contractAddress) && 'log was not emitted by the contract',
+    eventLog.transactionHash !== batch.anchor!.transactionHash && 'log belongs to another transaction',
+  ].filter(Boolean);
+
+  checks.push(
+    problems.length > 0
+      ? { label: 'Batch anchoring', status: 'failed', detail: problems.join('; ') }
+      : {
+          label: 'Batch anchoring',
+          status: 'passed',
+          detail: `BatchAnchored #${batch.anchor!.onChainBatchId} in block ${batch.anchor!.blockNumber}`,
+        }
+  );
+  return checks;
+}
+
+/**
+ * Compare the chain the bundle was anchored on with the provider's network
+ */
+async function checkNetwork(payload: ProofPayload, provider: ethers.Provider): Promise<ProofCheck> {
+  const expected = [...new Set([payload.chain?.chainId, payload.batch?.anchor?.chainId].filter(Boolean))];
+  let chainId: string;
+  try {
+    chainId = (await provider.getNetwork()).chainId.toString();
+  } catch (error) {
+    return { label: 'Network', status: 'skipped', detail: `Chain unavailable: ${(error as Error).message}` };
+  }
+  if (expected.length === 0) {
+    return { label: 'Network', status: 'skipped', detail: 'Bundle does not name the chain it was anchored on' };
+  }
+  return expected.every(id => id === chainId)
+    ? { label: 'Network', status: 'passed', detail: `Chain ${chainId}` }
+    : { label: 'Network', status: 'failed', detail: `Bundle was anchored on chain ${expected.join(', ')}, the wallet is on chain ${chainId}` };
+}
+
+/**
+ * Confirm an event log is really part of its transaction receipt on the connected chain
+ */
+async function checkLogOnChain(label: string, log: ProofEventLog, provider: ethers.Provider): Promise<ProofCheck> {
+  try {
+    const receipt = await provider.getTransactionReceipt(log.transactionHash);
+    const found = receipt?.status === 1 && receipt.logs.some(entry =>
+      entry.index === log.logIndex &&
+      entry.data === log.data &&
+      entry.topics.join() === log.topics.join() &&
+      sameAddress(entry.address, log.address)
+    );
+    return found
+      ? { label, status: 'passed', detail: `Transaction ${log.transactionHash} confirmed on-chain` }
+      : { label, status: 'failed', detail: 'Event log was not found in the on-chain receipt' };
+  } catch (error) {
+    return { label, status: 'skipped', detail: `Chain unavailable: ${(error as Error).message}` };
+  }
+}
+
+/**
+ * Check a file against a proof bundle: digests, server signature, event logs,
+ * Merkle inclusion and, with a provider, the anchoring transactions themselves.
+ * The bundle is only valid when something outside it vouches for it: the
+ * expected server signer (for chain data the server confirmed) or the chain.
+ */
+export async function verifyProofBundle(
+  file: Blob,
+  bundle: ProofBundle,
+  options: ProofVerificationOptions = {}
+): Promise<ProofVerificationResult> {
+  const { payload } = bundle;
+  const checks: ProofCheck[] = [await checkDigests(file, payload, options)];
+
+  checks.push(
+    payload.file.size === null
+      ? { label: 'File size', status: 'skipped', detail: 'No size was registered for this file' }
+      : file.size === payload.file.size
+        ? { label: 'File size', status: 'passed', detail: `${file.size} bytes` }
+        : { label: 'File size', status: 'failed', detail: `Expected ${payload.file.size} bytes, got ${file.size}` }
+  );
+  const signature = checkSignature(bundle, options.expectedSigner);
+  checks.push(signature);
+  checks.push(checkUploadEvent(payload));
+  checks.push(...checkBatch(payload));
+  checks.push(...checkRevocation(payload));
+
+  // The chain can stand in for the signer only if every anchoring log was found on it
+  let confirmedOnChain = false;
+  if (options.provider) {
+    const network = await checkNetwork(payload, options.provider);
+    const anchorLogs = [
+      { label: 'Upload transaction on-chain', log: payload.chain?.eventLog },
+      { label: 'Batch transaction on-chain', log: payload.batch?.anchor?.eventLog },
+    ].filter((entry): entry is { label: string; log: ProofEventLog } => Boolean(entry.log));
+
+    const anchorChecks: ProofCheck[] = [];
+    for (const { label, log } of anchorLogs) {
+      anchorChecks.push(await checkLogOnChain(label, log, options.provider));
+    }
+    checks.push(network, ...anchorChecks);
+    if (anchorLogs.length === 0) {
+      checks.push({
+        label: 'Anchoring on-chain',
+        status: 'skipped',
+        detail: 'Bundle has no anchoring event log to confirm on-chain; only the server signature can vouch for it',
+      });
+    }
+    if (payload.revocation?.eventLog) {
+      checks.push(await checkLogOnChain('Revocation transaction on-chain', payload.revocation.eventLog, options.provider));
+    }
+
+    confirmedOnChain = network.status === 'passed'
+      && anchorLogs.length > 0
+      && anchorChecks.every(check => check.status === 'passed');
+  }
+
+  const anchored = Boolean(payload.chain || payload.batch?.anchor);
+  const vouchedBySigner = signature.status === 'passed' && (!payload.chain || payload.chain.confirmed === true);
+  const trusted = confirmedOnChain || vouchedBySigner;
+  return {
+    valid: anchored && trusted && checks.every(check => check.status !== 'failed'),
+    anchored,
+    trusted,
+    checks,
+  };
+}
@@ -0,0 +1,62 @@
+import { sha256, sha512 } from '@noble/hashes/sha2';
+import { sha3_256, keccak_256 } from '@noble/hashes/sha3';
+import { blake3 } from '@noble/hashes/blake3';
+import { bytesToHex } from '@noble/hashes/utils';
+import type { Digest, HashAlgorithm } from '../utils/hashAlgorithms';
+
+export interface HashRequest {
+  file: Blob;
+  chunkSize: number;
+  algorithms: HashAlgorithm[];
+}
+
+export type HashWorkerMessage =
+  | { type: 'progress'; bytesProcessed: number; totalBytes: number }
+  | { type: 'done'; digests: Digest[] }
+  | { type: 'error'; message: string };
+
+interface IncrementalHash {
+  update(data: Uint8Array): unknown;
+  digest(): Uint8Array;
+}
+
+const hashFactories: Record<HashAlgorithm, () => IncrementalHash> = {
+  sha256: () => sha256.create(),
+  sha512: () => sha512.create(),
+  'sha3-256': () => sha3_256.create(),
+  keccak256: () => keccak_256.create(),
+  blake3: () => blake3.create({}),
+};
+
+const ctx = self as unknown as Worker;
+
+const post = (message: HashWorkerMessage) => ctx.postMessage(message);
+
+/**
+ * Streams the file in chunks into incremental hashers so memory stays flat
+ * regardless of file size; every requested algorithm is fed in the same pass.
+ */
+ctx.onmessage = async (event: MessageEvent<HashRequest>) => {
+  const { file, chunkSize, algorithms } = event.data;
+
+  try {
+    const hashers = algorithms.map(algorithm => ({ algorithm, hash: hashFactories[algorithm]() }));
+    let offset = 0;
+
+    while (offset < file.size) {
+      const chunk = new Uint8Array(await file.slice(offset, offset + chunkSize).arrayBuffer());
+      for (const { hash } of hashers) {
+        hash.update(chunk);
+      }
+      offset += chunk.byteLength;
+      post({ type: 'progress', bytesProcessed: offset, totalBytes: file.size });
+    }
+
+    post({
+      type: 'done',
+      digests: hashers.map(({ algorithm, hash }) => ({ algorithm, digest: bytesToHex(hash.digest()) })),
+    });
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message || 'Failed to read file' });
+  }
+};